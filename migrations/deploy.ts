@@ -3,10 +3,197 @@
 // configured from the workspace's Anchor.toml.
 
 import * as anchor from "@coral-xyz/anchor";
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+
+import { hasDeployInfo, loadDeployInfo, loadKeypair } from "../scripts/_shared";
+import { Flags } from "../scripts/commands/_args";
+import { tokenBalance } from "../scripts/commands/_context";
+import { CommandResult, printResult } from "../scripts/commands/_output";
+import { escrowCreate } from "../scripts/commands/escrow";
+import { mintCreate } from "../scripts/commands/mint";
+import { vaultInit, vaultLock } from "../scripts/commands/vault";
+import {
+  Profile,
+  clusterForRpcUrl,
+  resolveProfile,
+} from "../scripts/lib/config";
+import {
+  checkUpgradeAuthority,
+  fetchDeployedProgram,
+  workspaceProgramId,
+} from "../scripts/lib/deploy";
+import { listEscrows } from "../scripts/lib/indexer";
+import { TOKEN_METADATA_PROGRAM_ID } from "../scripts/lib/metadata";
+
+/**
+ * anchor migrate [--provider.cluster <cluster>]
+ *
+ * Run after `anchor deploy`. Checks that the workspace agrees on the
+ * program ID for the provider's cluster (scripts/lib/deploy.ts), that the
+ * program is deployed there, and that its upgrade authority is the
+ * provider wallet, or VAULT_ESCROW_UPGRADE_AUTHORITY (a public key, or
+ * "none" for an immutable program).
+ *
+ * With VAULT_ESCROW_BOOTSTRAP=1 it then sets up a fixture environment
+ * through the CLI's own commands, with the provider wallet as the buyer:
+ * a mint whose supply goes to the wallet (and the manifest), the vault and
+ * its ATA, tokens locked in it, and a sample escrow for a seller whose
+ * keypair is kept in .bootstrap/<cluster>-seller.json. On localnet the
+ * wallet is airdropped SOL first. Each step looks at what exists, so a
+ * rerun finishes a partial bootstrap and changes nothing after a full one.
+ */
+
+const UPGRADE_AUTHORITY_ENV = "VAULT_ESCROW_UPGRADE_AUTHORITY";
+const BOOTSTRAP_ENV = "VAULT_ESCROW_BOOTSTRAP";
+const BOOTSTRAP_DIR = ".bootstrap";
+
+const FIXTURE = {
+  lockAmount: "1000",
+  escrowAmount: "100",
+  escrowDeadline: "+7d",
+  // the wallet tops up below this on localnet
+  minLamports: 2 * LAMPORTS_PER_SOL,
+  airdropLamports: 10 * LAMPORTS_PER_SOL,
+};
+
+function expectedUpgradeAuthority(wallet: PublicKey): PublicKey | null {
+  const value = process.env[UPGRADE_AUTHORITY_ENV];
+  if (value === undefined || value === "") return wallet;
+  if (value === "none") return null;
+  return new PublicKey(value);
+}
+
+function report(step: string, result: CommandResult) {
+  console.log(`\n${step}`);
+  printResult(result, false);
+}
+
+// The fixture seller, generated on first use.
+function sellerKeypair(profile: Profile): Keypair {
+  const file = path.join(BOOTSTRAP_DIR, `${profile.name}-seller.json`);
+  if (fs.existsSync(file)) return loadKeypair(file);
+  const seller = Keypair.generate();
+  fs.mkdirSync(BOOTSTRAP_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(Array.from(seller.secretKey)));
+  return seller;
+}
+
+async function bootstrap(
+  provider: anchor.AnchorProvider,
+  profile: Profile,
+  flags: Flags
+) {
+  const { connection } = provider;
+  const wallet = provider.wallet.publicKey;
+
+  if (profile.name === "localnet") {
+    const lamports = await connection.getBalance(wallet);
+    if (lamports < FIXTURE.minLamports) {
+      const signature = await connection.requestAirdrop(
+        wallet,
+        FIXTURE.airdropLamports
+      );
+      const latest = await connection.getLatestBlockhash();
+      await connection.confirmTransaction({ signature, ...latest });
+      report("airdrop", { wallet, signature });
+    }
+  }
+
+  const info = hasDeployInfo(profile) ? loadDeployInfo(profile) : null;
+  const mint = info
+    ? await connection.getAccountInfo(new PublicKey(info.mint))
+    : null;
+  if (!mint) {
+    // a bare local validator has no metadata program
+    const metadata = await connection.getAccountInfo(TOKEN_METADATA_PROGRAM_ID);
+    report(
+      "mint create",
+      await mintCreate({
+        positionals: [],
+        flags: { ...flags, "skip-metadata": metadata === null },
+      })
+    );
+  }
+
+  const seller = sellerKeypair(profile).publicKey;
+  const vault = await vaultInit({
+    positionals: [],
+    flags: { ...flags, seller: seller.toBase58() },
+  });
+  report("vault init", vault);
+
+  const vaultAta = (vault.vaultAta as { address: PublicKey }).address;
+  if (((await tokenBalance(connection, vaultAta)) ?? 0n) === 0n) {
+    report(
+      "vault lock",
+      await vaultLock({
+        positionals: [],
+        flags: { ...flags, amount: FIXTURE.lockAmount },
+      })
+    );
+  }
+
+  const escrows = await listEscrows(
+    connection,
+    profile.programId,
+    { buyer: wallet, seller },
+    0n
+  );
+  if (escrows.length === 0) {
+    report(
+      "escrow create",
+      await escrowCreate({
+        positionals: [],
+        flags: {
+          ...flags,
+          seller: seller.toBase58(),
+          amount: FIXTURE.escrowAmount,
+          deadline: FIXTURE.escrowDeadline,
+        },
+      })
+    );
+  }
+}
 
 module.exports = async function (provider: anchor.AnchorProvider) {
-  // Configure client to use the provider.
   anchor.setProvider(provider);
+  const { connection } = provider;
+  const wallet = provider.wallet.publicKey;
+
+  // the CLI's flags for the provider's cluster and wallet
+  const flags: Flags = {
+    cluster: clusterForRpcUrl(connection.rpcEndpoint),
+    keypair: process.env.ANCHOR_WALLET,
+  };
+  const profile = resolveProfile({
+    cluster: flags.cluster as string,
+    keypair: flags.keypair as string | undefined,
+  });
+
+  const programId = workspaceProgramId(profile.name);
+  if (!profile.programId.equals(programId)) {
+    const used = profile.programId.toBase58();
+    const { name } = profile;
+    const workspace = programId.toBase58();
+    throw new Error(
+      `The ${name} profile uses program ${used}, not the workspace's ${workspace} (check VAULT_ESCROW_PROGRAM_ID)`
+    );
+  }
+  const deployed = await fetchDeployedProgram(connection, programId);
+  checkUpgradeAuthority(deployed, expectedUpgradeAuthority(wallet));
+  report("program", {
+    cluster: profile.name,
+    programId,
+    programData: deployed.programData,
+    deploySlot: deployed.slot,
+    upgradeAuthority: deployed.upgradeAuthority ?? "none (immutable)",
+  });
 
-  // Add your deploy script here.
+  if (process.env[BOOTSTRAP_ENV] !== "1") return;
+  if (profile.name === "mainnet-beta") {
+    throw new Error(`${BOOTSTRAP_ENV} is for localnet and devnet only`);
+  }
+  await bootstrap(provider, profile, flags);
 };
@@ -1,17 +1,21 @@
 use anchor_lang::prelude::*;
 use anchor_spl::associated_token::AssociatedToken;
-use anchor_spl::token::{
+use anchor_spl::token_interface::{
     self,
+    CloseAccount,
     Mint,
-    Token,
     TokenAccount,
-    Transfer,
+    TokenInterface,
+    TransferChecked,
 };
 
 // TEMP PROGRAM ID PLACEHOLDER:
 // We'll replace this with your real ID after `anchor deploy`
 declare_id!("AhtmyF1FM2NwGYECDzgjC6jbNtPnSRDFzhahugFfqkZW");
 
+// Most tranches one escrow can be paid out in.
+pub const MAX_MILESTONES: usize = 8;
+
 #[program]
 pub mod vault_escrow {
     use super::*;
@@ -22,30 +26,64 @@ pub mod vault_escrow {
         vault.authority = ctx.accounts.authority.key();
         vault.mint = ctx.accounts.mint.key();
         vault.bump = ctx.bumps.vault; // <-- Anchor 0.32 style
+        vault.committed = 0;
+        vault.migrating = false;
         Ok(())
     }
 
     // 2. Lock tokens (deposit user's tokens into the vault's ATA)
+    //
+    // Works for SPL Token and Token-2022 mints. With a transfer fee the
+    // vault ATA receives `amount` minus the fee.
     pub fn lock_tokens(ctx: Context<LockTokens>, amount: u64) -> Result<()> {
         // Transfer from user's ATA -> vault's ATA
-        let cpi_accounts = Transfer {
+        let cpi_accounts = TransferChecked {
             from: ctx.accounts.user_ata.to_account_info(),
+            mint: ctx.accounts.mint.to_account_info(),
             to: ctx.accounts.vault_ata.to_account_info(),
             authority: ctx.accounts.user.to_account_info(),
         };
 
         let cpi_ctx = CpiContext::new(ctx.accounts.token_program.to_account_info(), cpi_accounts);
-        token::transfer(cpi_ctx, amount)?;
+        token_interface::transfer_checked(cpi_ctx, amount, ctx.accounts.mint.decimals)?;
 
         Ok(())
     }
 
     // 3. Create escrow record (no token move yet, just store terms)
+    //
+    // `escrow_id` is part of the escrow PDA seeds, so the same buyer and
+    // seller can have any number of escrows against one vault; the client
+    // picks the next unused one. `arbiter`, if set, can settle the escrow
+    // once either party raises a dispute. `milestones`, if any, split
+    // `amount` into tranches the buyer releases one at a time; each may have
+    // its own (earlier) deadline.
     pub fn init_escrow(
         ctx: Context<InitEscrow>,
+        escrow_id: u64,
         amount: u64,
         deadline_unix_ts: i64,
+        arbiter: Option<Pubkey>,
+        milestones: Vec<MilestoneTerms>,
     ) -> Result<()> {
+        if !milestones.is_empty() {
+            require!(
+                milestones.len() <= MAX_MILESTONES,
+                EscrowError::InvalidMilestones
+            );
+            // every tranche pays something, by the escrow deadline at the latest
+            require!(
+                milestones.iter().all(|m| m.amount > 0
+                    && m.deadline_unix_ts.map_or(true, |d| d <= deadline_unix_ts)),
+                EscrowError::InvalidMilestones
+            );
+            // and together they are exactly the escrowed amount
+            let total = milestones
+                .iter()
+                .try_fold(0u64, |sum, m| sum.checked_add(m.amount));
+            require!(total == Some(amount), EscrowError::InvalidMilestones);
+        }
+
         let escrow = &mut ctx.accounts.escrow;
         escrow.vault = ctx.accounts.vault.key();
         escrow.buyer = ctx.accounts.buyer.key();
@@ -55,10 +93,29 @@ pub mod vault_escrow {
         escrow.deadline_unix_ts = deadline_unix_ts;
         escrow.released = false;
         escrow.bump = ctx.bumps.escrow; // <-- Anchor 0.32 style
+        escrow.disputed = false;
+        escrow.escrow_id = escrow_id;
+        escrow.arbiter = arbiter;
+        escrow.amount_released = 0;
+        escrow.milestones = milestones
+            .iter()
+            .map(|m| Milestone {
+                amount: m.amount,
+                deadline_unix_ts: m.deadline_unix_ts,
+                released: false,
+            })
+            .collect();
+
+        // reserve the amount so `withdraw` can't take it back out
+        let vault = &mut ctx.accounts.vault;
+        vault.committed = vault.committed.saturating_add(amount);
         Ok(())
     }
 
     // 4(a). Buyer approves before deadline -> release to seller
+    //
+    // Pays whatever hasn't been released yet: everything, or the milestones
+    // still outstanding.
     pub fn release_to_seller(ctx: Context<ReleaseToSeller>) -> Result<()> {
         let now_ts = Clock::get()?.unix_timestamp;
 
@@ -90,8 +147,9 @@ pub mod vault_escrow {
             &[vault.bump],
         ]];
 
-        let cpi_accounts = Transfer {
+        let cpi_accounts = TransferChecked {
             from: ctx.accounts.vault_ata.to_account_info(),
+            mint: ctx.accounts.mint.to_account_info(),
             to: ctx.accounts.seller_ata.to_account_info(),
             authority: ctx.accounts.vault.to_account_info(),
         };
@@ -102,15 +160,27 @@ pub mod vault_escrow {
             signer_seeds,
         );
 
-        token::transfer(cpi_ctx, ctx.accounts.escrow.amount_locked)?;
+        // With a Token-2022 transfer fee the vault still sends amount_locked;
+        // the fee is withheld from what arrives.
+        let escrow = &ctx.accounts.escrow;
+        let remaining = escrow.amount_locked - escrow.amount_released;
+        token_interface::transfer_checked(cpi_ctx, remaining, ctx.accounts.mint.decimals)?;
 
-        // mark escrow as done
-        ctx.accounts.escrow.released = true;
+        let vault = &mut ctx.accounts.vault;
+        vault.committed = vault.committed.saturating_sub(remaining);
+
+        // mark escrow (and every milestone) as done
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.amount_released = escrow.amount_locked;
+        for milestone in escrow.milestones.iter_mut() {
+            milestone.released = true;
+        }
+        escrow.released = true;
 
         Ok(())
     }
 
-    // 4(b). After deadline, refund the buyer if not released
+    // 4(b). After deadline, refund the buyer what hasn't been released
     pub fn refund_buyer(ctx: Context<RefundBuyer>) -> Result<()> {
         let now_ts = Clock::get()?.unix_timestamp;
 
@@ -132,6 +202,12 @@ pub mod vault_escrow {
             EscrowError::AlreadyReleased
         );
 
+        // A dispute freezes the deadline refund; the arbiter decides
+        require!(
+            ctx.accounts.escrow.disputed == false,
+            EscrowError::Disputed
+        );
+
         // Transfer vault_ata -> buyer_ata, signed by vault PDA
         let vault = &ctx.accounts.vault;
 
@@ -142,8 +218,9 @@ pub mod vault_escrow {
             &[vault.bump],
         ]];
 
-        let cpi_accounts = Transfer {
+        let cpi_accounts = TransferChecked {
             from: ctx.accounts.vault_ata.to_account_info(),
+            mint: ctx.accounts.mint.to_account_info(),
             to: ctx.accounts.buyer_ata.to_account_info(),
             authority: ctx.accounts.vault.to_account_info(),
         };
@@ -154,13 +231,320 @@ pub mod vault_escrow {
             signer_seeds,
         );
 
-        token::transfer(cpi_ctx, ctx.accounts.escrow.amount_locked)?;
+        // Milestones already paid stay with the seller. With a Token-2022
+        // transfer fee the fee is withheld from what arrives.
+        let escrow = &ctx.accounts.escrow;
+        let remaining = escrow.amount_locked - escrow.amount_released;
+        token_interface::transfer_checked(cpi_ctx, remaining, ctx.accounts.mint.decimals)?;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.committed = vault.committed.saturating_sub(remaining);
 
         // mark escrow finished so it can't be reused
         ctx.accounts.escrow.released = true;
 
         Ok(())
     }
+
+    // 4(c). Buyer approves one milestone -> release that tranche to seller,
+    //       before the milestone's deadline (or the escrow's, if it has none)
+    pub fn release_milestone(ctx: Context<ReleaseToSeller>, index: u8) -> Result<()> {
+        let now_ts = Clock::get()?.unix_timestamp;
+        let escrow = &ctx.accounts.escrow;
+
+        // Caller must be buyer
+        require!(
+            ctx.accounts.buyer.key() == escrow.buyer,
+            EscrowError::NotBuyer
+        );
+
+        require!(escrow.released == false, EscrowError::AlreadyReleased);
+
+        let milestone = *escrow
+            .milestones
+            .get(index as usize)
+            .ok_or(error!(EscrowError::MilestoneNotFound))?;
+        require!(
+            milestone.released == false,
+            EscrowError::MilestoneAlreadyReleased
+        );
+        require!(
+            now_ts <= milestone.deadline_unix_ts.unwrap_or(escrow.deadline_unix_ts),
+            EscrowError::DeadlinePassed
+        );
+
+        // Transfer vault_ata -> seller_ata, signed by vault PDA
+        let vault = &ctx.accounts.vault;
+
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            b"vault",
+            vault.mint.as_ref(),
+            vault.authority.as_ref(),
+            &[vault.bump],
+        ]];
+
+        let cpi_accounts = TransferChecked {
+            from: ctx.accounts.vault_ata.to_account_info(),
+            mint: ctx.accounts.mint.to_account_info(),
+            to: ctx.accounts.seller_ata.to_account_info(),
+            authority: ctx.accounts.vault.to_account_info(),
+        };
+
+        let cpi_ctx = CpiContext::new_with_signer(
+            ctx.accounts.token_program.to_account_info(),
+            cpi_accounts,
+            signer_seeds,
+        );
+
+        token_interface::transfer_checked(cpi_ctx, milestone.amount, ctx.accounts.mint.decimals)?;
+
+        // the escrow is done once the last milestone is paid
+        let escrow = &mut ctx.accounts.escrow;
+        escrow.milestones[index as usize].released = true;
+        escrow.amount_released += milestone.amount;
+        escrow.released = escrow.amount_released == escrow.amount_locked;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.committed = vault.committed.saturating_sub(milestone.amount);
+
+        Ok(())
+    }
+
+    // 5. Buyer or seller disputes the escrow; only escrows with an arbiter
+    pub fn raise_dispute(ctx: Context<RaiseDispute>) -> Result<()> {
+        let escrow = &mut ctx.accounts.escrow;
+        let party = ctx.accounts.party.key();
+
+        // Caller must be buyer or seller
+        require!(
+            party == escrow.buyer || party == escrow.seller,
+            EscrowError::NotParty
+        );
+
+        require!(escrow.arbiter.is_some(), EscrowError::NoArbiter);
+        require!(escrow.released == false, EscrowError::AlreadyReleased);
+        require!(escrow.disputed == false, EscrowError::AlreadyDisputed);
+
+        escrow.disputed = true;
+        Ok(())
+    }
+
+    // 6. Arbiter settles a disputed escrow: `seller_amount` to the seller,
+    //    the rest of what hasn't been released back to the buyer. Ignores
+    //    the deadline.
+    pub fn arbiter_resolve(ctx: Context<ArbiterResolve>, seller_amount: u64) -> Result<()> {
+        let escrow = &ctx.accounts.escrow;
+
+        // Caller must be the escrow's arbiter
+        require!(
+            escrow.arbiter == Some(ctx.accounts.arbiter.key()),
+            EscrowError::NotArbiter
+        );
+
+        require!(escrow.released == false, EscrowError::AlreadyReleased);
+        require!(escrow.disputed, EscrowError::NotDisputed);
+        let remaining = escrow.amount_locked - escrow.amount_released;
+        require!(
+            seller_amount <= remaining,
+            EscrowError::SplitExceedsLocked
+        );
+        let buyer_amount = remaining - seller_amount;
+
+        let vault = &ctx.accounts.vault;
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            b"vault",
+            vault.mint.as_ref(),
+            vault.authority.as_ref(),
+            &[vault.bump],
+        ]];
+
+        // Skip empty legs so an all-or-nothing ruling is one transfer
+        for (to, amount) in [
+            (ctx.accounts.seller_ata.to_account_info(), seller_amount),
+            (ctx.accounts.buyer_ata.to_account_info(), buyer_amount),
+        ] {
+            if amount == 0 {
+                continue;
+            }
+            let cpi_accounts = TransferChecked {
+                from: ctx.accounts.vault_ata.to_account_info(),
+                mint: ctx.accounts.mint.to_account_info(),
+                to,
+                authority: ctx.accounts.vault.to_account_info(),
+            };
+            let cpi_ctx = CpiContext::new_with_signer(
+                ctx.accounts.token_program.to_account_info(),
+                cpi_accounts,
+                signer_seeds,
+            );
+            token_interface::transfer_checked(cpi_ctx, amount, ctx.accounts.mint.decimals)?;
+        }
+
+        let vault = &mut ctx.accounts.vault;
+        vault.committed = vault.committed.saturating_sub(remaining);
+        ctx.accounts.escrow.released = true;
+
+        Ok(())
+    }
+
+    // 7. Vault authority takes back tokens no unreleased escrow is counting on
+    pub fn withdraw(ctx: Context<Withdraw>, amount: u64) -> Result<()> {
+        let vault = &ctx.accounts.vault;
+        require!(!vault.migrating, EscrowError::VaultMigrating);
+        let free = ctx.accounts.vault_ata.amount.saturating_sub(vault.committed);
+        require!(amount <= free, EscrowError::WithdrawExceedsFree);
+
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            b"vault",
+            vault.mint.as_ref(),
+            vault.authority.as_ref(),
+            &[vault.bump],
+        ]];
+
+        let cpi_accounts = TransferChecked {
+            from: ctx.accounts.vault_ata.to_account_info(),
+            mint: ctx.accounts.mint.to_account_info(),
+            to: ctx.accounts.authority_ata.to_account_info(),
+            authority: ctx.accounts.vault.to_account_info(),
+        };
+
+        let cpi_ctx = CpiContext::new_with_signer(
+            ctx.accounts.token_program.to_account_info(),
+            cpi_accounts,
+            signer_seeds,
+        );
+
+        token_interface::transfer_checked(cpi_ctx, amount, ctx.accounts.mint.decimals)?;
+
+        Ok(())
+    }
+
+    // 8. Buyer reclaims the rent of a finished escrow
+    pub fn close_escrow(ctx: Context<CloseEscrow>) -> Result<()> {
+        // Released (or refunded, or resolved) escrows only; `close = buyer`
+        // does the rest
+        require!(ctx.accounts.escrow.released, EscrowError::NotReleased);
+        Ok(())
+    }
+
+    // 9. Vault authority closes an empty vault: the vault ATA, then the
+    //    vault itself, rent to the authority
+    pub fn close_vault(ctx: Context<CloseVault>) -> Result<()> {
+        let vault = &ctx.accounts.vault;
+        require!(
+            vault.committed == 0 && ctx.accounts.vault_ata.amount == 0,
+            EscrowError::VaultNotEmpty
+        );
+
+        let signer_seeds: &[&[&[u8]]] = &[&[
+            b"vault",
+            vault.mint.as_ref(),
+            vault.authority.as_ref(),
+            &[vault.bump],
+        ]];
+
+        let cpi_accounts = CloseAccount {
+            account: ctx.accounts.vault_ata.to_account_info(),
+            destination: ctx.accounts.authority.to_account_info(),
+            authority: ctx.accounts.vault.to_account_info(),
+        };
+
+        let cpi_ctx = CpiContext::new_with_signer(
+            ctx.accounts.token_program.to_account_info(),
+            cpi_accounts,
+            signer_seeds,
+        );
+
+        token_interface::close_account(cpi_ctx)?;
+
+        Ok(())
+    }
+
+    // 10. Grow a vault from an older layout to this build's. One from
+    //     before `committed` can't tell what the escrows from before escrow
+    //     IDs against it owe, so it starts at zero and `migrating`:
+    //     migrate_escrow counts each of those escrows as it moves it, and
+    //     withdraw waits for finish_vault_migration. One that already has
+    //     `committed` keeps it. A no-op for vaults in this build's layout.
+    pub fn migrate_vault(ctx: Context<MigrateVault>) -> Result<()> {
+        let vault = ctx.accounts.vault.to_account_info();
+        let size = {
+            let data = vault.try_borrow_data()?;
+            require!(
+                data.starts_with(Vault::DISCRIMINATOR),
+                ErrorCode::AccountDiscriminatorMismatch
+            );
+            data.len()
+        };
+        if size >= VAULT_SIZE {
+            return Ok(());
+        }
+        require!(
+            size == LEGACY_VAULT_SIZE || size == LEGACY_COMMITTED_VAULT_SIZE,
+            ErrorCode::AccountDidNotDeserialize
+        );
+
+        // the authority tops up the rent for the new bytes
+        let rent = Rent::get()?.minimum_balance(VAULT_SIZE);
+        let lamports = vault.lamports();
+        if rent > lamports {
+            let cpi_accounts = anchor_lang::system_program::Transfer {
+                from: ctx.accounts.authority.to_account_info(),
+                to: vault.clone(),
+            };
+            let cpi_ctx =
+                CpiContext::new(ctx.accounts.system_program.to_account_info(), cpi_accounts);
+            anchor_lang::system_program::transfer(cpi_ctx, rent - lamports)?;
+        }
+
+        // the new bytes are zeroed, so a new `committed` starts at 0;
+        // `migrating` is the last field
+        vault.resize(VAULT_SIZE)?;
+        vault.try_borrow_mut_data()?[VAULT_SIZE - 1] = (size == LEGACY_VAULT_SIZE) as u8;
+        Ok(())
+    }
+
+    // 11. Buyer or vault authority moves an escrow from before escrow IDs,
+    //     still at ["escrow", vault, buyer, seller] in an older layout, to a
+    //     new escrow under `escrow_id` with the same terms and progress; the
+    //     buyer gets the old account's rent back. What it still owes is
+    //     added to the vault's `committed`. Released escrows move too, so
+    //     close_escrow can reclaim them.
+    pub fn migrate_escrow(ctx: Context<MigrateEscrow>, escrow_id: u64) -> Result<()> {
+        let legacy = read_legacy_escrow(&ctx.accounts.legacy_escrow.try_borrow_data()?)?;
+        require_keys_eq!(
+            legacy.token_mint,
+            ctx.accounts.mint.key(),
+            ErrorCode::ConstraintTokenMint
+        );
+
+        if !legacy.released {
+            let vault = &mut ctx.accounts.vault;
+            vault.committed = vault
+                .committed
+                .saturating_add(legacy.amount_locked - legacy.amount_released);
+        }
+
+        ctx.accounts.escrow.set_inner(Escrow {
+            escrow_id,
+            bump: ctx.bumps.escrow,
+            ..legacy
+        });
+
+        anchor_lang::common::close(
+            ctx.accounts.legacy_escrow.to_account_info(),
+            ctx.accounts.buyer.to_account_info(),
+        )
+    }
+
+    // 12. Vault authority declares every escrow from before escrow IDs
+    //     against the vault moved, and so counted in `committed`; withdraw
+    //     works again. The program can't list those escrows itself, so this
+    //     is the authority's word (`escrow migrate` checks before sending).
+    pub fn finish_vault_migration(ctx: Context<FinishVaultMigration>) -> Result<()> {
+        ctx.accounts.vault.migrating = false;
+        Ok(())
+    }
 }
 
 // ------------------ STATE ACCOUNTS ------------------
@@ -170,18 +554,148 @@ pub struct Vault {
     pub authority: Pubkey, // who initialized this vault
     pub mint: Pubkey,      // which token this vault is for
     pub bump: u8,          // PDA bump
+    pub committed: u64,    // owed to unreleased escrows; withdraw leaves it
+    pub migrating: bool,   // older escrows still uncounted; withdraw waits
 }
 
+// discriminator + authority + mint + bump + committed + migrating
+pub const VAULT_SIZE: usize = 8 + 32 + 32 + 1 + 8 + 1;
+
+// Vaults from before `committed`, and from before `migrating`.
+pub const LEGACY_VAULT_SIZE: usize = 8 + 32 + 32 + 1;
+pub const LEGACY_COMMITTED_VAULT_SIZE: usize = LEGACY_VAULT_SIZE + 8;
+
 #[account]
 pub struct Escrow {
     pub vault: Pubkey,           // vault PDA that actually holds tokens
     pub buyer: Pubkey,           // person funding escrow
     pub seller: Pubkey,          // person who will receive tokens
-    pub token_mint: Pubkey,      // which SPL token
+    pub token_mint: Pubkey,      // which SPL / Token-2022 token
     pub amount_locked: u64,      // how many tokens are reserved
     pub deadline_unix_ts: i64,   // release allowed until this
     pub released: bool,          // already finalized?
     pub bump: u8,                // PDA bump
+    pub disputed: bool,          // refund frozen until the arbiter rules
+    pub escrow_id: u64,          // last PDA seed; tells a pair's escrows apart
+    pub arbiter: Option<Pubkey>, // who settles disputes, if anyone
+    pub amount_released: u64,    // paid to the seller so far
+    pub milestones: Vec<Milestone>, // tranches; empty = one payout
+}
+
+pub const ESCROW_SIZE: usize = 8
+    + 32  // vault
+    + 32  // buyer
+    + 32  // seller
+    + 32  // token_mint
+    + 8   // amount_locked
+    + 8   // deadline_unix_ts
+    + 1   // released
+    + 1   // bump
+    + 1   // disputed
+    + 8   // escrow_id
+    + 1 + 32 // arbiter (Option<Pubkey>)
+    + 8   // amount_released
+    + 4 + MAX_MILESTONES * (8 + 1 + 8 + 1); // milestones
+
+// Escrows from before escrow IDs, by build: the original layout ends at
+// `bump`, disputes added `disputed` and `arbiter`, milestones added
+// `amount_released` and `milestones`. Each was allocated at its full size.
+pub const LEGACY_ESCROW_SIZE: usize = 8 + 32 + 32 + 32 + 32 + 8 + 8 + 1 + 1;
+pub const LEGACY_DISPUTE_ESCROW_SIZE: usize = LEGACY_ESCROW_SIZE + 1 + (1 + 32);
+pub const LEGACY_MILESTONE_ESCROW_SIZE: usize =
+    LEGACY_DISPUTE_ESCROW_SIZE + 8 + (4 + MAX_MILESTONES * (8 + 1 + 8 + 1));
+
+#[derive(AnchorDeserialize)]
+struct LegacyEscrowHead {
+    vault: Pubkey,
+    buyer: Pubkey,
+    seller: Pubkey,
+    token_mint: Pubkey,
+    amount_locked: u64,
+    deadline_unix_ts: i64,
+    released: bool,
+    bump: u8,
+}
+
+#[derive(AnchorDeserialize)]
+struct LegacyEscrowDispute {
+    disputed: bool,
+    arbiter: Option<Pubkey>,
+}
+
+#[derive(AnchorDeserialize)]
+struct LegacyEscrowMilestones {
+    amount_released: u64,
+    milestones: Vec<Milestone>,
+}
+
+fn legacy_field<T: AnchorDeserialize>(data: &mut &[u8]) -> Result<T> {
+    T::deserialize(data).map_err(|_| error!(ErrorCode::AccountDidNotDeserialize))
+}
+
+// A legacy escrow account as an Escrow (escrow_id 0), with the fields its
+// build didn't have at their zero values.
+pub fn read_legacy_escrow(data: &[u8]) -> Result<Escrow> {
+    require!(
+        data.starts_with(Escrow::DISCRIMINATOR),
+        ErrorCode::AccountDiscriminatorMismatch
+    );
+    let size = data.len();
+    require!(
+        size == LEGACY_ESCROW_SIZE
+            || size == LEGACY_DISPUTE_ESCROW_SIZE
+            || size == LEGACY_MILESTONE_ESCROW_SIZE,
+        ErrorCode::AccountDidNotDeserialize
+    );
+
+    let mut rest = &data[8..];
+    let head: LegacyEscrowHead = legacy_field(&mut rest)?;
+    let dispute = if size >= LEGACY_DISPUTE_ESCROW_SIZE {
+        legacy_field(&mut rest)?
+    } else {
+        LegacyEscrowDispute {
+            disputed: false,
+            arbiter: None,
+        }
+    };
+    let progress = if size >= LEGACY_MILESTONE_ESCROW_SIZE {
+        legacy_field(&mut rest)?
+    } else {
+        LegacyEscrowMilestones {
+            amount_released: 0,
+            milestones: Vec::new(),
+        }
+    };
+
+    Ok(Escrow {
+        vault: head.vault,
+        buyer: head.buyer,
+        seller: head.seller,
+        token_mint: head.token_mint,
+        amount_locked: head.amount_locked,
+        deadline_unix_ts: head.deadline_unix_ts,
+        released: head.released,
+        bump: head.bump,
+        disputed: dispute.disputed,
+        escrow_id: 0,
+        arbiter: dispute.arbiter,
+        amount_released: progress.amount_released,
+        milestones: progress.milestones,
+    })
+}
+
+// One tranche of a milestone escrow, as passed to init_escrow.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct MilestoneTerms {
+    pub amount: u64,
+    pub deadline_unix_ts: Option<i64>, // defaults to the escrow deadline
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Milestone {
+    pub amount: u64,
+    pub deadline_unix_ts: Option<i64>,
+    pub released: bool,
 }
 
 // ------------------ ACCOUNTS CONTEXT ------------------
@@ -192,12 +706,12 @@ pub struct InitVault<'info> {
     #[account(mut)]
     pub authority: Signer<'info>, // you (vault owner/admin)
 
-    pub mint: Account<'info, Mint>,
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         init,
         payer = authority,
-        space = 8 + 32 + 32 + 1, // discriminator + fields
+        space = VAULT_SIZE,
         seeds = [
             b"vault",
             mint.key().as_ref(),
@@ -216,7 +730,7 @@ pub struct LockTokens<'info> {
     #[account(mut)]
     pub user: Signer<'info>, // the wallet providing tokens
 
-    pub mint: Account<'info, Mint>,
+    pub mint: InterfaceAccount<'info, Mint>,
 
     // vault PDA must already exist
     #[account(
@@ -234,8 +748,9 @@ pub struct LockTokens<'info> {
         mut,
         associated_token::mint = mint,
         associated_token::authority = vault,
+        associated_token::token_program = token_program,
     )]
-    pub vault_ata: Account<'info, TokenAccount>,
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
 
     // user's token account (source)
     #[account(
@@ -243,15 +758,16 @@ pub struct LockTokens<'info> {
         constraint = user_ata.owner == user.key(),
         constraint = user_ata.mint == mint.key(),
     )]
-    pub user_ata: Account<'info, TokenAccount>,
+    pub user_ata: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
 }
 
 // init_escrow: record escrow conditions
 #[derive(Accounts)]
+#[instruction(escrow_id: u64)]
 pub struct InitEscrow<'info> {
     #[account(mut)]
     pub buyer: Signer<'info>,
@@ -260,36 +776,32 @@ pub struct InitEscrow<'info> {
     /// We only need seller's pubkey here.
     pub seller: UncheckedAccount<'info>,
 
-    pub mint: Account<'info, Mint>,
+    pub mint: InterfaceAccount<'info, Mint>,
 
     // reference vault PDA
     #[account(
+        mut,
         seeds = [
             b"vault",
             mint.key().as_ref(),
             vault.authority.as_ref(),
         ],
         bump = vault.bump,
+        // only the vault's owner can promise its tokens
+        constraint = vault.authority == buyer.key() @ EscrowError::NotVaultAuthority,
     )]
     pub vault: Account<'info, Vault>,
 
     #[account(
         init,
         payer = buyer,
-        space = 8
-            + 32  // vault
-            + 32  // buyer
-            + 32  // seller
-            + 32  // token_mint
-            + 8   // amount_locked
-            + 8   // deadline_unix_ts
-            + 1   // released
-            + 1,  // bump
+        space = ESCROW_SIZE,
         seeds = [
             b"escrow",
             vault.key().as_ref(),
             buyer.key().as_ref(),
             seller.key().as_ref(),
+            escrow_id.to_le_bytes().as_ref(),
         ],
         bump
     )]
@@ -307,7 +819,7 @@ pub struct ReleaseToSeller<'info> {
     #[account(mut)]
     pub seller: SystemAccount<'info>, // will receive tokens
 
-    pub mint: Account<'info, Mint>,
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         mut,
@@ -320,6 +832,7 @@ pub struct ReleaseToSeller<'info> {
     pub escrow: Account<'info, Escrow>,
 
     #[account(
+        mut,
         seeds = [
             b"vault",
             mint.key().as_ref(),
@@ -334,18 +847,20 @@ pub struct ReleaseToSeller<'info> {
         mut,
         associated_token::mint = mint,
         associated_token::authority = vault,
+        associated_token::token_program = token_program,
     )]
-    pub vault_ata: Account<'info, TokenAccount>,
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
 
     // seller ATA (dest)
     #[account(
         mut,
         associated_token::mint = mint,
         associated_token::authority = seller,
+        associated_token::token_program = token_program,
     )]
-    pub seller_ata: Account<'info, TokenAccount>,
+    pub seller_ata: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
 }
@@ -356,7 +871,7 @@ pub struct RefundBuyer<'info> {
     #[account(mut)]
     pub buyer: Signer<'info>, // must match escrow.buyer
 
-    pub mint: Account<'info, Mint>,
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         mut,
@@ -368,6 +883,7 @@ pub struct RefundBuyer<'info> {
     pub escrow: Account<'info, Escrow>,
 
     #[account(
+        mut,
         seeds = [
             b"vault",
             mint.key().as_ref(),
@@ -382,22 +898,305 @@ pub struct RefundBuyer<'info> {
         mut,
         associated_token::mint = mint,
         associated_token::authority = vault,
+        associated_token::token_program = token_program,
     )]
-    pub vault_ata: Account<'info, TokenAccount>,
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
 
     // buyer ATA (dest)
     #[account(
         mut,
         associated_token::mint = mint,
         associated_token::authority = buyer,
+        associated_token::token_program = token_program,
+    )]
+    pub buyer_ata: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+// raise_dispute: buyer or seller freezes the escrow for the arbiter
+#[derive(Accounts)]
+pub struct RaiseDispute<'info> {
+    pub party: Signer<'info>, // must be escrow.buyer or escrow.seller
+
+    #[account(mut)]
+    pub escrow: Account<'info, Escrow>,
+}
+
+// arbiter_resolve: split amount_locked between seller and buyer
+#[derive(Accounts)]
+pub struct ArbiterResolve<'info> {
+    #[account(mut)]
+    pub arbiter: Signer<'info>, // must match escrow.arbiter
+
+    /// CHECK:
+    /// Only receives tokens; checked against escrow.buyer.
+    pub buyer: UncheckedAccount<'info>,
+
+    /// CHECK:
+    /// Only receives tokens; checked against escrow.seller.
+    pub seller: UncheckedAccount<'info>,
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        constraint = escrow.vault == vault.key(),
+        constraint = escrow.buyer == buyer.key(),
+        constraint = escrow.seller == seller.key(),
+        constraint = escrow.token_mint == mint.key(),
+        constraint = escrow.amount_locked > 0,
+    )]
+    pub escrow: Account<'info, Escrow>,
+
+    #[account(
+        mut,
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            vault.authority.as_ref(),
+        ],
+        bump = vault.bump,
+    )]
+    pub vault: Account<'info, Vault>,
+
+    // vault ATA (source)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = vault,
+        associated_token::token_program = token_program,
+    )]
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
+
+    // buyer ATA (dest for the remainder)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = buyer,
+        associated_token::token_program = token_program,
+    )]
+    pub buyer_ata: InterfaceAccount<'info, TokenAccount>,
+
+    // seller ATA (dest for seller_amount)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = seller,
+        associated_token::token_program = token_program,
+    )]
+    pub seller_ata: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+// withdraw: vault authority takes free tokens back to its ATA
+#[derive(Accounts)]
+pub struct Withdraw<'info> {
+    #[account(mut)]
+    pub authority: Signer<'info>, // must be vault.authority (seeds)
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            authority.key().as_ref(),
+        ],
+        bump = vault.bump,
+    )]
+    pub vault: Account<'info, Vault>,
+
+    // vault ATA (source)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = vault,
+        associated_token::token_program = token_program,
+    )]
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
+
+    // authority ATA (dest)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = authority,
+        associated_token::token_program = token_program,
     )]
-    pub buyer_ata: Account<'info, TokenAccount>,
+    pub authority_ata: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
     pub system_program: Program<'info, System>,
 }
 
+// close_escrow: buyer gets the rent of a finished escrow back
+#[derive(Accounts)]
+pub struct CloseEscrow<'info> {
+    #[account(mut)]
+    pub buyer: Signer<'info>, // must match escrow.buyer
+
+    #[account(
+        mut,
+        constraint = escrow.buyer == buyer.key() @ EscrowError::NotBuyer,
+        close = buyer,
+    )]
+    pub escrow: Account<'info, Escrow>,
+}
+
+// close_vault: vault authority closes an empty vault and its ATA
+#[derive(Accounts)]
+pub struct CloseVault<'info> {
+    #[account(mut)]
+    pub authority: Signer<'info>, // must be vault.authority (seeds)
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            authority.key().as_ref(),
+        ],
+        bump = vault.bump,
+        close = authority,
+    )]
+    pub vault: Account<'info, Vault>,
+
+    // vault ATA, closed in the handler
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = vault,
+        associated_token::token_program = token_program,
+    )]
+    pub vault_ata: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+// migrate_vault: grows a Vault from an older layout
+#[derive(Accounts)]
+pub struct MigrateVault<'info> {
+    #[account(mut)]
+    pub authority: Signer<'info>, // pays for the extra bytes
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    /// CHECK:
+    /// Old layout, so it can't be an Account<Vault>; the seeds tie it to
+    /// mint and authority and the handler checks the discriminator, then
+    /// grows it.
+    #[account(
+        mut,
+        owner = crate::ID,
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            authority.key().as_ref(),
+        ],
+        bump,
+    )]
+    pub vault: UncheckedAccount<'info>,
+
+    pub system_program: Program<'info, System>,
+}
+
+// migrate_escrow: moves an escrow from before escrow IDs to its new address
+#[derive(Accounts)]
+#[instruction(escrow_id: u64)]
+pub struct MigrateEscrow<'info> {
+    #[account(
+        mut,
+        constraint = payer.key() == buyer.key() || payer.key() == vault.authority
+            @ EscrowError::NotBuyerOrVaultAuthority,
+    )]
+    pub payer: Signer<'info>, // buyer or vault authority; pays for the new escrow
+
+    /// CHECK:
+    /// A seed, and gets the old account's rent.
+    #[account(mut)]
+    pub buyer: UncheckedAccount<'info>,
+
+    /// CHECK:
+    /// Only a seed.
+    pub seller: UncheckedAccount<'info>,
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            vault.authority.as_ref(),
+        ],
+        bump = vault.bump,
+    )]
+    pub vault: Account<'info, Vault>,
+
+    /// CHECK:
+    /// Old layout, so it can't be an Account<Escrow>; the seeds tie it to
+    /// vault, buyer and seller and the handler checks the discriminator
+    /// and size. Closed to the buyer.
+    #[account(
+        mut,
+        owner = crate::ID,
+        seeds = [
+            b"escrow",
+            vault.key().as_ref(),
+            buyer.key().as_ref(),
+            seller.key().as_ref(),
+        ],
+        bump,
+    )]
+    pub legacy_escrow: UncheckedAccount<'info>,
+
+    #[account(
+        init,
+        payer = payer,
+        space = ESCROW_SIZE,
+        seeds = [
+            b"escrow",
+            vault.key().as_ref(),
+            buyer.key().as_ref(),
+            seller.key().as_ref(),
+            escrow_id.to_le_bytes().as_ref(),
+        ],
+        bump
+    )]
+    pub escrow: Account<'info, Escrow>,
+
+    pub system_program: Program<'info, System>,
+}
+
+// finish_vault_migration: vault authority lets withdraw run again
+#[derive(Accounts)]
+pub struct FinishVaultMigration<'info> {
+    pub authority: Signer<'info>, // must be vault.authority (seeds)
+
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [
+            b"vault",
+            mint.key().as_ref(),
+            authority.key().as_ref(),
+        ],
+        bump = vault.bump,
+    )]
+    pub vault: Account<'info, Vault>,
+}
+
 // ------------------ ERRORS ------------------
 
 #[error_code]
@@ -410,5 +1209,37 @@ pub enum EscrowError {
     TooEarly,
     #[msg("Only the buyer can call this")]
     NotBuyer,
+    #[msg("Only the buyer or seller can call this")]
+    NotParty,
+    #[msg("Escrow has no arbiter")]
+    NoArbiter,
+    #[msg("Escrow is already disputed")]
+    AlreadyDisputed,
+    #[msg("Escrow is not disputed")]
+    NotDisputed,
+    #[msg("Only the escrow's arbiter can call this")]
+    NotArbiter,
+    #[msg("Seller amount exceeds what is left in the escrow")]
+    SplitExceedsLocked,
+    #[msg("Escrow is disputed; only the arbiter can settle it")]
+    Disputed,
+    #[msg("Milestones must be 1-8 non-zero amounts that add up to the escrow amount, due by its deadline")]
+    InvalidMilestones,
+    #[msg("No milestone with that index")]
+    MilestoneNotFound,
+    #[msg("Milestone already released")]
+    MilestoneAlreadyReleased,
+    #[msg("Only the vault authority can call this")]
+    NotVaultAuthority,
+    #[msg("Withdrawal exceeds the tokens not owed to unreleased escrows")]
+    WithdrawExceedsFree,
+    #[msg("Escrow has not been released or refunded")]
+    NotReleased,
+    #[msg("Vault still holds tokens or owes unreleased escrows")]
+    VaultNotEmpty,
+    #[msg("Only the buyer or the vault authority can call this")]
+    NotBuyerOrVaultAuthority,
+    #[msg("Vault is still counting escrows from before escrow IDs; withdrawals wait for finish_vault_migration")]
+    VaultMigrating,
 }
 
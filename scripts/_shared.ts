@@ -1,30 +1,71 @@
-import {
-  Connection,
-  Keypair,
-  PublicKey,
-  clusterApiUrl,
-} from "@solana/web3.js";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import * as fs from "fs";
+import * as path from "path";
 
-const KEYPAIR_PATH = "/Users/saqlaingulamhusein/.config/solana/id.json";
+import { Profile } from "./lib/config";
 
-export function loadKeypair(): Keypair {
-  const raw = JSON.parse(fs.readFileSync(KEYPAIR_PATH, "utf8"));
+export function loadKeypair(keypairPath: string): Keypair {
+  if (!fs.existsSync(keypairPath)) {
+    throw new Error(
+      `Keypair file ${keypairPath} not found (set --keypair or VAULT_ESCROW_KEYPAIR)`
+    );
+  }
+  const raw = JSON.parse(fs.readFileSync(keypairPath, "utf8"));
   const secretKey = Uint8Array.from(raw);
   return Keypair.fromSecretKey(secretKey);
 }
 
-// devnet RPC
-export const connection = new Connection(clusterApiUrl("devnet"), "confirmed");
-
-// this is the same wallet you used to deploy program + mint token
-export const payer = loadKeypair();
-
-export function logPubkeys() {
-  console.log("Payer pubkey:", payer.publicKey.toBase58());
+export function connectionFor(profile: Profile): Connection {
+  return new Connection(profile.rpcUrl, profile.commitment);
 }
 
-// helper for reading strings from deploy-info.json into PublicKey
+// helper for reading strings from a deployment manifest into PublicKey
 export function pubkeyFromString(s: string): PublicKey {
   return new PublicKey(s);
 }
+
+// shape of deployments/<cluster>.json, written by `mint create`
+export interface DeployInfo {
+  cluster: string;
+  programId: string;
+  mint: string;
+  payer: string;
+  payerAta: string;
+  decimals: number;
+  tokenName: string;
+  // absent in manifests written before symbols were recorded
+  tokenSymbol?: string;
+}
+
+export function hasDeployInfo(profile: Profile): boolean {
+  return fs.existsSync(profile.manifestPath);
+}
+
+export function loadDeployInfo(profile: Profile): DeployInfo {
+  if (!hasDeployInfo(profile)) {
+    throw new Error(
+      `No deployment manifest for ${profile.name} at ${profile.manifestPath} (run \`mint create\` first)`
+    );
+  }
+  const info: DeployInfo = JSON.parse(
+    fs.readFileSync(profile.manifestPath, "utf8")
+  );
+  // manifests are per cluster; never let one leak into another
+  if (info.cluster !== profile.name) {
+    throw new Error(
+      `${profile.manifestPath} was written for ${info.cluster}, not ${profile.name}`
+    );
+  }
+  const programId = profile.programId.toBase58();
+  if (info.programId !== programId) {
+    throw new Error(
+      `${profile.manifestPath} records program ${info.programId}, but the ${profile.name} profile uses ${programId}`
+    );
+  }
+  return info;
+}
+
+export function saveDeployInfo(profile: Profile, info: DeployInfo) {
+  fs.mkdirSync(path.dirname(profile.manifestPath), { recursive: true });
+  fs.writeFileSync(profile.manifestPath, JSON.stringify(info, null, 2) + "\n");
+}
@@ -0,0 +1,277 @@
+import { parseArgs } from "util";
+
+import { CommandArgs } from "./commands/_args";
+import { audit } from "./commands/audit";
+import { CommandResult, printError, printResult } from "./commands/_output";
+import {
+  escrowBatch,
+  escrowClose,
+  escrowCreate,
+  escrowDispute,
+  escrowList,
+  escrowMigrate,
+  escrowRefund,
+  escrowRelease,
+  escrowReleaseMilestone,
+  escrowResolve,
+} from "./commands/escrow";
+import { inspect } from "./commands/inspect";
+import { keeperRun } from "./commands/keeper";
+import { mintCreate, mintUpdateMetadata } from "./commands/mint";
+import { nonceCreate, sign, submit } from "./commands/offline";
+import { serve } from "./commands/serve";
+import { status } from "./commands/status";
+import {
+  vaultClose,
+  vaultInit,
+  vaultLock,
+  vaultMigrate,
+  vaultReconcile,
+  vaultWithdraw,
+} from "./commands/vault";
+import { watch } from "./commands/watch";
+
+/**
+ * vault-escrow CLI
+ *
+ *   npx ts-node scripts/cli.ts <command> [flags]
+ *
+ * Every command prints `key: value` lines, or JSON with --json.
+ */
+
+const USAGE = `Usage: vault-escrow <command> [flags]
+
+Commands:
+  mint create [--name <name>] [--symbol <symbol>] [--uri <url>]
+              [--decimals <n>] [--supply <amount>] [--revoke-mint-authority]
+              [--revoke-freeze-authority] [--skip-metadata] [--token-2022]
+  mint update-metadata [--name <name>] [--symbol <symbol>] [--uri <url>]
+                       [--immutable]
+  vault init [--seller <pubkey>]   (idempotent)
+  vault lock --amount <amount>
+  vault reconcile [--vault <pubkey>]
+  vault withdraw (--amount <amount> | --all)
+  vault close
+  vault migrate
+  escrow create --seller <pubkey> --amount <amount> --deadline <when>
+                [--milestones "<amount>[@<when>] ..."] [--arbiter <pubkey>]
+                [--id <n>] [--allow-overcommit]
+  escrow batch <file.csv> [--progress <path>] [--allow-overcommit]
+  escrow release --seller <pubkey> [--id <n>]
+  escrow release-milestone --seller <pubkey> --milestone <n> [--id <n>]
+  escrow refund --seller <pubkey> [--id <n>]
+  escrow dispute (--seller <pubkey> | --buyer <pubkey>) [--id <n>]
+  escrow resolve --buyer <pubkey> --seller <pubkey> --to-seller <amount>
+                 [--id <n>]
+  escrow close [--seller <pubkey> [--id <n>]]
+  escrow migrate [--seller <pubkey>]
+  escrow list [--buyer|--seller|--vault|--mint <pubkey>] [--state <states>]
+  status [--seller <pubkey> [--id <n>]]
+  inspect <address>
+  keeper run [--interval <seconds>] [--warn-before <duration>]
+             [--max-attempts <n>] [--retry-after <duration>]
+             [--state-file <path>] [--once]
+  serve [--port <n>] [--host <address>] [--icon <url>]
+  watch [--out <path>] [--webhook <url>[,<url>...]] [--max-attempts <n>]
+        [--interval <seconds>] [--since <signature>] [--state-file <path>]
+  audit <escrow|vault> [--csv <path>]
+  nonce create [--authority <pubkey>]
+  sign <tx> [--keypair <path>] [--out <path>]
+  submit <tx>
+
+Global flags:
+  --cluster <name|url>   localnet, devnet (default), mainnet-beta or an RPC URL
+  --keypair <path>       wallet keypair (default ~/.config/solana/id.json)
+  --commitment <level>   processed, confirmed (default) or finalized
+  --program-id <pubkey>  override the program ID from Anchor.toml
+  --priority-fee <fee>   micro-lamports per compute unit, or "auto" to
+                         estimate from recent fees (default 0)
+  --compute-unit-limit <n>  compute units to request per transaction
+  --mint <pubkey>        operate on this mint instead of the manifest's
+  --wallet <pubkey>      act as this wallet without its keypair (with --export)
+  --export               print the transaction as base64 instead of sending it
+  --sign-only            like --export, signed by the local wallet
+  --dry-run              simulate instead of sending: logs, compute units,
+                         errors and account changes
+  --nonce <pubkey>       export with this durable nonce account
+  --nonce-authority <pubkey>  nonce authority (default: the account's)
+  --out <path>           also write the exported transaction to a file
+  --json                 print the result as JSON
+  --help                 show this message
+
+The first six flags can also be set through VAULT_ESCROW_CLUSTER,
+VAULT_ESCROW_KEYPAIR, VAULT_ESCROW_COMMITMENT, VAULT_ESCROW_PROGRAM_ID,
+VAULT_ESCROW_PRIORITY_FEE and VAULT_ESCROW_COMPUTE_UNIT_LIMIT. Per-cluster
+addresses live in deployments/<cluster>.json.
+
+Sent transactions are rebroadcast until they confirm or their blockhash
+expires; an expired one is reported only once it is certain it didn't land.
+
+<amount> is in tokens (0.05, 1,250.5 GGLD) or base units (50000base), checked
+against the mint's decimals.
+Mints of both SPL Token and Token-2022 work; the owning program is read from
+the mint.
+<when> is +<n>[smhd] (relative to cluster time), unix seconds or an ISO date.
+<duration> is <n>[smhd], e.g. 30m.
+<tx> is a base64 transaction or a file holding one. Exported transactions
+go through "sign" on each signer's machine, then "submit"; without --nonce
+they expire with their blockhash after about a minute.
+A buyer can hold any number of escrows with the same seller; each has an
+escrow ID (--id). "escrow create" takes the lowest unused one, and the other
+escrow commands default to the pair's only unreleased escrow.
+Tokens not reserved for unreleased escrows come back out with "vault
+withdraw"; "escrow close" returns the rent of finished escrows and "vault
+close" that of an empty vault. Vaults from before withdrawals need a one-off
+"vault migrate", and escrows from before escrow IDs an "escrow migrate" after
+it; run by the vault's authority, it also lifts the withdrawal hold that
+"vault migrate" leaves until the older escrows are counted.
+<states> is a comma-separated list of open, expired (past the deadline,
+awaiting refund), disputed (awaiting the arbiter) and released.
+An escrow created with --arbiter can be disputed by its buyer (naming the
+seller) or seller (naming the buyer); the arbiter then splits it with
+"escrow resolve", and the deadline refund stays frozen until then.
+"serve" runs a local HTTP API for web front ends: vault and escrow state as
+JSON, and Solana Actions that return unsigned transactions (lock, escrow
+create, release, refund) for a browser wallet to sign. It needs no keypair.
+"watch" streams EscrowCreated, TokensLocked, Released, Refunded and Withdrawn
+events as JSON lines and POSTs each to every --webhook, signed with
+HMAC-SHA256 when VAULT_ESCROW_WEBHOOK_SECRET is set. It backfills whatever it
+missed while stopped or disconnected, and needs no keypair.
+"escrow batch" creates one escrow per seller,amount,deadline row of a CSV,
+several per transaction, after checking every row; rerun it to resume an
+interrupted batch from <file.csv>.progress.json.
+"audit" lists every instruction that touched an escrow or a vault, oldest
+first, with its arguments, token balance changes and block time, from the
+RPC's transaction history (--csv <path> to export it); for a vault it also
+checks that the changes add up to the vault ATA's balance.
+A milestone escrow (--milestones "400@+7d 600", --amount optional) pays the
+seller one tranche per "escrow release-milestone" (numbered from 1), each
+before its own deadline or the escrow's; "escrow release" pays whatever is
+left and a refund returns only the unreleased remainder.`;
+
+type Command = (args: CommandArgs) => Promise<CommandResult>;
+
+const COMMANDS: Record<string, Command> = {
+  "mint create": mintCreate,
+  "mint update-metadata": mintUpdateMetadata,
+  "vault init": vaultInit,
+  "vault lock": vaultLock,
+  "vault reconcile": vaultReconcile,
+  "vault withdraw": vaultWithdraw,
+  "vault close": vaultClose,
+  "vault migrate": vaultMigrate,
+  "escrow create": escrowCreate,
+  "escrow batch": escrowBatch,
+  "escrow release": escrowRelease,
+  "escrow release-milestone": escrowReleaseMilestone,
+  "escrow refund": escrowRefund,
+  "escrow dispute": escrowDispute,
+  "escrow resolve": escrowResolve,
+  "escrow close": escrowClose,
+  "escrow migrate": escrowMigrate,
+  "escrow list": escrowList,
+  status,
+  inspect,
+  "keeper run": keeperRun,
+  serve,
+  watch,
+  audit,
+  "nonce create": nonceCreate,
+  sign,
+  submit,
+};
+
+// Commands are one or two words; everything after that is positional.
+function resolveCommand(
+  positionals: string[]
+): { command: Command; rest: string[] } | null {
+  const two = positionals.slice(0, 2).join(" ");
+  if (COMMANDS[two]) {
+    return { command: COMMANDS[two], rest: positionals.slice(2) };
+  }
+  const one = positionals[0];
+  if (one && COMMANDS[one]) {
+    return { command: COMMANDS[one], rest: positionals.slice(1) };
+  }
+  return null;
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      cluster: { type: "string", short: "u" },
+      keypair: { type: "string", short: "k" },
+      commitment: { type: "string" },
+      "program-id": { type: "string" },
+      "priority-fee": { type: "string" },
+      "compute-unit-limit": { type: "string" },
+      mint: { type: "string" },
+      name: { type: "string" },
+      symbol: { type: "string" },
+      uri: { type: "string" },
+      "revoke-mint-authority": { type: "boolean" },
+      "revoke-freeze-authority": { type: "boolean" },
+      "skip-metadata": { type: "boolean" },
+      "token-2022": { type: "boolean" },
+      immutable: { type: "boolean" },
+      decimals: { type: "string" },
+      supply: { type: "string" },
+      amount: { type: "string" },
+      seller: { type: "string" },
+      buyer: { type: "string" },
+      vault: { type: "string" },
+      state: { type: "string" },
+      deadline: { type: "string" },
+      arbiter: { type: "string" },
+      milestones: { type: "string" },
+      milestone: { type: "string" },
+      id: { type: "string" },
+      "to-seller": { type: "string" },
+      "allow-overcommit": { type: "boolean" },
+      all: { type: "boolean" },
+      interval: { type: "string" },
+      "warn-before": { type: "string" },
+      "max-attempts": { type: "string" },
+      "retry-after": { type: "string" },
+      "state-file": { type: "string" },
+      progress: { type: "string" },
+      once: { type: "boolean" },
+      port: { type: "string" },
+      host: { type: "string" },
+      icon: { type: "string" },
+      webhook: { type: "string" },
+      since: { type: "string" },
+      csv: { type: "string" },
+      wallet: { type: "string" },
+      export: { type: "boolean" },
+      "sign-only": { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      nonce: { type: "string" },
+      "nonce-authority": { type: "string" },
+      out: { type: "string" },
+      authority: { type: "string" },
+    },
+  });
+
+  const resolved = resolveCommand(positionals);
+  if (values.help || !resolved) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const result = await resolved.command({
+    positionals: resolved.rest,
+    flags: values,
+  });
+  printResult(result, values.json === true);
+}
+
+main(process.argv.slice(2)).catch((e) => {
+  printError(e, process.argv.includes("--json"));
+  process.exitCode = 1;
+});
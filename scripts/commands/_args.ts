@@ -0,0 +1,60 @@
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * Flag values as handed over by `parseArgs` in scripts/cli.ts.
+ */
+export type Flags = Record<string, string | boolean | undefined>;
+
+export interface CommandArgs {
+  positionals: string[];
+  flags: Flags;
+}
+
+export function optionalString(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`--${name} needs a value`);
+  }
+  return value;
+}
+
+export function requireString(flags: Flags, name: string): string {
+  const value = optionalString(flags, name);
+  if (value === undefined) {
+    throw new Error(`Missing required flag --${name}`);
+  }
+  return value;
+}
+
+export function parsePubkey(value: string, what: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`${what} is not a valid public key: ${value}`);
+  }
+}
+
+export function requirePubkey(flags: Flags, name: string): PublicKey {
+  return parsePubkey(requireString(flags, name), `--${name}`);
+}
+
+export function optionalPubkey(
+  flags: Flags,
+  name: string
+): PublicKey | undefined {
+  const value = optionalString(flags, name);
+  return value === undefined ? undefined : parsePubkey(value, `--${name}`);
+}
+
+const U64_MAX = 2n ** 64n - 1n;
+
+// --<name> as a u64, e.g. an escrow ID.
+export function optionalU64(flags: Flags, name: string): bigint | undefined {
+  const value = optionalString(flags, name);
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value) || BigInt(value) > U64_MAX) {
+    throw new Error(`--${name} must be a whole number (u64): ${value}`);
+  }
+  return BigInt(value);
+}
@@ -0,0 +1,569 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Finality,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SYSVAR_CLOCK_PUBKEY,
+  Signer,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import * as fs from "fs";
+
+import {
+  DeployInfo,
+  connectionFor,
+  loadDeployInfo,
+  loadKeypair,
+  pubkeyFromString,
+} from "../_shared";
+import { formatAmount, parseAmount } from "../lib/amount";
+import { VaultEscrowClient } from "../lib/client";
+import { Profile, resolveProfile } from "../lib/config";
+import { toVaultEscrowError } from "../lib/errors";
+import { firstFreeEscrowId, listEscrows } from "../lib/indexer";
+import {
+  buildExportTransaction,
+  decodeTransaction,
+  encodeTransaction,
+  fetchNonce,
+  signerStatus,
+} from "../lib/offline";
+import {
+  computeBudgetInstructions,
+  sendUntilConfirmed,
+  signAndSend,
+} from "../lib/sender";
+import { AccountChange, AccountSnapshot, simulate } from "../lib/simulate";
+import {
+  MintInfo,
+  assertSupportedMint,
+  fetchMintInfo,
+  transferFee,
+} from "../lib/token";
+import {
+  Flags,
+  optionalPubkey,
+  optionalString,
+  optionalU64,
+  requireString,
+} from "./_args";
+import { CommandResult } from "./_output";
+
+/**
+ * The wallet commands act as (buyer / vault authority / fee payer).
+ * `keypair` is null with --wallet <pubkey>, when the key lives on another
+ * machine and transactions can only be exported for it to sign.
+ */
+export interface Wallet {
+  publicKey: PublicKey;
+  keypair: Keypair | null;
+}
+
+/**
+ * What `send` does with a command's transaction: send it, export it as
+ * base64 for offline signing (--export), optionally signed by the local
+ * wallet first (--sign-only), or only simulate it (--dry-run). Exports use
+ * the durable nonce account `nonce` when given, so they don't expire with
+ * the blockhash.
+ */
+export interface Submission {
+  mode: "send" | "export" | "sign-only" | "dry-run";
+  nonce?: PublicKey;
+  nonceAuthority?: PublicKey;
+  // also write the exported base64 here
+  out?: string;
+}
+
+/**
+ * What every command needs: the resolved cluster profile, its RPC, the local
+ * wallet and the program client.
+ */
+export interface ClusterContext {
+  profile: Profile;
+  connection: Connection;
+  payer: Wallet;
+  programId: PublicKey;
+  client: VaultEscrowClient;
+  submission: Submission;
+}
+
+/**
+ * Plus the cluster's deployment manifest and the mint commands operate on.
+ */
+export interface CommandContext extends ClusterContext {
+  info: DeployInfo;
+  mint: PublicKey;
+}
+
+// --cluster / --keypair / --commitment / --program-id / --priority-fee /
+// --compute-unit-limit, falling back to env.
+export function profileFromFlags(flags: Flags): Profile {
+  return resolveProfile({
+    cluster: optionalString(flags, "cluster"),
+    keypair: optionalString(flags, "keypair"),
+    commitment: optionalString(flags, "commitment"),
+    programId: optionalString(flags, "program-id"),
+    priorityFee: optionalString(flags, "priority-fee"),
+    computeUnitLimit: optionalString(flags, "compute-unit-limit"),
+  });
+}
+
+// Signature and transaction lookups don't take "processed".
+export function historyCommitment(profile: Profile): Finality {
+  return profile.commitment === "finalized" ? "finalized" : "confirmed";
+}
+
+const SUBMISSION_MODES = ["export", "sign-only", "dry-run"] as const;
+
+// --export / --sign-only / --dry-run / --nonce / --nonce-authority / --out
+export function submissionFromFlags(flags: Flags): Submission {
+  const modes = SUBMISSION_MODES.filter((m) => flags[m] === true);
+  if (modes.length > 1) {
+    throw new Error(
+      `Pass only one of ${modes.map((m) => `--${m}`).join(", ")}`
+    );
+  }
+  const mode = modes[0] ?? "send";
+  const submission: Submission = {
+    mode,
+    nonce: optionalPubkey(flags, "nonce"),
+    nonceAuthority: optionalPubkey(flags, "nonce-authority"),
+    out: optionalString(flags, "out"),
+  };
+  const exporting = mode === "export" || mode === "sign-only";
+  if (!exporting && (submission.nonce || submission.out)) {
+    throw new Error(
+      "--nonce and --out only apply with --export or --sign-only"
+    );
+  }
+  return submission;
+}
+
+// --wallet <pubkey> acts as that wallet without its key.
+export function walletFromFlags(flags: Flags, profile: Profile): Wallet {
+  const publicKey = optionalPubkey(flags, "wallet");
+  if (publicKey) return { publicKey, keypair: null };
+  const keypair = loadKeypair(profile.keypairPath);
+  return { publicKey: keypair.publicKey, keypair };
+}
+
+export function loadClusterContext(flags: Flags): ClusterContext {
+  const profile = profileFromFlags(flags);
+  return {
+    profile,
+    connection: connectionFor(profile),
+    payer: walletFromFlags(flags, profile),
+    programId: profile.programId,
+    client: new VaultEscrowClient(profile.programId),
+    submission: submissionFromFlags(flags),
+  };
+}
+
+// `--mint` overrides the mint recorded in the manifest.
+export function loadContext(flags: Flags): CommandContext {
+  const cluster = loadClusterContext(flags);
+  const info = loadDeployInfo(cluster.profile);
+  return {
+    ...cluster,
+    info,
+    mint: optionalPubkey(flags, "mint") ?? pubkeyFromString(info.mint),
+  };
+}
+
+export function requireKeypair(ctx: ClusterContext): Keypair {
+  if (!ctx.payer.keypair) {
+    throw new Error(
+      `No keypair for wallet ${ctx.payer.publicKey.toBase58()}: export the transaction with --export and sign it where the key is`
+    );
+  }
+  return ctx.payer.keypair;
+}
+
+/**
+ * What `send` did: sent the transaction, or in --export / --sign-only /
+ * --dry-run mode built a preview instead (the base64 transaction and its
+ * signers, or the simulation), which the command returns as its output.
+ */
+export type SendResult =
+  | { type: "sent"; signature: string }
+  | { type: "preview"; result: CommandResult };
+
+// Add the profile's compute budget, sign with the local wallet (plus any
+// extra signers) and send until confirmed (lib/sender.ts). Failures come
+// back as a VaultEscrowError. See SendResult for the other submission
+// modes.
+export async function send(
+  ctx: ClusterContext,
+  instructions: TransactionInstruction[],
+  extraSigners: Signer[] = []
+): Promise<SendResult> {
+  const ixs = [
+    ...(await computeBudgetInstructions(
+      ctx.connection,
+      ctx.profile.computeBudget,
+      instructions
+    )),
+    ...instructions,
+  ];
+  if (ctx.submission.mode === "dry-run") {
+    return { type: "preview", result: await dryRun(ctx, ixs) };
+  }
+  if (ctx.submission.mode !== "send") {
+    return {
+      type: "preview",
+      result: await exportTransaction(ctx, ixs, extraSigners),
+    };
+  }
+  const tx = ctx.client.transaction(ctx.payer.publicKey, ...ixs);
+  try {
+    const signature = await signAndSend(
+      ctx.connection,
+      tx,
+      [requireKeypair(ctx), ...extraSigners],
+      { commitment: ctx.profile.commitment }
+    );
+    return { type: "sent", signature };
+  } catch (e) {
+    throw toVaultEscrowError(e, ctx.programId);
+  }
+}
+
+// `send` for commands that refuse --export, --sign-only and --dry-run up
+// front; the signature.
+export async function sendOnly(
+  ctx: ClusterContext,
+  instructions: TransactionInstruction[]
+): Promise<string> {
+  const sent = await send(ctx, instructions);
+  if (sent.type !== "sent") {
+    throw new Error(`Expected to send, not ${ctx.submission.mode}`);
+  }
+  return sent.signature;
+}
+
+/**
+ * Like `send` for the send mode only, as a versioned transaction that may
+ * load accounts from `lookupTables`. `onSigned` gets the block height the
+ * transaction can land until, before it is broadcast, so a caller can
+ * record that it is in flight.
+ */
+export async function sendVersioned(
+  ctx: ClusterContext,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[],
+  onSigned: (lastValidBlockHeight: number) => void
+): Promise<string> {
+  const budget = await computeBudgetInstructions(
+    ctx.connection,
+    ctx.profile.computeBudget,
+    instructions
+  );
+  const { blockhash, lastValidBlockHeight } =
+    await ctx.connection.getLatestBlockhash(ctx.profile.commitment);
+  const message = new TransactionMessage({
+    payerKey: ctx.payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions: [...budget, ...instructions],
+  }).compileToV0Message(lookupTables);
+  const tx = new VersionedTransaction(message);
+  tx.sign([requireKeypair(ctx)]);
+  onSigned(lastValidBlockHeight);
+  try {
+    return await sendUntilConfirmed(
+      ctx.connection,
+      Buffer.from(tx.serialize()),
+      lastValidBlockHeight,
+      { commitment: ctx.profile.commitment }
+    );
+  } catch (e) {
+    throw toVaultEscrowError(e, ctx.programId);
+  }
+}
+
+/**
+ * The transaction `send` would have sent, as base64. Extra signers (fresh
+ * keypairs like a new mint) always sign, since their keys don't outlive the
+ * command; the wallet signs only with --sign-only.
+ */
+async function exportTransaction(
+  ctx: ClusterContext,
+  ixs: TransactionInstruction[],
+  extraSigners: Signer[]
+): Promise<CommandResult> {
+  const { submission } = ctx;
+  const signers = [...extraSigners];
+  if (submission.mode === "sign-only") signers.push(requireKeypair(ctx));
+
+  const result: CommandResult = {};
+  let tx;
+  if (submission.nonce) {
+    const nonce = await fetchNonce(ctx.connection, submission.nonce);
+    const authority = submission.nonceAuthority ?? nonce.authority;
+    tx = buildExportTransaction(
+      {
+        feePayer: ctx.payer.publicKey,
+        signers,
+        nonce: { account: submission.nonce, authority, value: nonce.value },
+      },
+      ixs
+    );
+    result.nonce = submission.nonce;
+    result.expires = "when the nonce is advanced";
+  } else {
+    const { blockhash, lastValidBlockHeight } =
+      await ctx.connection.getLatestBlockhash(ctx.profile.commitment);
+    tx = buildExportTransaction(
+      { feePayer: ctx.payer.publicKey, signers, blockhash },
+      ixs
+    );
+    result.blockhash = blockhash;
+    result.expires = `after block height ${lastValidBlockHeight} (about a minute; use --nonce)`;
+  }
+
+  const transaction = encodeTransaction(tx);
+  const status = signerStatus(decodeTransaction(transaction));
+  if (submission.out) {
+    fs.writeFileSync(submission.out, transaction + "\n");
+    result.savedTo = submission.out;
+  }
+  return {
+    ...result,
+    signers: status.map((s) => ({
+      signer: s.publicKey,
+      status: s.signed ? "signed" : "missing",
+    })),
+    transaction,
+  };
+}
+
+// One row per writable account: what it is and how the simulation changes it.
+async function describeChanges(
+  ctx: ClusterContext,
+  changes: AccountChange[]
+): Promise<CommandResult[]> {
+  const decimals = new Map<string, number>();
+  for (const { before, after } of changes) {
+    for (const s of [before, after]) {
+      if (s.kind !== "token" && s.kind !== "escrow") continue;
+      if (decimals.has(s.mint.toBase58())) continue;
+      // a mint the same transaction creates doesn't exist yet
+      const mint = await fetchMintInfo(ctx.connection, s.mint).catch(
+        () => null
+      );
+      if (mint) decimals.set(s.mint.toBase58(), mint.decimals);
+    }
+  }
+  const tokens = (amount: bigint, mint: PublicKey) => {
+    const d = decimals.get(mint.toBase58());
+    return d === undefined ? `${amount} (base units)` : formatAmount(amount, d);
+  };
+
+  const sol = (lamports: number) => `${lamports / LAMPORTS_PER_SOL} SOL`;
+  const show = (s: AccountSnapshot): string => {
+    switch (s.kind) {
+      case "missing":
+        return "-";
+      case "token":
+        return tokens(s.amount, s.mint);
+      case "escrow":
+        // milestone escrows pay out in steps before `released` flips
+        return s.amountReleased > 0n && !s.released
+          ? `released=false, paid ${tokens(s.amountReleased, s.mint)}`
+          : `released=${s.released}`;
+      case "legacy":
+        return `${sol(s.lamports)}, ${s.size} bytes`;
+      default:
+        return sol(s.lamports);
+    }
+  };
+
+  return changes.map(({ address, before, after }) => {
+    const current = after.kind === "missing" ? before : after;
+    const row: CommandResult = {
+      account: address,
+      kind: current.kind,
+      // whose ATA it is, so a wrong buyer / seller / vault stands out
+      owner: current.kind === "token" ? current.owner : null,
+      before: show(before),
+      after: show(after),
+    };
+    if (before.kind === "token" && after.kind === "token") {
+      const delta = after.amount - before.amount;
+      const amount = tokens(delta < 0n ? -delta : delta, after.mint);
+      row.change = delta === 0n ? "" : `${delta < 0n ? "-" : "+"}${amount}`;
+    } else {
+      row.change = row.before === row.after ? "" : "changed";
+    }
+    return row;
+  });
+}
+
+/**
+ * The transaction `send` would have sent, simulated unsigned: logs,
+ * compute units, the decoded error if it would fail, and the writable
+ * accounts before and after.
+ */
+async function dryRun(
+  ctx: ClusterContext,
+  ixs: TransactionInstruction[]
+): Promise<CommandResult> {
+  const tx = ctx.client.transaction(ctx.payer.publicKey, ...ixs);
+  const { blockhash } = await ctx.connection.getLatestBlockhash(
+    ctx.profile.commitment
+  );
+  tx.recentBlockhash = blockhash;
+  const report = await simulate(
+    ctx.connection,
+    new VersionedTransaction(tx.compileMessage()),
+    ctx.programId
+  );
+
+  const result: CommandResult = {
+    simulation: report.error ? "failed" : "ok",
+  };
+  if (report.error) {
+    result.error = report.error.code;
+    result.message = report.error.message;
+    result.hint = report.error.hint;
+  }
+  return {
+    ...result,
+    computeUnits: report.unitsConsumed,
+    accounts: await describeChanges(ctx, report.accounts),
+    logs: report.logs,
+  };
+}
+
+export async function accountExists(
+  connection: Connection,
+  address: PublicKey
+): Promise<boolean> {
+  return (await connection.getAccountInfo(address)) !== null;
+}
+
+// Clock sysvar: slot, epoch_start_timestamp, epoch, leader_schedule_epoch,
+// then unix_timestamp
+const CLOCK_UNIX_TIMESTAMP_OFFSET = 32;
+
+// Cluster time as the program sees it: the Clock sysvar's unix_timestamp.
+export async function clusterNow(connection: Connection): Promise<bigint> {
+  const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY);
+  if (!clock || clock.data.length < CLOCK_UNIX_TIMESTAMP_OFFSET + 8) {
+    throw new Error("Could not read cluster time from the Clock sysvar");
+  }
+  return clock.data.readBigInt64LE(CLOCK_UNIX_TIMESTAMP_OFFSET);
+}
+
+// Token balance in base units, or null if the account doesn't exist yet.
+export async function tokenBalance(
+  connection: Connection,
+  address: PublicKey
+): Promise<bigint | null> {
+  if (!(await accountExists(connection, address))) return null;
+  const bal = await connection.getTokenAccountBalance(address);
+  return BigInt(bal.value.amount);
+}
+
+export interface EscrowParties {
+  buyer: PublicKey;
+  seller: PublicKey;
+}
+
+/**
+ * --id, or the lowest escrow ID between `parties` that has no account, for
+ * a new escrow against the buyer's vault.
+ */
+export async function nextEscrowId(
+  ctx: CommandContext,
+  flags: Flags,
+  parties: EscrowParties
+): Promise<bigint> {
+  const id = optionalU64(flags, "id");
+  if (id !== undefined) return id;
+  return firstFreeEscrowId(ctx.connection, ctx.client, {
+    ...parties,
+    mint: ctx.mint,
+  });
+}
+
+/**
+ * The escrow between `parties` a command acts on: --id, or else the pair's
+ * only unreleased escrow against the buyer's vault. Several unreleased
+ * escrows need --id to pick one.
+ */
+export async function selectEscrowId(
+  ctx: CommandContext,
+  flags: Flags,
+  parties: EscrowParties
+): Promise<bigint> {
+  const id = optionalU64(flags, "id");
+  if (id !== undefined) return id;
+  const { vault } = ctx.client.vaultAddresses(ctx.mint, parties.buyer);
+  const escrows = await listEscrows(
+    ctx.connection,
+    ctx.programId,
+    { vault, ...parties, states: ["open", "expired", "disputed"] },
+    await clusterNow(ctx.connection)
+  );
+  if (escrows.length === 1) return escrows[0].account.escrowId;
+
+  const pair = `buyer ${parties.buyer.toBase58()} and seller ${parties.seller.toBase58()}`;
+  if (escrows.length === 0) {
+    throw new Error(`No unreleased escrow between ${pair}; pass --id`);
+  }
+  const ids = escrows.map((e) => e.account.escrowId).join(", ");
+  throw new Error(
+    `${escrows.length} unreleased escrows between ${pair} (IDs ${ids}); pick one with --id`
+  );
+}
+
+// The context's mint as it is on chain (token program, decimals, fees), for
+// commands that move tokens: mints the program can't transfer are refused.
+export async function loadMint(ctx: CommandContext): Promise<MintInfo> {
+  const mint = await fetchMintInfo(ctx.connection, ctx.mint);
+  assertSupportedMint(mint);
+  return mint;
+}
+
+// Transfer fees are scheduled per epoch.
+export async function currentEpoch(connection: Connection): Promise<bigint> {
+  return BigInt((await connection.getEpochInfo()).epoch);
+}
+
+/**
+ * For Token-2022 mints with a transfer fee: the fee withheld from `amount`
+ * this epoch and what actually arrives, under `receivedKey`. Empty for mints
+ * without a fee, so callers can spread it into their result.
+ */
+export async function transferFeeFields(
+  connection: Connection,
+  mint: MintInfo,
+  amount: bigint,
+  receivedKey: string
+): Promise<CommandResult> {
+  if (!mint.transferFee) return {};
+  const fee = transferFee(mint, amount, await currentEpoch(connection));
+  return {
+    transferFee: formatAmount(fee, mint.decimals),
+    [receivedKey]: formatAmount(amount - fee, mint.decimals),
+  };
+}
+
+// --<name> as an amount of the context's mint, using its on-chain decimals.
+export function requireAmount(
+  ctx: CommandContext,
+  mint: MintInfo,
+  flags: Flags,
+  name: string,
+  allowZero = false
+): bigint {
+  return parseAmount(requireString(flags, name), mint.decimals, {
+    symbol: ctx.info.tokenSymbol,
+    what: `--${name}`,
+    allowZero,
+  });
+}
@@ -0,0 +1,139 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { VaultEscrowError } from "../lib/errors";
+
+/**
+ * Every command returns a plain object; the CLI decides whether to print it
+ * as `key: value` lines or as JSON (`--json`).
+ */
+export type CommandResult = Record<string, unknown>;
+
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function toText(value: unknown): string {
+  if (value instanceof PublicKey) return value.toBase58();
+  if (value instanceof Date) return value.toISOString();
+  if (value === null || value === undefined) return "-";
+  return String(value);
+}
+
+// Arrays of flat objects (listings) print as an aligned table.
+function printTable(rows: CommandResult[], indent: string) {
+  if (rows.length === 0) {
+    console.log(`${indent}(none)`);
+    return;
+  }
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map((row) => columns.map((c) => toText(row[c])));
+  const widths = columns.map((c, i) =>
+    Math.max(c.length, ...cells.map((r) => r[i].length))
+  );
+  const line = (values: string[]) =>
+    indent +
+    values
+      .map((v, i) => v.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+  console.log(line(columns));
+  for (const row of cells) console.log(line(row));
+}
+
+function printText(result: CommandResult, indent: string) {
+  for (const [key, value] of Object.entries(result)) {
+    if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((v) => typeof v === "string")
+    ) {
+      // e.g. program logs
+      console.log(`${indent}${key}:`);
+      for (const line of value) console.log(`${indent}  ${line}`);
+    } else if (Array.isArray(value)) {
+      console.log(`${indent}${key}:`);
+      printTable(value as CommandResult[], indent + "  ");
+    } else if (
+      value !== null &&
+      typeof value === "object" &&
+      !(value instanceof PublicKey) &&
+      !(value instanceof Date)
+    ) {
+      console.log(`${indent}${key}:`);
+      printText(value as CommandResult, indent + "  ");
+    } else {
+      console.log(`${indent}${key}: ${toText(value)}`);
+    }
+  }
+}
+
+export function printResult(result: CommandResult, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result, toJsonValue, 2));
+  } else {
+    printText(result, "");
+  }
+}
+
+/**
+ * One line per record, for long-running commands that report as they go:
+ * `<time> <type> key=value ...`, or a JSON object per line with --json.
+ */
+export function printLine(record: CommandResult, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(record, toJsonValue));
+    return;
+  }
+  const { type, ...rest } = record;
+  const fields = Object.entries(rest).map(([k, v]) => `${k}=${toText(v)}`);
+  console.log([new Date().toISOString(), type, ...fields].join(" "));
+}
+
+// Typed errors get their code and a hint; with --json, a JSON object on stderr.
+export function printError(e: unknown, json: boolean) {
+  if (e instanceof VaultEscrowError) {
+    if (json) {
+      console.error(
+        JSON.stringify(
+          {
+            error: e.code,
+            message: e.message,
+            hint: e.hint,
+            program: e.details.program,
+            account: e.details.account,
+            logs: e.logs,
+          },
+          null,
+          2
+        )
+      );
+      return;
+    }
+    console.error(`Error [${e.code}]: ${e.message}`);
+    if (e.hint) console.error(`Hint: ${e.hint}`);
+    if (e.code === "Unknown" && e.logs.length > 0) {
+      console.error("Logs:");
+      for (const line of e.logs) console.error(`  ${line}`);
+    }
+    return;
+  }
+  const message = e instanceof Error ? e.message : String(e);
+  if (json) {
+    console.error(JSON.stringify({ error: "Error", message }, null, 2));
+  } else {
+    console.error(`Error: ${message}`);
+  }
+}
+
+export function formatDuration(seconds: bigint): string {
+  const sign = seconds < 0n ? "-" : "";
+  let s = seconds < 0n ? -seconds : seconds;
+  const d = s / 86400n;
+  s %= 86400n;
+  const h = s / 3600n;
+  s %= 3600n;
+  const m = s / 60n;
+  s %= 60n;
+  return `${sign}${d}d ${h}h ${m}m ${s}s`;
+}
@@ -0,0 +1,116 @@
+import * as fs from "fs";
+
+import {
+  connectionFor,
+  hasDeployInfo,
+  loadDeployInfo,
+  pubkeyFromString,
+} from "../_shared";
+import {
+  AuditTarget,
+  auditCsv,
+  auditEntries,
+  auditRecord,
+  auditTotals,
+  fetchHistory,
+  formatChange,
+  identifyAccount,
+  mergeHistory,
+} from "../lib/audit";
+import { deriveAta } from "../lib/client";
+import { fetchMintInfo } from "../lib/token";
+import { CommandArgs, optionalString, parsePubkey } from "./_args";
+import { historyCommitment, profileFromFlags, tokenBalance } from "./_context";
+import { CommandResult } from "./_output";
+
+/**
+ * audit <escrow|vault> [--csv <path>]
+ *
+ * Rebuilds the history of an escrow or a vault from its transactions
+ * (scripts/lib/audit.ts): every program instruction that named it, oldest
+ * first, with its decoded arguments, the token balance changes and the
+ * block time. For a vault, also tokens sent to or taken from its ATA
+ * outside the program, and whether the changes add up to the ATA's
+ * balance. --csv writes every entry to a file for reconciliation; --json
+ * prints them all. Works for closed accounts while the RPC keeps their
+ * history. Needs no keypair.
+ */
+export async function audit({
+  positionals,
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  if (!positionals[0]) {
+    throw new Error("Usage: audit <escrow|vault> [--csv <path>]");
+  }
+  const address = parsePubkey(positionals[0], "address");
+  const csvPath = optionalString(flags, "csv");
+  const profile = profileFromFlags(flags);
+  const connection = connectionFor(profile);
+  // checks the manifest is for this program when there is one
+  const programId = hasDeployInfo(profile)
+    ? pubkeyFromString(loadDeployInfo(profile).programId)
+    : profile.programId;
+  const commitment = historyCommitment(profile);
+
+  let history = await fetchHistory(connection, [address], commitment);
+  const { kind, mint, vault } = identifyAccount(address, history, programId);
+  const mintInfo = await fetchMintInfo(connection, mint);
+  const { decimals } = mintInfo;
+
+  let target: AuditTarget = { kind: "escrow", address };
+  if (kind === "vault") {
+    const vaultAta = deriveAta(mint, address, mintInfo.tokenProgram);
+    history = mergeHistory(
+      history,
+      await fetchHistory(connection, [vaultAta], commitment)
+    );
+    target = { kind, address, vaultAta };
+  }
+
+  const entries = auditEntries(history, target, programId);
+  const net = entries.reduce((sum, e) => sum + e.vaultChange, 0n);
+  if (csvPath) fs.writeFileSync(csvPath, auditCsv(entries, decimals));
+
+  let reconciliation: CommandResult = {};
+  if (target.kind === "vault") {
+    // a closed ATA holds nothing
+    const balance = (await tokenBalance(connection, target.vaultAta)) ?? 0n;
+    reconciliation = {
+      vaultAta: target.vaultAta,
+      balance: formatChange(balance, decimals),
+      reconciled: net === balance,
+    };
+  }
+
+  return {
+    type: kind,
+    address,
+    mint,
+    ...(kind === "escrow" && { vault }),
+    transactions: history.length,
+    from: entries[0]?.blockTime ?? null,
+    to: entries[entries.length - 1]?.blockTime ?? null,
+    vaultChange: formatChange(net, decimals),
+    ...reconciliation,
+    totals: auditTotals(entries).map((t) => ({
+      instruction: t.instruction,
+      count: t.count,
+      vaultChange: formatChange(t.vaultChange, decimals),
+    })),
+    ...(csvPath && { csv: csvPath }),
+    entries:
+      flags.json === true
+        ? entries.map((e) => auditRecord(e, decimals))
+        : entries.map((e) => {
+            const r = auditRecord(e, decimals);
+            return {
+              time: r.time,
+              instruction: r.instruction,
+              amount: r.amount,
+              vaultChange: r.vault_change,
+              counterparty: r.counterparty,
+              signature: r.signature,
+            };
+          }),
+  };
+}
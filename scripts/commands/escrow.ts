@@ -0,0 +1,1177 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import * as fs from "fs";
+
+import {
+  ESCROW_ACCOUNT_SIZE,
+  EscrowAccount,
+  MAX_MILESTONES,
+  decodeEscrow,
+  decodeVault,
+  isLegacyVault,
+  milestoneProgress,
+  unreleasedAmount,
+} from "../lib/accounts";
+import { formatAmount, parseAmount } from "../lib/amount";
+import {
+  BatchProgress,
+  BatchRowStatus,
+  LOOKUP_TABLE_EXTEND_CHUNK,
+  accountInfos,
+  assertSameBatch,
+  assignEscrowIds,
+  batchFinished,
+  lookupTableAddresses,
+  lookupTableSaves,
+  newProgress,
+  packInstructions,
+  parseBatchCsv,
+  refreshProgress,
+  validateRows,
+} from "../lib/batch";
+import { MilestoneTerms, deriveAta } from "../lib/client";
+import { VaultEscrowError } from "../lib/errors";
+import {
+  ESCROW_STATES,
+  EscrowState,
+  firstFreeEscrowId,
+  listEscrows,
+  listLegacyEscrows,
+} from "../lib/indexer";
+import { planProvisioning } from "../lib/provision";
+import {
+  assertCanCommit,
+  computeSolvency,
+  reconcileVault,
+} from "../lib/solvency";
+import { fileStore } from "../lib/store";
+import { parseDeadline } from "../lib/time";
+import { MintInfo, fetchMintInfo } from "../lib/token";
+import {
+  CommandArgs,
+  Flags,
+  optionalPubkey,
+  optionalString,
+  optionalU64,
+  requirePubkey,
+  requireString,
+} from "./_args";
+import {
+  CommandContext,
+  clusterNow,
+  loadClusterContext,
+  loadContext,
+  loadMint,
+  nextEscrowId,
+  requireAmount,
+  requireKeypair,
+  selectEscrowId,
+  send,
+  sendOnly,
+  sendVersioned,
+  transferFeeFields,
+} from "./_context";
+import { CommandResult, printLine } from "./_output";
+
+/**
+ * --milestones "<amount>[@<when>] ...": space-separated tranches, each with
+ * an optional deadline of its own (no later than the escrow's).
+ */
+function parseMilestones(
+  ctx: CommandContext,
+  mint: MintInfo,
+  value: string,
+  now: bigint,
+  deadlineUnixTs: bigint
+): MilestoneTerms[] {
+  const parts = value.trim().split(/\s+/);
+  if (parts.length > MAX_MILESTONES) {
+    throw new Error(`--milestones takes at most ${MAX_MILESTONES} milestones`);
+  }
+  return parts.map((part, i) => {
+    const [amount, when] = part.split("@");
+    const milestone: MilestoneTerms = {
+      amount: parseAmount(amount, mint.decimals, {
+        symbol: ctx.info.tokenSymbol,
+        what: `milestone ${i + 1}`,
+      }),
+    };
+    if (when !== undefined) {
+      milestone.deadlineUnixTs = parseDeadline(when, now);
+      if (milestone.deadlineUnixTs > deadlineUnixTs) {
+        throw new Error(
+          `milestone ${i + 1} is due after the escrow's --deadline`
+        );
+      }
+    }
+    return milestone;
+  });
+}
+
+/**
+ * escrow create --seller <pubkey> --amount <amount> --deadline <when>
+ *               [--milestones "<amount>[@<when>] ..."] [--arbiter <pubkey>]
+ *               [--id <n>] [--allow-overcommit]
+ *
+ * Records escrow terms against the wallet's vault, under the lowest escrow
+ * ID the buyer and seller haven't used yet (or --id), so repeat deals with
+ * the same seller each get their own escrow. The seller's ATA is
+ * created in the same transaction if it doesn't exist yet (buyer pays), so
+ * release can pay out later without the seller holding any SOL.
+ *
+ * With --milestones the seller is paid in tranches (`escrow
+ * release-milestone`) and --amount, which may then be left out, must be
+ * their sum. With --arbiter, either party can later `escrow dispute`, which
+ * freezes the deadline refund until the arbiter settles with `escrow
+ * resolve`.
+ *
+ * The program doesn't check that the vault can cover the escrow, so this
+ * does: an amount above the vault's free balance (vault ATA balance minus
+ * unreleased escrows) fails with VaultOvercommitted unless
+ * --allow-overcommit is given, in which case the result carries a warning.
+ *
+ * For Token-2022 mints with a transfer fee, the result also shows what the
+ * seller would receive at the current fee: the program pays out
+ * amount_locked and the fee is withheld from it on arrival.
+ */
+export async function escrowCreate({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { decimals, tokenProgram } = mint;
+  const buyer = ctx.payer.publicKey;
+  const seller = requirePubkey(flags, "seller");
+  const now = await clusterNow(ctx.connection);
+  const deadlineUnixTs = parseDeadline(requireString(flags, "deadline"), now);
+  const arbiter = optionalPubkey(flags, "arbiter") ?? null;
+
+  const milestonesFlag = optionalString(flags, "milestones");
+  const milestones = milestonesFlag
+    ? parseMilestones(ctx, mint, milestonesFlag, now, deadlineUnixTs)
+    : [];
+  const total = milestones.reduce((sum, m) => sum + m.amount, 0n);
+  const amount =
+    milestones.length > 0 && flags.amount === undefined
+      ? total
+      : requireAmount(ctx, mint, flags, "amount");
+  if (milestones.length > 0 && total !== amount) {
+    throw new Error(
+      `--milestones add up to ${formatAmount(
+        total,
+        decimals
+      )}, not --amount ${formatAmount(amount, decimals)}`
+    );
+  }
+
+  const escrowId = await nextEscrowId(ctx, flags, { buyer, seller });
+  const addrs = ctx.client.escrowAddresses({
+    buyer,
+    seller,
+    mint: ctx.mint,
+    escrowId,
+    tokenProgram,
+  });
+
+  // seller ATA (and the vault, if this is the first escrow) only if missing
+  const plan = await planProvisioning(ctx.connection, ctx.client, {
+    payer: buyer,
+    mint: ctx.mint,
+    vaultAuthority: buyer,
+    seller,
+    tokenProgram,
+  });
+
+  // refuse to promise more than the vault holds unless told otherwise
+  const vaultExists = plan.items.find((i) => i.name === "vault")!.exists;
+  const solvency = vaultExists
+    ? await reconcileVault(ctx.connection, ctx.programId, addrs.vault, now)
+    : computeSolvency(
+        { vault: addrs.vault, vaultAta: addrs.vaultAta, mint: ctx.mint },
+        0n,
+        []
+      );
+  if (flags["allow-overcommit"] !== true) {
+    assertCanCommit(solvency, amount);
+  }
+
+  const ixs = [
+    ...plan.instructions,
+    ctx.client.initEscrow({
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      amount,
+      deadlineUnixTs,
+      arbiter,
+      milestones,
+      tokenProgram,
+    }),
+  ];
+
+  const sent = await send(ctx, ixs);
+  if (sent.type === "preview") return sent.result;
+
+  const result: CommandResult = {
+    signature: sent.signature,
+    escrow: addrs.escrow,
+    escrowId,
+    vault: addrs.vault,
+    seller,
+    sellerAta: addrs.sellerAta,
+    amount: formatAmount(amount, decimals),
+    amountBaseUnits: amount,
+    ...(await transferFeeFields(
+      ctx.connection,
+      mint,
+      amount,
+      "sellerReceives"
+    )),
+    deadline: new Date(Number(deadlineUnixTs) * 1000),
+    ...(milestones.length > 0 && {
+      milestones: milestones.map((m, i) => ({
+        milestone: i + 1,
+        amount: formatAmount(m.amount, decimals),
+        deadline: new Date(Number(m.deadlineUnixTs ?? deadlineUnixTs) * 1000),
+      })),
+    }),
+    arbiter,
+    freeBalanceBefore: formatAmount(solvency.free, decimals),
+  };
+  if (amount > solvency.free) {
+    const over = formatAmount(amount - solvency.free, decimals);
+    result.warning = `Vault over-committed by ${over} tokens`;
+  }
+  return result;
+}
+
+/**
+ * escrow batch <file.csv> [--progress <path>] [--allow-overcommit]
+ *
+ * One escrow per `seller,amount,deadline` row (scripts/lib/batch.ts). Every
+ * row is checked first, the amounts together against the vault's free
+ * balance, and nothing is sent if any row is bad. Sellers' missing ATAs
+ * are created along the way. Rows go out packed into versioned
+ * transactions, through a lookup table when that saves transactions.
+ * Progress is saved to --progress (default <file.csv>.progress.json), and
+ * running the same command again after a crash or failed transaction
+ * resumes: rows whose escrow exists are skipped and the rest retried under
+ * the same escrow IDs, so no escrow is created twice. Once no row is left
+ * to send, the lookup table is deactivated and, after the cooldown, closed;
+ * a rerun finishes that too. Prints a line per transaction as it goes.
+ */
+export async function escrowBatch({
+  positionals,
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const [csvPath] = positionals;
+  if (!csvPath) throw new Error("Usage: escrow batch <file.csv>");
+  const ctx = loadContext(flags);
+  if (ctx.submission.mode !== "send") {
+    throw new Error(
+      "escrow batch sends its own transactions; --export, --sign-only and --dry-run don't apply"
+    );
+  }
+  requireKeypair(ctx);
+  const json = flags.json === true;
+  const mint = await loadMint(ctx);
+  const { decimals, tokenProgram } = mint;
+  const buyer = ctx.payer.publicKey;
+  const allowOvercommit = flags["allow-overcommit"] === true;
+
+  const rows = parseBatchCsv(fs.readFileSync(csvPath, "utf8"));
+  const progressPath =
+    optionalString(flags, "progress") ?? `${csvPath}.progress.json`;
+  const store = fileStore<BatchProgress>(progressPath);
+  const batch = {
+    cluster: ctx.profile.name,
+    programId: ctx.programId,
+    buyer,
+    mint: ctx.mint,
+  };
+  const { vault } = ctx.client.vaultAddresses(ctx.mint, buyer, tokenProgram);
+  const now = await clusterNow(ctx.connection);
+
+  let progress = store.load();
+  const resuming = progress !== null;
+  if (progress) {
+    assertSameBatch(progress, rows, batch);
+    await waitOutInFlight(ctx, progress, json);
+    await refreshProgress(ctx.connection, progress);
+    for (const row of progress.rows) {
+      if (row.status === "pending" && BigInt(row.deadlineUnixTs) <= now) {
+        row.status = "failed";
+        row.error = "deadline has passed";
+      }
+    }
+  } else {
+    const solvency = await reconcileVault(
+      ctx.connection,
+      ctx.programId,
+      vault,
+      now
+    );
+    const { valid, errors } = validateRows(rows, {
+      decimals,
+      symbol: ctx.info.tokenSymbol,
+      now,
+      free: allowOvercommit ? null : solvency.free,
+    });
+    if (errors.length > 0) {
+      throw new Error(
+        `Nothing was sent; ${
+          errors.length
+        } problem(s) in ${csvPath}:\n  ${errors.join("\n  ")}`
+      );
+    }
+    progress = newProgress(batch, valid);
+  }
+  const state = progress;
+
+  const pending = state.rows.filter((r) => r.status === "pending");
+  if (resuming && pending.length > 0 && !allowOvercommit) {
+    // the vault may have changed since the first run
+    assertCanCommit(
+      await reconcileVault(ctx.connection, ctx.programId, vault, now),
+      pending.reduce((sum, r) => sum + BigInt(r.amountBaseUnits), 0n)
+    );
+  }
+  await assignEscrowIds(ctx.connection, ctx.client, state, tokenProgram);
+  store.save(state);
+
+  // seller ATAs that don't exist yet, created with each seller's first row
+  const sellers = [...new Set(pending.map((r) => r.seller))].map(
+    (s) => new PublicKey(s)
+  );
+  const ataInfos = await accountInfos(
+    ctx.connection,
+    sellers.map((s) => deriveAta(ctx.mint, s, tokenProgram))
+  );
+  const missingAtas = new Set(
+    sellers.filter((_, i) => ataInfos[i] === null).map((s) => s.toBase58())
+  );
+  const groups = pending.map((row) => {
+    const seller = new PublicKey(row.seller);
+    const ixs: TransactionInstruction[] = [];
+    if (missingAtas.delete(row.seller)) {
+      ixs.push(
+        ctx.client.createTokenAccount({
+          payer: buyer,
+          owner: seller,
+          mint: ctx.mint,
+          tokenProgram,
+        })
+      );
+    }
+    ixs.push(
+      ctx.client.initEscrow({
+        buyer,
+        seller,
+        mint: ctx.mint,
+        escrowId: BigInt(row.escrowId!),
+        amount: BigInt(row.amountBaseUnits),
+        deadlineUnixTs: BigInt(row.deadlineUnixTs),
+        tokenProgram,
+      })
+    );
+    return ixs;
+  });
+
+  const tables =
+    groups.length > 0
+      ? await batchLookupTables(ctx, state, groups, json, () =>
+          store.save(state)
+        )
+      : [];
+  const packs = packInstructions(buyer, groups, tables);
+  for (const [i, pack] of packs.entries()) {
+    const packRows = pack.map((j) => pending[j]);
+    const record: CommandResult = {
+      type: "transaction",
+      transaction: `${i + 1}/${packs.length}`,
+      lines: packRows.map((r) => r.line).join(","),
+    };
+    try {
+      const signature = await sendVersioned(
+        ctx,
+        pack.flatMap((j) => groups[j]),
+        tables,
+        (lastValidBlockHeight) => {
+          for (const row of packRows) {
+            row.status = "sent";
+            row.lastValidBlockHeight = lastValidBlockHeight;
+          }
+          store.save(state);
+        }
+      );
+      for (const row of packRows) {
+        row.status = "created";
+        row.signature = signature;
+        delete row.lastValidBlockHeight;
+      }
+      record.signature = signature;
+    } catch (e) {
+      // lastValidBlockHeight stays: a rerun waits it out before retrying
+      for (const row of packRows) {
+        row.status = "failed";
+        row.error = (e as Error).message;
+      }
+      record.error = (e as Error).message;
+    }
+    store.save(state);
+    printLine(record, json);
+  }
+  if (batchFinished(state, now)) {
+    await cleanUpLookupTable(ctx, state, json, () => store.save(state));
+  }
+
+  const count = (status: BatchRowStatus) =>
+    state.rows.filter((r) => r.status === status).length;
+  return {
+    progressFile: progressPath,
+    lookupTable: state.lookupTable,
+    lookupTableState: state.lookupTable
+      ? state.lookupTableState ?? "active"
+      : null,
+    transactions: packs.length,
+    created: count("created"),
+    failed: count("failed"),
+    rows: state.rows.map((r) => ({
+      line: r.line,
+      seller: r.seller,
+      amount: formatAmount(BigInt(r.amountBaseUnits), decimals),
+      deadline: new Date(Number(r.deadlineUnixTs) * 1000),
+      escrowId: r.escrowId,
+      escrow: r.escrow,
+      status: r.status,
+      error: r.error ?? null,
+    })),
+  };
+}
+
+// Until no transaction of an earlier run can still land.
+async function waitOutInFlight(
+  ctx: CommandContext,
+  progress: BatchProgress,
+  json: boolean
+) {
+  const until = Math.max(
+    0,
+    ...progress.rows.map((r) => r.lastValidBlockHeight ?? 0)
+  );
+  const height = () => ctx.connection.getBlockHeight(ctx.profile.commitment);
+  if ((await height()) > until) return;
+  printLine({ type: "waiting", untilBlockHeight: until }, json);
+  while ((await height()) <= until) {
+    await new Promise((r) => setTimeout(r, BLOCK_HEIGHT_POLL_MS));
+  }
+}
+
+const BLOCK_HEIGHT_POLL_MS = 2_000;
+
+/**
+ * The lookup table the batch sends through: the one a previous run
+ * created, or a new one when it saves transactions, or none.
+ */
+async function batchLookupTables(
+  ctx: CommandContext,
+  progress: BatchProgress,
+  groups: TransactionInstruction[][],
+  json: boolean,
+  save: () => void
+): Promise<AddressLookupTableAccount[]> {
+  const buyer = ctx.payer.publicKey;
+  if (progress.lookupTable) {
+    const { value } = await ctx.connection.getAddressLookupTable(
+      new PublicKey(progress.lookupTable)
+    );
+    if (value) return [value];
+    // its creation never landed
+    progress.lookupTable = null;
+  }
+  if (!lookupTableSaves(buyer, groups)) return [];
+
+  const addresses = lookupTableAddresses(buyer, groups);
+  const [create, table] = AddressLookupTableProgram.createLookupTable({
+    authority: buyer,
+    payer: buyer,
+    recentSlot: await ctx.connection.getSlot("finalized"),
+  });
+  progress.lookupTable = table.toBase58();
+  progress.lookupTableState = "active";
+  save();
+  for (let i = 0; i < addresses.length; i += LOOKUP_TABLE_EXTEND_CHUNK) {
+    const extend = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: table,
+      authority: buyer,
+      payer: buyer,
+      addresses: addresses.slice(i, i + LOOKUP_TABLE_EXTEND_CHUNK),
+    });
+    await sendOnly(ctx, i === 0 ? [create, extend] : [extend]);
+  }
+  printLine(
+    { type: "lookup-table", address: table, addresses: addresses.length },
+    json
+  );
+
+  // new addresses are usable from the slot after they were added
+  const extendedAt = await ctx.connection.getSlot(ctx.profile.commitment);
+  while ((await ctx.connection.getSlot(ctx.profile.commitment)) <= extendedAt) {
+    await new Promise((r) => setTimeout(r, 400));
+  }
+  const { value } = await ctx.connection.getAddressLookupTable(table);
+  if (!value) throw new Error(`Lookup table ${table.toBase58()} not found`);
+  return [value];
+}
+
+// Slots a deactivated lookup table stays usable for; it can be closed after.
+const LOOKUP_TABLE_COOLDOWN_SLOTS = 512;
+
+/**
+ * Deactivates the batch's lookup table, waits out the cooldown and closes
+ * it, returning the rent to the wallet. Each step is saved, so a rerun picks
+ * up where an interrupted one stopped.
+ */
+async function cleanUpLookupTable(
+  ctx: CommandContext,
+  progress: BatchProgress,
+  json: boolean,
+  save: () => void
+) {
+  if (!progress.lookupTable || progress.lookupTableState === "closed") return;
+  const buyer = ctx.payer.publicKey;
+  const lookupTable = new PublicKey(progress.lookupTable);
+  const fetchTable = async () =>
+    (await ctx.connection.getAddressLookupTable(lookupTable)).value;
+
+  let table = await fetchTable();
+  if (table?.isActive()) {
+    await sendOnly(ctx, [
+      AddressLookupTableProgram.deactivateLookupTable({
+        lookupTable,
+        authority: buyer,
+      }),
+    ]);
+    progress.lookupTableState = "deactivated";
+    save();
+    printLine({ type: "lookup-table-deactivated", address: lookupTable }, json);
+    table = await fetchTable();
+  }
+  if (table) {
+    const until =
+      table.state.deactivationSlot + BigInt(LOOKUP_TABLE_COOLDOWN_SLOTS);
+    const slot = async () =>
+      BigInt(await ctx.connection.getSlot(ctx.profile.commitment));
+    if ((await slot()) <= until) {
+      printLine({ type: "waiting", untilSlot: until }, json);
+      while ((await slot()) <= until) {
+        await new Promise((r) => setTimeout(r, BLOCK_HEIGHT_POLL_MS));
+      }
+    }
+    await sendOnly(ctx, [
+      AddressLookupTableProgram.closeLookupTable({
+        lookupTable,
+        authority: buyer,
+        recipient: buyer,
+      }),
+    ]);
+    printLine({ type: "lookup-table-closed", address: lookupTable }, json);
+  }
+  // a table that no longer exists was closed already
+  progress.lookupTableState = "closed";
+  save();
+}
+
+// Fee fields for paying out what `escrow` still holds; reads it only for
+// transfer-fee mints.
+async function payoutFeeFields(
+  ctx: CommandContext,
+  mint: MintInfo,
+  escrow: PublicKey,
+  receivedKey: string
+): Promise<CommandResult> {
+  if (!mint.transferFee) return {};
+  const info = await ctx.connection.getAccountInfo(escrow);
+  if (!info) return {};
+  const amount = unreleasedAmount(decodeEscrow(info.data));
+  return transferFeeFields(ctx.connection, mint, amount, receivedKey);
+}
+
+async function requireEscrow(
+  ctx: CommandContext,
+  address: PublicKey
+): Promise<EscrowAccount> {
+  const info = await ctx.connection.getAccountInfo(address);
+  if (!info) {
+    throw new Error(`Escrow ${address.toBase58()} does not exist`);
+  }
+  return decodeEscrow(info.data);
+}
+
+/**
+ * escrow release --seller <pubkey> [--id <n>]
+ *
+ * Buyer approves: pays what the escrow still holds (amount_locked minus
+ * milestones already released) from the vault ATA to the seller, minus the
+ * transfer fee for Token-2022 mints that have one.
+ */
+export async function escrowRelease({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { tokenProgram } = mint;
+  const buyer = ctx.payer.publicKey;
+  const seller = requirePubkey(flags, "seller");
+  const escrowId = await selectEscrowId(ctx, flags, { buyer, seller });
+  const addrs = ctx.client.escrowAddresses({
+    buyer,
+    seller,
+    mint: ctx.mint,
+    escrowId,
+    tokenProgram,
+  });
+  const fee = await payoutFeeFields(ctx, mint, addrs.escrow, "sellerReceived");
+
+  const sent = await send(ctx, [
+    ctx.client.releaseToSeller({
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      tokenProgram,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    escrow: addrs.escrow,
+    escrowId,
+    seller,
+    sellerAta: addrs.sellerAta,
+    ...fee,
+  };
+}
+
+/**
+ * escrow release-milestone --seller <pubkey> --milestone <n> [--id <n>]
+ *
+ * Buyer approves milestone <n> (counting from 1) of a milestone escrow and
+ * pays that tranche to the seller, before the milestone's deadline. The
+ * escrow counts as released once every milestone is.
+ */
+export async function escrowReleaseMilestone({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { decimals, tokenProgram } = mint;
+  const buyer = ctx.payer.publicKey;
+  const seller = requirePubkey(flags, "seller");
+  const number = Number(requireString(flags, "milestone"));
+  const escrowId = await selectEscrowId(ctx, flags, { buyer, seller });
+  const addrs = ctx.client.escrowAddresses({
+    buyer,
+    seller,
+    mint: ctx.mint,
+    escrowId,
+    tokenProgram,
+  });
+
+  const escrow = await requireEscrow(ctx, addrs.escrow);
+  if (escrow.milestones.length === 0) {
+    throw new Error(
+      `Escrow ${addrs.escrow.toBase58()} has no milestones; use escrow release`
+    );
+  }
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error("--milestone must be a milestone number, starting at 1");
+  }
+  const milestone = escrow.milestones[number - 1];
+  if (!milestone) {
+    throw new VaultEscrowError(
+      "MilestoneNotFound",
+      `Escrow ${addrs.escrow.toBase58()} has ${
+        escrow.milestones.length
+      } milestones`
+    );
+  }
+
+  const sent = await send(ctx, [
+    ctx.client.releaseMilestone({
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      index: number - 1,
+      tokenProgram,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  const paid = escrow.amountReleased + milestone.amount;
+  return {
+    signature: sent.signature,
+    escrow: addrs.escrow,
+    escrowId,
+    milestone: number,
+    amount: formatAmount(milestone.amount, decimals),
+    ...(await transferFeeFields(
+      ctx.connection,
+      mint,
+      milestone.amount,
+      "sellerReceived"
+    )),
+    released: `${formatAmount(paid, decimals)} of ${formatAmount(
+      escrow.amountLocked,
+      decimals
+    )}`,
+    sellerAta: addrs.sellerAta,
+  };
+}
+
+/**
+ * escrow refund --seller <pubkey> [--id <n>]
+ *
+ * After the deadline: returns what the escrow still holds (amount_locked
+ * minus milestones already released) from the vault ATA to the buyer, minus
+ * the transfer fee for Token-2022 mints that have one.
+ */
+export async function escrowRefund({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { tokenProgram } = mint;
+  const buyer = ctx.payer.publicKey;
+  const seller = requirePubkey(flags, "seller");
+  const escrowId = await selectEscrowId(ctx, flags, { buyer, seller });
+  const addrs = ctx.client.escrowAddresses({
+    buyer,
+    seller,
+    mint: ctx.mint,
+    escrowId,
+    tokenProgram,
+  });
+  const fee = await payoutFeeFields(ctx, mint, addrs.escrow, "buyerReceived");
+
+  const sent = await send(ctx, [
+    ctx.client.refundBuyer({
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      tokenProgram,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    escrow: addrs.escrow,
+    escrowId,
+    buyerAta: addrs.buyerAta,
+    ...fee,
+  };
+}
+
+/**
+ * escrow dispute (--seller <pubkey> | --buyer <pubkey>) [--id <n>]
+ *
+ * Either party disputes an escrow that has an arbiter: the buyer names the
+ * seller, the seller names the buyer. From then on refund_buyer fails with
+ * Disputed and only the arbiter can pay out.
+ */
+export async function escrowDispute({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const wallet = ctx.payer.publicKey;
+  const seller = optionalPubkey(flags, "seller");
+  const buyer = optionalPubkey(flags, "buyer");
+  if (!seller === !buyer) {
+    throw new Error(
+      "Pass --seller <pubkey> as the buyer or --buyer <pubkey> as the seller"
+    );
+  }
+  const parties = seller
+    ? { buyer: wallet, seller }
+    : { buyer: buyer!, seller: wallet };
+  const escrowId = await selectEscrowId(ctx, flags, parties);
+  const { escrow } = ctx.client.escrowAddresses({
+    ...parties,
+    mint: ctx.mint,
+    escrowId,
+  });
+
+  const sent = await send(ctx, [
+    ctx.client.raiseDispute({
+      party: wallet,
+      ...parties,
+      mint: ctx.mint,
+      escrowId,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    escrow,
+    escrowId,
+    ...parties,
+    disputedBy: wallet,
+  };
+}
+
+/**
+ * escrow resolve --buyer <pubkey> --seller <pubkey> --to-seller <amount>
+ *                [--id <n>]
+ *
+ * The arbiter settles a disputed escrow: --to-seller goes to the seller and
+ * the rest of what is left back to the buyer (0 refunds everything). Both
+ * ATAs are created if missing, arbiter pays.
+ */
+export async function escrowResolve({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { decimals, tokenProgram } = mint;
+  const arbiter = ctx.payer.publicKey;
+  const buyer = requirePubkey(flags, "buyer");
+  const seller = requirePubkey(flags, "seller");
+  const toSeller = requireAmount(ctx, mint, flags, "to-seller", true);
+  const escrowId = await selectEscrowId(ctx, flags, { buyer, seller });
+  const addrs = ctx.client.escrowAddresses({
+    buyer,
+    seller,
+    mint: ctx.mint,
+    escrowId,
+    tokenProgram,
+  });
+
+  // milestones already released stay with the seller
+  const remaining = unreleasedAmount(await requireEscrow(ctx, addrs.escrow));
+  if (toSeller > remaining) {
+    throw new VaultEscrowError(
+      "SplitExceedsLocked",
+      `--to-seller ${formatAmount(
+        toSeller,
+        decimals
+      )} exceeds the ${formatAmount(remaining, decimals)} left in the escrow`
+    );
+  }
+
+  const sent = await send(ctx, [
+    ...[buyer, seller].map((owner) =>
+      ctx.client.createTokenAccount({
+        payer: arbiter,
+        owner,
+        mint: ctx.mint,
+        tokenProgram,
+      })
+    ),
+    ctx.client.arbiterResolve({
+      arbiter,
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      sellerAmount: toSeller,
+      tokenProgram,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    escrow: addrs.escrow,
+    escrowId,
+    toSeller: formatAmount(toSeller, decimals),
+    toBuyer: formatAmount(remaining - toSeller, decimals),
+    sellerAta: addrs.sellerAta,
+    buyerAta: addrs.buyerAta,
+  };
+}
+
+// close_escrow instructions per transaction
+const CLOSE_BATCH = 10;
+
+/**
+ * escrow close [--seller <pubkey> [--id <n>]]
+ *
+ * Closes the wallet's finished (released, refunded or resolved) escrows and
+ * returns their rent to it: every one, those with --seller, or just escrow
+ * --id. Closes up to ten per transaction. --export, --sign-only and
+ * --dry-run only handle a single transaction, so narrow it down with
+ * --seller if there are more.
+ */
+export async function escrowClose({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const buyer = ctx.payer.publicKey;
+  const seller = optionalPubkey(flags, "seller");
+  const escrowId = optionalU64(flags, "id");
+  if (escrowId !== undefined && !seller) {
+    throw new Error("--id needs --seller");
+  }
+
+  const escrows = (
+    await listEscrows(
+      ctx.connection,
+      ctx.programId,
+      { buyer, seller, mint: ctx.mint, states: ["released"] },
+      await clusterNow(ctx.connection)
+    )
+  ).filter((e) => escrowId === undefined || e.account.escrowId === escrowId);
+  if (escrows.length === 0) {
+    throw new VaultEscrowError(
+      "NotReleased",
+      `No released escrows to close for buyer ${buyer.toBase58()}`
+    );
+  }
+
+  const batches: PublicKey[][] = [];
+  for (let i = 0; i < escrows.length; i += CLOSE_BATCH) {
+    batches.push(escrows.slice(i, i + CLOSE_BATCH).map((e) => e.address));
+  }
+  if (batches.length > 1 && ctx.submission.mode !== "send") {
+    throw new Error(
+      `${escrows.length} escrows need ${batches.length} transactions; narrow it down with --seller`
+    );
+  }
+
+  const signatures: string[] = [];
+  for (const batch of batches) {
+    const sent = await send(
+      ctx,
+      batch.map((escrow) => ctx.client.closeEscrow({ buyer, escrow }))
+    );
+    // only ever the one batch
+    if (sent.type === "preview") return sent.result;
+    signatures.push(sent.signature);
+  }
+
+  const rent = await ctx.connection.getMinimumBalanceForRentExemption(
+    ESCROW_ACCOUNT_SIZE
+  );
+  return {
+    closed: escrows.length,
+    rentReclaimed: (rent * escrows.length) / LAMPORTS_PER_SOL,
+    signatures,
+    escrows: escrows.map((e) => ({
+      address: e.address,
+      id: e.account.escrowId,
+      seller: e.account.seller,
+    })),
+  };
+}
+
+// migrate_escrow instructions per transaction
+const MIGRATE_BATCH = 4;
+
+/**
+ * escrow migrate [--seller <pubkey>]
+ *
+ * Moves the escrows from before escrow IDs against the wallet's vault
+ * (every one, or those with --seller), whoever their buyer, from their old
+ * address and layout to this build's, each under the lowest ID free for
+ * its pair, and returns the old accounts' rent to their buyers. Terms,
+ * milestones paid and disputes carry over, and the program adds what each
+ * still owes to the vault's count; released escrows move too, for `escrow
+ * close`. The vault must be migrated first (`vault migrate`). Once no such
+ * escrow is left against a vault that is still migrating, the last
+ * transaction also finishes the migration, which lets `vault withdraw` run
+ * again. The program takes the wallet's word for that; this checks the
+ * program's accounts first. Four escrows per transaction; --export,
+ * --sign-only and --dry-run only handle a single transaction.
+ */
+export async function escrowMigrate({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const authority = ctx.payer.publicKey;
+  const seller = optionalPubkey(flags, "seller");
+  const { vault } = ctx.client.vaultAddresses(ctx.mint, authority);
+
+  const vaultInfo = await ctx.connection.getAccountInfo(vault);
+  if (!vaultInfo) {
+    throw new Error(`Vault ${vault.toBase58()} does not exist`);
+  }
+  if (isLegacyVault(vaultInfo.data)) {
+    throw new Error(
+      `Vault ${vault.toBase58()} is in an older layout; run \`vault migrate\` first`
+    );
+  }
+  const { migrating } = decodeVault(vaultInfo.data);
+
+  const all = await listLegacyEscrows(ctx.connection, ctx.programId, {
+    vault,
+  });
+  const escrows = all.filter(
+    ({ account }) => !seller || account.seller.equals(seller)
+  );
+  // every older escrow is moved (and counted) by the end of this run
+  const finish = migrating && escrows.length === all.length;
+  if (escrows.length === 0 && !finish) {
+    return { migrated: 0, migrating, signatures: [], escrows: [] };
+  }
+
+  // at most one escrow per buyer and seller before escrow IDs
+  const moves: {
+    from: PublicKey;
+    buyer: PublicKey;
+    seller: PublicKey;
+    escrowId: bigint;
+  }[] = [];
+  for (const { address, account } of escrows) {
+    moves.push({
+      from: address,
+      buyer: account.buyer,
+      seller: account.seller,
+      escrowId: await firstFreeEscrowId(ctx.connection, ctx.client, {
+        buyer: account.buyer,
+        seller: account.seller,
+        mint: ctx.mint,
+        vaultAuthority: authority,
+      }),
+    });
+  }
+  const batches: TransactionInstruction[][] = [];
+  for (let i = 0; i < moves.length; i += MIGRATE_BATCH) {
+    batches.push(
+      moves.slice(i, i + MIGRATE_BATCH).map((move) =>
+        ctx.client.migrateEscrow({
+          payer: authority,
+          buyer: move.buyer,
+          seller: move.seller,
+          mint: ctx.mint,
+          escrowId: move.escrowId,
+          vaultAuthority: authority,
+        })
+      )
+    );
+  }
+  if (finish) {
+    const last = batches.length > 0 ? batches[batches.length - 1] : [];
+    if (batches.length === 0) batches.push(last);
+    last.push(ctx.client.finishVaultMigration({ authority, mint: ctx.mint }));
+  }
+  if (batches.length > 1 && ctx.submission.mode !== "send") {
+    throw new Error(
+      `${moves.length} escrows need ${batches.length} transactions; narrow it down with --seller`
+    );
+  }
+
+  const signatures: string[] = [];
+  for (const batch of batches) {
+    const sent = await send(ctx, batch);
+    // only ever the one batch
+    if (sent.type === "preview") return sent.result;
+    signatures.push(sent.signature);
+  }
+
+  return {
+    migrated: moves.length,
+    migrating: migrating && !finish,
+    signatures,
+    escrows: moves.map((move) => ({
+      from: move.from,
+      to: ctx.client.escrowAddresses({
+        buyer: move.buyer,
+        seller: move.seller,
+        mint: ctx.mint,
+        escrowId: move.escrowId,
+        vaultAuthority: authority,
+      }).escrow,
+      id: move.escrowId,
+      buyer: move.buyer,
+      seller: move.seller,
+    })),
+  };
+}
+
+// --state open,expired
+function parseStates(flags: Flags): EscrowState[] {
+  const value = optionalString(flags, "state");
+  if (value === undefined) return [];
+  return value.split(",").map((s) => {
+    const state = s.trim() as EscrowState;
+    if (!ESCROW_STATES.includes(state)) {
+      throw new Error(
+        `--state must be a comma-separated list of ${ESCROW_STATES.join(
+          ", "
+        )}: ${value}`
+      );
+    }
+    return state;
+  });
+}
+
+/**
+ * escrow list [--buyer <pubkey>] [--seller <pubkey>] [--vault <pubkey>]
+ *             [--mint <pubkey>] [--state open,expired,disputed,released]
+ *
+ * Every escrow of the program matching the filters, classified against
+ * cluster time, soonest deadline first. Needs no manifest: without --mint it
+ * lists escrows of every mint.
+ */
+export async function escrowList({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadClusterContext(flags);
+  const filter = {
+    buyer: optionalPubkey(flags, "buyer"),
+    seller: optionalPubkey(flags, "seller"),
+    vault: optionalPubkey(flags, "vault"),
+    mint: optionalPubkey(flags, "mint"),
+    states: parseStates(flags),
+  };
+  const now = await clusterNow(ctx.connection);
+  const escrows = await listEscrows(ctx.connection, ctx.programId, filter, now);
+
+  const decimals = new Map<string, number>();
+  async function decimalsOf(mint: PublicKey): Promise<number> {
+    const key = mint.toBase58();
+    if (!decimals.has(key)) {
+      decimals.set(key, (await fetchMintInfo(ctx.connection, mint)).decimals);
+    }
+    return decimals.get(key)!;
+  }
+
+  const rows: CommandResult[] = [];
+  for (const { address, account, state } of escrows) {
+    rows.push({
+      address,
+      id: account.escrowId,
+      state,
+      amount: formatAmount(
+        account.amountLocked,
+        await decimalsOf(account.tokenMint)
+      ),
+      paid: formatAmount(
+        account.amountReleased,
+        await decimalsOf(account.tokenMint)
+      ),
+      milestones: milestoneProgress(account),
+      deadline: new Date(Number(account.deadlineUnixTs) * 1000),
+      buyer: account.buyer,
+      seller: account.seller,
+      mint: account.tokenMint,
+    });
+  }
+
+  return {
+    clusterTime: new Date(Number(now) * 1000),
+    count: rows.length,
+    escrows: rows,
+  };
+}
@@ -0,0 +1,123 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+
+import { decodeAccount, EscrowAccount, VaultAccount } from "../lib/accounts";
+import { formatAmount } from "../lib/amount";
+import { deriveAta } from "../lib/client";
+import { escrowState } from "../lib/indexer";
+import { MintInfo, fetchMintInfo, tokenProgramName } from "../lib/token";
+import { CommandArgs, parsePubkey } from "./_args";
+import { clusterNow, loadContext, tokenBalance } from "./_context";
+import { CommandResult, formatDuration } from "./_output";
+
+async function vaultAtaSummary(
+  connection: Connection,
+  mint: MintInfo,
+  vault: PublicKey
+): Promise<CommandResult> {
+  const address = deriveAta(mint.address, vault, mint.tokenProgram);
+  const balance = await tokenBalance(connection, address);
+  return {
+    address,
+    balance:
+      balance === null ? "not created" : formatAmount(balance, mint.decimals),
+  };
+}
+
+export async function describeVault(
+  connection: Connection,
+  address: PublicKey,
+  vault: VaultAccount
+): Promise<CommandResult> {
+  const mint = await fetchMintInfo(connection, vault.mint);
+  return {
+    type: "vault",
+    address,
+    authority: vault.authority,
+    mint: vault.mint,
+    tokenProgram: tokenProgramName(mint.tokenProgram),
+    bump: vault.bump,
+    committed: formatAmount(vault.committed, mint.decimals),
+    vaultAta: await vaultAtaSummary(connection, mint, address),
+  };
+}
+
+export async function describeEscrow(
+  connection: Connection,
+  address: PublicKey,
+  escrow: EscrowAccount
+): Promise<CommandResult> {
+  const mint = await fetchMintInfo(connection, escrow.tokenMint);
+  const { decimals } = mint;
+  const now = await clusterNow(connection);
+  const remaining = escrow.deadlineUnixTs - now;
+
+  return {
+    type: "escrow",
+    address,
+    state: escrowState(escrow, now),
+    escrowId: escrow.escrowId,
+    vault: escrow.vault,
+    buyer: escrow.buyer,
+    seller: escrow.seller,
+    mint: escrow.tokenMint,
+    tokenProgram: tokenProgramName(mint.tokenProgram),
+    amountLocked: formatAmount(escrow.amountLocked, decimals),
+    amountLockedBaseUnits: escrow.amountLocked,
+    amountReleased: formatAmount(escrow.amountReleased, decimals),
+    deadline: new Date(Number(escrow.deadlineUnixTs) * 1000),
+    timeRemaining: remaining > 0n ? formatDuration(remaining) : "none",
+    released: escrow.released,
+    ...(escrow.milestones.length > 0 && {
+      milestones: escrow.milestones.map((m, i) => ({
+        milestone: i + 1,
+        amount: formatAmount(m.amount, decimals),
+        deadline: new Date(
+          Number(m.deadlineUnixTs ?? escrow.deadlineUnixTs) * 1000
+        ),
+        released: m.released,
+      })),
+    }),
+    arbiter: escrow.arbiter,
+    disputed: escrow.disputed,
+    bump: escrow.bump,
+    vaultAta: await vaultAtaSummary(connection, mint, escrow.vault),
+  };
+}
+
+/**
+ * inspect <address>
+ *
+ * Reads a Vault or Escrow account, detects which one it is from the
+ * discriminator and prints it in human units.
+ */
+export async function inspect({
+  positionals,
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  if (!positionals[0]) {
+    throw new Error("Usage: inspect <address>");
+  }
+  const address = parsePubkey(positionals[0], "address");
+  const ctx = loadContext(flags);
+
+  const account = await ctx.connection.getAccountInfo(address);
+  if (!account) {
+    throw new Error(`Account ${address.toBase58()} does not exist`);
+  }
+  if (!account.owner.equals(ctx.programId)) {
+    throw new Error(
+      `Account ${address.toBase58()} is owned by ${account.owner.toBase58()}, not the vault-escrow program`
+    );
+  }
+
+  const decoded = decodeAccount(account.data);
+  if (!decoded) {
+    throw new Error(
+      `Account ${address.toBase58()} is neither a Vault nor an Escrow`
+    );
+  }
+
+  return decoded.type === "vault"
+    ? await describeVault(ctx.connection, address, decoded.account)
+    : await describeEscrow(ctx.connection, address, decoded.account);
+}
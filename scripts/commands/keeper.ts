@@ -0,0 +1,156 @@
+import { PublicKey } from "@solana/web3.js";
+import * as path from "path";
+
+import { deriveAta, encodeRefundBuyerIx } from "../lib/client";
+import { toVaultEscrowError } from "../lib/errors";
+import { listEscrows } from "../lib/indexer";
+import { Keeper, KeeperChain, KeeperState } from "../lib/keeper";
+import { computeBudgetInstructions, sendUntilConfirmed } from "../lib/sender";
+import { fileStore } from "../lib/store";
+import { parseDuration } from "../lib/time";
+import { fetchMintInfo } from "../lib/token";
+import { CommandArgs, optionalPubkey, optionalString } from "./_args";
+import {
+  ClusterContext,
+  clusterNow,
+  loadClusterContext,
+  requireKeypair,
+} from "./_context";
+import { CommandResult, printLine } from "./_output";
+
+const KEEPER_DIR = ".keeper";
+
+// KeeperChain over RPC, refunding as the context's wallet.
+export function connectionChain(
+  ctx: ClusterContext,
+  mint?: PublicKey
+): KeeperChain {
+  const buyer = ctx.payer.publicKey;
+  const commitment = ctx.profile.commitment;
+
+  // SPL Token or Token-2022, looked up once per mint
+  const tokenPrograms = new Map<string, PublicKey>();
+  async function tokenProgramOf(mint: PublicKey): Promise<PublicKey> {
+    const key = mint.toBase58();
+    if (!tokenPrograms.has(key)) {
+      const info = await fetchMintInfo(ctx.connection, mint);
+      tokenPrograms.set(key, info.tokenProgram);
+    }
+    return tokenPrograms.get(key)!;
+  }
+
+  return {
+    now: () => clusterNow(ctx.connection),
+    blockHeight: () => ctx.connection.getBlockHeight(commitment),
+    unreleasedEscrows: (now) =>
+      listEscrows(
+        ctx.connection,
+        ctx.programId,
+        { buyer, mint, states: ["open", "expired"] },
+        now
+      ),
+    async prepareRefund({ address, account }) {
+      const tokenProgram = await tokenProgramOf(account.tokenMint);
+      const refund = encodeRefundBuyerIx({
+        programId: ctx.programId,
+        buyer,
+        mint: account.tokenMint,
+        escrow: address,
+        vault: account.vault,
+        vaultAta: deriveAta(account.tokenMint, account.vault, tokenProgram),
+        buyerAta: deriveAta(account.tokenMint, buyer, tokenProgram),
+        tokenProgram,
+      });
+      const budget = await computeBudgetInstructions(
+        ctx.connection,
+        ctx.profile.computeBudget,
+        [refund]
+      );
+      const tx = ctx.client.transaction(buyer, ...budget, refund);
+      const { blockhash, lastValidBlockHeight } =
+        await ctx.connection.getLatestBlockhash(commitment);
+      tx.recentBlockhash = blockhash;
+      tx.sign(requireKeypair(ctx));
+
+      return {
+        lastValidBlockHeight,
+        async send() {
+          try {
+            return await sendUntilConfirmed(
+              ctx.connection,
+              tx.serialize(),
+              lastValidBlockHeight,
+              { commitment }
+            );
+          } catch (e) {
+            throw toVaultEscrowError(e, ctx.programId);
+          }
+        },
+      };
+    },
+  };
+}
+
+/**
+ * keeper run [--interval <seconds>] [--warn-before <duration>]
+ *            [--max-attempts <n>] [--retry-after <duration>]
+ *            [--state-file <path>] [--once]
+ *
+ * Long-running: watches the wallet's unreleased escrows (optionally only
+ * for --mint), warns before deadlines and refunds expired escrows using
+ * cluster time. Progress lives in a state file so restarts don't resubmit.
+ * Prints one line per event; stops on SIGINT/SIGTERM, or after one pass
+ * with --once.
+ */
+export async function keeperRun({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadClusterContext(flags);
+  if (ctx.submission.mode !== "send") {
+    throw new Error(
+      "keeper run sends its own refunds; --export, --sign-only and --dry-run don't apply"
+    );
+  }
+  requireKeypair(ctx);
+  const buyer = ctx.payer.publicKey;
+  const json = flags.json === true;
+
+  const intervalSeconds = Number(optionalString(flags, "interval") ?? "30");
+  if (!Number.isInteger(intervalSeconds) || intervalSeconds < 1) {
+    throw new Error("--interval must be a whole number of seconds (>= 1)");
+  }
+  const maxAttempts = Number(optionalString(flags, "max-attempts") ?? "5");
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error("--max-attempts must be a whole number (>= 1)");
+  }
+  const warnBeforeSeconds = parseDuration(
+    optionalString(flags, "warn-before") ?? "30m",
+    "--warn-before"
+  );
+  const retryAfterSeconds = parseDuration(
+    optionalString(flags, "retry-after") ?? "1h",
+    "--retry-after"
+  );
+  const statePath =
+    optionalString(flags, "state-file") ??
+    path.join(KEEPER_DIR, `${ctx.profile.name}-${buyer.toBase58()}.json`);
+
+  const keeper = new Keeper(
+    connectionChain(ctx, optionalPubkey(flags, "mint")),
+    fileStore<KeeperState>(statePath),
+    { buyer, warnBeforeSeconds, maxAttempts, retryAfterSeconds },
+    (event) => printLine(event, json)
+  );
+
+  if (flags.once === true) {
+    await keeper.tick();
+  } else {
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.once("SIGINT", stop);
+    process.once("SIGTERM", stop);
+    await keeper.run(intervalSeconds * 1000, controller.signal);
+  }
+
+  return { buyer, stateFile: statePath, ...keeper.summary() };
+}
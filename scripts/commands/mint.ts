@@ -0,0 +1,274 @@
+import {
+  Keypair,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  AuthorityType,
+  MINT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  getMinimumBalanceForRentExemptMint,
+} from "@solana/spl-token";
+
+import { saveDeployInfo } from "../_shared";
+import { formatAmount, parseAmount } from "../lib/amount";
+import { deriveAta } from "../lib/client";
+import {
+  deriveMetadataPda,
+  encodeCreateMetadataIx,
+  encodeUpdateMetadataIx,
+  fetchMetadata,
+  validateMetadata,
+} from "../lib/metadata";
+import { tokenProgramName } from "../lib/token";
+import { CommandArgs, Flags, optionalString } from "./_args";
+import { loadClusterContext, loadContext, send } from "./_context";
+import { CommandResult } from "./_output";
+
+// Letters only, so amounts like "1,250.5 GGLD" stay unambiguous.
+function checkSymbol(symbol: string): string {
+  if (!/^[A-Za-z]{1,10}$/.test(symbol)) {
+    throw new Error("--symbol must be 1 to 10 letters");
+  }
+  return symbol;
+}
+
+/**
+ * mint create [--name "Goblin Gold"] [--symbol GGLD] [--uri <url>]
+ *             [--decimals 6] [--supply 1000000]
+ *             [--revoke-mint-authority] [--revoke-freeze-authority]
+ *             [--skip-metadata] [--token-2022]
+ *
+ * Creates a fresh SPL mint (payer is mint + freeze authority), mints
+ * `--supply` tokens into the payer's ATA, creates the Metaplex metadata
+ * account (name, symbol, URI; payer is update authority) so wallets and
+ * explorers can name the token, and records everything in the cluster's
+ * deployment manifest for the other commands. All in one transaction.
+ *
+ * The revoke flags drop the mint / freeze authority once the initial supply
+ * is minted, fixing the supply for good. --skip-metadata is for clusters
+ * without the metadata program (e.g. a bare local validator).
+ * --token-2022 creates the mint under the Token-2022 program (no extensions).
+ */
+export async function mintCreate({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const tokenName = optionalString(flags, "name") ?? "Goblin Gold";
+  const tokenSymbol = checkSymbol(optionalString(flags, "symbol") ?? "GGLD");
+  const uri = optionalString(flags, "uri") ?? "";
+  const withMetadata = flags["skip-metadata"] !== true;
+  if (withMetadata) {
+    validateMetadata({ name: tokenName, symbol: tokenSymbol, uri });
+  }
+  const decimals = Number(optionalString(flags, "decimals") ?? "6");
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 9) {
+    throw new Error("--decimals must be an integer between 0 and 9");
+  }
+  const initialAmount = parseAmount(
+    optionalString(flags, "supply") ?? "1000000",
+    decimals,
+    { symbol: tokenSymbol, what: "--supply" }
+  );
+  const revokeMint = flags["revoke-mint-authority"] === true;
+  const revokeFreeze = flags["revoke-freeze-authority"] === true;
+  const tokenProgram =
+    flags["token-2022"] === true ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+
+  const ctx = loadClusterContext(flags);
+  const { connection, payer, client } = ctx;
+
+  const mintKeypair = Keypair.generate();
+  const mint = mintKeypair.publicKey;
+  const rentLamports = await getMinimumBalanceForRentExemptMint(connection);
+
+  const createMintIx = SystemProgram.createAccount({
+    fromPubkey: payer.publicKey,
+    newAccountPubkey: mint,
+    lamports: rentLamports,
+    space: MINT_SIZE,
+    programId: tokenProgram,
+  });
+
+  const initMintIx = createInitializeMint2Instruction(
+    mint,
+    decimals,
+    payer.publicKey, // mint authority
+    payer.publicKey, // freeze authority
+    tokenProgram
+  );
+
+  const payerAta = deriveAta(mint, payer.publicKey, tokenProgram);
+  const createAtaIx = client.createTokenAccount({
+    payer: payer.publicKey,
+    owner: payer.publicKey,
+    mint,
+    tokenProgram,
+  });
+
+  const mintToIx = createMintToInstruction(
+    mint,
+    payerAta,
+    payer.publicKey,
+    initialAmount,
+    [],
+    tokenProgram
+  );
+
+  const ixs: TransactionInstruction[] = [
+    createMintIx,
+    initMintIx,
+    createAtaIx,
+    mintToIx,
+  ];
+  // metadata needs the mint authority's signature, so it goes before revoking
+  if (withMetadata) {
+    ixs.push(
+      encodeCreateMetadataIx({
+        mint,
+        mintAuthority: payer.publicKey,
+        payer: payer.publicKey,
+        updateAuthority: payer.publicKey,
+        data: {
+          name: tokenName,
+          symbol: tokenSymbol,
+          uri,
+          sellerFeeBasisPoints: 0,
+          creators: null,
+        },
+        isMutable: true,
+      })
+    );
+  }
+  if (revokeMint) {
+    ixs.push(
+      createSetAuthorityInstruction(
+        mint,
+        payer.publicKey,
+        AuthorityType.MintTokens,
+        null,
+        [],
+        tokenProgram
+      )
+    );
+  }
+  if (revokeFreeze) {
+    ixs.push(
+      createSetAuthorityInstruction(
+        mint,
+        payer.publicKey,
+        AuthorityType.FreezeAccount,
+        null,
+        [],
+        tokenProgram
+      )
+    );
+  }
+
+  const sent = await send(ctx, ixs, [mintKeypair]);
+  if (sent.type === "preview") return sent.result;
+
+  const info = {
+    cluster: ctx.profile.name,
+    programId: ctx.programId.toBase58(),
+    mint: mint.toBase58(),
+    payer: payer.publicKey.toBase58(),
+    payerAta: payerAta.toBase58(),
+    decimals,
+    tokenName,
+    tokenSymbol,
+  };
+  saveDeployInfo(ctx.profile, info);
+
+  return {
+    signature: sent.signature,
+    ...info,
+    tokenProgram: tokenProgramName(tokenProgram),
+    metadata: withMetadata ? deriveMetadataPda(mint)[0] : null,
+    mintAuthority: revokeMint ? "revoked" : payer.publicKey,
+    freezeAuthority: revokeFreeze ? "revoked" : payer.publicKey,
+    initialSupply: formatAmount(initialAmount, decimals, tokenSymbol),
+    initialSupplyBaseUnits: initialAmount,
+  };
+}
+
+function metadataFlagsGiven(flags: Flags): boolean {
+  return ["name", "symbol", "uri", "immutable"].some(
+    (name) => flags[name] !== undefined
+  );
+}
+
+/**
+ * mint update-metadata [--name <name>] [--symbol <symbol>] [--uri <url>]
+ *                      [--immutable]
+ *
+ * Rewrites the mint's Metaplex metadata; fields that aren't given keep their
+ * current value. The wallet must be the update authority. --immutable makes
+ * this the last update ever. The manifest's name and symbol follow along.
+ */
+export async function mintUpdateMetadata({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  if (!metadataFlagsGiven(flags)) {
+    throw new Error(
+      "Nothing to update: pass --name, --symbol, --uri and/or --immutable"
+    );
+  }
+  const ctx = loadContext(flags);
+  const wallet = ctx.payer.publicKey;
+
+  const current = await fetchMetadata(ctx.connection, ctx.mint);
+  if (!current) {
+    throw new Error(
+      `Mint ${ctx.mint.toBase58()} has no metadata account (created with --skip-metadata?)`
+    );
+  }
+  if (!current.updateAuthority.equals(wallet)) {
+    throw new Error(
+      `The metadata update authority is ${current.updateAuthority.toBase58()}, not this wallet`
+    );
+  }
+  if (!current.isMutable) {
+    throw new Error("The metadata is immutable");
+  }
+
+  const symbol = optionalString(flags, "symbol");
+  const data = {
+    ...current.data,
+    name: optionalString(flags, "name") ?? current.data.name,
+    symbol: symbol !== undefined ? checkSymbol(symbol) : current.data.symbol,
+    uri: optionalString(flags, "uri") ?? current.data.uri,
+  };
+  validateMetadata(data);
+
+  const sent = await send(ctx, [
+    encodeUpdateMetadataIx({
+      mint: ctx.mint,
+      updateAuthority: wallet,
+      data,
+      isMutable: flags.immutable === true ? false : null,
+    }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  if (ctx.info.mint === ctx.mint.toBase58()) {
+    saveDeployInfo(ctx.profile, {
+      ...ctx.info,
+      tokenName: data.name,
+      tokenSymbol: data.symbol,
+    });
+  }
+
+  return {
+    signature: sent.signature,
+    mint: ctx.mint,
+    metadata: deriveMetadataPda(ctx.mint)[0],
+    name: data.name,
+    symbol: data.symbol,
+    uri: data.uri,
+    mutable: flags.immutable !== true,
+  };
+}
@@ -0,0 +1,124 @@
+import { Keypair, NONCE_ACCOUNT_LENGTH, SystemProgram } from "@solana/web3.js";
+import * as fs from "fs";
+
+import { connectionFor, loadKeypair } from "../_shared";
+import { toVaultEscrowError } from "../lib/errors";
+import {
+  addSignature,
+  decodeTransaction,
+  durableNonceOf,
+  encodeTransaction,
+  signerStatus,
+  submitTransaction,
+} from "../lib/offline";
+import { CommandArgs, optionalPubkey, optionalString } from "./_args";
+import { loadClusterContext, profileFromFlags, send } from "./_context";
+import { CommandResult } from "./_output";
+
+// <tx> is base64 or a file holding it (what --export --out writes).
+function readTransaction(positionals: string[], usage: string) {
+  const arg = positionals[0];
+  if (!arg) throw new Error(`Usage: ${usage}`);
+  const base64 = fs.existsSync(arg) ? fs.readFileSync(arg, "utf8") : arg;
+  return decodeTransaction(base64);
+}
+
+function describeSigners(tx: ReturnType<typeof decodeTransaction>) {
+  return signerStatus(tx).map((s) => ({
+    signer: s.publicKey,
+    status: s.signed ? "signed" : "missing",
+  }));
+}
+
+/**
+ * sign <tx> [--keypair <path>] [--out <path>]
+ *
+ * Adds the --keypair's signature to an exported transaction and prints the
+ * result. Needs no RPC, so it runs on an air-gapped machine.
+ */
+export async function sign({
+  positionals,
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const tx = readTransaction(positionals, "sign <tx> [--keypair <path>]");
+  const signer = loadKeypair(profileFromFlags(flags).keypairPath);
+  addSignature(tx, signer);
+
+  const transaction = encodeTransaction(tx);
+  const result: CommandResult = { signedBy: signer.publicKey };
+  const out = optionalString(flags, "out");
+  if (out) {
+    fs.writeFileSync(out, transaction + "\n");
+    result.savedTo = out;
+  }
+  return { ...result, signers: describeSigners(tx), transaction };
+}
+
+/**
+ * submit <tx>
+ *
+ * Broadcasts an exported transaction once every required signer has signed
+ * and waits for confirmation.
+ */
+export async function submit({
+  positionals,
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const tx = readTransaction(positionals, "submit <tx>");
+  // no wallet needed: the signatures are already in the transaction
+  const profile = profileFromFlags(flags);
+  const nonce = durableNonceOf(tx);
+
+  let signature: string;
+  try {
+    signature = await submitTransaction(
+      connectionFor(profile),
+      tx,
+      profile.commitment
+    );
+  } catch (e) {
+    throw toVaultEscrowError(e, profile.programId);
+  }
+  return {
+    signature,
+    feePayer: tx.message.staticAccountKeys[0],
+    nonce: nonce ? nonce.account : null,
+  };
+}
+
+/**
+ * nonce create [--authority <pubkey>]
+ *
+ * Creates a durable nonce account (wallet pays the rent) for exporting
+ * transactions with --nonce. The authority, the wallet by default, signs
+ * every transaction that uses it.
+ */
+export async function nonceCreate({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadClusterContext(flags);
+  const wallet = ctx.payer.publicKey;
+  const authority = optionalPubkey(flags, "authority") ?? wallet;
+  const nonceKeypair = Keypair.generate();
+  const lamports = await ctx.connection.getMinimumBalanceForRentExemption(
+    NONCE_ACCOUNT_LENGTH
+  );
+
+  const sent = await send(
+    ctx,
+    SystemProgram.createNonceAccount({
+      fromPubkey: wallet,
+      noncePubkey: nonceKeypair.publicKey,
+      authorizedPubkey: authority,
+      lamports,
+    }).instructions,
+    [nonceKeypair]
+  );
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    nonce: nonceKeypair.publicKey,
+    authority,
+  };
+}
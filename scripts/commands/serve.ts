@@ -0,0 +1,68 @@
+import { once } from "events";
+
+import {
+  connectionFor,
+  hasDeployInfo,
+  loadDeployInfo,
+  pubkeyFromString,
+} from "../_shared";
+import { createApiServer } from "../lib/api";
+import { VaultEscrowClient } from "../lib/client";
+import { CommandArgs, optionalPubkey, optionalString } from "./_args";
+import { clusterNow, profileFromFlags } from "./_context";
+import { CommandResult, printLine } from "./_output";
+
+/**
+ * serve [--port <n>] [--host <address>] [--icon <url>]
+ *
+ * Long-running: the local HTTP API (scripts/lib/api.ts) for the profile's
+ * cluster and the manifest's mint (or --mint). It builds unsigned
+ * transactions for browser wallets and never loads a keypair. Listens on
+ * 127.0.0.1:8080 by default; stops on SIGINT/SIGTERM.
+ */
+export async function serve({ flags }: CommandArgs): Promise<CommandResult> {
+  const profile = profileFromFlags(flags);
+  const connection = connectionFor(profile);
+  // --mint alone is enough to serve a cluster without a manifest
+  const flagMint = optionalPubkey(flags, "mint");
+  const info =
+    flagMint && !hasDeployInfo(profile) ? null : loadDeployInfo(profile);
+  const mint = flagMint ?? pubkeyFromString(info!.mint);
+
+  const port = Number(optionalString(flags, "port") ?? "8080");
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error("--port must be a port number (0-65535)");
+  }
+  const host = optionalString(flags, "host") ?? "127.0.0.1";
+  const genesisHash = await connection.getGenesisHash();
+
+  const server = createApiServer({
+    connection,
+    client: new VaultEscrowClient(profile.programId),
+    mint,
+    tokenSymbol: info?.tokenSymbol,
+    computeBudget: profile.computeBudget,
+    commitment: profile.commitment,
+    now: () => clusterNow(connection),
+    blockchainId: `solana:${genesisHash.slice(0, 32)}`,
+    icon: optionalString(flags, "icon"),
+  });
+  server.listen(port, host);
+  await once(server, "listening");
+  const address = server.address();
+  const url =
+    typeof address === "object" && address
+      ? `http://${host}:${address.port}`
+      : `http://${host}:${port}`;
+  printLine(
+    { type: "listening", url, cluster: profile.name, mint },
+    flags.json === true
+  );
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  server.close();
+  return { url, cluster: profile.name, mint };
+}
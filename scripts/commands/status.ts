@@ -0,0 +1,90 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+import { decodeAccount } from "../lib/accounts";
+import { formatAmount } from "../lib/amount";
+import { deriveAta } from "../lib/client";
+import { fetchMintInfo, tokenProgramName } from "../lib/token";
+import { listEscrows } from "../lib/indexer";
+import { CommandArgs, optionalPubkey, optionalU64 } from "./_args";
+import { clusterNow, loadContext, tokenBalance } from "./_context";
+import { describeEscrow } from "./inspect";
+import { CommandResult } from "./_output";
+
+/**
+ * status [--seller <pubkey> [--id <n>]]
+ *
+ * Overview of the local wallet's setup for the current mint: SOL balance,
+ * wallet ATA, vault PDA and vault ATA. With --seller, also the latest escrow
+ * with that seller (or escrow --id) and how many there are.
+ */
+export async function status({ flags }: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const wallet = ctx.payer.publicKey;
+  const { decimals, tokenProgram } = await fetchMintInfo(
+    ctx.connection,
+    ctx.mint
+  );
+  const { vault, vaultAta } = ctx.client.vaultAddresses(
+    ctx.mint,
+    wallet,
+    tokenProgram
+  );
+
+  const fmt = (balance: bigint | null) =>
+    balance === null ? "not created" : formatAmount(balance, decimals);
+
+  const walletAta = deriveAta(ctx.mint, wallet, tokenProgram);
+  const vaultInfo = await ctx.connection.getAccountInfo(vault);
+
+  const result: CommandResult = {
+    programId: ctx.programId,
+    mint: ctx.mint,
+    tokenProgram: tokenProgramName(tokenProgram),
+    wallet,
+    sol: (await ctx.connection.getBalance(wallet)) / LAMPORTS_PER_SOL,
+    walletAta: {
+      address: walletAta,
+      balance: fmt(await tokenBalance(ctx.connection, walletAta)),
+    },
+    vault: {
+      address: vault,
+      initialized: vaultInfo !== null,
+    },
+    vaultAta: {
+      address: vaultAta,
+      balance: fmt(await tokenBalance(ctx.connection, vaultAta)),
+    },
+  };
+
+  const seller = optionalPubkey(flags, "seller");
+  if (seller) {
+    const escrows = await listEscrows(
+      ctx.connection,
+      ctx.programId,
+      { vault, buyer: wallet, seller },
+      await clusterNow(ctx.connection)
+    );
+    const escrowId =
+      optionalU64(flags, "id") ??
+      escrows.reduce(
+        (latest, e) =>
+          e.account.escrowId > latest ? e.account.escrowId : latest,
+        0n
+      );
+    const { escrow } = ctx.client.escrowAddresses({
+      buyer: wallet,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+    });
+    const escrowInfo = await ctx.connection.getAccountInfo(escrow);
+    const decoded = escrowInfo && decodeAccount(escrowInfo.data);
+    result.escrow =
+      decoded && decoded.type === "escrow"
+        ? await describeEscrow(ctx.connection, escrow, decoded.account)
+        : { address: escrow, escrowId, initialized: false };
+    result.escrowsWithSeller = escrows.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,312 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+import { LEGACY_VAULT_ACCOUNT_SIZE, isLegacyVault } from "../lib/accounts";
+import { formatAmount } from "../lib/amount";
+import { VaultEscrowError } from "../lib/errors";
+import { planProvisioning } from "../lib/provision";
+import {
+  VaultSolvency,
+  assertCanWithdraw,
+  reconcileVault,
+} from "../lib/solvency";
+import { fetchMintInfo, tokenProgramName } from "../lib/token";
+import { CommandArgs, optionalPubkey } from "./_args";
+import {
+  CommandContext,
+  clusterNow,
+  loadContext,
+  loadMint,
+  requireAmount,
+  send,
+  transferFeeFields,
+} from "./_context";
+import { CommandResult } from "./_output";
+
+/**
+ * vault init [--seller <pubkey>]
+ *
+ * Idempotent. Creates whichever of the vault PDA, vault ATA, wallet ATA and
+ * (with --seller) seller ATA are missing, in a single transaction, and sends
+ * nothing at all when everything already exists. ATAs are created under
+ * the token program that owns the mint (SPL Token or Token-2022).
+ */
+export async function vaultInit({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const { tokenProgram } = await loadMint(ctx);
+  const wallet = ctx.payer.publicKey;
+
+  const plan = await planProvisioning(ctx.connection, ctx.client, {
+    payer: wallet,
+    mint: ctx.mint,
+    vaultAuthority: wallet,
+    buyer: wallet,
+    seller: optionalPubkey(flags, "seller"),
+    tokenProgram,
+  });
+
+  let signature: string | null = null;
+  if (plan.instructions.length > 0) {
+    const sent = await send(ctx, plan.instructions);
+    if (sent.type === "preview") return sent.result;
+    signature = sent.signature;
+  }
+
+  const result: CommandResult = {
+    signature,
+    tokenProgram: tokenProgramName(tokenProgram),
+  };
+  for (const item of plan.items) {
+    result[item.name] = {
+      address: item.address,
+      status: item.exists ? "existed" : "created",
+    };
+  }
+  return result;
+}
+
+/**
+ * vault lock --amount <amount>
+ *
+ * Moves tokens from the wallet's ATA into the vault ATA. With a Token-2022
+ * transfer fee the vault receives the amount minus the fee.
+ */
+export async function vaultLock({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { tokenProgram } = mint;
+  const amount = requireAmount(ctx, mint, flags, "amount");
+  const user = ctx.payer.publicKey;
+  const { vault, vaultAta } = ctx.client.vaultAddresses(
+    ctx.mint,
+    user,
+    tokenProgram
+  );
+
+  const sent = await send(ctx, [
+    ctx.client.lockTokens({ user, mint: ctx.mint, amount, tokenProgram }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    vault,
+    vaultAta,
+    amount: formatAmount(amount, mint.decimals),
+    amountBaseUnits: amount,
+    ...(await transferFeeFields(ctx.connection, mint, amount, "vaultReceives")),
+  };
+}
+
+export function describeSolvency(
+  solvency: VaultSolvency,
+  decimals: number
+): CommandResult {
+  const fmt = (raw: bigint) => formatAmount(raw, decimals);
+  return {
+    vault: solvency.vault,
+    vaultAta: solvency.vaultAta,
+    mint: solvency.mint,
+    status: solvency.overCommitted ? "over-committed" : "solvent",
+    balance: fmt(solvency.balance),
+    committed: fmt(solvency.committed),
+    free: fmt(solvency.free),
+    shortfall: fmt(solvency.shortfall),
+    reserved: fmt(solvency.reserved),
+    migrating: solvency.migrating,
+    withdrawable: fmt(solvency.withdrawable),
+    unreleasedEscrows: solvency.escrows.map(({ address, account, state }) => ({
+      address,
+      state,
+      amount: fmt(account.amountLocked),
+      deadline: new Date(Number(account.deadlineUnixTs) * 1000),
+      seller: account.seller,
+    })),
+  };
+}
+
+/**
+ * vault reconcile [--vault <pubkey>]
+ *
+ * Compares the vault ATA balance with the sum of unreleased escrows and
+ * reports the free balance, or the shortfall if the vault is over-committed.
+ * Defaults to the wallet's vault for the current mint.
+ */
+export async function vaultReconcile({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  // the vault PDA doesn't depend on the token program
+  const vault =
+    optionalPubkey(flags, "vault") ??
+    ctx.client.vaultAddresses(ctx.mint, ctx.payer.publicKey).vault;
+
+  const solvency = await reconcileVault(
+    ctx.connection,
+    ctx.programId,
+    vault,
+    await clusterNow(ctx.connection)
+  );
+  const { decimals } = await fetchMintInfo(ctx.connection, solvency.mint);
+  return describeSolvency(solvency, decimals);
+}
+
+// The wallet's vault for the current mint, reconciled.
+async function walletVaultSolvency(
+  ctx: CommandContext
+): Promise<VaultSolvency> {
+  const { vault } = ctx.client.vaultAddresses(ctx.mint, ctx.payer.publicKey);
+  return reconcileVault(
+    ctx.connection,
+    ctx.programId,
+    vault,
+    await clusterNow(ctx.connection)
+  );
+}
+
+/**
+ * vault withdraw (--amount <amount> | --all)
+ *
+ * Moves tokens the vault doesn't owe to any unreleased escrow back to the
+ * wallet's ATA (created if missing). The program refuses to dig into what
+ * is reserved, and so does this, before sending. --all takes everything
+ * withdrawable.
+ */
+export async function vaultWithdraw({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const mint = await loadMint(ctx);
+  const { decimals, tokenProgram } = mint;
+  const authority = ctx.payer.publicKey;
+  const solvency = await walletVaultSolvency(ctx);
+
+  const all = flags.all === true;
+  if (all === (flags.amount !== undefined)) {
+    throw new Error("Pass either --amount <amount> or --all");
+  }
+  const amount = all
+    ? solvency.withdrawable
+    : requireAmount(ctx, mint, flags, "amount");
+  assertCanWithdraw(solvency, amount);
+  if (amount === 0n) {
+    throw new VaultEscrowError(
+      "WithdrawExceedsFree",
+      "Nothing to withdraw: every token in the vault is reserved"
+    );
+  }
+
+  const sent = await send(ctx, [
+    ctx.client.createTokenAccount({
+      payer: authority,
+      owner: authority,
+      mint: ctx.mint,
+      tokenProgram,
+    }),
+    ctx.client.withdraw({ authority, mint: ctx.mint, amount, tokenProgram }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    vault: solvency.vault,
+    amount: formatAmount(amount, decimals),
+    amountBaseUnits: amount,
+    ...(await transferFeeFields(
+      ctx.connection,
+      mint,
+      amount,
+      "walletReceives"
+    )),
+    withdrawableAfter: formatAmount(solvency.withdrawable - amount, decimals),
+  };
+}
+
+/**
+ * vault close
+ *
+ * Closes the wallet's vault ATA and vault PDA and returns their rent. Only
+ * an empty vault with no unreleased escrows can be closed: withdraw first.
+ */
+export async function vaultClose({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const { decimals, tokenProgram } = await loadMint(ctx);
+  const authority = ctx.payer.publicKey;
+  const solvency = await walletVaultSolvency(ctx);
+  if (solvency.balance > 0n || solvency.reserved > 0n) {
+    throw new VaultEscrowError(
+      "VaultNotEmpty",
+      `Vault ${solvency.vault.toBase58()} holds ${formatAmount(
+        solvency.balance,
+        decimals
+      )} and owes ${formatAmount(
+        solvency.reserved,
+        decimals
+      )} to unreleased escrows`
+    );
+  }
+
+  const lamports = (
+    await ctx.connection.getMultipleAccountsInfo([
+      solvency.vault,
+      solvency.vaultAta,
+    ])
+  ).reduce((sum, info) => sum + (info?.lamports ?? 0), 0);
+
+  const sent = await send(ctx, [
+    ctx.client.closeVault({ authority, mint: ctx.mint, tokenProgram }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+
+  return {
+    signature: sent.signature,
+    vault: solvency.vault,
+    vaultAta: solvency.vaultAta,
+    rentReclaimed: lamports / LAMPORTS_PER_SOL,
+  };
+}
+
+/**
+ * vault migrate
+ *
+ * Upgrades the wallet's vault from an older layout so this build can use
+ * it; the wallet pays the rent for the extra bytes. A vault from before
+ * withdrawals comes out `migrating`, with nothing counted yet: `escrow
+ * migrate` counts its escrows from before escrow IDs and then finishes the
+ * migration, and until then it can't be withdrawn from. Sends nothing for a
+ * vault that is already up to date.
+ */
+export async function vaultMigrate({
+  flags,
+}: CommandArgs): Promise<CommandResult> {
+  const ctx = loadContext(flags);
+  const authority = ctx.payer.publicKey;
+  const { vault } = ctx.client.vaultAddresses(ctx.mint, authority);
+  const info = await ctx.connection.getAccountInfo(vault);
+  if (!info) {
+    throw new Error(`Vault ${vault.toBase58()} does not exist`);
+  }
+  if (!isLegacyVault(info.data)) {
+    return { signature: null, vault, status: "up to date" };
+  }
+
+  const sent = await send(ctx, [
+    ctx.client.migrateVault({ authority, mint: ctx.mint }),
+  ]);
+  if (sent.type === "preview") return sent.result;
+  const result: CommandResult = {
+    signature: sent.signature,
+    vault,
+    status: "migrated",
+  };
+  if (info.data.length === LEGACY_VAULT_ACCOUNT_SIZE) {
+    result.next =
+      "Run `escrow migrate` to count the vault's older escrows and finish the migration";
+  }
+  return result;
+}
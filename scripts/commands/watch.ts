@@ -0,0 +1,208 @@
+import { Connection, Finality, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  connectionFor,
+  hasDeployInfo,
+  loadDeployInfo,
+  pubkeyFromString,
+} from "../_shared";
+import { ESCROW_DISCRIMINATOR } from "../lib/accounts";
+import { VaultEscrowEvent, eventJson } from "../lib/events";
+import { fileStore } from "../lib/store";
+import { WatchSource, WatchState, Watcher } from "../lib/watcher";
+import { WebhookOptions, deliver } from "../lib/webhooks";
+import { CommandArgs, optionalString } from "./_args";
+import { historyCommitment, profileFromFlags } from "./_context";
+import { CommandResult, printLine } from "./_output";
+
+const WATCH_DIR = ".watch";
+const SECRET_ENV = "VAULT_ESCROW_WEBHOOK_SECRET";
+// getSignaturesForAddress's page size limit
+const PAGE_SIZE = 1_000;
+
+// WatchSource over RPC and websockets.
+export function connectionSource(
+  connection: Connection,
+  programId: PublicKey,
+  commitment: Finality
+): WatchSource {
+  // newest first, successful only, stopping at `until`
+  async function signaturesUntil(until: string | null) {
+    const out: string[] = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        programId,
+        { before, until: until ?? undefined, limit: PAGE_SIZE },
+        commitment
+      );
+      for (const s of page) if (!s.err) out.push(s.signature);
+      if (page.length < PAGE_SIZE) return out;
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  return {
+    async latestSignature() {
+      // a run of failed transactions can hide the newest success; any
+      // signature works as a starting point
+      const [newest] = await connection.getSignaturesForAddress(
+        programId,
+        { limit: 1 },
+        commitment
+      );
+      return newest?.signature ?? null;
+    },
+    async signaturesAfter(cursor) {
+      return (await signaturesUntil(cursor)).reverse();
+    },
+    transaction: (signature) =>
+      connection.getTransaction(signature, {
+        commitment,
+        maxSupportedTransactionVersion: 0,
+      }),
+    async subscribe(listener) {
+      const logs = connection.onLogs(
+        programId,
+        ({ signature, err }) => {
+          if (!err) listener.signature(signature);
+        },
+        commitment
+      );
+      const accounts = connection.onProgramAccountChange(
+        programId,
+        () => listener.changed(),
+        {
+          commitment,
+          filters: [
+            {
+              memcmp: {
+                offset: 0,
+                bytes: ESCROW_DISCRIMINATOR.toString("base64"),
+                encoding: "base64",
+              },
+            },
+          ],
+        }
+      );
+      return async () => {
+        await connection.removeOnLogsListener(logs);
+        await connection.removeProgramAccountChangeListener(accounts);
+      };
+    },
+  };
+}
+
+/**
+ * watch [--out <path>] [--webhook <url>[,<url>...]] [--max-attempts <n>]
+ *       [--interval <seconds>] [--since <signature>] [--state-file <path>]
+ *
+ * Long-running: streams the program's events (scripts/lib/events.ts) as
+ * JSON lines, appended to --out or printed, and POSTs each one to every
+ * --webhook, HMAC-signed when VAULT_ESCROW_WEBHOOK_SECRET is set. The
+ * program is the manifest's. Needs no keypair. The cursor lives in a state
+ * file so a restart picks up where the last run stopped; a first run starts
+ * at the newest transaction, or after --since. Stops on SIGINT/SIGTERM.
+ */
+export async function watch({ flags }: CommandArgs): Promise<CommandResult> {
+  const profile = profileFromFlags(flags);
+  const connection = connectionFor(profile);
+  // checks the manifest is for this program when there is one
+  const programId = hasDeployInfo(profile)
+    ? pubkeyFromString(loadDeployInfo(profile).programId)
+    : profile.programId;
+  const commitment = historyCommitment(profile);
+  const json = flags.json === true;
+
+  const intervalSeconds = Number(optionalString(flags, "interval") ?? "30");
+  if (!Number.isInteger(intervalSeconds) || intervalSeconds < 1) {
+    throw new Error("--interval must be a whole number of seconds (>= 1)");
+  }
+  const maxAttempts = Number(optionalString(flags, "max-attempts") ?? "5");
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error("--max-attempts must be a whole number (>= 1)");
+  }
+  const webhooks = (optionalString(flags, "webhook") ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+  for (const url of webhooks) {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`--webhook must be an http(s) URL: ${url}`);
+    }
+  }
+  const webhookOptions: WebhookOptions = {
+    secret: process.env[SECRET_ENV] || undefined,
+    maxAttempts,
+    retryDelayMs: 1_000,
+    timeoutMs: 10_000,
+  };
+  const out = optionalString(flags, "out");
+  if (out) fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  const statePath =
+    optionalString(flags, "state-file") ??
+    path.join(WATCH_DIR, `${profile.name}.json`);
+
+  // with no --out the events own stdout, so progress goes to stderr
+  const report = (record: CommandResult) =>
+    out ? printLine(record, json) : console.error(JSON.stringify(record));
+
+  let events = 0;
+  let failedDeliveries = 0;
+  async function sink(batch: VaultEscrowEvent[]) {
+    for (const event of batch) {
+      const line = eventJson(event);
+      if (out) fs.appendFileSync(out, line + "\n");
+      else console.log(line);
+      events += 1;
+      const results = await Promise.all(
+        webhooks.map((url) =>
+          deliver(
+            url,
+            line,
+            {
+              "X-Vault-Escrow-Event": event.type,
+              "X-Vault-Escrow-Delivery": event.id,
+            },
+            webhookOptions
+          )
+        )
+      );
+      // a webhook that stays down doesn't hold up the stream
+      for (const result of results.filter((r) => !r.ok)) {
+        failedDeliveries += 1;
+        report({ type: "webhook-failed", id: event.id, ...result });
+      }
+    }
+  }
+
+  const watcher = new Watcher(
+    connectionSource(connection, programId, commitment),
+    fileStore<WatchState>(statePath),
+    { programId, since: optionalString(flags, "since") },
+    sink,
+    report
+  );
+  await watcher.init();
+  report({
+    type: "watching",
+    program: programId.toBase58(),
+    cursor: watcher.cursor(),
+  });
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  await watcher.run(intervalSeconds * 1000, controller.signal);
+
+  return {
+    program: programId,
+    cursor: watcher.cursor(),
+    events,
+    failedDeliveries,
+    stateFile: statePath,
+  };
+}
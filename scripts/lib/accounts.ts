@@ -0,0 +1,350 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { createHash } from "crypto";
+
+/**
+ * Borsh decoders for the program's state accounts.
+ *
+ * Layouts mirror `Vault` and `Escrow` in programs/vault-escrow/src/lib.rs.
+ * Every Anchor account starts with an 8-byte discriminator, which we check
+ * before trusting the rest of the bytes.
+ */
+
+/**
+ * Anchor account discriminator = first 8 bytes of sha256("account:<StructName>")
+ */
+export function accountDiscriminator(accountName: string): Buffer {
+  const preimage = `account:${accountName}`;
+  const hash = createHash("sha256").update(preimage).digest();
+  return hash.subarray(0, 8);
+}
+
+export const VAULT_DISCRIMINATOR = accountDiscriminator("Vault");
+export const ESCROW_DISCRIMINATOR = accountDiscriminator("Escrow");
+
+// discriminator + authority + mint + bump + committed + migrating
+export const VAULT_ACCOUNT_SIZE = 8 + 32 + 32 + 1 + 8 + 1;
+
+// Vaults created before `committed` existed, and before `migrating`, until
+// `migrate_vault` grows them.
+export const LEGACY_VAULT_ACCOUNT_SIZE = 8 + 32 + 32 + 1;
+export const LEGACY_COMMITTED_VAULT_ACCOUNT_SIZE =
+  LEGACY_VAULT_ACCOUNT_SIZE + 8;
+
+// MAX_MILESTONES in programs/vault-escrow/src/lib.rs.
+export const MAX_MILESTONES = 8;
+
+// amount + deadline_unix_ts (Option<i64>) + released
+const MILESTONE_SIZE = 8 + (1 + 8) + 1;
+
+// discriminator + vault + buyer + seller + token_mint
+//   + amount_locked + deadline_unix_ts + released + bump + disputed
+//   + escrow_id
+const ESCROW_FIXED_SIZE = 8 + 32 + 32 + 32 + 32 + 8 + 8 + 1 + 1 + 1 + 8;
+
+// + arbiter (Option<Pubkey>) + amount_released + milestones (Vec), the
+// option and the vec allocated at full size
+export const ESCROW_ACCOUNT_SIZE =
+  ESCROW_FIXED_SIZE + (1 + 32) + 8 + (4 + MAX_MILESTONES * MILESTONE_SIZE);
+
+// Escrows from before escrow IDs, by build: the original layout ends at
+// `bump`, disputes added `disputed` and `arbiter`, milestones added
+// `amount_released` and `milestones`, each allocated at full size. They
+// live at ["escrow", vault, buyer, seller] until `escrow migrate` moves them.
+const LEGACY_ESCROW_SIZE = 8 + 32 + 32 + 32 + 32 + 8 + 8 + 1 + 1;
+const LEGACY_DISPUTE_ESCROW_SIZE = LEGACY_ESCROW_SIZE + 1 + (1 + 32);
+const LEGACY_MILESTONE_ESCROW_SIZE =
+  LEGACY_DISPUTE_ESCROW_SIZE + 8 + (4 + MAX_MILESTONES * MILESTONE_SIZE);
+
+export const LEGACY_ESCROW_ACCOUNT_SIZES = [
+  LEGACY_ESCROW_SIZE,
+  LEGACY_DISPUTE_ESCROW_SIZE,
+  LEGACY_MILESTONE_ESCROW_SIZE,
+];
+
+export interface VaultAccount {
+  authority: PublicKey;
+  mint: PublicKey;
+  bump: number;
+  // what unreleased escrows are owed, as the program counts it; `withdraw`
+  // can't go below it
+  committed: bigint;
+  // set while escrows from before escrow IDs may still be uncounted;
+  // `withdraw` refuses until finish_vault_migration clears it
+  migrating: boolean;
+}
+
+export interface EscrowAccount {
+  vault: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  tokenMint: PublicKey;
+  amountLocked: bigint;
+  deadlineUnixTs: bigint;
+  released: boolean;
+  bump: number;
+  // the dispute freezes the deadline refund until the arbiter rules
+  disputed: boolean;
+  // last PDA seed: one buyer/seller pair can have many escrows per vault
+  escrowId: bigint;
+  arbiter: PublicKey | null;
+  // paid to the seller so far, by milestone releases
+  amountReleased: bigint;
+  // empty for a single-payout escrow
+  milestones: Milestone[];
+}
+
+// A legacy escrow has no ID; fields its build didn't have read as zero.
+export type LegacyEscrowAccount = Omit<EscrowAccount, "escrowId">;
+
+export interface Milestone {
+  amount: bigint;
+  // null: the escrow's deadline applies
+  deadlineUnixTs: bigint | null;
+  released: boolean;
+}
+
+export type DecodedAccount =
+  | { type: "vault"; account: VaultAccount }
+  | { type: "escrow"; account: EscrowAccount };
+
+// Tiny sequential reader so the decoders read like the Rust struct. Also
+// reads instruction data, which starts with a discriminator the same way.
+export class Reader {
+  private offset = 8; // skip discriminator
+
+  constructor(private readonly data: Buffer) {}
+
+  pubkey(): PublicKey {
+    const key = new PublicKey(
+      this.data.subarray(this.offset, this.offset + 32)
+    );
+    this.offset += 32;
+    return key;
+  }
+
+  u64(): bigint {
+    const value = this.data.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): bigint {
+    const value = this.data.readBigInt64LE(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  u8(): number {
+    const value = this.data.readUInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  u32(): number {
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  optionPubkey(): PublicKey | null {
+    return this.bool() ? this.pubkey() : null;
+  }
+
+  optionI64(): bigint | null {
+    return this.bool() ? this.i64() : null;
+  }
+
+  // bytes not read yet
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+}
+
+function checkAccount(
+  data: Buffer,
+  name: string,
+  expected: Buffer,
+  minSize: number
+) {
+  if (data.length < minSize) {
+    throw new Error(
+      `Not a ${name} account: expected at least ${minSize} bytes, got ${data.length}`
+    );
+  }
+  if (!data.subarray(0, 8).equals(expected)) {
+    throw new Error(`Not a ${name} account: discriminator mismatch`);
+  }
+}
+
+// A vault in a layout `migrate_vault` still has to grow.
+export function isLegacyVault(data: Buffer): boolean {
+  return (
+    (data.length === LEGACY_VAULT_ACCOUNT_SIZE ||
+      data.length === LEGACY_COMMITTED_VAULT_ACCOUNT_SIZE) &&
+    data.subarray(0, 8).equals(VAULT_DISCRIMINATOR)
+  );
+}
+
+export function decodeVault(data: Buffer): VaultAccount {
+  if (isLegacyVault(data)) {
+    throw new Error(
+      "Vault in an older layout; run `vault migrate` to upgrade it"
+    );
+  }
+  checkAccount(data, "Vault", VAULT_DISCRIMINATOR, VAULT_ACCOUNT_SIZE);
+  const r = new Reader(data);
+  return {
+    authority: r.pubkey(),
+    mint: r.pubkey(),
+    bump: r.u8(),
+    committed: r.u64(),
+    migrating: r.bool(),
+  };
+}
+
+export function decodeEscrow(data: Buffer): EscrowAccount {
+  if (isLegacyEscrow(data)) {
+    throw new Error(
+      "Escrow from before escrow IDs; run `escrow migrate` to move it to this build's layout"
+    );
+  }
+  // Escrows from before a layout change keep their old size; say so rather
+  // than "not an escrow".
+  if (
+    data.length !== ESCROW_ACCOUNT_SIZE &&
+    data.subarray(0, 8).equals(ESCROW_DISCRIMINATOR)
+  ) {
+    throw new Error(
+      `Escrow in an older layout (${data.length} bytes, this build reads ${ESCROW_ACCOUNT_SIZE}); settle it with the program and CLI that created it`
+    );
+  }
+  checkAccount(data, "Escrow", ESCROW_DISCRIMINATOR, ESCROW_ACCOUNT_SIZE);
+  const r = new Reader(data);
+  return {
+    vault: r.pubkey(),
+    buyer: r.pubkey(),
+    seller: r.pubkey(),
+    tokenMint: r.pubkey(),
+    amountLocked: r.u64(),
+    deadlineUnixTs: r.i64(),
+    released: r.bool(),
+    bump: r.u8(),
+    disputed: r.bool(),
+    escrowId: r.u64(),
+    arbiter: r.optionPubkey(),
+    amountReleased: r.u64(),
+    milestones: Array.from({ length: r.u32() }, () => ({
+      amount: r.u64(),
+      deadlineUnixTs: r.optionI64(),
+      released: r.bool(),
+    })),
+  };
+}
+
+export function isLegacyEscrow(data: Buffer): boolean {
+  return (
+    LEGACY_ESCROW_ACCOUNT_SIZES.includes(data.length) &&
+    data.subarray(0, 8).equals(ESCROW_DISCRIMINATOR)
+  );
+}
+
+// Mirrors `read_legacy_escrow` in the program.
+export function decodeLegacyEscrow(data: Buffer): LegacyEscrowAccount {
+  if (!isLegacyEscrow(data)) {
+    throw new Error(
+      `Not an escrow from before escrow IDs: expected ${LEGACY_ESCROW_ACCOUNT_SIZES.join(
+        ", "
+      )} bytes and the Escrow discriminator`
+    );
+  }
+  const r = new Reader(data);
+  const escrow: LegacyEscrowAccount = {
+    vault: r.pubkey(),
+    buyer: r.pubkey(),
+    seller: r.pubkey(),
+    tokenMint: r.pubkey(),
+    amountLocked: r.u64(),
+    deadlineUnixTs: r.i64(),
+    released: r.bool(),
+    bump: r.u8(),
+    disputed: false,
+    arbiter: null,
+    amountReleased: 0n,
+    milestones: [],
+  };
+  if (data.length >= LEGACY_DISPUTE_ESCROW_SIZE) {
+    escrow.disputed = r.bool();
+    escrow.arbiter = r.optionPubkey();
+  }
+  if (data.length >= LEGACY_MILESTONE_ESCROW_SIZE) {
+    escrow.amountReleased = r.u64();
+    escrow.milestones = Array.from({ length: r.u32() }, () => ({
+      amount: r.u64(),
+      deadlineUnixTs: r.optionI64(),
+      released: r.bool(),
+    }));
+  }
+  return escrow;
+}
+
+// What the vault still owes on an escrow: nothing once it is released.
+export function unreleasedAmount(escrow: LegacyEscrowAccount): bigint {
+  return escrow.released ? 0n : escrow.amountLocked - escrow.amountReleased;
+}
+
+// "2/3" milestones released, "-" for a single-payout escrow.
+export function milestoneProgress(escrow: LegacyEscrowAccount): string {
+  if (escrow.milestones.length === 0) return "-";
+  const released = escrow.milestones.filter((m) => m.released).length;
+  return `${released}/${escrow.milestones.length}`;
+}
+
+// Detect the account type from its discriminator. Returns null for anything
+// that is neither a Vault nor an Escrow.
+export function decodeAccount(data: Buffer): DecodedAccount | null {
+  const disc = data.subarray(0, 8);
+  if (disc.equals(VAULT_DISCRIMINATOR)) {
+    return { type: "vault", account: decodeVault(data) };
+  }
+  if (disc.equals(ESCROW_DISCRIMINATOR)) {
+    return { type: "escrow", account: decodeEscrow(data) };
+  }
+  return null;
+}
+
+async function fetchAccountData(
+  connection: Connection,
+  address: PublicKey,
+  programId?: PublicKey
+): Promise<Buffer> {
+  const info = await connection.getAccountInfo(address);
+  if (!info) {
+    throw new Error(`Account ${address.toBase58()} does not exist`);
+  }
+  if (programId && !info.owner.equals(programId)) {
+    throw new Error(
+      `Account ${address.toBase58()} is owned by ${info.owner.toBase58()}, not ${programId.toBase58()}`
+    );
+  }
+  return info.data;
+}
+
+export async function fetchVault(
+  connection: Connection,
+  address: PublicKey,
+  programId?: PublicKey
+): Promise<VaultAccount> {
+  return decodeVault(await fetchAccountData(connection, address, programId));
+}
+
+export async function fetchEscrow(
+  connection: Connection,
+  address: PublicKey,
+  programId?: PublicKey
+): Promise<EscrowAccount> {
+  return decodeEscrow(await fetchAccountData(connection, address, programId));
+}
@@ -0,0 +1,575 @@
+import {
+  Commitment,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+import { EscrowAccount, decodeEscrow, unreleasedAmount } from "./accounts";
+import { formatAmount, parseAmount } from "./amount";
+import {
+  VaultEscrowClient,
+  deriveAta,
+  encodeRefundBuyerIx,
+  encodeReleaseToSellerIx,
+} from "./client";
+import {
+  ProgramAccountsReader,
+  escrowState,
+  firstFreeEscrowId,
+} from "./indexer";
+import { buildExportTransaction, encodeTransaction } from "./offline";
+import { AccountReader, planProvisioning } from "./provision";
+import { ComputeBudget, computeBudgetInstructions } from "./sender";
+import { assertCanCommit, computeSolvency, reconcileVault } from "./solvency";
+import { parseDeadline } from "./time";
+import { MintInfo, assertSupportedMint, fetchMintInfo } from "./token";
+
+/**
+ * Solana Actions for the vault-escrow program.
+ *
+ * An action is a URL. GET returns what a wallet or Blink renders: a title,
+ * a description and buttons, with inputs for whatever the link leaves open.
+ * POST `{ "account": <wallet> }` to a button's href returns an unsigned
+ * transaction with that wallet as fee payer, for the wallet to sign and
+ * send. Nothing here holds a key.
+ *
+ * Query parameters carry the inputs (`?seller=...&amount=5&deadline=+7d`),
+ * so a seller can share a create link with the terms filled in and the
+ * buyer only has to sign.
+ *
+ * Format: https://solana.com/docs/advanced/actions
+ */
+
+export interface ActionParameter {
+  name: string;
+  label: string;
+  required?: boolean;
+  type?: "text" | "number";
+}
+
+export interface LinkedAction {
+  type: "transaction";
+  label: string;
+  // relative to the action's origin; `{name}` is filled from `parameters`
+  href: string;
+  parameters?: ActionParameter[];
+}
+
+// A GET response without `type` and `icon`, which the server adds.
+export interface ActionMetadata {
+  title: string;
+  description: string;
+  label: string;
+  disabled?: boolean;
+  error?: { message: string };
+  links?: { actions: LinkedAction[] };
+}
+
+export interface ActionPostResponse {
+  type: "transaction";
+  // base64 wire format, no signatures
+  transaction: string;
+  message?: string;
+}
+
+export type ActionsConnection = AccountReader &
+  ProgramAccountsReader &
+  Pick<Connection, "getLatestBlockhash" | "getRecentPrioritizationFees">;
+
+/**
+ * What the actions need: the RPC, the program, the mint `lock` and
+ * `escrow/create` work in, and cluster time. `serve` in
+ * scripts/commands/serve.ts builds it from the CLI profile; tests use
+ * fakes.
+ */
+export interface ActionsContext {
+  connection: ActionsConnection;
+  client: VaultEscrowClient;
+  mint: PublicKey;
+  // accepted as a unit in amounts, e.g. "5 GGLD"
+  tokenSymbol?: string;
+  computeBudget: ComputeBudget;
+  commitment: Commitment;
+  // cluster time, unix seconds
+  now(): Promise<bigint>;
+}
+
+// Query string values of an action URL.
+export type ActionQuery = Record<string, string | undefined>;
+
+/**
+ * One action: GET metadata and the POST transaction. `path` is the action's
+ * own URL path, which its buttons link back to.
+ */
+export interface Action {
+  get(
+    ctx: ActionsContext,
+    path: string,
+    query: ActionQuery
+  ): Promise<ActionMetadata>;
+  post(
+    ctx: ActionsContext,
+    account: PublicKey,
+    query: ActionQuery
+  ): Promise<ActionPostResponse>;
+}
+
+/**
+ * A failure with the HTTP status it answers with: 4xx for what the request
+ * got wrong. Whatever else an action throws is the server's or the RPC's.
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Runs a parser or check on the request's input, so that what it throws is
+// a 400.
+function checkInput<T>(check: () => T): T {
+  try {
+    return check();
+  } catch (e) {
+    throw new HttpError(400, e instanceof Error ? e.message : String(e));
+  }
+}
+
+function requireParam(query: ActionQuery, name: string): string {
+  const value = query[name];
+  if (value === undefined || value === "") {
+    throw new HttpError(400, `Missing required parameter "${name}"`);
+  }
+  return value;
+}
+
+function parsePubkeyParam(value: string, name: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new HttpError(400, `"${name}" is not a valid public key: ${value}`);
+  }
+}
+
+async function loadMintInfo(
+  ctx: ActionsContext,
+  mint: PublicKey
+): Promise<MintInfo> {
+  const info = await fetchMintInfo(ctx.connection, mint);
+  assertSupportedMint(info);
+  return info;
+}
+
+/**
+ * The action's href: values the link already has stay fixed, the rest
+ * become `{name}` placeholders with a matching input.
+ */
+function linkedAction(
+  path: string,
+  label: string,
+  query: ActionQuery,
+  inputs: ActionParameter[]
+): LinkedAction {
+  const open = inputs.filter((p) => !query[p.name]);
+  const search = inputs
+    .map((p) =>
+      query[p.name]
+        ? `${p.name}=${encodeURIComponent(query[p.name]!)}`
+        : `${p.name}={${p.name}}`
+    )
+    .join("&");
+  return {
+    type: "transaction",
+    label,
+    href: search ? `${path}?${search}` : path,
+    ...(open.length > 0 && { parameters: open }),
+  };
+}
+
+// Unsigned transaction paid by `payer`, with the configured compute budget.
+async function unsignedTransaction(
+  ctx: ActionsContext,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  message: string
+): Promise<ActionPostResponse> {
+  const budget = await computeBudgetInstructions(
+    ctx.connection,
+    ctx.computeBudget,
+    instructions
+  );
+  const { blockhash } = await ctx.connection.getLatestBlockhash(ctx.commitment);
+  const tx = buildExportTransaction(
+    { feePayer: payer, signers: [], blockhash },
+    [...budget, ...instructions]
+  );
+  return { type: "transaction", transaction: encodeTransaction(tx), message };
+}
+
+const LOCK_INPUTS: ActionParameter[] = [
+  { name: "amount", label: "Amount to lock", required: true, type: "number" },
+];
+
+/**
+ * lock?amount=<amount>
+ *
+ * Moves tokens from the wallet's ATA into its vault, creating the vault
+ * and vault ATA first if this is the wallet's first lock.
+ */
+export const lockAction: Action = {
+  async get(ctx, path, query) {
+    const symbol = ctx.tokenSymbol ?? "tokens";
+    return {
+      title: `Lock ${symbol} in your vault`,
+      description: `Moves ${symbol} (mint ${ctx.mint.toBase58()}) from your wallet into your vault, where escrows can promise them to sellers. Creates the vault on your first lock.`,
+      label: "Lock",
+      links: {
+        actions: [
+          linkedAction(
+            path,
+            query.amount ? `Lock ${query.amount}` : "Lock",
+            query,
+            LOCK_INPUTS
+          ),
+        ],
+      },
+    };
+  },
+
+  async post(ctx, user, query) {
+    const mint = await loadMintInfo(ctx, ctx.mint);
+    const { tokenProgram, decimals } = mint;
+    const amount = checkInput(() =>
+      parseAmount(requireParam(query, "amount"), decimals, {
+        symbol: ctx.tokenSymbol,
+        what: "amount",
+      })
+    );
+    const plan = await planProvisioning(ctx.connection, ctx.client, {
+      payer: user,
+      mint: ctx.mint,
+      vaultAuthority: user,
+      tokenProgram,
+    });
+    const { vault } = ctx.client.vaultAddresses(ctx.mint, user, tokenProgram);
+    return unsignedTransaction(
+      ctx,
+      user,
+      [
+        ...plan.instructions,
+        ctx.client.lockTokens({ user, mint: ctx.mint, amount, tokenProgram }),
+      ],
+      `Lock ${formatAmount(amount, decimals)} into vault ${vault.toBase58()}`
+    );
+  },
+};
+
+const CREATE_INPUTS: ActionParameter[] = [
+  { name: "seller", label: "Seller wallet", required: true, type: "text" },
+  { name: "amount", label: "Amount", required: true, type: "number" },
+  {
+    name: "deadline",
+    label: "Deadline (+7d, unix seconds or ISO date)",
+    required: true,
+    type: "text",
+  },
+];
+
+/**
+ * escrow/create?seller=<pubkey>&amount=<amount>&deadline=<when>
+ *               [&arbiter=<pubkey>]
+ *
+ * Opens an escrow from the wallet's vault under the lowest free escrow ID,
+ * creating the seller's ATA if needed. Refused if the vault's free balance
+ * doesn't cover the amount.
+ */
+export const escrowCreateAction: Action = {
+  async get(ctx, path, query) {
+    const symbol = ctx.tokenSymbol ?? "tokens";
+    const terms = [
+      query.amount && `${query.amount} ${symbol}`,
+      query.seller && `to ${query.seller}`,
+      query.deadline && `by ${query.deadline}`,
+    ].filter(Boolean);
+    const inputs = query.arbiter
+      ? [
+          ...CREATE_INPUTS,
+          { name: "arbiter", label: "Arbiter", type: "text" as const },
+        ]
+      : CREATE_INPUTS;
+    return {
+      title: "Open an escrow",
+      description:
+        `Promises ${
+          terms.length > 0 ? terms.join(" ") : symbol
+        } from your vault. ` +
+        "You release it to the seller once they deliver; after the deadline you can take it back.",
+      label: "Create escrow",
+      links: {
+        actions: [linkedAction(path, "Create escrow", query, inputs)],
+      },
+    };
+  },
+
+  async post(ctx, buyer, query) {
+    const mint = await loadMintInfo(ctx, ctx.mint);
+    const { tokenProgram, decimals } = mint;
+    const seller = parsePubkeyParam(requireParam(query, "seller"), "seller");
+    const amount = checkInput(() =>
+      parseAmount(requireParam(query, "amount"), decimals, {
+        symbol: ctx.tokenSymbol,
+        what: "amount",
+      })
+    );
+    const now = await ctx.now();
+    const deadlineUnixTs = checkInput(() =>
+      parseDeadline(requireParam(query, "deadline"), now, "deadline")
+    );
+    if (deadlineUnixTs <= now) {
+      throw new HttpError(400, `deadline ${query.deadline} has already passed`);
+    }
+    const arbiter = query.arbiter
+      ? parsePubkeyParam(query.arbiter, "arbiter")
+      : null;
+
+    const escrowId = await firstFreeEscrowId(ctx.connection, ctx.client, {
+      buyer,
+      seller,
+      mint: ctx.mint,
+    });
+    const addrs = ctx.client.escrowAddresses({
+      buyer,
+      seller,
+      mint: ctx.mint,
+      escrowId,
+      tokenProgram,
+    });
+
+    const plan = await planProvisioning(ctx.connection, ctx.client, {
+      payer: buyer,
+      mint: ctx.mint,
+      vaultAuthority: buyer,
+      seller,
+      tokenProgram,
+    });
+    const vaultExists = plan.items.find((i) => i.name === "vault")!.exists;
+    const solvency = vaultExists
+      ? await reconcileVault(
+          ctx.connection,
+          ctx.client.programId,
+          addrs.vault,
+          now
+        )
+      : computeSolvency(
+          { vault: addrs.vault, vaultAta: addrs.vaultAta, mint: ctx.mint },
+          0n,
+          []
+        );
+    checkInput(() => assertCanCommit(solvency, amount));
+
+    return unsignedTransaction(
+      ctx,
+      buyer,
+      [
+        ...plan.instructions,
+        ctx.client.initEscrow({
+          buyer,
+          seller,
+          mint: ctx.mint,
+          escrowId,
+          amount,
+          deadlineUnixTs,
+          arbiter,
+          tokenProgram,
+        }),
+      ],
+      `Escrow ${addrs.escrow.toBase58()} (ID ${escrowId}): ${formatAmount(
+        amount,
+        decimals
+      )} for ${seller.toBase58()} until ${new Date(
+        Number(deadlineUnixTs) * 1000
+      ).toISOString()}`
+    );
+  },
+};
+
+// The escrow at `address` and its mint; throws if it isn't one.
+async function loadEscrow(ctx: ActionsContext, address: PublicKey) {
+  const [info] = await ctx.connection.getMultipleAccountsInfo([address]);
+  if (!info || !info.owner.equals(ctx.client.programId)) {
+    throw new HttpError(404, `No escrow at ${address.toBase58()}`);
+  }
+  const account = checkInput(() => decodeEscrow(info.data));
+  const mint = await loadMintInfo(ctx, account.tokenMint);
+  const now = await ctx.now();
+  return { account, mint, now, state: escrowState(account, now) };
+}
+
+// Why release_to_seller would fail for `account` right now, if it would.
+function releaseBlocked(
+  account: EscrowAccount,
+  now: bigint
+): string | undefined {
+  if (account.released) return "This escrow has already been paid out.";
+  if (now > account.deadlineUnixTs) {
+    return `The deadline ${new Date(
+      Number(account.deadlineUnixTs) * 1000
+    ).toISOString()} has passed; the buyer can only take it back.`;
+  }
+  return undefined;
+}
+
+function requireBuyer(
+  account: PublicKey,
+  escrow: { buyer: PublicKey },
+  what: string
+) {
+  if (!account.equals(escrow.buyer)) {
+    throw new HttpError(
+      400,
+      `Only the escrow's buyer ${escrow.buyer.toBase58()} can ${what} it, not ${account.toBase58()}`
+    );
+  }
+}
+
+/**
+ * escrow/<address>/release
+ *
+ * Pays the seller whatever the escrow still holds. Signed by the buyer;
+ * creates the seller's ATA if it has been closed.
+ */
+export function releaseAction(escrow: PublicKey): Action {
+  return {
+    async get(ctx, path) {
+      const { account, mint, now } = await loadEscrow(ctx, escrow);
+      const amount = formatAmount(unreleasedAmount(account), mint.decimals);
+      const blocked = releaseBlocked(account, now);
+      return {
+        title: "Release escrow to the seller",
+        description: `Pays ${amount} from escrow ${escrow.toBase58()} to ${account.seller.toBase58()}. Only the buyer ${account.buyer.toBase58()} can sign this.`,
+        label: `Release ${amount}`,
+        ...(blocked && { disabled: true, error: { message: blocked } }),
+        links: {
+          actions: [linkedAction(path, `Release ${amount}`, {}, [])],
+        },
+      };
+    },
+
+    async post(ctx, buyer) {
+      const { account, mint, now } = await loadEscrow(ctx, escrow);
+      requireBuyer(buyer, account, "release");
+      const blocked = releaseBlocked(account, now);
+      if (blocked) throw new HttpError(400, blocked);
+      const { tokenProgram, decimals } = mint;
+      const plan = await planProvisioning(ctx.connection, ctx.client, {
+        payer: buyer,
+        mint: account.tokenMint,
+        vaultAuthority: buyer,
+        seller: account.seller,
+        tokenProgram,
+      });
+      const sellerAta = deriveAta(
+        account.tokenMint,
+        account.seller,
+        tokenProgram
+      );
+      return unsignedTransaction(
+        ctx,
+        buyer,
+        [
+          ...plan.instructions,
+          encodeReleaseToSellerIx({
+            programId: ctx.client.programId,
+            buyer,
+            seller: account.seller,
+            mint: account.tokenMint,
+            escrow,
+            vault: account.vault,
+            vaultAta: deriveAta(account.tokenMint, account.vault, tokenProgram),
+            sellerAta,
+            tokenProgram,
+          }),
+        ],
+        `Release ${formatAmount(
+          unreleasedAmount(account),
+          decimals
+        )} to ${account.seller.toBase58()}`
+      );
+    },
+  };
+}
+
+/**
+ * escrow/<address>/refund
+ *
+ * Returns what the escrow still holds to the buyer's ATA once the deadline
+ * has passed. Not while a dispute is open.
+ */
+export function refundAction(escrow: PublicKey): Action {
+  return {
+    async get(ctx, path) {
+      const { account, mint, state } = await loadEscrow(ctx, escrow);
+      const amount = formatAmount(unreleasedAmount(account), mint.decimals);
+      const deadline = new Date(
+        Number(account.deadlineUnixTs) * 1000
+      ).toISOString();
+      const blocked: Record<string, string | undefined> = {
+        open: `The deadline ${deadline} hasn't passed yet.`,
+        disputed: "The escrow is disputed; the arbiter decides where it goes.",
+        released: "This escrow has already been paid out.",
+      };
+      return {
+        title: "Refund an expired escrow",
+        description: `Returns ${amount} from escrow ${escrow.toBase58()} to the buyer ${account.buyer.toBase58()}, who signs this. Deadline: ${deadline}.`,
+        label: `Refund ${amount}`,
+        ...(blocked[state] && {
+          disabled: true,
+          error: { message: blocked[state]! },
+        }),
+        links: {
+          actions: [linkedAction(path, `Refund ${amount}`, {}, [])],
+        },
+      };
+    },
+
+    async post(ctx, buyer) {
+      const { account, mint, state } = await loadEscrow(ctx, escrow);
+      requireBuyer(buyer, account, "refund");
+      if (state !== "expired") {
+        throw new HttpError(
+          400,
+          `Escrow ${escrow.toBase58()} is ${state}; only expired escrows can be refunded`
+        );
+      }
+      const { tokenProgram, decimals } = mint;
+      const plan = await planProvisioning(ctx.connection, ctx.client, {
+        payer: buyer,
+        mint: account.tokenMint,
+        vaultAuthority: buyer,
+        buyer,
+        tokenProgram,
+      });
+      return unsignedTransaction(
+        ctx,
+        buyer,
+        [
+          ...plan.instructions,
+          encodeRefundBuyerIx({
+            programId: ctx.client.programId,
+            buyer,
+            mint: account.tokenMint,
+            escrow,
+            vault: account.vault,
+            vaultAta: deriveAta(account.tokenMint, account.vault, tokenProgram),
+            buyerAta: deriveAta(account.tokenMint, buyer, tokenProgram),
+            tokenProgram,
+          }),
+        ],
+        `Refund ${formatAmount(
+          unreleasedAmount(account),
+          decimals
+        )} to ${buyer.toBase58()}`
+      );
+    },
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Token amounts.
+ *
+ * On chain every amount is a u64 count of base units; people think in tokens.
+ * Everything here stays in bigint so nothing above 2^53 gets rounded, and
+ * conversions always go through the mint's `decimals`.
+ */
+
+export const U64_MAX = 0xffff_ffff_ffff_ffffn;
+
+// 1250 / 1,250 / 1,250.5 / .5 — commas only as thousands separators
+const TOKENS = /^(\d{1,3}(?:,\d{3})+|\d*)(?:\.(\d*))?$/;
+
+export interface ParseAmountOptions {
+  // accepted (case-insensitively) as a trailing unit, e.g. "GGLD"
+  symbol?: string;
+  // names the input in error messages, e.g. "--amount"
+  what?: string;
+  allowZero?: boolean;
+}
+
+// Splits a trailing unit off `value`: the mint's symbol, which may hold
+// digits ("USDC2", "1INCH"), or else a word after the last space or letters
+// right after the number ("50000base").
+function splitUnit(value: string, symbol?: string): [string, string | null] {
+  if (symbol && value.toLowerCase().endsWith(symbol.toLowerCase())) {
+    const number = value.slice(0, value.length - symbol.length);
+    // right after the number only if it starts with a letter: "51INCH"
+    // could be 5 1INCH or 51 INCH
+    if (
+      /\s$/.test(number) ||
+      (/^[A-Za-z]/.test(symbol) && /[\d.]$/.test(number))
+    ) {
+      return [number.trimEnd(), symbol];
+    }
+  }
+  const unit =
+    /^(.*\S)\s+(\S*[A-Za-z]\S*)$/.exec(value) ??
+    /^(.*?)([A-Za-z]+)$/.exec(value);
+  return unit ? [unit[1], unit[2]] : [value, null];
+}
+
+/**
+ * Parses a human amount into base units of a mint with `decimals`:
+ *
+ *   0.05          tokens
+ *   1,250.5 GGLD  tokens, with the mint's symbol
+ *   50000base     base units (also "50000 base")
+ *
+ * Rejects more fractional digits than the mint has, and anything outside
+ * 1..u64::MAX (0..u64::MAX with `allowZero`).
+ */
+export function parseAmount(
+  input: string,
+  decimals: number,
+  options: ParseAmountOptions = {}
+): bigint {
+  const what = options.what ?? "amount";
+  let value = input.trim();
+
+  const [number, suffix] = splitUnit(value, options.symbol);
+  let baseUnits = false;
+  if (suffix !== null) {
+    if (suffix.toLowerCase() === "base") {
+      baseUnits = true;
+    } else if (
+      !options.symbol ||
+      suffix.toLowerCase() !== options.symbol.toLowerCase()
+    ) {
+      const expected = options.symbol ? ` (expected ${options.symbol})` : "";
+      throw new Error(`${what} has an unknown unit "${suffix}"${expected}`);
+    }
+    value = number;
+  }
+
+  let amount: bigint;
+  if (baseUnits) {
+    if (!/^\d+$/.test(value.replace(/,/g, ""))) {
+      throw new Error(
+        `${what} in base units must be a whole number: ${input.trim()}`
+      );
+    }
+    amount = BigInt(value.replace(/,/g, ""));
+  } else {
+    const match = TOKENS.exec(value);
+    const whole = match?.[1] ?? "";
+    const frac = match?.[2] ?? "";
+    if (!match || (whole === "" && frac === "")) {
+      throw new Error(
+        `${what} must be a number like 0.05, 1,250.5 or 50000base: ${input.trim()}`
+      );
+    }
+    if (frac.length > decimals) {
+      throw new Error(
+        `${what} has more than ${decimals} decimal place${
+          decimals === 1 ? "" : "s"
+        }: ${input.trim()}`
+      );
+    }
+    amount =
+      BigInt(whole.replace(/,/g, "") || "0") * 10n ** BigInt(decimals) +
+      BigInt(frac.padEnd(decimals, "0") || "0");
+  }
+
+  if (amount > U64_MAX) {
+    throw new Error(`${what} exceeds u64::MAX base units: ${input.trim()}`);
+  }
+  if (amount === 0n && !options.allowZero) {
+    throw new Error(`${what} must be greater than zero: ${input.trim()}`);
+  }
+  return amount;
+}
+
+/**
+ * Base units to tokens for display: 1250500000 with 6 decimals is
+ * "1250.5", or "1250.5 GGLD" with a symbol.
+ */
+export function formatAmount(
+  raw: bigint,
+  decimals: number,
+  symbol?: string
+): string {
+  let text: string;
+  if (decimals === 0) {
+    text = raw.toString();
+  } else {
+    const base = 10n ** BigInt(decimals);
+    const whole = raw / base;
+    const frac = (raw % base).toString().padStart(decimals, "0");
+    text = `${whole}.${frac.replace(/0+$/, "") || "0"}`;
+  }
+  return symbol ? `${text} ${symbol}` : text;
+}
@@ -0,0 +1,415 @@
+import { PublicKey } from "@solana/web3.js";
+import * as http from "http";
+
+import { decodeEscrow, unreleasedAmount } from "./accounts";
+import {
+  Action,
+  ActionQuery,
+  ActionsConnection,
+  ActionsContext,
+  HttpError,
+  escrowCreateAction,
+  lockAction,
+  refundAction,
+  releaseAction,
+} from "./actions";
+import { formatAmount } from "./amount";
+import {
+  ESCROW_STATES,
+  EscrowState,
+  IndexedEscrow,
+  escrowState,
+  listEscrows,
+} from "./indexer";
+import { reconcileVault } from "./solvency";
+import { fetchMintInfo } from "./token";
+
+/**
+ * Local HTTP API.
+ *
+ * JSON views of vaults and escrows, and the Solana Actions of ./actions.ts
+ * under /api/actions. A browser wallet signs what the actions return; the
+ * server never sees a secret key.
+ *
+ *   GET       /actions.json
+ *   GET       /api/vault/<vault or authority>
+ *   GET       /api/escrow/<address>
+ *   GET       /api/escrows[?buyer=&seller=&vault=&mint=&state=]
+ *   GET|POST  /api/actions/lock
+ *   GET|POST  /api/actions/escrow/create
+ *   GET|POST  /api/actions/escrow/<address>/release
+ *   GET|POST  /api/actions/escrow/<address>/refund
+ *
+ * Every response is JSON with the CORS and Actions headers wallets check.
+ * Amounts are formatted in tokens, as the CLI prints them. Errors are
+ * `{ "message": ... }`: a 4xx status for what the request got wrong, 502
+ * when the RPC fails and 500 for anything else.
+ */
+
+/**
+ * ActionsContext plus the chain the server answers for: "solana:" and the
+ * first 32 characters of the genesis hash (CAIP-2), sent as
+ * X-Blockchain-Ids.
+ */
+export interface ApiContext extends ActionsContext {
+  blockchainId: string;
+  // absolute URL of the action icon; defaults to the server's /icon.svg
+  icon?: string;
+}
+
+export interface ApiRequest {
+  method: string;
+  // path and query, e.g. /api/actions/lock?amount=5
+  url: string;
+  // the Host header, for absolute URLs
+  host?: string;
+  body?: string;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+  contentType?: string;
+}
+
+export const ACTION_VERSION = "2.4";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64"><rect width="64" height="64" rx="12" fill="#1f2937"/><rect x="16" y="28" width="32" height="22" rx="3" fill="#fbbf24"/><path d="M22 28v-6a10 10 0 0 1 20 0v6" stroke="#fbbf24" stroke-width="5" fill="none"/></svg>`;
+
+function parseKey(value: string, what: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new HttpError(400, `${what} is not a valid public key: ${value}`);
+  }
+}
+
+function optionalKey(query: ActionQuery, name: string): PublicKey | undefined {
+  const value = query[name];
+  return value ? parseKey(value, `"${name}"`) : undefined;
+}
+
+// The action behind /api/actions/<segments>.
+function actionFor(segments: string[]): Action | null {
+  const route = segments.join("/");
+  if (route === "lock") return lockAction;
+  if (route === "escrow/create") return escrowCreateAction;
+  if (segments.length === 3 && segments[0] === "escrow") {
+    const escrow = parseKey(segments[1], "Escrow");
+    if (segments[2] === "release") return releaseAction(escrow);
+    if (segments[2] === "refund") return refundAction(escrow);
+  }
+  return null;
+}
+
+function describeEscrow(
+  { address, account, state }: IndexedEscrow,
+  decimals: number
+) {
+  const fmt = (raw: bigint) => formatAmount(raw, decimals);
+  const deadline = (ts: bigint) => new Date(Number(ts) * 1000);
+  const base = `/api/actions/escrow/${address.toBase58()}`;
+  return {
+    address,
+    escrowId: account.escrowId,
+    state,
+    vault: account.vault,
+    buyer: account.buyer,
+    seller: account.seller,
+    mint: account.tokenMint,
+    amount: fmt(account.amountLocked),
+    amountReleased: fmt(account.amountReleased),
+    unreleased: fmt(unreleasedAmount(account)),
+    deadline: deadline(account.deadlineUnixTs),
+    arbiter: account.arbiter,
+    milestones: account.milestones.map((m, i) => ({
+      milestone: i + 1,
+      amount: fmt(m.amount),
+      deadline: deadline(m.deadlineUnixTs ?? account.deadlineUnixTs),
+      released: m.released,
+    })),
+    actions: {
+      // release_to_seller also checks the deadline, disputed or not
+      ...(state === "open" || state === "disputed"
+        ? { release: `${base}/release` }
+        : {}),
+      ...(state === "expired" ? { refund: `${base}/refund` } : {}),
+    },
+  };
+}
+
+// Decimals per mint, looked up once per request.
+function decimalsCache(ctx: ApiContext) {
+  const decimals = new Map<string, number>();
+  return async (mint: PublicKey): Promise<number> => {
+    const k = mint.toBase58();
+    if (!decimals.has(k)) {
+      decimals.set(k, (await fetchMintInfo(ctx.connection, mint)).decimals);
+    }
+    return decimals.get(k)!;
+  };
+}
+
+// A vault address, or a wallet whose vault for the server's mint is meant.
+async function vaultState(ctx: ApiContext, key: PublicKey) {
+  const { programId } = ctx.client;
+  const walletVault = ctx.client.vaultAddresses(ctx.mint, key).vault;
+  const [info, walletVaultInfo] = await ctx.connection.getMultipleAccountsInfo([
+    key,
+    walletVault,
+  ]);
+  const vault = info && info.owner.equals(programId) ? key : walletVault;
+  if (vault === walletVault && !walletVaultInfo?.owner.equals(programId)) {
+    throw new HttpError(404, `No vault at or for ${key.toBase58()}`);
+  }
+  const solvency = await reconcileVault(
+    ctx.connection,
+    programId,
+    vault,
+    await ctx.now()
+  );
+  const { decimals } = await fetchMintInfo(ctx.connection, solvency.mint);
+  const fmt = (raw: bigint) => formatAmount(raw, decimals);
+  return {
+    vault: solvency.vault,
+    vaultAta: solvency.vaultAta,
+    mint: solvency.mint,
+    decimals,
+    status: solvency.overCommitted ? "over-committed" : "solvent",
+    balance: fmt(solvency.balance),
+    committed: fmt(solvency.committed),
+    free: fmt(solvency.free),
+    shortfall: fmt(solvency.shortfall),
+    reserved: fmt(solvency.reserved),
+    withdrawable: fmt(solvency.withdrawable),
+    unreleasedEscrows: solvency.escrows.map((e) => describeEscrow(e, decimals)),
+  };
+}
+
+async function escrowDetails(ctx: ApiContext, address: PublicKey) {
+  const [info] = await ctx.connection.getMultipleAccountsInfo([address]);
+  if (!info || !info.owner.equals(ctx.client.programId)) {
+    throw new HttpError(404, `No escrow at ${address.toBase58()}`);
+  }
+  let account;
+  try {
+    account = decodeEscrow(info.data);
+  } catch (e) {
+    throw new HttpError(404, `No escrow at ${address.toBase58()}: ${e}`);
+  }
+  const { decimals } = await fetchMintInfo(ctx.connection, account.tokenMint);
+  return describeEscrow(
+    { address, account, state: escrowState(account, await ctx.now()) },
+    decimals
+  );
+}
+
+function parseStates(value: string | undefined): EscrowState[] {
+  if (!value) return [];
+  return value.split(",").map((s) => {
+    if (!ESCROW_STATES.includes(s as EscrowState)) {
+      throw new HttpError(
+        400,
+        `Unknown state "${s}" (expected ${ESCROW_STATES.join(", ")})`
+      );
+    }
+    return s as EscrowState;
+  });
+}
+
+async function escrowListing(ctx: ApiContext, query: ActionQuery) {
+  const escrows = await listEscrows(
+    ctx.connection,
+    ctx.client.programId,
+    {
+      buyer: optionalKey(query, "buyer"),
+      seller: optionalKey(query, "seller"),
+      vault: optionalKey(query, "vault"),
+      mint: optionalKey(query, "mint") ?? ctx.mint,
+      states: parseStates(query.state),
+    },
+    await ctx.now()
+  );
+  const decimalsOf = decimalsCache(ctx);
+  const out = [];
+  for (const e of escrows) {
+    out.push(describeEscrow(e, await decimalsOf(e.account.tokenMint)));
+  }
+  return { escrows: out };
+}
+
+function parseAccount(body: string | undefined): PublicKey {
+  let account: unknown;
+  try {
+    account = JSON.parse(body ?? "").account;
+  } catch {
+    // handled below
+  }
+  if (typeof account !== "string") {
+    throw new HttpError(400, 'Body must be JSON with the signing "account"');
+  }
+  return parseKey(account, '"account"');
+}
+
+async function route(ctx: ApiContext, req: ApiRequest): Promise<ApiResponse> {
+  const url = new URL(req.url, "http://localhost");
+  const query: ActionQuery = Object.fromEntries(url.searchParams);
+  const segments = url.pathname.split("/").filter(Boolean);
+  const [first, second, ...rest] = segments;
+  const ok = (body: unknown): ApiResponse => ({ status: 200, body });
+
+  if (req.method === "OPTIONS") return { status: 204, body: null };
+
+  if (first === "api" && second === "actions") {
+    const action = actionFor(rest);
+    if (!action) throw new HttpError(404, `No action at ${url.pathname}`);
+    if (req.method === "GET") {
+      const icon = ctx.icon ?? `http://${req.host ?? "localhost"}/icon.svg`;
+      const metadata = await action.get(ctx, url.pathname, query);
+      return ok({ type: "action", icon, ...metadata });
+    }
+    if (req.method === "POST") {
+      return ok(await action.post(ctx, parseAccount(req.body), query));
+    }
+    throw new HttpError(405, `${req.method} is not supported here`);
+  }
+
+  if (req.method !== "GET") {
+    throw new HttpError(405, `${req.method} is not supported here`);
+  }
+  if (url.pathname === "/actions.json") {
+    return ok({
+      rules: [{ pathPattern: "/api/actions/**", apiPath: "/api/actions/**" }],
+    });
+  }
+  if (url.pathname === "/icon.svg") {
+    return { status: 200, body: ICON_SVG, contentType: "image/svg+xml" };
+  }
+  if (first === "api" && rest.length === 1 && second === "vault") {
+    return ok(await vaultState(ctx, parseKey(rest[0], "Vault")));
+  }
+  if (first === "api" && rest.length === 1 && second === "escrow") {
+    return ok(await escrowDetails(ctx, parseKey(rest[0], "Escrow")));
+  }
+  if (first === "api" && rest.length === 0 && second === "escrows") {
+    return ok(await escrowListing(ctx, query));
+  }
+  throw new HttpError(404, `Nothing at ${url.pathname}`);
+}
+
+// Awaits an RPC call, turning its failure into a 502: the request was
+// fine, the node wasn't.
+async function fromRpc<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (e) {
+    throw new HttpError(
+      502,
+      `RPC request failed: ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
+
+// `ctx` with every RPC call, cluster time included, going through fromRpc.
+function withRpcErrors(ctx: ApiContext): ApiContext {
+  const c = ctx.connection;
+  const connection: ActionsConnection = {
+    getMultipleAccountsInfo: (...args) =>
+      fromRpc(c.getMultipleAccountsInfo(...args)),
+    // overloaded; the cast keeps every overload
+    getProgramAccounts: ((...args: Parameters<typeof c.getProgramAccounts>) =>
+      fromRpc(
+        c.getProgramAccounts(...args)
+      )) as ActionsConnection["getProgramAccounts"],
+    getLatestBlockhash: (...args) => fromRpc(c.getLatestBlockhash(...args)),
+    getRecentPrioritizationFees: (...args) =>
+      fromRpc(c.getRecentPrioritizationFees(...args)),
+  };
+  return { ...ctx, connection, now: () => fromRpc(ctx.now()) };
+}
+
+function errorResponse(e: unknown): ApiResponse {
+  const status = e instanceof HttpError ? e.status : 500;
+  const message = e instanceof Error ? e.message : String(e);
+  return { status, body: { message } };
+}
+
+/**
+ * Answers one request. Anything thrown becomes `{ message }`: HttpErrors
+ * keep their status (4xx for bad input and for what the program would
+ * refuse, 502 for a failed RPC call), everything else is a 500.
+ */
+export async function handleRequest(
+  ctx: ApiContext,
+  req: ApiRequest
+): Promise<ApiResponse> {
+  try {
+    return await route(withRpcErrors(ctx), req);
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function headers(ctx: ApiContext, contentType: string) {
+  return {
+    "Content-Type": contentType,
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET,POST,PUT,OPTIONS",
+    "Access-Control-Allow-Headers":
+      "Content-Type, Authorization, Content-Encoding, Accept-Encoding",
+    "Access-Control-Expose-Headers": "X-Action-Version, X-Blockchain-Ids",
+    "X-Action-Version": ACTION_VERSION,
+    "X-Blockchain-Ids": ctx.blockchainId,
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", (e) => reject(new HttpError(400, e.message)));
+  });
+}
+
+// The API as a node http server; call `listen` on it.
+export function createApiServer(ctx: ApiContext): http.Server {
+  return http.createServer(async (req, res) => {
+    let response: ApiResponse;
+    try {
+      response = await handleRequest(ctx, {
+        method: req.method ?? "GET",
+        url: req.url ?? "/",
+        host: req.headers.host,
+        body: req.method === "POST" ? await readBody(req) : undefined,
+      });
+    } catch (e) {
+      response = errorResponse(e);
+    }
+    const contentType = response.contentType ?? "application/json";
+    res.writeHead(response.status, headers(ctx, contentType));
+    if (response.body === null) {
+      res.end();
+    } else if (typeof response.body === "string") {
+      res.end(response.body);
+    } else {
+      res.end(JSON.stringify(response.body, toJsonValue));
+    }
+  });
+}
@@ -0,0 +1,361 @@
+import {
+  Connection,
+  Finality,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+
+import { formatAmount } from "./amount";
+import {
+  DecodedInstruction,
+  INSTRUCTION_ACCOUNTS,
+  InstructionName,
+  programInstructions,
+  tokenBalanceChanges,
+} from "./transactions";
+
+/**
+ * Audit trail of an escrow or a vault, rebuilt from transaction history.
+ *
+ * Walks the signatures of the escrow PDA (or the vault PDA and its ATA),
+ * decodes every vault-escrow instruction that names the account, and pairs
+ * it with the token balance changes and block time of its transaction.
+ * Balance changes are per transaction: two token-moving instructions for
+ * the same vault in one transaction both show the combined change. Failed
+ * transactions changed nothing and are left out.
+ */
+
+export type HistoryReader = Pick<
+  Connection,
+  "getSignaturesForAddress" | "getTransactions"
+>;
+
+export interface HistoryItem {
+  signature: string;
+  tx: VersionedTransactionResponse;
+}
+
+// getSignaturesForAddress's page size limit
+const SIGNATURE_PAGE_SIZE = 1_000;
+// transactions fetched per batched RPC request
+const TRANSACTION_BATCH = 50;
+
+/**
+ * The successful transactions that touched any of `addresses`, oldest
+ * first, each once.
+ */
+export async function fetchHistory(
+  reader: HistoryReader,
+  addresses: PublicKey[],
+  commitment: Finality
+): Promise<HistoryItem[]> {
+  const slots = new Map<string, number>();
+  for (const address of addresses) {
+    let before: string | undefined;
+    for (;;) {
+      const page = await reader.getSignaturesForAddress(
+        address,
+        { before, limit: SIGNATURE_PAGE_SIZE },
+        commitment
+      );
+      for (const s of page) if (!s.err) slots.set(s.signature, s.slot);
+      if (page.length < SIGNATURE_PAGE_SIZE) break;
+      before = page[page.length - 1].signature;
+    }
+  }
+  // pages are newest first; within a slot, keep the reverse of that order
+  const signatures = [...slots.keys()]
+    .reverse()
+    .sort((a, b) => slots.get(a)! - slots.get(b)!);
+
+  const history: HistoryItem[] = [];
+  for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH) {
+    const batch = signatures.slice(i, i + TRANSACTION_BATCH);
+    const txs = await reader.getTransactions(batch, {
+      commitment,
+      maxSupportedTransactionVersion: 0,
+    });
+    txs.forEach((tx, j) => {
+      if (!tx) {
+        throw new Error(
+          `Transaction ${batch[j]} is not available from the RPC (it may have pruned its history)`
+        );
+      }
+      history.push({ signature: batch[j], tx });
+    });
+  }
+  return history;
+}
+
+// `a` and `b` as one history, oldest first, each transaction once.
+export function mergeHistory(a: HistoryItem[], b: HistoryItem[]) {
+  const known = new Set(a.map((h) => h.signature));
+  return [...a, ...b.filter((h) => !known.has(h.signature))].sort(
+    (x, y) => x.tx.slot - y.tx.slot
+  );
+}
+
+export interface AuditedAccount {
+  kind: "escrow" | "vault";
+  mint: PublicKey;
+  vault: PublicKey;
+}
+
+/**
+ * Whether `address` is an escrow or a vault, and its mint and vault, from
+ * the program instructions in its history. Works for closed accounts too.
+ */
+export function identifyAccount(
+  address: PublicKey,
+  history: HistoryItem[],
+  programId: PublicKey
+): AuditedAccount {
+  let kind: AuditedAccount["kind"] | null = null;
+  for (const { tx } of history) {
+    for (const ix of programInstructions(tx, programId)) {
+      const asEscrow = ix.accounts.escrow?.equals(address) ?? false;
+      const asVault = ix.accounts.vault?.equals(address) ?? false;
+      if (!asEscrow && !asVault) continue;
+      kind = asEscrow ? "escrow" : "vault";
+      // raise_dispute and close_escrow don't name the mint; keep looking
+      if (ix.accounts.mint && ix.accounts.vault) {
+        return { kind, mint: ix.accounts.mint, vault: ix.accounts.vault };
+      }
+    }
+  }
+  throw new Error(
+    kind
+      ? `No instruction in the history of ${address.toBase58()} names its mint (the RPC may have pruned its older history)`
+      : `No vault-escrow instruction names ${address.toBase58()} as an escrow or a vault`
+  );
+}
+
+export type AuditTarget =
+  | { kind: "escrow"; address: PublicKey }
+  | { kind: "vault"; address: PublicKey; vaultAta: PublicKey };
+
+export interface AuditEntry {
+  signature: string;
+  slot: number;
+  blockTime: Date | null;
+  // the program instruction, or "transfer" for tokens moved in or out of
+  // the vault ATA without one
+  instruction: InstructionName | "transfer";
+  // position among the transaction's top-level instructions
+  index: number | null;
+  escrow: PublicKey | null;
+  vault: PublicKey | null;
+  // who signed for it: buyer, vault authority, arbiter or disputing party
+  signer: PublicKey | null;
+  // the wallet on the other side of the token movement
+  counterparty: PublicKey | null;
+  // the amount argument, base units: lock, withdraw, the escrow amount or
+  // an arbiter's award to the seller
+  amount: bigint | null;
+  // the other decoded arguments
+  args: Record<string, unknown>;
+  // how much the vault ATA's balance changed in the transaction
+  vaultChange: bigint;
+  // how much the counterparty's token account changed
+  counterpartyChange: bigint | null;
+  // transaction fee, lamports
+  fee: number;
+}
+
+// Which wallet and token account are on the other side, per instruction.
+const COUNTERPARTY: Partial<Record<InstructionName, [string, string]>> = {
+  lock_tokens: ["user", "userAta"],
+  release_to_seller: ["seller", "sellerAta"],
+  release_milestone: ["seller", "sellerAta"],
+  refund_buyer: ["buyer", "buyerAta"],
+  arbiter_resolve: ["seller", "sellerAta"],
+  withdraw: ["authority", "authorityAta"],
+};
+
+const AMOUNT_ARG = ["amount", "sellerAmount"];
+
+function involves(ix: DecodedInstruction, target: AuditTarget): boolean {
+  const account = ix.accounts[target.kind];
+  return account !== undefined && account.equals(target.address);
+}
+
+/**
+ * The audit entries of `history` for `target`, in order: one per program
+ * instruction naming it and, for a vault, one per transaction that moved
+ * tokens in or out of its ATA without one.
+ */
+export function auditEntries(
+  history: HistoryItem[],
+  target: AuditTarget,
+  programId: PublicKey
+): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (const { signature, tx } of history) {
+    if (tx.meta?.err) continue;
+    const changes = tokenBalanceChanges(tx);
+    const change = (address: PublicKey | undefined) => {
+      if (!address) return null;
+      const c = changes.find((c) => c.address.equals(address));
+      return c ? c.after - c.before : 0n;
+    };
+    const base = {
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+      fee: tx.meta?.fee ?? 0,
+    };
+
+    const ixs = programInstructions(tx, programId).filter((ix) =>
+      involves(ix, target)
+    );
+    for (const ix of ixs) {
+      const [owner, ata] = COUNTERPARTY[ix.name] ?? [];
+      const amountArg = AMOUNT_ARG.find((a) => a in ix.args);
+      const args = { ...ix.args };
+      if (amountArg) delete args[amountArg];
+      entries.push({
+        ...base,
+        instruction: ix.name,
+        index: ix.index,
+        escrow: ix.accounts.escrow ?? null,
+        vault: ix.accounts.vault ?? null,
+        signer: ix.accounts[INSTRUCTION_ACCOUNTS[ix.name][0]] ?? null,
+        counterparty: owner ? ix.accounts[owner] ?? null : null,
+        amount: amountArg ? (ix.args[amountArg] as bigint) : null,
+        args,
+        vaultChange: change(ix.accounts.vaultAta) ?? 0n,
+        counterpartyChange: ata ? change(ix.accounts[ata]) : null,
+      });
+    }
+
+    if (target.kind === "vault" && ixs.length === 0) {
+      const vaultChange = change(target.vaultAta)!;
+      if (vaultChange === 0n) continue;
+      // the other side: whichever token account moved the opposite way
+      const other = changes.find(
+        (c) =>
+          !c.address.equals(target.vaultAta) &&
+          (c.after - c.before) * vaultChange < 0n
+      );
+      entries.push({
+        ...base,
+        instruction: "transfer",
+        index: null,
+        escrow: null,
+        vault: target.address,
+        signer: tx.transaction.message.staticAccountKeys[0] ?? null,
+        counterparty: other?.owner ?? null,
+        amount: null,
+        args: {},
+        vaultChange,
+        counterpartyChange: other ? other.after - other.before : null,
+      });
+    }
+  }
+  return entries;
+}
+
+export interface AuditTotal {
+  instruction: AuditEntry["instruction"];
+  count: number;
+  vaultChange: bigint;
+}
+
+// Entries and vault ATA change per instruction, in order of first use.
+export function auditTotals(entries: AuditEntry[]): AuditTotal[] {
+  const totals = new Map<string, AuditTotal>();
+  for (const e of entries) {
+    const total = totals.get(e.instruction) ?? {
+      instruction: e.instruction,
+      count: 0,
+      vaultChange: 0n,
+    };
+    total.count += 1;
+    total.vaultChange += e.vaultChange;
+    totals.set(e.instruction, total);
+  }
+  return [...totals.values()];
+}
+
+// formatAmount for changes, which can be negative.
+export function formatChange(raw: bigint, decimals: number): string {
+  return raw < 0n
+    ? `-${formatAmount(-raw, decimals)}`
+    : formatAmount(raw, decimals);
+}
+
+// "escrowId=3 deadlineUnixTs=1767225600 milestones=2": arguments besides
+// the amount, for one CSV cell.
+export function formatArgs(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .filter(([, v]) => v !== null && v !== undefined)
+    .map(([k, v]) => {
+      if (v instanceof PublicKey) return `${k}=${v.toBase58()}`;
+      if (Array.isArray(v)) return `${k}=${v.length}`;
+      return `${k}=${String(v)}`;
+    })
+    .join(" ");
+}
+
+/**
+ * An entry as flat strings, amounts in tokens of a mint with `decimals`
+ * (changes signed, from the account's point of view): a CSV row, or a JSON
+ * record.
+ */
+export function auditRecord(
+  e: AuditEntry,
+  decimals: number
+): Record<string, string> {
+  const key = (k: PublicKey | null) => (k ? k.toBase58() : "");
+  return {
+    time: e.blockTime ? e.blockTime.toISOString() : "",
+    slot: String(e.slot),
+    signature: e.signature,
+    instruction: e.instruction,
+    escrow: key(e.escrow),
+    vault: key(e.vault),
+    signer: key(e.signer),
+    counterparty: key(e.counterparty),
+    amount: e.amount === null ? "" : formatAmount(e.amount, decimals),
+    vault_change: formatChange(e.vaultChange, decimals),
+    counterparty_change:
+      e.counterpartyChange === null
+        ? ""
+        : formatChange(e.counterpartyChange, decimals),
+    fee_lamports: String(e.fee),
+    details: formatArgs(e.args),
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const CSV_COLUMNS = [
+  "time",
+  "slot",
+  "signature",
+  "instruction",
+  "escrow",
+  "vault",
+  "signer",
+  "counterparty",
+  "amount",
+  "vault_change",
+  "counterparty_change",
+  "fee_lamports",
+  "details",
+];
+
+// The entries as CSV with a header row, one auditRecord per line.
+export function auditCsv(entries: AuditEntry[], decimals: number): string {
+  const rows = entries.map((e) => {
+    const record = auditRecord(e, decimals);
+    return CSV_COLUMNS.map((c) => record[c]);
+  });
+  return (
+    [CSV_COLUMNS, ...rows]
+      .map((row) => row.map(csvField).join(","))
+      .join("\n") + "\n"
+  );
+}
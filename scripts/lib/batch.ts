@@ -0,0 +1,515 @@
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+import { decodeEscrow } from "./accounts";
+import { parseAmount } from "./amount";
+import { VaultEscrowClient } from "./client";
+import { freeEscrowIds } from "./indexer";
+import { AccountReader } from "./provision";
+import { parseDeadline } from "./time";
+
+/**
+ * Batch escrow creation.
+ *
+ * A CSV of `seller,amount,deadline` rows becomes one escrow per row. Every
+ * row is validated before anything is sent, each gets its escrow ID up
+ * front, and the plan is written to a progress file. Since the escrow
+ * address follows from the ID, a rerun checks which escrows exist instead
+ * of trusting what it remembers, so a crashed run resumes without creating
+ * any escrow twice: an `init_escrow` for an ID that is already taken fails
+ * on chain rather than opening a second one.
+ *
+ * Transactions are versioned and packed with as many rows as fit the
+ * packet size and account limits; an address lookup table holding the
+ * rows' accounts is used when it saves more transactions than it takes to
+ * set up.
+ */
+
+// The CSV fields of one row, as written.
+export interface BatchRow {
+  // 1-based line in the file, for error messages
+  line: number;
+  seller: string;
+  amount: string;
+  deadline: string;
+}
+
+/**
+ * Rows of a `seller,amount,deadline` CSV. A first row starting with
+ * "seller" is a header; blank lines are skipped. Fields may be quoted, so
+ * amounts with thousands separators ("1,250.5") work.
+ */
+export function parseBatchCsv(text: string): BatchRow[] {
+  const rows: BatchRow[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    if (raw.trim() === "") return;
+    const fields = splitCsvLine(raw, line);
+    if (rows.length === 0 && fields[0].trim().toLowerCase() === "seller") {
+      return;
+    }
+    if (fields.length !== 3) {
+      throw new Error(
+        `line ${line}: expected 3 fields (seller,amount,deadline), got ${fields.length}`
+      );
+    }
+    const [seller, amount, deadline] = fields.map((f) => f.trim());
+    rows.push({ line, seller, amount, deadline });
+  });
+  if (rows.length === 0) throw new Error("The CSV has no rows");
+  return rows;
+}
+
+function splitCsvLine(raw: string, line: number): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < raw.length; i++) {
+    const c = raw[i];
+    if (quoted) {
+      if (c === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error(`line ${line}: unterminated quote`);
+  fields.push(field);
+  return fields;
+}
+
+export interface ValidRow extends BatchRow {
+  sellerKey: PublicKey;
+  amountBaseUnits: bigint;
+  deadlineUnixTs: bigint;
+}
+
+/**
+ * Checks every row, collecting all problems rather than stopping at the
+ * first: the seller is a public key, the amount parses for the mint, the
+ * deadline is after `now`, and the rows so far fit in `free` (the vault's
+ * free balance; null to skip that check).
+ */
+export function validateRows(
+  rows: BatchRow[],
+  params: {
+    decimals: number;
+    symbol?: string;
+    now: bigint;
+    free: bigint | null;
+  }
+): { valid: ValidRow[]; errors: string[] } {
+  const valid: ValidRow[] = [];
+  const errors: string[] = [];
+  let total = 0n;
+  for (const row of rows) {
+    const problems: string[] = [];
+    let sellerKey: PublicKey | null = null;
+    try {
+      sellerKey = new PublicKey(row.seller);
+    } catch {
+      problems.push(`seller is not a valid public key: ${row.seller}`);
+    }
+    let amountBaseUnits: bigint | null = null;
+    try {
+      amountBaseUnits = parseAmount(row.amount, params.decimals, {
+        symbol: params.symbol,
+      });
+    } catch (e) {
+      problems.push((e as Error).message);
+    }
+    let deadlineUnixTs: bigint | null = null;
+    try {
+      deadlineUnixTs = parseDeadline(row.deadline, params.now, "deadline");
+      if (deadlineUnixTs <= params.now) {
+        problems.push(`deadline ${row.deadline} has already passed`);
+      }
+    } catch (e) {
+      problems.push((e as Error).message);
+    }
+    // only rows that will be sent count against the free balance
+    if (problems.length === 0) {
+      total += amountBaseUnits!;
+      if (params.free !== null && total > params.free) {
+        problems.push(
+          `the rows up to here need ${total} base units, more than the vault's free balance ${params.free}`
+        );
+      }
+    }
+    if (problems.length > 0) {
+      errors.push(...problems.map((p) => `line ${row.line}: ${p}`));
+    } else {
+      valid.push({
+        ...row,
+        sellerKey: sellerKey!,
+        amountBaseUnits: amountBaseUnits!,
+        deadlineUnixTs: deadlineUnixTs!,
+      });
+    }
+  }
+  return { valid, errors };
+}
+
+export type BatchRowStatus = "pending" | "sent" | "created" | "failed";
+
+// One row of the progress file. Amounts, IDs and times are decimal strings.
+export interface BatchRowProgress extends BatchRow {
+  amountBaseUnits: string;
+  // resolved once, so a relative deadline means the same on a rerun
+  deadlineUnixTs: string;
+  // null until assigned (or after the ID turned out to be taken)
+  escrowId: string | null;
+  escrow: string | null;
+  status: BatchRowStatus;
+  // while "sent": the block height after which the transaction can't land
+  lastValidBlockHeight?: number;
+  signature?: string;
+  error?: string;
+}
+
+export interface BatchProgress {
+  cluster: string;
+  programId: string;
+  buyer: string;
+  mint: string;
+  // the lookup table this batch created, if any
+  lookupTable: string | null;
+  // how far its cleanup got; absent while it is in use
+  lookupTableState?: LookupTableState;
+  rows: BatchRowProgress[];
+}
+
+// A batch's lookup table is deactivated once no row is left to send, and
+// closed, returning its rent, after the deactivation has cooled down.
+export type LookupTableState = "active" | "deactivated" | "closed";
+
+export function newProgress(
+  params: {
+    cluster: string;
+    programId: PublicKey;
+    buyer: PublicKey;
+    mint: PublicKey;
+  },
+  rows: ValidRow[]
+): BatchProgress {
+  return {
+    cluster: params.cluster,
+    programId: params.programId.toBase58(),
+    buyer: params.buyer.toBase58(),
+    mint: params.mint.toBase58(),
+    lookupTable: null,
+    rows: rows.map((r) => ({
+      line: r.line,
+      seller: r.seller,
+      amount: r.amount,
+      deadline: r.deadline,
+      amountBaseUnits: r.amountBaseUnits.toString(),
+      deadlineUnixTs: r.deadlineUnixTs.toString(),
+      escrowId: null,
+      escrow: null,
+      status: "pending",
+    })),
+  };
+}
+
+/**
+ * Whether a rerun would have nothing left to send: every row's escrow was
+ * created, or its deadline has passed.
+ */
+export function batchFinished(progress: BatchProgress, now: bigint): boolean {
+  return progress.rows.every(
+    (r) => r.status === "created" || BigInt(r.deadlineUnixTs) <= now
+  );
+}
+
+// Throws unless `progress` was written for this batch, CSV and wallet.
+export function assertSameBatch(
+  progress: BatchProgress,
+  rows: BatchRow[],
+  params: {
+    cluster: string;
+    programId: PublicKey;
+    buyer: PublicKey;
+    mint: PublicKey;
+  }
+) {
+  const expected: [string, string, string][] = [
+    ["cluster", progress.cluster, params.cluster],
+    ["program", progress.programId, params.programId.toBase58()],
+    ["buyer", progress.buyer, params.buyer.toBase58()],
+    ["mint", progress.mint, params.mint.toBase58()],
+  ];
+  for (const [what, recorded, current] of expected) {
+    if (recorded !== current) {
+      throw new Error(
+        `The progress file is for ${what} ${recorded}, not ${current}; use a different --progress file`
+      );
+    }
+  }
+  const same =
+    progress.rows.length === rows.length &&
+    progress.rows.every(
+      (p, i) =>
+        p.line === rows[i].line &&
+        p.seller === rows[i].seller &&
+        p.amount === rows[i].amount &&
+        p.deadline === rows[i].deadline
+    );
+  if (!same) {
+    throw new Error(
+      "The CSV changed since the progress file was written; finish the original batch or use a different --progress file"
+    );
+  }
+}
+
+// getMultipleAccountsInfo takes at most this many keys per call.
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+// getMultipleAccountsInfo for any number of keys.
+export async function accountInfos(
+  reader: AccountReader,
+  keys: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+  const infos: (AccountInfo<Buffer> | null)[] = [];
+  for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_CALL) {
+    infos.push(
+      ...(await reader.getMultipleAccountsInfo(
+        keys.slice(i, i + MAX_ACCOUNTS_PER_CALL)
+      ))
+    );
+  }
+  return infos;
+}
+
+/**
+ * Brings every row that isn't known to be created up to date with the
+ * chain: an escrow with the row's terms at its address means the row is
+ * done; one with other terms means the ID was taken meanwhile and the row
+ * needs a new one; no escrow means it is still pending. Call it only once
+ * no transaction of an earlier run can still land.
+ */
+export async function refreshProgress(
+  reader: AccountReader,
+  progress: BatchProgress
+): Promise<void> {
+  const open = progress.rows.filter(
+    (r) => r.status !== "created" && r.escrow !== null
+  );
+  const infos = await accountInfos(
+    reader,
+    open.map((r) => new PublicKey(r.escrow!))
+  );
+  open.forEach((row, i) => {
+    delete row.lastValidBlockHeight;
+    delete row.error;
+    const info = infos[i];
+    if (!info) {
+      row.status = "pending";
+      return;
+    }
+    const escrow = decodeEscrow(info.data);
+    const ours =
+      escrow.buyer.toBase58() === progress.buyer &&
+      escrow.seller.toBase58() === row.seller &&
+      escrow.amountLocked.toString() === row.amountBaseUnits &&
+      escrow.deadlineUnixTs.toString() === row.deadlineUnixTs;
+    if (ours) {
+      row.status = "created";
+    } else {
+      row.status = "pending";
+      row.escrowId = null;
+      row.escrow = null;
+      delete row.signature;
+    }
+  });
+}
+
+/**
+ * Gives each pending row without one the lowest escrow ID its seller has
+ * free, skipping IDs other rows of the batch already hold.
+ */
+export async function assignEscrowIds(
+  reader: AccountReader,
+  client: VaultEscrowClient,
+  progress: BatchProgress,
+  tokenProgram?: PublicKey
+): Promise<void> {
+  const buyer = new PublicKey(progress.buyer);
+  const mint = new PublicKey(progress.mint);
+  const bySeller = new Map<string, BatchRowProgress[]>();
+  for (const row of progress.rows) {
+    if (row.escrowId !== null) continue;
+    bySeller.set(row.seller, [...(bySeller.get(row.seller) ?? []), row]);
+  }
+  for (const [sellerKey, rows] of bySeller) {
+    const seller = new PublicKey(sellerKey);
+    const held = new Set(
+      progress.rows
+        .filter((r) => r.seller === sellerKey && r.escrowId !== null)
+        .map((r) => r.escrowId!)
+    );
+    const free = (
+      await freeEscrowIds(
+        reader,
+        client,
+        { buyer, seller, mint },
+        rows.length + held.size
+      )
+    ).filter((id) => !held.has(id.toString()));
+    rows.forEach((row, i) => {
+      const escrowId = free[i];
+      row.escrowId = escrowId.toString();
+      row.escrow = client
+        .escrowAddresses({ buyer, seller, mint, escrowId, tokenProgram })
+        .escrow.toBase58();
+    });
+  }
+}
+
+// The most accounts one transaction may lock.
+export const MAX_TRANSACTION_ACCOUNTS = 64;
+// Addresses one lookup table can hold.
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+// Addresses added per extend transaction; the first one also creates the
+// table and still fits.
+export const LOOKUP_TABLE_EXTEND_CHUNK = 27;
+
+// Stand-ins of the largest compute budget `send` may put in front.
+const BUDGET_PLACEHOLDER = [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+];
+
+// Whether `instructions` fit in one signed versioned transaction.
+export function fitsInTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = []
+): boolean {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [...BUDGET_PLACEHOLDER, ...instructions],
+  }).compileToV0Message(lookupTables);
+  const accounts =
+    message.staticAccountKeys.length +
+    message.addressTableLookups.reduce(
+      (n, l) => n + l.writableIndexes.length + l.readonlyIndexes.length,
+      0
+    );
+  if (accounts > MAX_TRANSACTION_ACCOUNTS) return false;
+  try {
+    return (
+      new VersionedTransaction(message).serialize().length <= PACKET_DATA_SIZE
+    );
+  } catch {
+    // too large to serialize at all
+    return false;
+  }
+}
+
+/**
+ * Splits `groups` (each one row's instructions, kept together) into
+ * transactions, in order, with as many groups per transaction as fit.
+ * Returns the group indexes of each transaction.
+ */
+export function packInstructions(
+  payer: PublicKey,
+  groups: TransactionInstruction[][],
+  lookupTables: AddressLookupTableAccount[] = []
+): number[][] {
+  const packs: number[][] = [];
+  let current: number[] = [];
+  const instructions = (indexes: number[]) => indexes.flatMap((i) => groups[i]);
+  groups.forEach((group, i) => {
+    if (fitsInTransaction(payer, instructions([...current, i]), lookupTables)) {
+      current.push(i);
+      return;
+    }
+    if (
+      current.length === 0 ||
+      !fitsInTransaction(payer, group, lookupTables)
+    ) {
+      throw new Error(`Row ${i + 1} doesn't fit in a transaction on its own`);
+    }
+    packs.push(current);
+    current = [i];
+  });
+  if (current.length > 0) packs.push(current);
+  return packs;
+}
+
+/**
+ * What a lookup table for `groups` would hold: every account they use
+ * except the payer and the programs they call, which must stay in the
+ * message itself. At most MAX_LOOKUP_TABLE_ADDRESSES, first used first.
+ */
+export function lookupTableAddresses(
+  payer: PublicKey,
+  groups: TransactionInstruction[][]
+): PublicKey[] {
+  const programs = new Set(groups.flat().map((ix) => ix.programId.toBase58()));
+  const addresses = new Map<string, PublicKey>();
+  for (const ix of groups.flat()) {
+    for (const { pubkey } of ix.keys) {
+      const key = pubkey.toBase58();
+      if (pubkey.equals(payer) || programs.has(key)) continue;
+      addresses.set(key, pubkey);
+    }
+  }
+  return [...addresses.values()].slice(0, MAX_LOOKUP_TABLE_ADDRESSES);
+}
+
+// A lookup table that isn't on chain (yet), for packing against.
+export function localLookupTable(
+  key: PublicKey,
+  addresses: PublicKey[]
+): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key,
+    state: {
+      deactivationSlot: BigInt("0xffffffffffffffff"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses,
+    },
+  });
+}
+
+/**
+ * Whether a lookup table pays for itself: creating and filling it takes
+ * one transaction per LOOKUP_TABLE_EXTEND_CHUNK addresses, so it has to
+ * save more transactions than that.
+ */
+export function lookupTableSaves(
+  payer: PublicKey,
+  groups: TransactionInstruction[][]
+): boolean {
+  const addresses = lookupTableAddresses(payer, groups);
+  if (addresses.length === 0) return false;
+  const setup = Math.ceil(addresses.length / LOOKUP_TABLE_EXTEND_CHUNK);
+  const without = packInstructions(payer, groups).length;
+  const withTable = packInstructions(payer, groups, [
+    localLookupTable(PublicKey.default, addresses),
+  ]).length;
+  return without - withTable > setup;
+}
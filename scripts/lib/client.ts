@@ -0,0 +1,1112 @@
+import {
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+
+import { createHash } from "crypto";
+
+/**
+ * Typed client for the vault-escrow program.
+ *
+ * Every instruction builder in here mirrors one `#[derive(Accounts)]` struct
+ * in programs/vault-escrow/src/lib.rs. Account order matters: if you change a
+ * struct on the Rust side, change the matching `encode*Ix` here and nowhere
+ * else.
+ */
+
+// Matches declare_id! in programs/vault-escrow/src/lib.rs (devnet deploy).
+export const VAULT_ESCROW_PROGRAM_ID = new PublicKey(
+  "AhtmyF1FM2NwGYECDzgjC6jbNtPnSRDFzhahugFfqkZW"
+);
+
+export const VAULT_SEED = Buffer.from("vault");
+export const ESCROW_SEED = Buffer.from("escrow");
+
+/**
+ * Anchor instruction discriminator = first 8 bytes of sha256("global:<fn_name>")
+ */
+export function discriminator(ixName: string): Buffer {
+  const preimage = `global:${ixName}`;
+  const hash = createHash("sha256").update(preimage).digest();
+  return hash.subarray(0, 8);
+}
+
+// Vault PDA seeds: ["vault", mint, authority]
+export function deriveVaultPda(
+  programId: PublicKey,
+  mint: PublicKey,
+  authority: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [VAULT_SEED, mint.toBuffer(), authority.toBuffer()],
+    programId
+  );
+}
+
+// Escrow PDA seeds: ["escrow", vault, buyer, seller, escrow_id (u64 le)]
+export function deriveEscrowPda(
+  programId: PublicKey,
+  vault: PublicKey,
+  buyer: PublicKey,
+  seller: PublicKey,
+  escrowId: bigint
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [
+      ESCROW_SEED,
+      vault.toBuffer(),
+      buyer.toBuffer(),
+      seller.toBuffer(),
+      u64Le(escrowId),
+    ],
+    programId
+  );
+}
+
+// Escrow PDA seeds before escrow IDs: ["escrow", vault, buyer, seller]. Only
+// escrows still waiting for `migrate_escrow` live there.
+export function deriveLegacyEscrowPda(
+  programId: PublicKey,
+  vault: PublicKey,
+  buyer: PublicKey,
+  seller: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [ESCROW_SEED, vault.toBuffer(), buyer.toBuffer(), seller.toBuffer()],
+    programId
+  );
+}
+
+// ATA for any owner. PDAs (the vault) are off-curve, so we always allow that.
+// Token-2022 mints have their ATAs under the Token-2022 program id.
+export function deriveAta(
+  mint: PublicKey,
+  owner: PublicKey,
+  tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey {
+  return getAssociatedTokenAddressSync(
+    mint,
+    owner,
+    true,
+    tokenProgram,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+}
+
+function u64Le(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(value);
+  return buf;
+}
+
+function i64Le(value: bigint): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigInt64LE(value);
+  return buf;
+}
+
+function u32Le(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return buf;
+}
+
+// Borsh Option<Pubkey>: 0, or 1 followed by the key.
+function optionPubkey(key: PublicKey | null | undefined): Buffer {
+  return key
+    ? Buffer.concat([Buffer.from([1]), key.toBuffer()])
+    : Buffer.from([0]);
+}
+
+/**
+ * init_vault()
+ *
+ * 0 authority       (mut, signer)
+ * 1 mint
+ * 2 vault           (PDA, init, payer = authority)
+ * 3 system_program
+ */
+export function encodeInitVaultIx(params: {
+  programId: PublicKey;
+  authority: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.authority, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("init_vault"),
+  });
+}
+
+/**
+ * lock_tokens(amount: u64)
+ *
+ * 0 user                      (mut, signer)
+ * 1 mint
+ * 2 vault                     (PDA)
+ * 3 vault_ata                 (mut, must already exist)
+ * 4 user_ata                  (mut, source)
+ * 5 token_program             (SPL Token or Token-2022, owner of the mint)
+ * 6 associated_token_program
+ * 7 system_program
+ *
+ * Data: [8-byte discriminator][amount u64 le]
+ */
+export function encodeLockTokensIx(params: {
+  programId: PublicKey;
+  user: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  userAta: PublicKey;
+  amount: bigint;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const data = Buffer.concat([
+    discriminator("lock_tokens"),
+    u64Le(params.amount),
+  ]);
+
+  const keys = [
+    { pubkey: params.user, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: false },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    { pubkey: params.userAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data,
+  });
+}
+
+// One tranche of a milestone escrow; `MilestoneTerms` on the Rust side.
+export interface MilestoneTerms {
+  amount: bigint;
+  // defaults to the escrow's deadline
+  deadlineUnixTs?: bigint | null;
+}
+
+// Borsh Vec<MilestoneTerms>: u32 length, then amount u64 and Option<i64>.
+function milestoneTerms(milestones: MilestoneTerms[]): Buffer {
+  return Buffer.concat([
+    u32Le(milestones.length),
+    ...milestones.map((m) =>
+      Buffer.concat([
+        u64Le(m.amount),
+        m.deadlineUnixTs === undefined || m.deadlineUnixTs === null
+          ? Buffer.from([0])
+          : Buffer.concat([Buffer.from([1]), i64Le(m.deadlineUnixTs)]),
+      ])
+    ),
+  ]);
+}
+
+/**
+ * init_escrow(escrow_id: u64, amount: u64, deadline_unix_ts: i64,
+ *             arbiter: Option<Pubkey>, milestones: Vec<MilestoneTerms>)
+ *
+ * 0 buyer           (mut, signer)
+ * 1 seller          (unchecked)
+ * 2 mint
+ * 3 vault           (mut, PDA, authority = buyer)
+ * 4 escrow          (PDA of escrow_id, init, payer = buyer)
+ * 5 system_program
+ *
+ * Data: [8-byte discriminator][escrow_id u64 le][amount u64 le]
+ *       [deadline_unix_ts i64 le]
+ *       [arbiter: 0 | 1 + pubkey]
+ *       [milestones: u32 count, then per milestone amount u64 le and
+ *        deadline 0 | 1 + i64 le]
+ */
+export function encodeInitEscrowIx(params: {
+  programId: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  escrow: PublicKey;
+  escrowId: bigint;
+  amount: bigint;
+  deadlineUnixTs: bigint;
+  arbiter?: PublicKey | null;
+  milestones?: MilestoneTerms[];
+}): TransactionInstruction {
+  const data = Buffer.concat([
+    discriminator("init_escrow"),
+    u64Le(params.escrowId),
+    u64Le(params.amount),
+    i64Le(params.deadlineUnixTs),
+    optionPubkey(params.arbiter),
+    milestoneTerms(params.milestones ?? []),
+  ]);
+
+  const keys = [
+    { pubkey: params.buyer, isSigner: true, isWritable: true },
+    { pubkey: params.seller, isSigner: false, isWritable: false },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data,
+  });
+}
+
+/**
+ * release_to_seller()
+ *
+ * 0 buyer                     (mut, signer)
+ * 1 seller                    (mut)
+ * 2 mint
+ * 3 escrow                    (mut)
+ * 4 vault                     (mut, PDA)
+ * 5 vault_ata                 (mut, source)
+ * 6 seller_ata                (mut, dest)
+ * 7 token_program
+ * 8 associated_token_program
+ * 9 system_program
+ */
+export function encodeReleaseToSellerIx(params: {
+  programId: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  mint: PublicKey;
+  escrow: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  sellerAta: PublicKey;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.buyer, isSigner: true, isWritable: true },
+    { pubkey: params.seller, isSigner: false, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    { pubkey: params.sellerAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("release_to_seller"),
+  });
+}
+
+/**
+ * release_milestone(index: u8)
+ *
+ * Same accounts as release_to_seller.
+ *
+ * Data: [8-byte discriminator][index u8]
+ */
+export function encodeReleaseMilestoneIx(params: {
+  programId: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  mint: PublicKey;
+  escrow: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  sellerAta: PublicKey;
+  index: number;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const ix = encodeReleaseToSellerIx(params);
+  ix.data = Buffer.concat([
+    discriminator("release_milestone"),
+    Buffer.from([params.index]),
+  ]);
+  return ix;
+}
+
+/**
+ * refund_buyer()
+ *
+ * 0 buyer                     (mut, signer)
+ * 1 mint
+ * 2 escrow                    (mut)
+ * 3 vault                     (mut, PDA)
+ * 4 vault_ata                 (mut, source)
+ * 5 buyer_ata                 (mut, dest)
+ * 6 token_program
+ * 7 associated_token_program
+ * 8 system_program
+ */
+export function encodeRefundBuyerIx(params: {
+  programId: PublicKey;
+  buyer: PublicKey;
+  mint: PublicKey;
+  escrow: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  buyerAta: PublicKey;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.buyer, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    { pubkey: params.buyerAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("refund_buyer"),
+  });
+}
+
+/**
+ * raise_dispute()
+ *
+ * 0 party                     (signer, buyer or seller)
+ * 1 escrow                    (mut)
+ */
+export function encodeRaiseDisputeIx(params: {
+  programId: PublicKey;
+  party: PublicKey;
+  escrow: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.party, isSigner: true, isWritable: false },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("raise_dispute"),
+  });
+}
+
+/**
+ * arbiter_resolve(seller_amount: u64)
+ *
+ * 0 arbiter                   (mut, signer)
+ * 1 buyer
+ * 2 seller
+ * 3 mint
+ * 4 escrow                    (mut)
+ * 5 vault                     (mut, PDA)
+ * 6 vault_ata                 (mut, source)
+ * 7 buyer_ata                 (mut, dest for the remainder)
+ * 8 seller_ata                (mut, dest for seller_amount)
+ * 9 token_program
+ * 10 associated_token_program
+ * 11 system_program
+ *
+ * Data: [8-byte discriminator][seller_amount u64 le]
+ */
+export function encodeArbiterResolveIx(params: {
+  programId: PublicKey;
+  arbiter: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  mint: PublicKey;
+  escrow: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  buyerAta: PublicKey;
+  sellerAta: PublicKey;
+  sellerAmount: bigint;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const data = Buffer.concat([
+    discriminator("arbiter_resolve"),
+    u64Le(params.sellerAmount),
+  ]);
+
+  const keys = [
+    { pubkey: params.arbiter, isSigner: true, isWritable: true },
+    { pubkey: params.buyer, isSigner: false, isWritable: false },
+    { pubkey: params.seller, isSigner: false, isWritable: false },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    { pubkey: params.buyerAta, isSigner: false, isWritable: true },
+    { pubkey: params.sellerAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data,
+  });
+}
+
+/**
+ * withdraw(amount: u64)
+ *
+ * 0 authority                 (mut, signer, vault authority)
+ * 1 mint
+ * 2 vault                     (PDA)
+ * 3 vault_ata                 (mut, source)
+ * 4 authority_ata             (mut, dest)
+ * 5 token_program
+ * 6 associated_token_program
+ * 7 system_program
+ *
+ * Data: [8-byte discriminator][amount u64 le]
+ */
+export function encodeWithdrawIx(params: {
+  programId: PublicKey;
+  authority: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  authorityAta: PublicKey;
+  amount: bigint;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const data = Buffer.concat([discriminator("withdraw"), u64Le(params.amount)]);
+
+  const keys = [
+    { pubkey: params.authority, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: false },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    { pubkey: params.authorityAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data,
+  });
+}
+
+/**
+ * close_escrow()
+ *
+ * 0 buyer                     (mut, signer, receives the rent)
+ * 1 escrow                    (mut, closed)
+ */
+export function encodeCloseEscrowIx(params: {
+  programId: PublicKey;
+  buyer: PublicKey;
+  escrow: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.buyer, isSigner: true, isWritable: true },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("close_escrow"),
+  });
+}
+
+/**
+ * close_vault()
+ *
+ * 0 authority                 (mut, signer, receives the rent)
+ * 1 mint
+ * 2 vault                     (mut, PDA, closed)
+ * 3 vault_ata                 (mut, closed)
+ * 4 token_program
+ * 5 associated_token_program
+ * 6 system_program
+ */
+export function encodeCloseVaultIx(params: {
+  programId: PublicKey;
+  authority: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  tokenProgram?: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.authority, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.vaultAta, isSigner: false, isWritable: true },
+    {
+      pubkey: params.tokenProgram ?? TOKEN_PROGRAM_ID,
+      isSigner: false,
+      isWritable: false,
+    },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("close_vault"),
+  });
+}
+
+/**
+ * migrate_vault()
+ *
+ * 0 authority                 (mut, signer, pays for the extra bytes)
+ * 1 mint
+ * 2 vault                     (mut, PDA, realloc)
+ * 3 system_program
+ */
+export function encodeMigrateVaultIx(params: {
+  programId: PublicKey;
+  authority: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.authority, isSigner: true, isWritable: true },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("migrate_vault"),
+  });
+}
+
+/**
+ * migrate_escrow(escrow_id: u64)
+ *
+ * 0 payer           (mut, signer, buyer or vault authority, pays for escrow)
+ * 1 buyer           (mut, unchecked, receives the old rent)
+ * 2 seller          (unchecked)
+ * 3 mint
+ * 4 vault           (mut, PDA, counts the escrow in committed)
+ * 5 legacy_escrow   (mut, PDA without escrow_id, closed)
+ * 6 escrow          (PDA of escrow_id, init, payer = payer)
+ * 7 system_program
+ *
+ * Data: [8-byte discriminator][escrow_id u64 le]
+ */
+export function encodeMigrateEscrowIx(params: {
+  programId: PublicKey;
+  payer: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+  legacyEscrow: PublicKey;
+  escrow: PublicKey;
+  escrowId: bigint;
+}): TransactionInstruction {
+  const data = Buffer.concat([
+    discriminator("migrate_escrow"),
+    u64Le(params.escrowId),
+  ]);
+
+  const keys = [
+    { pubkey: params.payer, isSigner: true, isWritable: true },
+    { pubkey: params.buyer, isSigner: false, isWritable: true },
+    { pubkey: params.seller, isSigner: false, isWritable: false },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+    { pubkey: params.legacyEscrow, isSigner: false, isWritable: true },
+    { pubkey: params.escrow, isSigner: false, isWritable: true },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data,
+  });
+}
+
+/**
+ * finish_vault_migration()
+ *
+ * 0 authority   (signer)
+ * 1 mint
+ * 2 vault       (mut, PDA)
+ */
+export function encodeFinishVaultMigrationIx(params: {
+  programId: PublicKey;
+  authority: PublicKey;
+  mint: PublicKey;
+  vault: PublicKey;
+}): TransactionInstruction {
+  const keys = [
+    { pubkey: params.authority, isSigner: true, isWritable: false },
+    { pubkey: params.mint, isSigner: false, isWritable: false },
+    { pubkey: params.vault, isSigner: false, isWritable: true },
+  ];
+
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: discriminator("finish_vault_migration"),
+  });
+}
+
+export interface VaultAddresses {
+  vault: PublicKey;
+  vaultBump: number;
+  vaultAta: PublicKey;
+}
+
+export interface EscrowAddresses extends VaultAddresses {
+  escrow: PublicKey;
+  escrowBump: number;
+  buyerAta: PublicKey;
+  sellerAta: PublicKey;
+}
+
+/**
+ * High-level builders. Callers pass wallets, mint and amounts; every PDA and
+ * ATA is derived here so nobody hand-assembles key arrays again.
+ *
+ * `vaultAuthority` defaults to the buyer/user, which is how the vault is set
+ * up in practice (the buyer funds their own vault). `escrowId` defaults to
+ * 0, a pair's first escrow. `tokenProgram` defaults to SPL Token; pass
+ * TOKEN_2022_PROGRAM_ID for Token-2022 mints.
+ */
+export class VaultEscrowClient {
+  constructor(readonly programId: PublicKey) {}
+
+  vaultAddresses(
+    mint: PublicKey,
+    authority: PublicKey,
+    tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+  ): VaultAddresses {
+    const [vault, vaultBump] = deriveVaultPda(this.programId, mint, authority);
+    return { vault, vaultBump, vaultAta: deriveAta(mint, vault, tokenProgram) };
+  }
+
+  escrowAddresses(params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): EscrowAddresses {
+    const vaultAddrs = this.vaultAddresses(
+      params.mint,
+      params.vaultAuthority ?? params.buyer,
+      params.tokenProgram
+    );
+    const [escrow, escrowBump] = deriveEscrowPda(
+      this.programId,
+      vaultAddrs.vault,
+      params.buyer,
+      params.seller,
+      params.escrowId ?? 0n
+    );
+    return {
+      ...vaultAddrs,
+      escrow,
+      escrowBump,
+      buyerAta: deriveAta(params.mint, params.buyer, params.tokenProgram),
+      sellerAta: deriveAta(params.mint, params.seller, params.tokenProgram),
+    };
+  }
+
+  initVault(params: {
+    authority: PublicKey;
+    mint: PublicKey;
+  }): TransactionInstruction {
+    const { vault } = this.vaultAddresses(params.mint, params.authority);
+    return encodeInitVaultIx({
+      programId: this.programId,
+      authority: params.authority,
+      mint: params.mint,
+      vault,
+    });
+  }
+
+  // The program expects vault_ata to exist already; the client creates it.
+  // ATA creation is idempotent: re-sending it for an existing ATA is a no-op.
+  createVaultAta(params: {
+    payer: PublicKey;
+    mint: PublicKey;
+    vaultAuthority: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const tokenProgram = params.tokenProgram ?? TOKEN_PROGRAM_ID;
+    const { vault, vaultAta } = this.vaultAddresses(
+      params.mint,
+      params.vaultAuthority,
+      tokenProgram
+    );
+    return createAssociatedTokenAccountIdempotentInstruction(
+      params.payer,
+      vaultAta,
+      vault,
+      params.mint,
+      tokenProgram,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+  }
+
+  // Any wallet's ATA (seller before release, buyer before refund).
+  createTokenAccount(params: {
+    payer: PublicKey;
+    owner: PublicKey;
+    mint: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const tokenProgram = params.tokenProgram ?? TOKEN_PROGRAM_ID;
+    return createAssociatedTokenAccountIdempotentInstruction(
+      params.payer,
+      deriveAta(params.mint, params.owner, tokenProgram),
+      params.owner,
+      params.mint,
+      tokenProgram,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+  }
+
+  lockTokens(params: {
+    user: PublicKey;
+    mint: PublicKey;
+    amount: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta } = this.vaultAddresses(
+      params.mint,
+      params.vaultAuthority ?? params.user,
+      params.tokenProgram
+    );
+    return encodeLockTokensIx({
+      programId: this.programId,
+      user: params.user,
+      mint: params.mint,
+      vault,
+      vaultAta,
+      userAta: deriveAta(params.mint, params.user, params.tokenProgram),
+      amount: params.amount,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  initEscrow(params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    amount: bigint;
+    deadlineUnixTs: bigint;
+    arbiter?: PublicKey | null;
+    milestones?: MilestoneTerms[];
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, escrow } = this.escrowAddresses(params);
+    return encodeInitEscrowIx({
+      programId: this.programId,
+      buyer: params.buyer,
+      seller: params.seller,
+      mint: params.mint,
+      vault,
+      escrow,
+      escrowId: params.escrowId ?? 0n,
+      amount: params.amount,
+      deadlineUnixTs: params.deadlineUnixTs,
+      arbiter: params.arbiter,
+      milestones: params.milestones,
+    });
+  }
+
+  releaseToSeller(params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta, escrow, sellerAta } = this.escrowAddresses(params);
+    return encodeReleaseToSellerIx({
+      programId: this.programId,
+      buyer: params.buyer,
+      seller: params.seller,
+      mint: params.mint,
+      escrow,
+      vault,
+      vaultAta,
+      sellerAta,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  // `index` counts from 0, in the order the milestones were created.
+  releaseMilestone(params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    index: number;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta, escrow, sellerAta } = this.escrowAddresses(params);
+    return encodeReleaseMilestoneIx({
+      programId: this.programId,
+      buyer: params.buyer,
+      seller: params.seller,
+      mint: params.mint,
+      escrow,
+      vault,
+      vaultAta,
+      sellerAta,
+      index: params.index,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  refundBuyer(params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta, escrow, buyerAta } = this.escrowAddresses(params);
+    return encodeRefundBuyerIx({
+      programId: this.programId,
+      buyer: params.buyer,
+      mint: params.mint,
+      escrow,
+      vault,
+      vaultAta,
+      buyerAta,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  // `party` is the buyer or the seller of the escrow.
+  raiseDispute(params: {
+    party: PublicKey;
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+  }): TransactionInstruction {
+    const { escrow } = this.escrowAddresses(params);
+    return encodeRaiseDisputeIx({
+      programId: this.programId,
+      party: params.party,
+      escrow,
+    });
+  }
+
+  arbiterResolve(params: {
+    arbiter: PublicKey;
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    sellerAmount: bigint;
+    escrowId?: bigint;
+    vaultAuthority?: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta, escrow, buyerAta, sellerAta } =
+      this.escrowAddresses(params);
+    return encodeArbiterResolveIx({
+      programId: this.programId,
+      arbiter: params.arbiter,
+      buyer: params.buyer,
+      seller: params.seller,
+      mint: params.mint,
+      escrow,
+      vault,
+      vaultAta,
+      buyerAta,
+      sellerAta,
+      sellerAmount: params.sellerAmount,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  // Tokens back from the vault ATA to the authority's ATA (must exist).
+  withdraw(params: {
+    authority: PublicKey;
+    mint: PublicKey;
+    amount: bigint;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta } = this.vaultAddresses(
+      params.mint,
+      params.authority,
+      params.tokenProgram
+    );
+    return encodeWithdrawIx({
+      programId: this.programId,
+      authority: params.authority,
+      mint: params.mint,
+      vault,
+      vaultAta,
+      authorityAta: deriveAta(
+        params.mint,
+        params.authority,
+        params.tokenProgram
+      ),
+      amount: params.amount,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  // Takes the escrow address, since closing is mostly done in bulk from a
+  // listing rather than by buyer and seller.
+  closeEscrow(params: {
+    buyer: PublicKey;
+    escrow: PublicKey;
+  }): TransactionInstruction {
+    return encodeCloseEscrowIx({ programId: this.programId, ...params });
+  }
+
+  closeVault(params: {
+    authority: PublicKey;
+    mint: PublicKey;
+    tokenProgram?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, vaultAta } = this.vaultAddresses(
+      params.mint,
+      params.authority,
+      params.tokenProgram
+    );
+    return encodeCloseVaultIx({
+      programId: this.programId,
+      authority: params.authority,
+      mint: params.mint,
+      vault,
+      vaultAta,
+      tokenProgram: params.tokenProgram,
+    });
+  }
+
+  migrateVault(params: {
+    authority: PublicKey;
+    mint: PublicKey;
+  }): TransactionInstruction {
+    const { vault } = this.vaultAddresses(params.mint, params.authority);
+    return encodeMigrateVaultIx({
+      programId: this.programId,
+      authority: params.authority,
+      mint: params.mint,
+      vault,
+    });
+  }
+
+  finishVaultMigration(params: {
+    authority: PublicKey;
+    mint: PublicKey;
+  }): TransactionInstruction {
+    const { vault } = this.vaultAddresses(params.mint, params.authority);
+    return encodeFinishVaultMigrationIx({
+      programId: this.programId,
+      authority: params.authority,
+      mint: params.mint,
+      vault,
+    });
+  }
+
+  // Moves the pair's escrow from before escrow IDs to `escrowId`; `payer`
+  // (default the buyer) may also be the vault authority.
+  migrateEscrow(params: {
+    payer?: PublicKey;
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    escrowId: bigint;
+    vaultAuthority?: PublicKey;
+  }): TransactionInstruction {
+    const { vault, escrow } = this.escrowAddresses(params);
+    const [legacyEscrow] = deriveLegacyEscrowPda(
+      this.programId,
+      vault,
+      params.buyer,
+      params.seller
+    );
+    return encodeMigrateEscrowIx({
+      programId: this.programId,
+      payer: params.payer ?? params.buyer,
+      buyer: params.buyer,
+      seller: params.seller,
+      mint: params.mint,
+      vault,
+      legacyEscrow,
+      escrow,
+      escrowId: params.escrowId,
+    });
+  }
+
+  // Wrap one or more builders into a transaction paid by `feePayer`.
+  transaction(
+    feePayer: PublicKey,
+    ...ixs: TransactionInstruction[]
+  ): Transaction {
+    const tx = new Transaction().add(...ixs);
+    tx.feePayer = feePayer;
+    return tx;
+  }
+}
@@ -0,0 +1,201 @@
+import { Commitment, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { VAULT_ESCROW_PROGRAM_ID } from "./client";
+import { ComputeBudget, PriorityFee } from "./sender";
+
+/**
+ * Cluster profiles.
+ *
+ * A profile is everything that differs between clusters: RPC URL, wallet,
+ * commitment, program ID, compute budget and where that cluster's deployment
+ * manifest lives.
+ * Each setting is resolved in the same order:
+ *
+ *   explicit option (CLI flag) > environment variable > per-cluster default
+ */
+
+export const KNOWN_CLUSTERS = ["localnet", "devnet", "mainnet-beta"] as const;
+export type KnownCluster = (typeof KNOWN_CLUSTERS)[number];
+
+export interface Profile {
+  // "localnet" | "devnet" | "mainnet-beta", or the host of a custom RPC URL
+  name: string;
+  rpcUrl: string;
+  keypairPath: string;
+  commitment: Commitment;
+  programId: PublicKey;
+  // added to every transaction the CLI sends
+  computeBudget: ComputeBudget;
+  // deployments/<name>.json
+  manifestPath: string;
+}
+
+export interface ProfileOptions {
+  cluster?: string;
+  keypair?: string;
+  commitment?: string;
+  programId?: string;
+  priorityFee?: string;
+  computeUnitLimit?: string;
+}
+
+export const ENV = {
+  cluster: "VAULT_ESCROW_CLUSTER",
+  keypair: "VAULT_ESCROW_KEYPAIR",
+  commitment: "VAULT_ESCROW_COMMITMENT",
+  programId: "VAULT_ESCROW_PROGRAM_ID",
+  priorityFee: "VAULT_ESCROW_PRIORITY_FEE",
+  computeUnitLimit: "VAULT_ESCROW_COMPUTE_UNIT_LIMIT",
+} as const;
+
+export const DEFAULT_CLUSTER: KnownCluster = "devnet";
+export const DEFAULT_KEYPAIR_PATH = "~/.config/solana/id.json";
+export const DEPLOYMENTS_DIR = "deployments";
+
+const COMMITMENTS: Commitment[] = ["processed", "confirmed", "finalized"];
+
+function isKnownCluster(name: string): name is KnownCluster {
+  return (KNOWN_CLUSTERS as readonly string[]).includes(name);
+}
+
+export function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/")
+    ? path.join(os.homedir(), p.slice(1))
+    : p;
+}
+
+function rpcUrlFor(cluster: KnownCluster): string {
+  return cluster === "localnet"
+    ? "http://127.0.0.1:8899"
+    : clusterApiUrl(cluster);
+}
+
+/**
+ * The --cluster value for an RPC URL, e.g. the endpoint of an Anchor
+ * provider: the known cluster it points at, or the URL itself.
+ */
+export function clusterForRpcUrl(rpcUrl: string): string {
+  const url = new URL(rpcUrl);
+  if (url.hostname === "localhost") url.hostname = "127.0.0.1";
+  const known = KNOWN_CLUSTERS.find(
+    (c) => new URL(rpcUrlFor(c)).href === url.href
+  );
+  return known ?? rpcUrl;
+}
+
+// "https://my-rpc.example.com:8899/abc" -> "my-rpc.example.com-8899"
+function customProfileName(url: URL): string {
+  return url.host.replace(/[^A-Za-z0-9.-]/g, "-");
+}
+
+// "auto" or micro-lamports per compute unit.
+function parsePriorityFee(value: string): PriorityFee {
+  if (value === "auto") return "auto";
+  const fee = Number(value);
+  if (!Number.isSafeInteger(fee) || fee < 0) {
+    throw new Error(
+      `Invalid priority fee "${value}": use "auto" or micro-lamports per compute unit`
+    );
+  }
+  return fee;
+}
+
+// Solana caps a transaction at 1.4M compute units.
+function parseComputeUnitLimit(value: string): number {
+  const units = Number(value);
+  if (!Number.isInteger(units) || units < 1 || units > 1_400_000) {
+    throw new Error(
+      `Invalid compute unit limit "${value}": use a whole number up to 1400000`
+    );
+  }
+  return units;
+}
+
+/**
+ * Program IDs from Anchor.toml's `[programs.<cluster>]` sections, so the
+ * workspace stays the single place a deployed address is written down.
+ */
+export function anchorProgramIds(
+  anchorTomlPath = "Anchor.toml"
+): Record<string, string> {
+  if (!fs.existsSync(anchorTomlPath)) return {};
+  const ids: Record<string, string> = {};
+  let section: string | null = null;
+  for (const rawLine of fs.readFileSync(anchorTomlPath, "utf8").split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const header = /^\[programs\.([^\]]+)\]$/.exec(line);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+    if (line.startsWith("[")) {
+      section = null;
+      continue;
+    }
+    const entry = /^vault_escrow\s*=\s*"([^"]+)"$/.exec(line);
+    if (section && entry) ids[section] = entry[1];
+  }
+  return ids;
+}
+
+export function resolveProfile(
+  options: ProfileOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): Profile {
+  const cluster = options.cluster ?? env[ENV.cluster] ?? DEFAULT_CLUSTER;
+
+  let name: string;
+  let rpcUrl: string;
+  if (isKnownCluster(cluster)) {
+    name = cluster;
+    rpcUrl = rpcUrlFor(cluster);
+  } else if (/^https?:\/\//.test(cluster)) {
+    const url = new URL(cluster);
+    name = customProfileName(url);
+    rpcUrl = url.toString();
+  } else {
+    const known = KNOWN_CLUSTERS.join(", ");
+    throw new Error(
+      `Unknown cluster "${cluster}": use ${known} or an http(s) RPC URL`
+    );
+  }
+
+  const commitment = (options.commitment ??
+    env[ENV.commitment] ??
+    "confirmed") as Commitment;
+  if (!COMMITMENTS.includes(commitment)) {
+    throw new Error(
+      `Unknown commitment "${commitment}": use ${COMMITMENTS.join(", ")}`
+    );
+  }
+
+  const programId =
+    options.programId ??
+    env[ENV.programId] ??
+    anchorProgramIds()[name] ??
+    VAULT_ESCROW_PROGRAM_ID.toBase58();
+
+  const priorityFee = parsePriorityFee(
+    options.priorityFee ?? env[ENV.priorityFee] ?? "0"
+  );
+  const unitLimit = options.computeUnitLimit ?? env[ENV.computeUnitLimit];
+
+  return {
+    name,
+    rpcUrl,
+    keypairPath: expandHome(
+      options.keypair ?? env[ENV.keypair] ?? DEFAULT_KEYPAIR_PATH
+    ),
+    commitment,
+    programId: new PublicKey(programId),
+    computeBudget: {
+      priorityFee,
+      unitLimit:
+        unitLimit === undefined ? undefined : parseComputeUnitLimit(unitLimit),
+    },
+    manifestPath: path.join(DEPLOYMENTS_DIR, `${name}.json`),
+  };
+}
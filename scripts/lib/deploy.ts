@@ -0,0 +1,197 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+
+import { DEPLOYMENTS_DIR, anchorProgramIds } from "./config";
+import { AccountReader } from "./provision";
+
+/**
+ * Deployment checks.
+ *
+ * The program ID is written down in several places: `declare_id!` in the
+ * program, Anchor.toml, the keypair `anchor deploy` deploys to and the
+ * cluster's deployment manifest. `workspaceProgramId` reads them all and
+ * refuses to go on unless they agree; `fetchDeployedProgram` then reads the
+ * upgradeable loader's accounts to see that the program really is deployed
+ * there, and who can upgrade it.
+ */
+
+export const BPF_UPGRADEABLE_LOADER_ID = new PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+
+export interface WorkspacePaths {
+  anchorToml: string;
+  programSource: string;
+  programKeypair: string;
+  deployments: string;
+}
+
+export const WORKSPACE_PATHS: WorkspacePaths = {
+  anchorToml: "Anchor.toml",
+  programSource: "programs/vault-escrow/src/lib.rs",
+  programKeypair: "target/deploy/vault_escrow-keypair.json",
+  deployments: DEPLOYMENTS_DIR,
+};
+
+export interface ProgramIdSource {
+  // e.g. "Anchor.toml [programs.localnet]"
+  source: string;
+  programId: string;
+}
+
+// The address in `declare_id!("...")`, or null if the file has none.
+export function declaredProgramId(source: string): string | null {
+  const match = /declare_id!\(\s*"([1-9A-HJ-NP-Za-km-z]+)"\s*\)/.exec(source);
+  return match ? match[1] : null;
+}
+
+/**
+ * Every place in the workspace that names the program ID for `cluster`.
+ * The deploy keypair exists once the program is built, the manifest once
+ * `mint create` has run.
+ */
+export function workspaceProgramIds(
+  cluster: string,
+  paths: WorkspacePaths = WORKSPACE_PATHS
+): ProgramIdSource[] {
+  const sources: ProgramIdSource[] = [];
+  const fromToml = anchorProgramIds(paths.anchorToml)[cluster];
+  if (fromToml) {
+    sources.push({
+      source: `${paths.anchorToml} [programs.${cluster}]`,
+      programId: fromToml,
+    });
+  }
+  if (fs.existsSync(paths.programSource)) {
+    const declared = declaredProgramId(
+      fs.readFileSync(paths.programSource, "utf8")
+    );
+    if (declared) {
+      sources.push({
+        source: `declare_id! in ${paths.programSource}`,
+        programId: declared,
+      });
+    }
+  }
+  if (fs.existsSync(paths.programKeypair)) {
+    const secretKey = Uint8Array.from(
+      JSON.parse(fs.readFileSync(paths.programKeypair, "utf8"))
+    );
+    sources.push({
+      source: paths.programKeypair,
+      programId: Keypair.fromSecretKey(secretKey).publicKey.toBase58(),
+    });
+  }
+  const manifest = path.join(paths.deployments, `${cluster}.json`);
+  if (fs.existsSync(manifest)) {
+    const { programId } = JSON.parse(fs.readFileSync(manifest, "utf8"));
+    sources.push({ source: manifest, programId });
+  }
+  return sources;
+}
+
+// The program ID the workspace agrees on for `cluster`.
+export function workspaceProgramId(
+  cluster: string,
+  paths: WorkspacePaths = WORKSPACE_PATHS
+): PublicKey {
+  const sources = workspaceProgramIds(cluster, paths);
+  if (sources.length === 0) {
+    throw new Error(
+      `No program ID for ${cluster}: add vault_escrow to [programs.${cluster}] in ${paths.anchorToml}`
+    );
+  }
+  const ids = new Set(sources.map((s) => s.programId));
+  if (ids.size > 1) {
+    const list = sources.map((s) => `  ${s.source}: ${s.programId}`);
+    throw new Error(
+      `The workspace disagrees on the program ID (run \`anchor keys sync\` after checking which is right):\n${list.join(
+        "\n"
+      )}`
+    );
+  }
+  return new PublicKey(sources[0].programId);
+}
+
+export interface DeployedProgram {
+  programId: PublicKey;
+  programData: PublicKey;
+  // slot of the last deploy or upgrade
+  slot: bigint;
+  // null once the program is immutable
+  upgradeAuthority: PublicKey | null;
+}
+
+// UpgradeableLoaderState variants (bincode: u32 tag, then the fields).
+const LOADER_PROGRAM = 2;
+const LOADER_PROGRAM_DATA = 3;
+
+/**
+ * The deployed program at `programId` and its ProgramData account, read
+ * from the upgradeable BPF loader. Throws unless the program is deployed,
+ * executable and owned by that loader.
+ */
+export async function fetchDeployedProgram(
+  reader: AccountReader,
+  programId: PublicKey
+): Promise<DeployedProgram> {
+  const [program] = await reader.getMultipleAccountsInfo([programId]);
+  const id = programId.toBase58();
+  if (!program) {
+    throw new Error(`Program ${id} is not deployed on this cluster`);
+  }
+  if (
+    !program.owner.equals(BPF_UPGRADEABLE_LOADER_ID) ||
+    program.data.length < 36 ||
+    program.data.readUInt32LE(0) !== LOADER_PROGRAM
+  ) {
+    throw new Error(
+      `Account ${id} is not a program of the upgradeable BPF loader (owner ${program.owner.toBase58()})`
+    );
+  }
+  if (!program.executable) {
+    throw new Error(`Program ${id} is not executable`);
+  }
+  const programData = new PublicKey(program.data.subarray(4, 36));
+
+  const [data] = await reader.getMultipleAccountsInfo([programData]);
+  if (
+    !data ||
+    data.data.length < 13 ||
+    data.data.readUInt32LE(0) !== LOADER_PROGRAM_DATA
+  ) {
+    throw new Error(
+      `Program ${id} has no ProgramData account at ${programData.toBase58()}`
+    );
+  }
+  const hasAuthority = data.data[12] === 1;
+  return {
+    programId,
+    programData,
+    slot: data.data.readBigUInt64LE(4),
+    upgradeAuthority: hasAuthority
+      ? new PublicKey(data.data.subarray(13, 45))
+      : null,
+  };
+}
+
+// `expected` null means the program should be immutable.
+export function checkUpgradeAuthority(
+  deployed: DeployedProgram,
+  expected: PublicKey | null
+) {
+  const actual = deployed.upgradeAuthority;
+  const name = (k: PublicKey | null) => (k ? k.toBase58() : "none (immutable)");
+  const same =
+    actual === null || expected === null
+      ? actual === expected
+      : actual.equals(expected);
+  if (!same) {
+    throw new Error(
+      `Program ${deployed.programId.toBase58()} has upgrade authority ${name(
+        actual
+      )}, expected ${name(expected)}`
+    );
+  }
+}
@@ -0,0 +1,411 @@
+import { PublicKey, SystemProgram } from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+
+import { MAX_MILESTONES } from "./accounts";
+import { TOKEN_METADATA_PROGRAM_ID } from "./metadata";
+
+/**
+ * Typed errors for failed transactions.
+ *
+ * Everything we get back from a failed send or simulation (program logs, the
+ * RPC error message, the `{"Custom":N}` status) is funnelled through
+ * `parseTransactionError`, which works out which program failed and why, and
+ * returns a `VaultEscrowError` with a stable `code` callers can branch on:
+ *
+ *   if (err instanceof VaultEscrowError && err.code === "DeadlinePassed") ...
+ */
+
+// `EscrowError` in programs/vault-escrow/src/lib.rs, in enum order from 6000.
+export const ESCROW_ERRORS = {
+  6000: "AlreadyReleased",
+  6001: "DeadlinePassed",
+  6002: "TooEarly",
+  6003: "NotBuyer",
+  6004: "NotParty",
+  6005: "NoArbiter",
+  6006: "AlreadyDisputed",
+  6007: "NotDisputed",
+  6008: "NotArbiter",
+  6009: "SplitExceedsLocked",
+  6010: "Disputed",
+  6011: "InvalidMilestones",
+  6012: "MilestoneNotFound",
+  6013: "MilestoneAlreadyReleased",
+  6014: "NotVaultAuthority",
+  6015: "WithdrawExceedsFree",
+  6016: "NotReleased",
+  6017: "VaultNotEmpty",
+  6018: "NotBuyerOrVaultAuthority",
+  6019: "VaultMigrating",
+} as const;
+export type EscrowErrorCode =
+  (typeof ESCROW_ERRORS)[keyof typeof ESCROW_ERRORS];
+
+// Anchor framework errors the program can hit (anchor-lang 0.32).
+export const ANCHOR_ERRORS = {
+  101: "InstructionFallbackNotFound",
+  102: "InstructionDidNotDeserialize",
+  2000: "ConstraintMut",
+  2001: "ConstraintHasOne",
+  2002: "ConstraintSigner",
+  2003: "ConstraintRaw",
+  2004: "ConstraintOwner",
+  2006: "ConstraintSeeds",
+  2009: "ConstraintAssociated",
+  2014: "ConstraintTokenMint",
+  2015: "ConstraintTokenOwner",
+  3001: "AccountDiscriminatorNotFound",
+  3002: "AccountDiscriminatorMismatch",
+  3003: "AccountDidNotDeserialize",
+  3005: "AccountNotEnoughKeys",
+  3006: "AccountNotMutable",
+  3007: "AccountOwnedByWrongProgram",
+  3008: "InvalidProgramId",
+  3010: "AccountNotSigner",
+  3011: "AccountNotSystemOwned",
+  3012: "AccountNotInitialized",
+  3014: "AccountNotAssociatedTokenAccount",
+  4100: "DeclaredProgramIdMismatch",
+} as const;
+export type AnchorErrorCode =
+  (typeof ANCHOR_ERRORS)[keyof typeof ANCHOR_ERRORS];
+
+// SystemError (custom codes returned by the System program).
+const SYSTEM_ERRORS: Record<number, string> = {
+  0: "AccountAlreadyInUse",
+  1: "InsufficientFunds",
+};
+
+// spl-token TokenError.
+const TOKEN_ERRORS: Record<number, string> = {
+  1: "TokenInsufficientFunds",
+  3: "TokenMintMismatch",
+  4: "TokenOwnerMismatch",
+  17: "TokenAccountFrozen",
+};
+
+export type ClientErrorCode =
+  | "AccountAlreadyInUse"
+  | "InsufficientFunds"
+  | "InsufficientFundsForFee"
+  | "TokenInsufficientFunds"
+  | "TokenMintMismatch"
+  | "TokenOwnerMismatch"
+  | "TokenAccountFrozen"
+  | "ProgramNotFound"
+  | "BlockhashExpired"
+  | "VaultOvercommitted"
+  | "Unknown";
+
+export type VaultEscrowErrorCode =
+  | EscrowErrorCode
+  | AnchorErrorCode
+  | ClientErrorCode;
+
+export type FailedProgram =
+  | "vault-escrow"
+  | "system"
+  | "token"
+  | "token-2022"
+  | "associated-token"
+  | "token-metadata"
+  | "runtime";
+
+const HINTS: Partial<Record<VaultEscrowErrorCode, string>> = {
+  AlreadyReleased:
+    "This escrow was already paid out or refunded; nothing is left to move.",
+  DeadlinePassed:
+    "The release deadline has passed. Only `escrow refund` works from here.",
+  TooEarly:
+    "Refunds open once the deadline has passed; check the deadline with `status --seller`.",
+  NotBuyer: "Sign with the buyer wallet that created the escrow.",
+  NotParty: "Only the escrow's buyer or seller can raise a dispute.",
+  NoArbiter:
+    "This escrow was created without --arbiter, so it can't be disputed.",
+  AlreadyDisputed: "A dispute is already open; wait for the arbiter.",
+  NotDisputed:
+    "The arbiter can only settle an escrow after the buyer or seller runs `escrow dispute`.",
+  NotArbiter: "Sign with the arbiter wallet named when the escrow was created.",
+  SplitExceedsLocked:
+    "--to-seller can't exceed what is left in the escrow; the rest goes to the buyer.",
+  Disputed:
+    "The escrow is disputed, so the deadline refund is frozen until the arbiter runs `escrow resolve`.",
+  InvalidMilestones: `Give at most ${MAX_MILESTONES} milestones, each above zero and due by the escrow deadline, adding up to --amount.`,
+  MilestoneNotFound:
+    "Milestones are numbered from 1; `inspect <escrow>` lists the escrow's milestones.",
+  MilestoneAlreadyReleased:
+    "That milestone has been paid; `inspect <escrow>` shows which are still open.",
+  NotVaultAuthority:
+    "Only the wallet that created the vault can open escrows against it or withdraw from it.",
+  WithdrawExceedsFree:
+    "Tokens owed to unreleased escrows stay in the vault; `vault reconcile` shows what is withdrawable.",
+  NotReleased:
+    "Only released, refunded or resolved escrows can be closed; `escrow list --state released` shows them.",
+  VaultNotEmpty:
+    "Withdraw what is left (`vault withdraw --all`) and settle every escrow before closing the vault.",
+  NotBuyerOrVaultAuthority:
+    "An escrow from before escrow IDs is moved by its buyer or by the vault's authority.",
+  VaultMigrating:
+    "Run `escrow migrate` as the vault's authority; it finishes the vault's migration once no escrow from before escrow IDs is left.",
+  ConstraintRaw:
+    "An account does not match the escrow or vault (wrong buyer, seller, mint or vault?).",
+  ConstraintSeeds:
+    "A PDA does not match its seeds. Check --mint, --cluster and --program-id.",
+  ConstraintHasOne: "An account does not belong to the expected owner.",
+  ConstraintAssociated:
+    "A token account is not the associated token account for this mint and owner.",
+  ConstraintTokenMint: "A token account holds a different mint.",
+  ConstraintTokenOwner: "A token account belongs to a different owner.",
+  AccountNotInitialized:
+    "A required account does not exist yet (vault, vault ATA or seller ATA?). Run `vault init` or create the ATA first.",
+  AccountDiscriminatorMismatch:
+    "An account passed as a Vault or Escrow is some other kind of account.",
+  AccountOwnedByWrongProgram:
+    "An account is owned by a different program (wrong --program-id or --cluster?).",
+  DeclaredProgramIdMismatch:
+    "The deployed program was built with a different program ID.",
+  AccountAlreadyInUse:
+    "The account already exists; this step has already been done.",
+  InsufficientFunds: "The paying wallet does not have enough SOL.",
+  InsufficientFundsForFee:
+    "The fee payer has no SOL on this cluster. Fund it (e.g. `solana airdrop`) and retry.",
+  TokenInsufficientFunds:
+    "The source token account does not hold enough tokens.",
+  TokenAccountFrozen:
+    "The token account is frozen by the mint's freeze authority.",
+  ProgramNotFound:
+    "No program is deployed at the program ID on this cluster. Check --program-id and --cluster.",
+  BlockhashExpired:
+    "The transaction expired before it landed. It did not execute; retry.",
+  VaultOvercommitted:
+    "Lock more tokens with `vault lock`, or pass --allow-overcommit to create the escrow anyway.",
+};
+
+export class VaultEscrowError extends Error {
+  constructor(
+    readonly code: VaultEscrowErrorCode,
+    message: string,
+    readonly details: {
+      program?: FailedProgram;
+      errorNumber?: number;
+      account?: string;
+      logs?: string[];
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message);
+    this.name = "VaultEscrowError";
+  }
+
+  get hint(): string | undefined {
+    return HINTS[this.code];
+  }
+
+  get logs(): string[] {
+    return this.details.logs ?? [];
+  }
+}
+
+export function isVaultEscrowError(
+  err: unknown,
+  code?: VaultEscrowErrorCode
+): err is VaultEscrowError {
+  return (
+    err instanceof VaultEscrowError && (code === undefined || err.code === code)
+  );
+}
+
+function programKind(
+  programId: string,
+  ourProgramId: PublicKey
+): FailedProgram | undefined {
+  if (programId === ourProgramId.toBase58()) return "vault-escrow";
+  if (programId === SystemProgram.programId.toBase58()) return "system";
+  if (programId === TOKEN_PROGRAM_ID.toBase58()) return "token";
+  if (programId === TOKEN_2022_PROGRAM_ID.toBase58()) return "token-2022";
+  if (programId === ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()) {
+    return "associated-token";
+  }
+  if (programId === TOKEN_METADATA_PROGRAM_ID.toBase58()) {
+    return "token-metadata";
+  }
+  return undefined;
+}
+
+function codeFor(
+  program: FailedProgram | undefined,
+  errorNumber: number
+): VaultEscrowErrorCode | undefined {
+  switch (program) {
+    case "system":
+      return SYSTEM_ERRORS[errorNumber] as VaultEscrowErrorCode | undefined;
+    case "token":
+    // Token-2022 keeps the SPL Token error numbering
+    case "token-2022":
+      return TOKEN_ERRORS[errorNumber] as VaultEscrowErrorCode | undefined;
+    case "vault-escrow":
+    case undefined:
+      // Without logs we only have the number; Anchor's ranges don't collide
+      // with the small codes the SPL programs use.
+      return (
+        (ESCROW_ERRORS as Record<number, EscrowErrorCode>)[errorNumber] ??
+        (ANCHOR_ERRORS as Record<number, AnchorErrorCode>)[errorNumber]
+      );
+    default:
+      return undefined;
+  }
+}
+
+// Pulls logs and a message out of whatever the web3.js / bankrun call threw.
+function unpack(err: unknown): { message: string; logs: string[] } {
+  if (err && typeof err === "object") {
+    const e = err as { message?: unknown; logs?: unknown };
+    const logs = Array.isArray(e.logs) ? (e.logs as string[]) : [];
+    return { message: String(e.message ?? err), logs };
+  }
+  return { message: String(err), logs: [] };
+}
+
+/**
+ * Interprets a failed send/simulation. `logs` are the program logs if the
+ * caller has them separately (simulation results, bankrun metadata).
+ * Returns null when nothing in the input looks like a transaction failure.
+ */
+export function parseTransactionError(
+  err: unknown,
+  programId: PublicKey,
+  logs: string[] = []
+): VaultEscrowError | null {
+  if (err instanceof VaultEscrowError) return err;
+
+  const unpacked = unpack(err);
+  const allLogs = logs.length > 0 ? logs : unpacked.logs;
+  const message = unpacked.message;
+  const text = [message, ...allLogs].join("\n");
+  const base = { logs: allLogs, cause: err };
+
+  // 1. Anchor logs the error by name; this is the most precise source.
+  //    "AnchorError caused by account: escrow. Error Code: ConstraintRaw.
+  //     Error Number: 2003. Error Message: A raw constraint was violated."
+  //    "AnchorError thrown in programs/vault-escrow/src/lib.rs:64. Error
+  //     Code: DeadlinePassed. Error Number: 6001. Error Message: ..."
+  const anchor = new RegExp(
+    "AnchorError (?:caused by account: (\\w+)|thrown in \\S+:\\d+|occurred)\\. " +
+      "Error Code: (\\w+)\\. Error Number: (\\d+)\\. Error Message: ([^.]*)"
+  ).exec(text);
+  if (anchor) {
+    const [, account, name, num, msg] = anchor;
+    const errorNumber = Number(num);
+    const code =
+      codeFor("vault-escrow", errorNumber) ?? (name as VaultEscrowErrorCode);
+    return new VaultEscrowError(
+      code,
+      account ? `${name} on account \`${account}\`: ${msg}` : `${name}: ${msg}`,
+      { ...base, program: "vault-escrow", errorNumber, account }
+    );
+  }
+
+  // 2. "Program <id> failed: custom program error: 0x1" tells us which program.
+  const failed =
+    /Program (\w+) failed: custom program error: 0x([0-9a-f]+)/i.exec(text);
+  if (failed) {
+    const program = programKind(failed[1], programId);
+    const errorNumber = parseInt(failed[2], 16);
+    const code = codeFor(program, errorNumber) ?? "Unknown";
+    return new VaultEscrowError(
+      code,
+      `${program ?? failed[1]} program failed with custom error ${errorNumber}${
+        code === "Unknown" ? "" : ` (${code})`
+      }`,
+      { ...base, program, errorNumber }
+    );
+  }
+
+  // 3. Well-known runtime messages.
+  if (/already in use/i.test(text)) {
+    return new VaultEscrowError(
+      "AccountAlreadyInUse",
+      "Account already in use",
+      {
+        ...base,
+        program: "system",
+      }
+    );
+  }
+  if (/Provided owner is not allowed/.test(text)) {
+    // what the ATA program says when the ATA already exists
+    return new VaultEscrowError(
+      "AccountAlreadyInUse",
+      "Associated token account already exists",
+      { ...base, program: "associated-token" }
+    );
+  }
+  if (/insufficient lamports/i.test(text)) {
+    return new VaultEscrowError("InsufficientFunds", "Insufficient lamports", {
+      ...base,
+      program: "system",
+    });
+  }
+  if (/no record of a prior credit|insufficient funds for fee/i.test(text)) {
+    return new VaultEscrowError(
+      "InsufficientFundsForFee",
+      "Fee payer cannot pay the transaction fee",
+      { ...base, program: "runtime" }
+    );
+  }
+  if (
+    /program that does not exist|is not deployed|ProgramAccountNotFound|InvalidProgramForExecution/i.test(
+      text
+    )
+  ) {
+    return new VaultEscrowError("ProgramNotFound", "Program not found", {
+      ...base,
+      program: "runtime",
+    });
+  }
+  if (
+    /block height exceeded|Blockhash not found|BlockhashNotFound/i.test(text) ||
+    (err as { name?: string })?.name ===
+      "TransactionExpiredBlockheightExceededError"
+  ) {
+    return new VaultEscrowError("BlockhashExpired", "Transaction expired", {
+      ...base,
+      program: "runtime",
+    });
+  }
+
+  // 4. Confirmation failures only carry the status:
+  //    {"err":{"InstructionError":[0,{"Custom":6001}]}}
+  const custom = /"Custom":(\d+)/.exec(text);
+  if (custom) {
+    const errorNumber = Number(custom[1]);
+    const code = codeFor(undefined, errorNumber) ?? "Unknown";
+    return new VaultEscrowError(
+      code,
+      `Instruction failed with custom error ${errorNumber}`,
+      { ...base, errorNumber }
+    );
+  }
+
+  return null;
+}
+
+// Like parseTransactionError, but always returns an error (code "Unknown"
+// keeps the original message).
+export function toVaultEscrowError(
+  err: unknown,
+  programId: PublicKey,
+  logs: string[] = []
+): VaultEscrowError {
+  return (
+    parseTransactionError(err, programId, logs) ??
+    new VaultEscrowError("Unknown", unpack(err).message, {
+      logs: logs.length > 0 ? logs : unpack(err).logs,
+      cause: err,
+    })
+  );
+}
@@ -0,0 +1,272 @@
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+
+import {
+  DecodedInstruction,
+  TokenBalanceChange,
+  TokenTransfer,
+  innerTokenTransfers,
+  programInstructions,
+  tokenBalanceChanges,
+} from "./transactions";
+
+/**
+ * Typed events from vault-escrow transactions.
+ *
+ * One event per program instruction that moves or promises tokens, two for
+ * an arbiter ruling that pays both sides. Token amounts are base units:
+ * `amount` of EscrowCreated is what the escrow promises and of Withdrawn
+ * what the authority asked for. TokensLocked has how much the vault ATA's
+ * balance changed in the transaction, so a Token-2022 transfer fee on a
+ * lock shows as the vault receiving less than the wallet sent. Released and
+ * Refunded have what the instruction itself transferred out of the vault
+ * ATA, so several in one transaction each report their own; for a
+ * transaction the RPC kept no inner instructions of, what the seller's or
+ * buyer's ATA received instead.
+ */
+
+interface EventBase {
+  // `<signature>:<instruction index>`, with `:1` appended for the second
+  // event of an arbiter ruling; unique per event, so webhook receivers can
+  // use it to drop redeliveries
+  id: string;
+  signature: string;
+  slot: number;
+  blockTime: Date | null;
+  mint: PublicKey;
+}
+
+export interface EscrowCreated extends EventBase {
+  type: "EscrowCreated";
+  escrow: PublicKey;
+  vault: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  // null for an escrow opened before escrow IDs existed
+  escrowId: bigint | null;
+  amount: bigint;
+  deadline: Date;
+  arbiter: PublicKey | null;
+  milestones: number;
+}
+
+export interface TokensLocked extends EventBase {
+  type: "TokensLocked";
+  vault: PublicKey;
+  user: PublicKey;
+  amount: bigint;
+}
+
+export interface Released extends EventBase {
+  type: "Released";
+  escrow: PublicKey;
+  vault: PublicKey;
+  buyer: PublicKey;
+  seller: PublicKey;
+  amount: bigint;
+  // 1-based, for release_milestone; null otherwise
+  milestone: number | null;
+  // set when an arbiter's ruling paid it
+  arbiter: PublicKey | null;
+}
+
+export interface Refunded extends EventBase {
+  type: "Refunded";
+  escrow: PublicKey;
+  vault: PublicKey;
+  buyer: PublicKey;
+  amount: bigint;
+  // set when an arbiter's ruling paid it
+  arbiter: PublicKey | null;
+}
+
+export interface Withdrawn extends EventBase {
+  type: "Withdrawn";
+  vault: PublicKey;
+  authority: PublicKey;
+  amount: bigint;
+}
+
+export type VaultEscrowEvent =
+  | EscrowCreated
+  | TokensLocked
+  | Released
+  | Refunded
+  | Withdrawn;
+
+export type VaultEscrowEventType = VaultEscrowEvent["type"];
+
+// How much `account` gained (positive) or lost in the transaction.
+function balanceDelta(changes: TokenBalanceChange[], account: PublicKey) {
+  const change = changes.find((c) => c.address.equals(account));
+  return change ? change.after - change.before : 0n;
+}
+
+// What one instruction paid from `from` to `to`: its own transfers, or
+// without a record of those, what `to` gained in the transaction.
+function paid(
+  transfers: TokenTransfer[] | null,
+  changes: TokenBalanceChange[],
+  from: PublicKey,
+  to: PublicKey
+): bigint {
+  if (!transfers) return balanceDelta(changes, to);
+  return transfers
+    .filter((t) => t.source.equals(from) && t.destination.equals(to))
+    .reduce((sum, t) => sum + t.amount, 0n);
+}
+
+type EventBody = VaultEscrowEvent extends infer E
+  ? E extends VaultEscrowEvent
+    ? Omit<E, keyof EventBase>
+    : never
+  : never;
+
+function toEvents(
+  ix: DecodedInstruction,
+  transfers: TokenTransfer[] | null,
+  changes: TokenBalanceChange[]
+): EventBody[] {
+  const a = ix.accounts;
+  switch (ix.name) {
+    case "init_escrow": {
+      const args = ix.args as {
+        escrowId: bigint | null;
+        amount: bigint;
+        deadlineUnixTs: bigint;
+        arbiter: PublicKey | null;
+        milestones: unknown[];
+      };
+      return [
+        {
+          type: "EscrowCreated",
+          escrow: a.escrow,
+          vault: a.vault,
+          buyer: a.buyer,
+          seller: a.seller,
+          escrowId: args.escrowId,
+          amount: args.amount,
+          deadline: new Date(Number(args.deadlineUnixTs) * 1000),
+          arbiter: args.arbiter,
+          milestones: args.milestones.length,
+        },
+      ];
+    }
+    case "lock_tokens":
+      return [
+        {
+          type: "TokensLocked",
+          vault: a.vault,
+          user: a.user,
+          amount: balanceDelta(changes, a.vaultAta),
+        },
+      ];
+    case "release_to_seller":
+    case "release_milestone":
+      return [
+        {
+          type: "Released",
+          escrow: a.escrow,
+          vault: a.vault,
+          buyer: a.buyer,
+          seller: a.seller,
+          amount: paid(transfers, changes, a.vaultAta, a.sellerAta),
+          milestone:
+            ix.name === "release_milestone"
+              ? (ix.args.index as number) + 1
+              : null,
+          arbiter: null,
+        },
+      ];
+    case "refund_buyer":
+      return [
+        {
+          type: "Refunded",
+          escrow: a.escrow,
+          vault: a.vault,
+          buyer: a.buyer,
+          amount: paid(transfers, changes, a.vaultAta, a.buyerAta),
+          arbiter: null,
+        },
+      ];
+    case "arbiter_resolve": {
+      // the ruling may pay the seller, refund the buyer, or both
+      const events: EventBody[] = [];
+      const toSeller = paid(transfers, changes, a.vaultAta, a.sellerAta);
+      if (toSeller > 0n) {
+        events.push({
+          type: "Released",
+          escrow: a.escrow,
+          vault: a.vault,
+          buyer: a.buyer,
+          seller: a.seller,
+          amount: toSeller,
+          milestone: null,
+          arbiter: a.arbiter,
+        });
+      }
+      const toBuyer = paid(transfers, changes, a.vaultAta, a.buyerAta);
+      if (toBuyer > 0n) {
+        events.push({
+          type: "Refunded",
+          escrow: a.escrow,
+          vault: a.vault,
+          buyer: a.buyer,
+          amount: toBuyer,
+          arbiter: a.arbiter,
+        });
+      }
+      return events;
+    }
+    case "withdraw":
+      return [
+        {
+          type: "Withdrawn",
+          vault: a.vault,
+          authority: a.authority,
+          amount: ix.args.amount as bigint,
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The events of one confirmed transaction, in instruction order. A failed
+ * transaction changed nothing and has none.
+ */
+export function eventsFromTransaction(
+  signature: string,
+  tx: VersionedTransactionResponse,
+  programId: PublicKey
+): VaultEscrowEvent[] {
+  if (tx.meta?.err) return [];
+  const changes = tokenBalanceChanges(tx);
+  const events: VaultEscrowEvent[] = [];
+  for (const ix of programInstructions(tx, programId)) {
+    const mint = ix.accounts.mint;
+    if (!mint) continue;
+    const transfers = innerTokenTransfers(tx, ix.index);
+    toEvents(ix, transfers, changes).forEach((body, n) => {
+      events.push({
+        ...body,
+        id: `${signature}:${ix.index}${n > 0 ? `:${n}` : ""}`,
+        signature,
+        slot: tx.slot,
+        blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+        mint,
+      } as VaultEscrowEvent);
+    });
+  }
+  return events;
+}
+
+function toJsonValue(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+// One JSON line: keys base58, amounts and IDs as decimal strings.
+export function eventJson(event: VaultEscrowEvent): string {
+  return JSON.stringify(event, toJsonValue);
+}
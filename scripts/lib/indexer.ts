@@ -0,0 +1,253 @@
+import {
+  Connection,
+  GetProgramAccountsFilter,
+  PublicKey,
+} from "@solana/web3.js";
+
+import {
+  ESCROW_ACCOUNT_SIZE,
+  ESCROW_DISCRIMINATOR,
+  EscrowAccount,
+  LEGACY_ESCROW_ACCOUNT_SIZES,
+  LegacyEscrowAccount,
+  decodeEscrow,
+  decodeLegacyEscrow,
+} from "./accounts";
+import { VaultEscrowClient } from "./client";
+import { AccountReader } from "./provision";
+
+/**
+ * Escrow indexer.
+ *
+ * Escrow PDAs are keyed by vault, buyer, seller and escrow ID, so finding
+ * "every open escrow for this seller" by derivation means already knowing
+ * the answer.
+ * Instead we ask the RPC for program accounts that carry the Escrow
+ * discriminator and match memcmp filters on the fixed Borsh layout.
+ */
+
+// Byte offsets of the Escrow fields (see ESCROW_ACCOUNT_SIZE).
+export const ESCROW_OFFSETS = {
+  vault: 8,
+  buyer: 40,
+  seller: 72,
+  tokenMint: 104,
+  amountLocked: 136,
+  deadlineUnixTs: 144,
+  released: 152,
+  bump: 153,
+  disputed: 154,
+  escrowId: 155,
+  arbiter: 163,
+} as const;
+
+export type EscrowState = "open" | "expired" | "disputed" | "released";
+
+export const ESCROW_STATES: readonly EscrowState[] = [
+  "open",
+  "expired",
+  "disputed",
+  "released",
+];
+
+// Expired means "past the deadline, waiting for refund_buyer". Disputed
+// means unreleased and waiting for the arbiter, whatever the clock says.
+export function escrowState(escrow: EscrowAccount, now: bigint): EscrowState {
+  if (escrow.released) return "released";
+  if (escrow.disputed) return "disputed";
+  if (now > escrow.deadlineUnixTs) return "expired";
+  return "open";
+}
+
+export interface EscrowFilter {
+  vault?: PublicKey;
+  buyer?: PublicKey;
+  seller?: PublicKey;
+  mint?: PublicKey;
+  // all states when omitted or empty
+  states?: EscrowState[];
+}
+
+export interface IndexedEscrow {
+  address: PublicKey;
+  account: EscrowAccount;
+  state: EscrowState;
+}
+
+export interface IndexedLegacyEscrow {
+  address: PublicKey;
+  account: LegacyEscrowAccount;
+}
+
+// Only the one RPC method we need, so tests can plug in a fake.
+export type ProgramAccountsReader = Pick<Connection, "getProgramAccounts">;
+
+function memcmp(offset: number, bytes: Buffer): GetProgramAccountsFilter {
+  return {
+    memcmp: { offset, encoding: "base64", bytes: bytes.toString("base64") },
+  };
+}
+
+function pubkeyMemcmp(
+  offset: number,
+  key: PublicKey
+): GetProgramAccountsFilter {
+  return { memcmp: { offset, bytes: key.toBase58() } };
+}
+
+// The discriminator and the vault, buyer, seller and mint filters, which sit
+// at the same offsets in every Escrow layout.
+function keyFilters(filter: EscrowFilter): GetProgramAccountsFilter[] {
+  const filters = [memcmp(0, ESCROW_DISCRIMINATOR)];
+  if (filter.vault) {
+    filters.push(pubkeyMemcmp(ESCROW_OFFSETS.vault, filter.vault));
+  }
+  if (filter.buyer) {
+    filters.push(pubkeyMemcmp(ESCROW_OFFSETS.buyer, filter.buyer));
+  }
+  if (filter.seller) {
+    filters.push(pubkeyMemcmp(ESCROW_OFFSETS.seller, filter.seller));
+  }
+  if (filter.mint) {
+    filters.push(pubkeyMemcmp(ESCROW_OFFSETS.tokenMint, filter.mint));
+  }
+  return filters;
+}
+
+/**
+ * RPC-side filters for `filter`. `open` and `expired` only differ by the
+ * clock, so the most the RPC can do for states is match the `released` and
+ * `disputed` flags.
+ */
+export function escrowFilters(
+  filter: EscrowFilter
+): GetProgramAccountsFilter[] {
+  const filters = [{ dataSize: ESCROW_ACCOUNT_SIZE }, ...keyFilters(filter)];
+
+  const states = filter.states ?? [];
+  const wantReleased = states.includes("released");
+  const wantDisputed = states.includes("disputed");
+  const wantUndisputed = states.includes("open") || states.includes("expired");
+  const wantUnreleased = wantDisputed || wantUndisputed;
+  if (wantReleased !== wantUnreleased) {
+    filters.push(
+      memcmp(ESCROW_OFFSETS.released, Buffer.from([wantReleased ? 1 : 0]))
+    );
+  }
+  // released escrows keep the flag of a settled dispute, so it only narrows
+  // unreleased ones
+  if (!wantReleased && wantDisputed !== wantUndisputed) {
+    filters.push(
+      memcmp(ESCROW_OFFSETS.disputed, Buffer.from([wantDisputed ? 1 : 0]))
+    );
+  }
+  return filters;
+}
+
+/**
+ * Every escrow matching `filter`, classified against `now` (cluster time),
+ * soonest deadline first.
+ */
+export async function listEscrows(
+  reader: ProgramAccountsReader,
+  programId: PublicKey,
+  filter: EscrowFilter,
+  now: bigint
+): Promise<IndexedEscrow[]> {
+  const accounts = await reader.getProgramAccounts(programId, {
+    filters: escrowFilters(filter),
+  });
+  const states = filter.states ?? [];
+
+  return accounts
+    .map(({ pubkey, account }) => {
+      const escrow = decodeEscrow(account.data);
+      return {
+        address: pubkey,
+        account: escrow,
+        state: escrowState(escrow, now),
+      };
+    })
+    .filter((e) => states.length === 0 || states.includes(e.state))
+    .sort((a, b) =>
+      Number(a.account.deadlineUnixTs - b.account.deadlineUnixTs)
+    );
+}
+
+/**
+ * Escrows from before escrow IDs matching `filter`, whose states are
+ * ignored: one query per legacy layout.
+ */
+export async function listLegacyEscrows(
+  reader: ProgramAccountsReader,
+  programId: PublicKey,
+  filter: EscrowFilter
+): Promise<IndexedLegacyEscrow[]> {
+  const escrows: IndexedLegacyEscrow[] = [];
+  for (const dataSize of LEGACY_ESCROW_ACCOUNT_SIZES) {
+    const accounts = await reader.getProgramAccounts(programId, {
+      filters: [{ dataSize }, ...keyFilters(filter)],
+    });
+    for (const { pubkey, account } of accounts) {
+      escrows.push({
+        address: pubkey,
+        account: decodeLegacyEscrow(account.data),
+      });
+    }
+  }
+  return escrows;
+}
+
+// escrow addresses checked per RPC call while looking for a free ID
+const ESCROW_ID_PROBE_BATCH = 10;
+
+/**
+ * The lowest escrow ID between `buyer` and `seller` that has no account
+ * against the buyer's vault, i.e. the one a new escrow should take.
+ * Released escrows keep their ID until `close_escrow`.
+ */
+export async function firstFreeEscrowId(
+  reader: AccountReader,
+  client: VaultEscrowClient,
+  params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    vaultAuthority?: PublicKey;
+  }
+): Promise<bigint> {
+  const [id] = await freeEscrowIds(reader, client, params, 1);
+  return id;
+}
+
+// The `count` lowest free escrow IDs between `buyer` and `seller`, ascending,
+// in the buyer's vault unless `vaultAuthority` names another.
+export async function freeEscrowIds(
+  reader: AccountReader,
+  client: VaultEscrowClient,
+  params: {
+    buyer: PublicKey;
+    seller: PublicKey;
+    mint: PublicKey;
+    vaultAuthority?: PublicKey;
+  },
+  count: number
+): Promise<bigint[]> {
+  const free: bigint[] = [];
+  for (let start = 0n; free.length < count; ) {
+    const ids = Array.from(
+      { length: ESCROW_ID_PROBE_BATCH },
+      (_, i) => start + BigInt(i)
+    );
+    const infos = await reader.getMultipleAccountsInfo(
+      ids.map(
+        (escrowId) => client.escrowAddresses({ ...params, escrowId }).escrow
+      )
+    );
+    infos.forEach((info, i) => {
+      if (info === null && free.length < count) free.push(ids[i]);
+    });
+    start += BigInt(ESCROW_ID_PROBE_BATCH);
+  }
+  return free;
+}
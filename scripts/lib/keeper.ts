@@ -0,0 +1,315 @@
+import { PublicKey } from "@solana/web3.js";
+
+import { VaultEscrowError, isVaultEscrowError } from "./errors";
+import { IndexedEscrow } from "./indexer";
+import { StateStore } from "./store";
+
+/**
+ * Deadline keeper.
+ *
+ * Watches every unreleased escrow of one buyer wallet and, once cluster time
+ * passes an escrow's deadline, submits `refund_buyer` so the tokens don't sit
+ * in the vault ATA forever. Warns a configurable time before each deadline.
+ *
+ * Double-submit safety comes from two things: the escrow's `released` flag
+ * is the source of truth (a refunded escrow stops being listed), and before
+ * sending, the keeper persists the last block height at which the signed
+ * transaction can still land. Until that height has passed it never builds
+ * a second refund for the same escrow, across restarts too.
+ *
+ * A refund the program rejects as `TooEarly` doesn't count as an attempt:
+ * the RPC's clock and the bank's can disagree right at the deadline, and the
+ * next pass sorts that out. An escrow the keeper gave up on is tried again,
+ * from zero attempts, once `retryAfterSeconds` of cluster time has passed.
+ */
+
+/**
+ * Everything the keeper needs from the cluster. `connectionChain` in
+ * scripts/commands/keeper.ts implements it over RPC; tests use fakes.
+ */
+export interface KeeperChain {
+  // cluster time, unix seconds
+  now(): Promise<bigint>;
+  blockHeight(): Promise<number>;
+  // unreleased escrows of the watched buyer
+  unreleasedEscrows(now: bigint): Promise<IndexedEscrow[]>;
+  // Signs a refund_buyer transaction without sending it.
+  prepareRefund(escrow: IndexedEscrow): Promise<PreparedRefund>;
+}
+
+export interface PreparedRefund {
+  lastValidBlockHeight: number;
+  // sends and confirms; throws a VaultEscrowError on failure
+  send(): Promise<string>;
+}
+
+export interface EscrowProgress {
+  deadlineUnixTs: string;
+  warned: boolean;
+  attempts: number;
+  // set while a signed refund may still land
+  inFlightUntilBlockHeight?: number;
+  signature?: string;
+  lastError?: string;
+  outcome?: "refunded" | "released" | "gave-up";
+  // cluster time of giving up, unix seconds
+  gaveUpAt?: string;
+}
+
+export interface KeeperState {
+  buyer: string;
+  escrows: Record<string, EscrowProgress>;
+}
+
+export type KeeperStore = StateStore<KeeperState>;
+
+export type KeeperEvent =
+  | { type: "tick"; clusterTime: Date; unreleased: number }
+  | {
+      type: "deadline-warning";
+      escrow: PublicKey;
+      seller: PublicKey;
+      deadline: Date;
+      secondsLeft: bigint;
+    }
+  | { type: "refund-in-flight"; escrow: PublicKey; untilBlockHeight: number }
+  | { type: "refund-sent"; escrow: PublicKey; signature: string }
+  | { type: "refund-too-early"; escrow: PublicKey; message: string }
+  | {
+      type: "refund-failed";
+      escrow: PublicKey;
+      attempt: number;
+      code: string;
+      message: string;
+    }
+  | { type: "gave-up"; escrow: PublicKey; attempts: number }
+  | { type: "retrying"; escrow: PublicKey; gaveUpAt: Date }
+  | { type: "already-released"; escrow: PublicKey }
+  | { type: "error"; message: string };
+
+export interface KeeperOptions {
+  buyer: PublicKey;
+  // warn this many seconds before a deadline; 0 disables warnings
+  warnBeforeSeconds: bigint;
+  // refund attempts per escrow before giving up on it
+  maxAttempts: number;
+  // seconds after giving up on an escrow before trying it again
+  retryAfterSeconds: bigint;
+}
+
+export class Keeper {
+  private state: KeeperState;
+
+  constructor(
+    private readonly chain: KeeperChain,
+    private readonly store: KeeperStore,
+    private readonly options: KeeperOptions,
+    private readonly emit: (event: KeeperEvent) => void
+  ) {
+    const buyer = options.buyer.toBase58();
+    const saved = store.load();
+    if (saved && saved.buyer !== buyer) {
+      throw new Error(
+        `Keeper state belongs to buyer ${saved.buyer}, not ${buyer}; use a different state file`
+      );
+    }
+    this.state = saved ?? { buyer, escrows: {} };
+  }
+
+  progress(escrow: PublicKey): EscrowProgress | undefined {
+    return this.state.escrows[escrow.toBase58()];
+  }
+
+  // Counts over everything the keeper has tracked, for reporting.
+  summary(): Record<string, number> {
+    const all = Object.values(this.state.escrows);
+    const count = (outcome: EscrowProgress["outcome"]) =>
+      all.filter((p) => p.outcome === outcome).length;
+    return {
+      tracked: all.length,
+      refunded: count("refunded"),
+      releasedElsewhere: count("released"),
+      gaveUp: count("gave-up"),
+    };
+  }
+
+  // One pass over the buyer's escrows.
+  async tick(): Promise<void> {
+    const now = await this.chain.now();
+    const escrows = await this.chain.unreleasedEscrows(now);
+    this.emit({
+      type: "tick",
+      clusterTime: new Date(Number(now) * 1000),
+      unreleased: escrows.length,
+    });
+
+    for (const escrow of escrows) {
+      const key = escrow.address.toBase58();
+      const progress = (this.state.escrows[key] ??= {
+        deadlineUnixTs: escrow.account.deadlineUnixTs.toString(),
+        warned: false,
+        attempts: 0,
+      });
+      if (escrow.state === "open") {
+        this.maybeWarn(escrow, progress, now);
+      } else if (escrow.state === "expired") {
+        await this.refund(escrow, progress, now);
+      }
+    }
+  }
+
+  // Ticks every `intervalMs` until `signal` aborts. RPC errors are reported
+  // and retried on the next tick.
+  async run(intervalMs: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        await this.tick();
+      } catch (e) {
+        this.emit({
+          type: "error",
+          message: errorMessage(e),
+        });
+      }
+      await sleep(intervalMs, signal);
+    }
+  }
+
+  private maybeWarn(
+    escrow: IndexedEscrow,
+    progress: EscrowProgress,
+    now: bigint
+  ) {
+    const secondsLeft = escrow.account.deadlineUnixTs - now;
+    if (
+      progress.warned ||
+      this.options.warnBeforeSeconds <= 0n ||
+      secondsLeft > this.options.warnBeforeSeconds
+    ) {
+      return;
+    }
+    this.emit({
+      type: "deadline-warning",
+      escrow: escrow.address,
+      seller: escrow.account.seller,
+      deadline: new Date(Number(escrow.account.deadlineUnixTs) * 1000),
+      secondsLeft,
+    });
+    progress.warned = true;
+    this.save();
+  }
+
+  private async refund(
+    escrow: IndexedEscrow,
+    progress: EscrowProgress,
+    now: bigint
+  ) {
+    if (progress.outcome === "gave-up") {
+      // state files from before gaveUpAt retry right away
+      const gaveUpAt = BigInt(progress.gaveUpAt ?? "0");
+      if (now - gaveUpAt < this.options.retryAfterSeconds) return;
+      this.emit({
+        type: "retrying",
+        escrow: escrow.address,
+        gaveUpAt: new Date(Number(gaveUpAt) * 1000),
+      });
+      delete progress.outcome;
+      delete progress.gaveUpAt;
+      progress.attempts = 0;
+      this.save();
+    }
+
+    // A previous refund may still land; wait until it can't.
+    if (progress.inFlightUntilBlockHeight !== undefined) {
+      const height = await this.chain.blockHeight();
+      if (height <= progress.inFlightUntilBlockHeight) {
+        this.emit({
+          type: "refund-in-flight",
+          escrow: escrow.address,
+          untilBlockHeight: progress.inFlightUntilBlockHeight,
+        });
+        return;
+      }
+      delete progress.inFlightUntilBlockHeight;
+    }
+
+    try {
+      const prepared = await this.chain.prepareRefund(escrow);
+      progress.inFlightUntilBlockHeight = prepared.lastValidBlockHeight;
+      this.save();
+
+      progress.signature = await prepared.send();
+      progress.attempts += 1;
+      progress.outcome = "refunded";
+      delete progress.inFlightUntilBlockHeight;
+      delete progress.lastError;
+      this.save();
+      this.emit({
+        type: "refund-sent",
+        escrow: escrow.address,
+        signature: progress.signature,
+      });
+    } catch (e) {
+      const err = isVaultEscrowError(e)
+        ? e
+        : new VaultEscrowError("Unknown", errorMessage(e), { cause: e });
+      // Decoded failures (program errors, expired blockhash) can't land
+      // later; an unknown one, e.g. a dropped connection, still might.
+      if (err.code !== "Unknown") delete progress.inFlightUntilBlockHeight;
+      if (err.code === "AlreadyReleased") {
+        progress.outcome = "released";
+        this.save();
+        this.emit({ type: "already-released", escrow: escrow.address });
+        return;
+      }
+      if (err.code === "TooEarly") {
+        this.save();
+        this.emit({
+          type: "refund-too-early",
+          escrow: escrow.address,
+          message: err.message,
+        });
+        return;
+      }
+      progress.attempts += 1;
+      progress.lastError = `${err.code}: ${err.message}`;
+      this.emit({
+        type: "refund-failed",
+        escrow: escrow.address,
+        attempt: progress.attempts,
+        code: err.code,
+        message: err.message,
+      });
+      if (progress.attempts >= this.options.maxAttempts) {
+        progress.outcome = "gave-up";
+        progress.gaveUpAt = now.toString();
+        this.emit({
+          type: "gave-up",
+          escrow: escrow.address,
+          attempts: progress.attempts,
+        });
+      }
+      this.save();
+    }
+  }
+
+  private save() {
+    this.store.save(this.state);
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
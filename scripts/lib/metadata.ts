@@ -0,0 +1,278 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+/**
+ * Metaplex Token Metadata, hand-encoded like the vault-escrow instructions.
+ *
+ * Wallets and explorers read a token's name, symbol and URI from the
+ * metadata PDA of its mint. We only need two instructions
+ * (CreateMetadataAccountV3 and UpdateMetadataAccountV2) and the fixed part
+ * of the account, so this avoids pulling in the Metaplex SDK.
+ */
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+// Limits enforced by the metadata program.
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+
+const CREATE_METADATA_ACCOUNT_V3 = 33;
+const UPDATE_METADATA_ACCOUNT_V2 = 15;
+const KEY_METADATA_V1 = 4;
+
+export interface Creator {
+  address: PublicKey;
+  verified: boolean;
+  share: number;
+}
+
+// DataV2 minus collection and uses, which fungible tokens don't set.
+export interface TokenMetadataData {
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: Creator[] | null;
+}
+
+export interface TokenMetadata {
+  updateAuthority: PublicKey;
+  mint: PublicKey;
+  data: TokenMetadataData;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+}
+
+// Metadata PDA seeds: ["metadata", metadata program, mint]
+export function deriveMetadataPda(mint: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  );
+}
+
+export function validateMetadata(data: {
+  name: string;
+  symbol: string;
+  uri: string;
+}) {
+  const check = (field: string, value: string, max: number) => {
+    if (Buffer.byteLength(value, "utf8") > max) {
+      throw new Error(`Token ${field} is longer than ${max} bytes: ${value}`);
+    }
+  };
+  check("name", data.name, MAX_NAME_LENGTH);
+  check("symbol", data.symbol, MAX_SYMBOL_LENGTH);
+  check("uri", data.uri, MAX_URI_LENGTH);
+}
+
+// Tiny Borsh writer, the counterpart of the Reader in accounts.ts.
+class Writer {
+  private readonly parts: Buffer[] = [];
+
+  u8(value: number): this {
+    this.parts.push(Buffer.from([value]));
+    return this;
+  }
+
+  u16(value: number): this {
+    const b = Buffer.alloc(2);
+    b.writeUInt16LE(value);
+    this.parts.push(b);
+    return this;
+  }
+
+  bool(value: boolean): this {
+    return this.u8(value ? 1 : 0);
+  }
+
+  string(value: string): this {
+    const bytes = Buffer.from(value, "utf8");
+    const len = Buffer.alloc(4);
+    len.writeUInt32LE(bytes.length);
+    this.parts.push(len, bytes);
+    return this;
+  }
+
+  pubkey(value: PublicKey): this {
+    this.parts.push(value.toBuffer());
+    return this;
+  }
+
+  option<T>(value: T | null | undefined, write: (v: T) => void): this {
+    if (value === null || value === undefined) return this.u8(0);
+    this.u8(1);
+    write(value);
+    return this;
+  }
+
+  dataV2(data: TokenMetadataData): this {
+    this.string(data.name).string(data.symbol).string(data.uri);
+    this.u16(data.sellerFeeBasisPoints);
+    this.option(data.creators, (creators) => {
+      const len = Buffer.alloc(4);
+      len.writeUInt32LE(creators.length);
+      this.parts.push(len);
+      for (const c of creators) {
+        this.pubkey(c.address).bool(c.verified).u8(c.share);
+      }
+    });
+    this.u8(0); // collection: None
+    this.u8(0); // uses: None
+    return this;
+  }
+
+  build(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
+
+/**
+ * CreateMetadataAccountV3. Accounts:
+ * 0 metadata           (w)
+ * 1 mint
+ * 2 mint_authority     (s)
+ * 3 payer              (s, w)
+ * 4 update_authority   (s)
+ * 5 system_program
+ * 6 rent
+ */
+export function encodeCreateMetadataIx(params: {
+  mint: PublicKey;
+  mintAuthority: PublicKey;
+  payer: PublicKey;
+  updateAuthority: PublicKey;
+  data: TokenMetadataData;
+  isMutable: boolean;
+}): TransactionInstruction {
+  const [metadata] = deriveMetadataPda(params.mint);
+  const data = new Writer()
+    .u8(CREATE_METADATA_ACCOUNT_V3)
+    .dataV2(params.data)
+    .bool(params.isMutable)
+    .u8(0) // collection_details: None
+    .build();
+
+  return new TransactionInstruction({
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    keys: [
+      { pubkey: metadata, isSigner: false, isWritable: true },
+      { pubkey: params.mint, isSigner: false, isWritable: false },
+      { pubkey: params.mintAuthority, isSigner: true, isWritable: false },
+      { pubkey: params.payer, isSigner: true, isWritable: true },
+      { pubkey: params.updateAuthority, isSigner: true, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
+
+/**
+ * UpdateMetadataAccountV2. Every field is optional; null leaves it as is.
+ * Accounts:
+ * 0 metadata           (w)
+ * 1 update_authority   (s)
+ */
+export function encodeUpdateMetadataIx(params: {
+  mint: PublicKey;
+  updateAuthority: PublicKey;
+  data?: TokenMetadataData | null;
+  newUpdateAuthority?: PublicKey | null;
+  primarySaleHappened?: boolean | null;
+  isMutable?: boolean | null;
+}): TransactionInstruction {
+  const [metadata] = deriveMetadataPda(params.mint);
+  const w = new Writer().u8(UPDATE_METADATA_ACCOUNT_V2);
+  w.option(params.data, (d) => w.dataV2(d));
+  w.option(params.newUpdateAuthority, (k) => w.pubkey(k));
+  w.option(params.primarySaleHappened, (b) => w.bool(b));
+  w.option(params.isMutable, (b) => w.bool(b));
+
+  return new TransactionInstruction({
+    programId: TOKEN_METADATA_PROGRAM_ID,
+    keys: [
+      { pubkey: metadata, isSigner: false, isWritable: true },
+      { pubkey: params.updateAuthority, isSigner: true, isWritable: false },
+    ],
+    data: w.build(),
+  });
+}
+
+// The program pads name/symbol/uri with NULs up to their maximum length.
+function unpad(value: string): string {
+  return value.replace(/\0+$/, "");
+}
+
+/**
+ * Decodes the leading fields of a Metadata account, up to is_mutable. The
+ * rest (edition nonce, token standard, collection, uses, ...) is not needed
+ * to update a fungible token's metadata.
+ */
+export function decodeMetadata(data: Buffer): TokenMetadata {
+  if (data.length < 1 || data.readUInt8(0) !== KEY_METADATA_V1) {
+    throw new Error("Not a Metaplex metadata account");
+  }
+  let offset = 1;
+  const pubkey = () => {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  const u8 = () => data.readUInt8(offset++);
+  const string = () => {
+    const len = data.readUInt32LE(offset);
+    offset += 4;
+    const value = data.toString("utf8", offset, offset + len);
+    offset += len;
+    return unpad(value);
+  };
+
+  const updateAuthority = pubkey();
+  const mint = pubkey();
+  const name = string();
+  const symbol = string();
+  const uri = string();
+  const sellerFeeBasisPoints = data.readUInt16LE(offset);
+  offset += 2;
+  let creators: Creator[] | null = null;
+  if (u8() === 1) {
+    const count = data.readUInt32LE(offset);
+    offset += 4;
+    creators = [];
+    for (let i = 0; i < count; i++) {
+      creators.push({ address: pubkey(), verified: u8() === 1, share: u8() });
+    }
+  }
+  const primarySaleHappened = u8() === 1;
+  const isMutable = u8() === 1;
+
+  return {
+    updateAuthority,
+    mint,
+    data: { name, symbol, uri, sellerFeeBasisPoints, creators },
+    primarySaleHappened,
+    isMutable,
+  };
+}
+
+export async function fetchMetadata(
+  connection: Connection,
+  mint: PublicKey
+): Promise<TokenMetadata | null> {
+  const [address] = deriveMetadataPda(mint);
+  const info = await connection.getAccountInfo(address);
+  return info ? decodeMetadata(info.data) : null;
+}
@@ -0,0 +1,265 @@
+import {
+  Commitment,
+  Connection,
+  NonceAccount,
+  PublicKey,
+  RpcResponseAndContext,
+  SignatureResult,
+  Signer,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+import { AccountReader } from "./provision";
+import { sendUntilConfirmed } from "./sender";
+
+/**
+ * Offline and multi-party signing.
+ *
+ * A transaction is exported as base64 of its wire format with whatever
+ * signatures are already there, passed to each signer (possibly on an
+ * air-gapped machine) and broadcast once every required signature is
+ * present. Signing and submitting work on the exact exported message bytes
+ * (VersionedTransaction), so a signature added on one machine is valid for
+ * the bytes another machine sends.
+ *
+ * A recent blockhash expires after ~150 blocks (about a minute). For
+ * anything that travels between machines use a durable nonce: the nonce
+ * value stands in for the blockhash and the transaction stays valid until
+ * the nonce is advanced, which the transaction itself does as its first
+ * instruction.
+ */
+
+export interface SignerStatus {
+  publicKey: PublicKey;
+  signed: boolean;
+}
+
+export interface DurableNonce {
+  // the nonce account and the authority allowed to advance it
+  account: PublicKey;
+  authority: PublicKey;
+}
+
+// Unsigned slots are all zeroes on the wire.
+function isSigned(signature: Uint8Array): boolean {
+  return signature.some((b) => b !== 0);
+}
+
+/**
+ * Builds a transaction for export: durable nonce if given, else `blockhash`,
+ * partially signed by `signers` (any of them that are required signers).
+ */
+export function buildExportTransaction(
+  params: {
+    feePayer: PublicKey;
+    signers: Signer[];
+  } & (
+    | { blockhash: string; nonce?: undefined }
+    | { nonce: DurableNonce & { value: string }; blockhash?: undefined }
+  ),
+  ixs: TransactionInstruction[]
+): Transaction {
+  const tx = new Transaction();
+  tx.feePayer = params.feePayer;
+  if (params.nonce) {
+    tx.nonceInfo = {
+      nonce: params.nonce.value,
+      nonceInstruction: SystemProgram.nonceAdvance({
+        noncePubkey: params.nonce.account,
+        authorizedPubkey: params.nonce.authority,
+      }),
+    };
+  } else {
+    tx.recentBlockhash = params.blockhash;
+  }
+  tx.add(...ixs);
+
+  // partialSign refuses keys the message doesn't ask for
+  const message = tx.compileMessage();
+  const required = message.accountKeys
+    .slice(0, message.header.numRequiredSignatures)
+    .map((k) => k.toBase58());
+  const available = params.signers.filter((s) =>
+    required.includes(s.publicKey.toBase58())
+  );
+  if (available.length > 0) tx.partialSign(...available);
+  return tx;
+}
+
+export function encodeTransaction(
+  tx: Transaction | VersionedTransaction
+): string {
+  const bytes =
+    tx instanceof Transaction
+      ? tx.serialize({ requireAllSignatures: false, verifySignatures: false })
+      : tx.serialize();
+  return Buffer.from(bytes).toString("base64");
+}
+
+export function decodeTransaction(base64: string): VersionedTransaction {
+  const bytes = Buffer.from(base64.trim(), "base64");
+  try {
+    return VersionedTransaction.deserialize(bytes);
+  } catch (e) {
+    throw new Error(
+      `Not a serialized transaction: ${e instanceof Error ? e.message : e}`
+    );
+  }
+}
+
+// Every required signer, in message order, and whether it has signed.
+export function signerStatus(tx: VersionedTransaction): SignerStatus[] {
+  const count = tx.message.header.numRequiredSignatures;
+  return tx.message.staticAccountKeys.slice(0, count).map((publicKey, i) => ({
+    publicKey,
+    signed: isSigned(tx.signatures[i]),
+  }));
+}
+
+export function missingSigners(tx: VersionedTransaction): PublicKey[] {
+  return signerStatus(tx)
+    .filter((s) => !s.signed)
+    .map((s) => s.publicKey);
+}
+
+/**
+ * Adds `signer`'s signature over the message as exported. Throws if the
+ * signer isn't one the transaction asks for.
+ */
+export function addSignature(tx: VersionedTransaction, signer: Signer) {
+  const required = signerStatus(tx).some((s) =>
+    s.publicKey.equals(signer.publicKey)
+  );
+  if (!required) {
+    throw new Error(
+      `${signer.publicKey.toBase58()} is not a required signer of this transaction`
+    );
+  }
+  tx.sign([signer]);
+}
+
+/**
+ * The durable nonce a transaction uses, if its first instruction advances a
+ * nonce account (that is how the runtime recognises nonce transactions).
+ */
+export function durableNonceOf(
+  tx: VersionedTransaction
+): (DurableNonce & { value: string }) | null {
+  const [first] = tx.message.compiledInstructions;
+  if (!first) return null;
+  const keys = tx.message.staticAccountKeys;
+  if (!keys[first.programIdIndex]?.equals(SystemProgram.programId)) {
+    return null;
+  }
+  const ix = new TransactionInstruction({
+    programId: SystemProgram.programId,
+    keys: first.accountKeyIndexes.map((i) => ({
+      pubkey: keys[i],
+      isSigner: tx.message.isAccountSigner(i),
+      isWritable: tx.message.isAccountWritable(i),
+    })),
+    data: Buffer.from(first.data),
+  });
+  try {
+    if (SystemInstruction.decodeInstructionType(ix) !== "AdvanceNonceAccount") {
+      return null;
+    }
+    const { noncePubkey, authorizedPubkey } =
+      SystemInstruction.decodeNonceAdvance(ix);
+    return {
+      account: noncePubkey,
+      authority: authorizedPubkey,
+      value: tx.message.recentBlockhash,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Current value and authority of a nonce account.
+export async function fetchNonce(
+  reader: AccountReader,
+  account: PublicKey
+): Promise<{ value: string; authority: PublicKey }> {
+  const [info] = await reader.getMultipleAccountsInfo([account]);
+  if (!info || !info.owner.equals(SystemProgram.programId)) {
+    throw new Error(`Nonce account ${account.toBase58()} does not exist`);
+  }
+  const nonce = NonceAccount.fromAccountData(info.data);
+  return { value: nonce.nonce, authority: nonce.authorizedPubkey };
+}
+
+/**
+ * Broadcasts a fully signed transaction and waits for `commitment`. Nonce
+ * transactions are confirmed against their nonce account; blockhash ones
+ * are refused up front once the blockhash has expired, and otherwise
+ * rebroadcast until they confirm or expire (see lib/sender.ts).
+ */
+export async function submitTransaction(
+  connection: Connection,
+  tx: VersionedTransaction,
+  commitment: Commitment
+): Promise<string> {
+  const missing = missingSigners(tx);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing signatures from ${missing.map((k) => k.toBase58()).join(", ")}`
+    );
+  }
+
+  const nonce = durableNonceOf(tx);
+  if (nonce) {
+    const minContextSlot = await connection.getSlot(commitment);
+    const signature = await connection.sendRawTransaction(tx.serialize(), {
+      preflightCommitment: commitment,
+    });
+    await throwOnFailure(
+      signature,
+      connection.confirmTransaction(
+        {
+          signature,
+          minContextSlot,
+          nonceAccountPubkey: nonce.account,
+          nonceValue: nonce.value,
+        },
+        commitment
+      )
+    );
+    return signature;
+  }
+
+  const blockhash = tx.message.recentBlockhash;
+  const { value: valid } = await connection.isBlockhashValid(blockhash, {
+    commitment,
+  });
+  if (!valid) {
+    throw new Error(
+      `The transaction's blockhash ${blockhash} has expired; export it again, with --nonce so it doesn't expire`
+    );
+  }
+  // A blockhash is valid for at most 150 more blocks from now.
+  const lastValidBlockHeight =
+    (await connection.getBlockHeight(commitment)) + 150;
+  return sendUntilConfirmed(
+    connection,
+    Buffer.from(tx.serialize()),
+    lastValidBlockHeight,
+    { commitment }
+  );
+}
+
+async function throwOnFailure(
+  signature: string,
+  confirmation: Promise<RpcResponseAndContext<SignatureResult>>
+) {
+  const { value } = await confirmation;
+  if (value.err) {
+    throw new Error(
+      `Transaction ${signature} failed (${JSON.stringify({ err: value.err })})`
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+
+import { VaultEscrowClient, deriveAta } from "./client";
+
+/**
+ * Idempotent "ensure" provisioning.
+ *
+ * Looks up the vault PDA, vault ATA and the buyer/seller ATAs in one RPC call
+ * and returns only the instructions for what is missing, so setup can be
+ * re-run safely and never pays for a transaction that is bound to fail.
+ */
+
+// Only the one RPC method we need, so tests can plug in a bankrun adapter.
+export type AccountReader = Pick<Connection, "getMultipleAccountsInfo">;
+
+export interface ProvisionItem {
+  name: "vault" | "vaultAta" | "buyerAta" | "sellerAta";
+  address: PublicKey;
+  exists: boolean;
+}
+
+export interface ProvisionPlan {
+  items: ProvisionItem[];
+  // empty when everything already exists
+  instructions: TransactionInstruction[];
+}
+
+export async function planProvisioning(
+  reader: AccountReader,
+  client: VaultEscrowClient,
+  params: {
+    // pays rent; must also be the vault authority if the vault is missing
+    payer: PublicKey;
+    mint: PublicKey;
+    vaultAuthority: PublicKey;
+    buyer?: PublicKey;
+    seller?: PublicKey;
+    // owner of the mint; defaults to SPL Token
+    tokenProgram?: PublicKey;
+  }
+): Promise<ProvisionPlan> {
+  const { payer, mint, vaultAuthority, tokenProgram } = params;
+  const { vault, vaultAta } = client.vaultAddresses(
+    mint,
+    vaultAuthority,
+    tokenProgram
+  );
+
+  const wanted: { name: ProvisionItem["name"]; address: PublicKey }[] = [
+    { name: "vault", address: vault },
+    { name: "vaultAta", address: vaultAta },
+  ];
+  if (params.buyer) {
+    wanted.push({
+      name: "buyerAta",
+      address: deriveAta(mint, params.buyer, tokenProgram),
+    });
+  }
+  if (params.seller) {
+    wanted.push({
+      name: "sellerAta",
+      address: deriveAta(mint, params.seller, tokenProgram),
+    });
+  }
+
+  const infos = await reader.getMultipleAccountsInfo(
+    wanted.map((w) => w.address)
+  );
+  const items = wanted.map((w, i) => ({ ...w, exists: infos[i] !== null }));
+
+  const instructions: TransactionInstruction[] = [];
+  for (const item of items) {
+    if (item.exists) continue;
+    switch (item.name) {
+      case "vault":
+        if (!payer.equals(vaultAuthority)) {
+          throw new Error(
+            `Vault ${vault.toBase58()} does not exist and only its authority ${vaultAuthority.toBase58()} can create it`
+          );
+        }
+        instructions.push(
+          client.initVault({ authority: vaultAuthority, mint })
+        );
+        break;
+      case "vaultAta":
+        instructions.push(
+          client.createVaultAta({ payer, mint, vaultAuthority, tokenProgram })
+        );
+        break;
+      case "buyerAta":
+        instructions.push(
+          client.createTokenAccount({
+            payer,
+            owner: params.buyer!,
+            mint,
+            tokenProgram,
+          })
+        );
+        break;
+      case "sellerAta":
+        instructions.push(
+          client.createTokenAccount({
+            payer,
+            owner: params.seller!,
+            mint,
+            tokenProgram,
+          })
+        );
+        break;
+    }
+  }
+
+  return { items, instructions };
+}
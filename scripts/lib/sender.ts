@@ -0,0 +1,195 @@
+import {
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Signer,
+  SignatureStatus,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction,
+} from "@solana/web3.js";
+
+/**
+ * Transaction sender.
+ *
+ * Adds a compute budget (unit limit and priority fee) to a transaction,
+ * signs it once and rebroadcasts the same bytes until it confirms or its
+ * blockhash expires. Expiry is only reported after the signature status,
+ * searched through history, shows the transaction never landed, so a
+ * caller that retries after BlockhashExpired (a release_to_seller, say)
+ * can't get the same operation executed twice. The signed bytes are never
+ * re-signed with a new blockhash here; a retry is a new transaction.
+ */
+
+// Micro-lamports per compute unit, or "auto" to estimate from recent fees.
+export type PriorityFee = number | "auto";
+
+export interface ComputeBudget {
+  // compute units to request; the runtime default when unset
+  unitLimit?: number;
+  priorityFee: PriorityFee;
+}
+
+export interface SendOptions {
+  commitment: Commitment;
+  // how long to wait between status checks / rebroadcasts
+  rebroadcastIntervalMs?: number;
+}
+
+export type SenderConnection = Pick<
+  Connection,
+  | "getLatestBlockhash"
+  | "getBlockHeight"
+  | "getSignatureStatuses"
+  | "sendRawTransaction"
+  | "getRecentPrioritizationFees"
+>;
+
+const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+// "auto" pays what three quarters of recent transactions touching the same
+// accounts paid or less
+const AUTO_FEE_PERCENTILE = 0.75;
+
+const COMMITMENT_ORDER: Commitment[] = ["processed", "confirmed", "finalized"];
+
+// Accounts the instructions write to, which is what fee markets are keyed on.
+function writableKeys(ixs: TransactionInstruction[]): PublicKey[] {
+  const keys = new Map<string, PublicKey>();
+  for (const ix of ixs) {
+    for (const k of ix.keys) {
+      if (k.isWritable) keys.set(k.pubkey.toBase58(), k.pubkey);
+    }
+  }
+  return [...keys.values()];
+}
+
+/**
+ * Priority fee (micro-lamports per compute unit) from the cluster's recent
+ * prioritization fees for transactions that lock the same writable
+ * accounts. 0 when nobody has been paying one.
+ */
+export async function estimatePriorityFee(
+  connection: Pick<Connection, "getRecentPrioritizationFees">,
+  writable: PublicKey[]
+): Promise<number> {
+  const recent = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writable,
+  });
+  if (recent.length === 0) return 0;
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+  return fees[Math.floor((fees.length - 1) * AUTO_FEE_PERCENTILE)];
+}
+
+// ComputeBudget instructions to put in front of `ixs`; none for the defaults.
+export async function computeBudgetInstructions(
+  connection: Pick<Connection, "getRecentPrioritizationFees">,
+  budget: ComputeBudget,
+  ixs: TransactionInstruction[]
+): Promise<TransactionInstruction[]> {
+  const out: TransactionInstruction[] = [];
+  if (budget.unitLimit !== undefined) {
+    out.push(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: budget.unitLimit })
+    );
+  }
+  const microLamports =
+    budget.priorityFee === "auto"
+      ? await estimatePriorityFee(connection, writableKeys(ixs))
+      : budget.priorityFee;
+  if (microLamports > 0) {
+    out.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  return out;
+}
+
+/**
+ * Signs `tx` with a fresh blockhash and sends it with `sendUntilConfirmed`.
+ */
+export async function signAndSend(
+  connection: SenderConnection,
+  tx: Transaction,
+  signers: Signer[],
+  options: SendOptions
+): Promise<string> {
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash(options.commitment);
+  tx.recentBlockhash = blockhash;
+  tx.sign(...signers);
+  return sendUntilConfirmed(
+    connection,
+    tx.serialize(),
+    lastValidBlockHeight,
+    options
+  );
+}
+
+/**
+ * Sends a signed transaction and rebroadcasts it until it reaches
+ * `options.commitment` or the cluster passes `lastValidBlockHeight`. The
+ * first send runs preflight, so a transaction that would fail is rejected
+ * with its program error straight away.
+ *
+ * Throws the transaction's error if it landed and failed, and
+ * TransactionExpiredBlockheightExceededError only once it is certain it
+ * did not land.
+ */
+export async function sendUntilConfirmed(
+  connection: SenderConnection,
+  raw: Buffer,
+  lastValidBlockHeight: number,
+  options: SendOptions
+): Promise<string> {
+  const { commitment } = options;
+  const interval =
+    options.rebroadcastIntervalMs ?? DEFAULT_REBROADCAST_INTERVAL_MS;
+  const signature = await connection.sendRawTransaction(raw, {
+    preflightCommitment: commitment,
+  });
+
+  for (;;) {
+    // Height first: a status read after it covers every block up to it.
+    const expired =
+      (await connection.getBlockHeight(commitment)) > lastValidBlockHeight;
+    const {
+      value: [status],
+    } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: expired,
+    });
+
+    if (status?.err) {
+      throw new Error(
+        `Transaction ${signature} failed (${JSON.stringify({
+          err: status.err,
+        })})`
+      );
+    }
+    if (status && reached(status, commitment)) return signature;
+    if (!status && expired) {
+      throw new TransactionExpiredBlockheightExceededError(signature);
+    }
+
+    await sleep(interval);
+    if (!status) {
+      // The status check decides what happened, so a failed resend (the
+      // node already has it, a dropped connection) changes nothing.
+      await connection
+        .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch(() => undefined);
+    }
+  }
+}
+
+function reached(status: SignatureStatus, commitment: Commitment): boolean {
+  const wanted = COMMITMENT_ORDER.indexOf(commitment);
+  const actual = COMMITMENT_ORDER.indexOf(
+    status.confirmationStatus ?? "processed"
+  );
+  // commitments outside the three levels (deprecated aliases) wait for
+  // "confirmed"
+  return actual >= (wanted === -1 ? 1 : wanted);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
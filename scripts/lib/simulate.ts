@@ -0,0 +1,173 @@
+import {
+  AccountInfo,
+  Connection,
+  PublicKey,
+  SimulatedTransactionAccountInfo,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { unpackAccount } from "@solana/spl-token";
+
+import { DecodedAccount, decodeAccount } from "./accounts";
+import { VaultEscrowError, parseTransactionError } from "./errors";
+import { TOKEN_PROGRAMS } from "./token";
+
+/**
+ * Dry runs.
+ *
+ * Simulates a transaction without signatures and reports its logs, compute
+ * units, the decoded error if it would fail, and every writable account
+ * before and after: token balances, the Escrow `released` flag, lamports.
+ * Token account owners make a wrong buyer / seller / vault ATA visible
+ * before anything is paid for.
+ */
+
+export type AccountSnapshot =
+  | { kind: "missing" }
+  | {
+      kind: "token";
+      lamports: number;
+      mint: PublicKey;
+      owner: PublicKey;
+      amount: bigint;
+    }
+  | {
+      kind: "escrow";
+      lamports: number;
+      mint: PublicKey;
+      released: boolean;
+      amountLocked: bigint;
+      amountReleased: bigint;
+    }
+  | { kind: "vault"; lamports: number }
+  // a vault or escrow in a layout this build only migrates
+  | { kind: "legacy"; lamports: number; size: number }
+  | { kind: "other"; lamports: number; owner: PublicKey };
+
+export interface AccountChange {
+  address: PublicKey;
+  before: AccountSnapshot;
+  after: AccountSnapshot;
+}
+
+export interface SimulationReport {
+  // null when the transaction would succeed
+  error: VaultEscrowError | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  accounts: AccountChange[];
+}
+
+export type SimulationConnection = Pick<
+  Connection,
+  "simulateTransaction" | "getMultipleAccountsInfo"
+>;
+
+export function snapshotAccount(
+  address: PublicKey,
+  info: AccountInfo<Buffer> | null,
+  programId: PublicKey
+): AccountSnapshot {
+  if (!info) return { kind: "missing" };
+  const { lamports, owner } = info;
+
+  const tokenProgram = TOKEN_PROGRAMS.find((p) => p.equals(owner));
+  if (tokenProgram) {
+    try {
+      const account = unpackAccount(address, info, tokenProgram);
+      return {
+        kind: "token",
+        lamports,
+        mint: account.mint,
+        owner: account.owner,
+        amount: account.amount,
+      };
+    } catch {
+      // a mint, not a token account
+      return { kind: "other", lamports, owner };
+    }
+  }
+
+  if (owner.equals(programId)) {
+    let decoded: DecodedAccount | null;
+    try {
+      decoded = decodeAccount(info.data);
+    } catch {
+      return { kind: "legacy", lamports, size: info.data.length };
+    }
+    if (decoded?.type === "escrow") {
+      return {
+        kind: "escrow",
+        lamports,
+        mint: decoded.account.tokenMint,
+        released: decoded.account.released,
+        amountLocked: decoded.account.amountLocked,
+        amountReleased: decoded.account.amountReleased,
+      };
+    }
+    if (decoded?.type === "vault") return { kind: "vault", lamports };
+  }
+  return { kind: "other", lamports, owner };
+}
+
+// Only writable accounts can change.
+export function writableAccounts(tx: VersionedTransaction): PublicKey[] {
+  return tx.message.staticAccountKeys.filter((_, i) =>
+    tx.message.isAccountWritable(i)
+  );
+}
+
+function fromSimulated(
+  info: SimulatedTransactionAccountInfo | null
+): AccountInfo<Buffer> | null {
+  if (!info) return null;
+  return {
+    executable: info.executable,
+    owner: new PublicKey(info.owner),
+    lamports: info.lamports,
+    data: Buffer.from(info.data[0], "base64"),
+    rentEpoch: info.rentEpoch,
+  };
+}
+
+/**
+ * Simulates `tx` against the latest blockhash with signature checks off, so
+ * it works before anyone has signed.
+ */
+export async function simulate(
+  connection: SimulationConnection,
+  tx: VersionedTransaction,
+  programId: PublicKey
+): Promise<SimulationReport> {
+  const addresses = writableAccounts(tx);
+  const before = await connection.getMultipleAccountsInfo(addresses);
+  const { value } = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: {
+      encoding: "base64",
+      addresses: addresses.map((a) => a.toBase58()),
+    },
+  });
+
+  const logs = value.logs ?? [];
+  const error = value.err
+    ? parseTransactionError(value.err, programId, logs) ??
+      new VaultEscrowError("Unknown", JSON.stringify(value.err), { logs })
+    : null;
+
+  // a failed transaction changes nothing
+  const after = error
+    ? before
+    : addresses.map((_, i) => fromSimulated(value.accounts?.[i] ?? null));
+
+  return {
+    error,
+    logs,
+    unitsConsumed: value.unitsConsumed ?? null,
+    accounts: addresses.map((address, i) => ({
+      address,
+      before: snapshotAccount(address, before[i], programId),
+      after: snapshotAccount(address, after[i], programId),
+    })),
+  };
+}
@@ -0,0 +1,140 @@
+import { PublicKey } from "@solana/web3.js";
+import { unpackAccount } from "@solana/spl-token";
+
+import { decodeVault, unreleasedAmount } from "./accounts";
+import { deriveAta } from "./client";
+import { VaultEscrowError } from "./errors";
+import { IndexedEscrow, ProgramAccountsReader, listEscrows } from "./indexer";
+import { AccountReader } from "./provision";
+import { fetchMintInfo } from "./token";
+
+/**
+ * Vault solvency reconciliation.
+ *
+ * `init_escrow` records `amount_locked` without looking at the vault ATA, so
+ * nothing on chain stops a buyer from promising more than `lock_tokens`
+ * deposited; the shortfall only shows up when a release or refund fails.
+ * Every unreleased escrow (open, expired or disputed) is a claim on the
+ * vault ATA, and whatever is left over is free to back new escrows.
+ *
+ * The program keeps its own count of what unreleased escrows are owed
+ * (`Vault.committed`), and `withdraw` can only take out what is above it.
+ * A vault from before it starts the count at zero and `migrating`;
+ * `migrate_escrow` adds each escrow from before escrow IDs as it moves it,
+ * and `withdraw` takes nothing until the authority finishes the migration.
+ */
+
+export interface VaultSolvency {
+  vault: PublicKey;
+  vaultAta: PublicKey;
+  mint: PublicKey;
+  // vault ATA balance; 0 if the ATA doesn't exist yet
+  balance: bigint;
+  // what unreleased escrows still owe: amount_locked minus milestones paid
+  committed: bigint;
+  // balance - committed, floored at 0
+  free: bigint;
+  // committed - balance, floored at 0
+  shortfall: bigint;
+  overCommitted: boolean;
+  // Vault.committed: what the program holds back from `withdraw`
+  reserved: bigint;
+  // Vault.migrating: older escrows may be uncounted, so nothing is
+  // withdrawable yet
+  migrating: boolean;
+  // balance - reserved, floored at 0; 0 while migrating
+  withdrawable: bigint;
+  // unreleased escrows, soonest deadline first
+  escrows: IndexedEscrow[];
+}
+
+export type SolvencyReader = AccountReader & ProgramAccountsReader;
+
+export function computeSolvency(
+  addresses: { vault: PublicKey; vaultAta: PublicKey; mint: PublicKey },
+  balance: bigint,
+  escrows: IndexedEscrow[],
+  reserved = 0n,
+  migrating = false
+): VaultSolvency {
+  const unreleased = escrows.filter((e) => !e.account.released);
+  const committed = unreleased.reduce(
+    (sum, e) => sum + unreleasedAmount(e.account),
+    0n
+  );
+  return {
+    ...addresses,
+    balance,
+    committed,
+    free: balance > committed ? balance - committed : 0n,
+    shortfall: committed > balance ? committed - balance : 0n,
+    overCommitted: committed > balance,
+    reserved,
+    migrating,
+    withdrawable: !migrating && balance > reserved ? balance - reserved : 0n,
+    escrows: unreleased,
+  };
+}
+
+/**
+ * Reads the vault, its ATA and every unreleased escrow against it. `now` is
+ * cluster time and only affects how the escrows are classified.
+ */
+export async function reconcileVault(
+  reader: SolvencyReader,
+  programId: PublicKey,
+  vault: PublicKey,
+  now: bigint
+): Promise<VaultSolvency> {
+  const [vaultInfo] = await reader.getMultipleAccountsInfo([vault]);
+  if (!vaultInfo || !vaultInfo.owner.equals(programId)) {
+    throw new Error(`Vault ${vault.toBase58()} does not exist`);
+  }
+  const { mint, committed: reserved, migrating } = decodeVault(vaultInfo.data);
+  const { tokenProgram } = await fetchMintInfo(reader, mint);
+  const vaultAta = deriveAta(mint, vault, tokenProgram);
+
+  const [ataInfo] = await reader.getMultipleAccountsInfo([vaultAta]);
+  const balance = ataInfo
+    ? unpackAccount(vaultAta, ataInfo, tokenProgram).amount
+    : 0n;
+
+  const escrows = await listEscrows(
+    reader,
+    programId,
+    { vault, states: ["open", "expired", "disputed"] },
+    now
+  );
+  return computeSolvency(
+    { vault, vaultAta, mint },
+    balance,
+    escrows,
+    reserved,
+    migrating
+  );
+}
+
+// Throws VaultMigrating while the vault is migrating, and WithdrawExceedsFree
+// if `amount` is more than `withdraw` may take.
+export function assertCanWithdraw(solvency: VaultSolvency, amount: bigint) {
+  if (solvency.migrating) {
+    throw new VaultEscrowError(
+      "VaultMigrating",
+      `Vault ${solvency.vault.toBase58()} is still counting escrows from before escrow IDs; run \`escrow migrate\` first`
+    );
+  }
+  if (amount <= solvency.withdrawable) return;
+  throw new VaultEscrowError(
+    "WithdrawExceedsFree",
+    `Withdrawal ${amount} exceeds the vault's withdrawable balance ${solvency.withdrawable} (balance ${solvency.balance}, reserved for unreleased escrows ${solvency.reserved})`
+  );
+}
+
+// Throws VaultOvercommitted if `amount` more would exceed the free balance.
+export function assertCanCommit(solvency: VaultSolvency, amount: bigint) {
+  if (amount <= solvency.free) return;
+  throw new VaultEscrowError(
+    "VaultOvercommitted",
+    `Escrow amount ${amount} exceeds the vault's free balance ${solvency.free} (balance ${solvency.balance}, committed to unreleased escrows ${solvency.committed})`
+  );
+}
@@ -0,0 +1,27 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Where long-running commands (the keeper, the watcher) keep their progress
+ * between runs.
+ */
+export interface StateStore<T> {
+  load(): T | null;
+  save(state: T): void;
+}
+
+// JSON file, replaced atomically so a crash never leaves half a state file.
+export function fileStore<T>(statePath: string): StateStore<T> {
+  return {
+    load() {
+      if (!fs.existsSync(statePath)) return null;
+      return JSON.parse(fs.readFileSync(statePath, "utf8")) as T;
+    },
+    save(state) {
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      const tmp = `${statePath}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(state, null, 2) + "\n");
+      fs.renameSync(tmp, statePath);
+    },
+  };
+}
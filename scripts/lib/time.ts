@@ -0,0 +1,47 @@
+/**
+ * Durations and deadlines as people type them, on the command line or in
+ * an action link. Everything is unix seconds in bigint, like the program's
+ * i64 timestamps.
+ */
+
+const DURATION_UNITS: Record<string, bigint> = {
+  s: 1n,
+  m: 60n,
+  h: 3600n,
+  d: 86400n,
+};
+
+// 90s / 30m / 1h / 7d, in seconds.
+export function parseDuration(value: string, what: string): bigint {
+  const match = /^(\d+)([smhd])$/.exec(value);
+  if (!match) {
+    throw new Error(`${what} must be <n>[smhd], e.g. 30m: ${value}`);
+  }
+  return BigInt(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Deadline as unix seconds. Accepts:
+ *   +90m / +1h / +7d   relative to `nowUnix`
+ *   1767225600         unix seconds
+ *   2026-01-01T00:00Z  anything Date can parse
+ */
+export function parseDeadline(
+  value: string,
+  nowUnix: bigint,
+  what = "--deadline"
+): bigint {
+  if (/^\+\d+[smhd]$/.test(value)) {
+    return nowUnix + parseDuration(value.slice(1), what);
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new Error(
+      `${what} must be +<n>[smhd], unix seconds or an ISO date: ${value}`
+    );
+  }
+  return BigInt(Math.floor(ms / 1000));
+}
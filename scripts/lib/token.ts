@@ -0,0 +1,107 @@
+import { PublicKey } from "@solana/web3.js";
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TransferFeeConfig,
+  calculateEpochFee,
+  getExtensionTypes,
+  getTransferFeeConfig,
+  unpackMint,
+} from "@solana/spl-token";
+
+import { AccountReader } from "./provision";
+
+/**
+ * SPL Token and Token-2022 mints.
+ *
+ * The program takes whichever token program owns the mint (`token_program`
+ * is an Interface account), so the client has to pass the same one and
+ * derive ATAs with it: a Token-2022 ATA is a different address than the
+ * SPL Token ATA of the same owner and mint.
+ *
+ * A Token-2022 transfer fee is withheld from what arrives: locking `amount`
+ * puts `amount - fee` into the vault, and releasing `amount_locked` pays the
+ * seller `amount_locked - fee` while the vault still gives up the full
+ * `amount_locked`.
+ */
+
+export const TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+// Extensions whose transfers need accounts or conditions the program
+// doesn't provide; every transfer out of the vault would fail.
+const UNSUPPORTED_EXTENSIONS: [ExtensionType, string][] = [
+  [ExtensionType.TransferHook, "a transfer hook"],
+  [ExtensionType.NonTransferable, "non-transferable tokens"],
+  [ExtensionType.ConfidentialTransferMint, "confidential transfers"],
+];
+
+export interface MintInfo {
+  address: PublicKey;
+  // owner of the mint: TOKEN_PROGRAM_ID or TOKEN_2022_PROGRAM_ID
+  tokenProgram: PublicKey;
+  decimals: number;
+  // Token-2022 extensions, empty for SPL Token mints
+  extensions: ExtensionType[];
+  // Token-2022 transfer fee config, null for mints without one
+  transferFee: TransferFeeConfig | null;
+}
+
+export function tokenProgramName(tokenProgram: PublicKey): string {
+  return tokenProgram.equals(TOKEN_2022_PROGRAM_ID) ? "token-2022" : "token";
+}
+
+// Reads a mint owned by either token program.
+export async function fetchMintInfo(
+  reader: AccountReader,
+  mint: PublicKey
+): Promise<MintInfo> {
+  const [info] = await reader.getMultipleAccountsInfo([mint]);
+  if (!info) {
+    throw new Error(`Mint ${mint.toBase58()} does not exist`);
+  }
+  const tokenProgram = TOKEN_PROGRAMS.find((p) => p.equals(info.owner));
+  if (!tokenProgram) {
+    throw new Error(
+      `${mint.toBase58()} is owned by ${info.owner.toBase58()}, not a token program`
+    );
+  }
+  const unpacked = unpackMint(mint, info, tokenProgram);
+  return {
+    address: mint,
+    tokenProgram,
+    decimals: unpacked.decimals,
+    extensions: getExtensionTypes(unpacked.tlvData),
+    transferFee: getTransferFeeConfig(unpacked),
+  };
+}
+
+// Throws for Token-2022 extensions the escrow can't move tokens of.
+export function assertSupportedMint(mint: MintInfo) {
+  for (const [extension, what] of UNSUPPORTED_EXTENSIONS) {
+    if (mint.extensions.includes(extension)) {
+      throw new Error(
+        `Mint ${mint.address.toBase58()} uses ${what}, which vault-escrow does not support`
+      );
+    }
+  }
+}
+
+// Fee withheld when `amount` is transferred during `epoch`; 0 without a fee.
+export function transferFee(
+  mint: MintInfo,
+  amount: bigint,
+  epoch: bigint
+): bigint {
+  if (!mint.transferFee) return 0n;
+  return calculateEpochFee(mint.transferFee, epoch, amount);
+}
+
+// What arrives when `amount` is transferred during `epoch`.
+export function amountAfterFee(
+  mint: MintInfo,
+  amount: bigint,
+  epoch: bigint
+): bigint {
+  return amount - transferFee(mint, amount, epoch);
+}
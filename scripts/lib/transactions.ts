@@ -0,0 +1,327 @@
+import { utils } from "@coral-xyz/anchor";
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+
+import { Reader } from "./accounts";
+import { discriminator } from "./client";
+import { TOKEN_PROGRAMS } from "./token";
+
+/**
+ * Reading vault-escrow activity back out of confirmed transactions: the
+ * program's instructions with named accounts and decoded arguments (the
+ * inverse of the `encode*Ix` builders in ./client.ts), the token transfers
+ * each one made, and what each token account's balance did.
+ */
+
+// Account names per instruction, in the order of the encoders' doc comments.
+export const INSTRUCTION_ACCOUNTS = {
+  init_vault: ["authority", "mint", "vault", "systemProgram"],
+  lock_tokens: [
+    "user",
+    "mint",
+    "vault",
+    "vaultAta",
+    "userAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  init_escrow: ["buyer", "seller", "mint", "vault", "escrow", "systemProgram"],
+  release_to_seller: [
+    "buyer",
+    "seller",
+    "mint",
+    "escrow",
+    "vault",
+    "vaultAta",
+    "sellerAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  release_milestone: [
+    "buyer",
+    "seller",
+    "mint",
+    "escrow",
+    "vault",
+    "vaultAta",
+    "sellerAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  refund_buyer: [
+    "buyer",
+    "mint",
+    "escrow",
+    "vault",
+    "vaultAta",
+    "buyerAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  raise_dispute: ["party", "escrow"],
+  arbiter_resolve: [
+    "arbiter",
+    "buyer",
+    "seller",
+    "mint",
+    "escrow",
+    "vault",
+    "vaultAta",
+    "buyerAta",
+    "sellerAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  withdraw: [
+    "authority",
+    "mint",
+    "vault",
+    "vaultAta",
+    "authorityAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  close_escrow: ["buyer", "escrow"],
+  close_vault: [
+    "authority",
+    "mint",
+    "vault",
+    "vaultAta",
+    "tokenProgram",
+    "associatedTokenProgram",
+    "systemProgram",
+  ],
+  migrate_vault: ["authority", "mint", "vault", "systemProgram"],
+  migrate_escrow: [
+    "payer",
+    "buyer",
+    "seller",
+    "mint",
+    "vault",
+    "legacyEscrow",
+    "escrow",
+    "systemProgram",
+  ],
+  finish_vault_migration: ["authority", "mint", "vault"],
+} as const;
+
+export type InstructionName = keyof typeof INSTRUCTION_ACCOUNTS;
+
+const INSTRUCTION_NAMES = Object.keys(
+  INSTRUCTION_ACCOUNTS
+) as InstructionName[];
+
+export interface DecodedInstruction {
+  name: InstructionName;
+  // position among the transaction's top-level instructions
+  index: number;
+  accounts: Record<string, PublicKey>;
+  // decoded arguments, named as in the Rust handler (camelCase)
+  args: Record<string, unknown>;
+}
+
+// init_escrow's arguments in each build of the program, newest first: the
+// first took only the amount and deadline, and the arbiter, milestones and
+// escrow ID came in that order. A transaction sent to an older build still
+// shows up in the history of its vault.
+const INIT_ESCROW_LAYOUTS = [
+  { escrowId: true, arbiter: true, milestones: true },
+  { escrowId: false, arbiter: true, milestones: true },
+  { escrowId: false, arbiter: true, milestones: false },
+  { escrowId: false, arbiter: false, milestones: false },
+];
+
+// The arguments of the newest layout that reads `data` to its end. The
+// ones a layout lacks are null (escrowId, arbiter) or empty (milestones).
+function decodeInitEscrowArgs(data: Buffer): Record<string, unknown> {
+  for (const layout of INIT_ESCROW_LAYOUTS) {
+    const r = new Reader(data);
+    try {
+      const args = {
+        escrowId: layout.escrowId ? r.u64() : null,
+        amount: r.u64(),
+        deadlineUnixTs: r.i64(),
+        arbiter: layout.arbiter ? r.optionPubkey() : null,
+        milestones: layout.milestones
+          ? Array.from({ length: r.u32() }, () => ({
+              amount: r.u64(),
+              deadlineUnixTs: r.optionI64(),
+            }))
+          : [],
+      };
+      if (r.remaining() === 0) return args;
+    } catch {
+      // too short for this layout; try an older one
+    }
+  }
+  throw new Error(
+    `init_escrow data of ${data.length} bytes matches none of its layouts`
+  );
+}
+
+function decodeArgs(
+  name: InstructionName,
+  data: Buffer
+): Record<string, unknown> {
+  const r = new Reader(data);
+  switch (name) {
+    case "lock_tokens":
+    case "withdraw":
+      return { amount: r.u64() };
+    case "init_escrow":
+      return decodeInitEscrowArgs(data);
+    case "release_milestone":
+      return { index: r.u8() };
+    case "arbiter_resolve":
+      return { sellerAmount: r.u64() };
+    case "migrate_escrow":
+      return { escrowId: r.u64() };
+    default:
+      return {};
+  }
+}
+
+/**
+ * One vault-escrow instruction from its data and account keys, or null if
+ * the discriminator is none of the program's. Throws on data too short for
+ * the instruction's arguments.
+ */
+export function decodeInstruction(
+  data: Buffer,
+  keys: PublicKey[],
+  index = 0
+): DecodedInstruction | null {
+  const disc = data.subarray(0, 8);
+  const name = INSTRUCTION_NAMES.find((n) => discriminator(n).equals(disc));
+  if (!name) return null;
+  const accounts: Record<string, PublicKey> = {};
+  INSTRUCTION_ACCOUNTS[name].forEach((account, i) => {
+    if (keys[i]) accounts[account] = keys[i];
+  });
+  return { name, index, accounts, args: decodeArgs(name, data) };
+}
+
+/**
+ * The program's top-level instructions in `tx`, in order. Instructions
+ * reached by CPI from another program aren't included.
+ */
+export function programInstructions(
+  tx: VersionedTransactionResponse,
+  programId: PublicKey
+): DecodedInstruction[] {
+  const message = tx.transaction.message;
+  const keys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const out: DecodedInstruction[] = [];
+  message.compiledInstructions.forEach((ix, index) => {
+    if (!keys.get(ix.programIdIndex)?.equals(programId)) return;
+    const decoded = decodeInstruction(
+      Buffer.from(ix.data),
+      ix.accountKeyIndexes.map((i) => keys.get(i)!),
+      index
+    );
+    if (decoded) out.push(decoded);
+  });
+  return out;
+}
+
+export interface TokenBalanceChange {
+  address: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey | null;
+  before: bigint;
+  after: bigint;
+}
+
+/**
+ * Every token account whose balance the transaction recorded, with its
+ * balance before and after. Accounts the transaction created start at 0;
+ * accounts it closed end at 0.
+ */
+export function tokenBalanceChanges(
+  tx: VersionedTransactionResponse
+): TokenBalanceChange[] {
+  const keys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const changes = new Map<number, TokenBalanceChange>();
+  const entry = (b: {
+    accountIndex: number;
+    mint: string;
+    owner?: string;
+  }): TokenBalanceChange => {
+    let change = changes.get(b.accountIndex);
+    if (!change) {
+      change = {
+        address: keys.get(b.accountIndex)!,
+        mint: new PublicKey(b.mint),
+        owner: b.owner ? new PublicKey(b.owner) : null,
+        before: 0n,
+        after: 0n,
+      };
+      changes.set(b.accountIndex, change);
+    }
+    return change;
+  };
+  for (const b of tx.meta?.preTokenBalances ?? []) {
+    entry(b).before = BigInt(b.uiTokenAmount.amount);
+  }
+  for (const b of tx.meta?.postTokenBalances ?? []) {
+    entry(b).after = BigInt(b.uiTokenAmount.amount);
+  }
+  return [...changes.values()];
+}
+
+export interface TokenTransfer {
+  source: PublicKey;
+  destination: PublicKey;
+  // what left the source; a Token-2022 transfer fee is withheld from it
+  amount: bigint;
+}
+
+// SPL Token / Token-2022 instruction tags
+const TRANSFER = 3;
+const TRANSFER_CHECKED = 12;
+
+/**
+ * The token transfers the top-level instruction at `index` made by CPI, in
+ * order, or null when the RPC recorded no inner instructions for `tx`.
+ */
+export function innerTokenTransfers(
+  tx: VersionedTransactionResponse,
+  index: number
+): TokenTransfer[] | null {
+  const inner = tx.meta?.innerInstructions;
+  if (!inner) return null;
+  const keys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const transfers: TokenTransfer[] = [];
+  for (const ix of inner.find((i) => i.index === index)?.instructions ?? []) {
+    const program = keys.get(ix.programIdIndex);
+    if (!program || !TOKEN_PROGRAMS.some((p) => p.equals(program))) continue;
+    const data = Buffer.from(utils.bytes.bs58.decode(ix.data));
+    const account = (i: number) => keys.get(ix.accounts[i])!;
+    if (data[0] === TRANSFER && data.length >= 9) {
+      transfers.push({
+        source: account(0),
+        destination: account(1),
+        amount: data.readBigUInt64LE(1),
+      });
+    } else if (data[0] === TRANSFER_CHECKED && data.length >= 10) {
+      // source, mint, destination, authority
+      transfers.push({
+        source: account(0),
+        destination: account(2),
+        amount: data.readBigUInt64LE(1),
+      });
+    }
+  }
+  return transfers;
+}
@@ -0,0 +1,213 @@
+import { PublicKey, VersionedTransactionResponse } from "@solana/web3.js";
+
+import { VaultEscrowEvent, eventsFromTransaction } from "./events";
+import { StateStore } from "./store";
+
+/**
+ * Event watcher.
+ *
+ * Follows the program's transactions and hands each one's events
+ * (./events.ts) to a sink, in cluster order. Live, a logs subscription
+ * names every program transaction as it confirms, and an account
+ * subscription on Escrow accounts flags changes. Neither survives a
+ * websocket drop: whatever was notified while the socket was down is gone.
+ * So the cursor, the newest signature whose events have been handed over,
+ * only advances through a backfill that pages through
+ * getSignaturesForAddress from the cursor, and a backfill runs at startup,
+ * after every account change and every `backfillIntervalMs`. A transaction
+ * already handled live is skipped when the backfill reaches it.
+ *
+ * Delivery is at least once: a crash after the sink took a transaction's
+ * events but before the state was saved hands them over again on restart.
+ */
+
+/**
+ * Everything the watcher needs from the cluster. `connectionSource` in
+ * scripts/commands/watch.ts implements it over RPC and websockets; tests
+ * use fakes.
+ */
+export interface WatchSource {
+  // the newest successful program signature, null for an unused program
+  latestSignature(): Promise<string | null>;
+  // successful program signatures after `cursor` (all of them for null),
+  // oldest first
+  signaturesAfter(cursor: string | null): Promise<string[]>;
+  // null while the RPC can't return it yet
+  transaction(signature: string): Promise<VersionedTransactionResponse | null>;
+  // starts the live subscriptions; resolves to a function that stops them
+  subscribe(listener: WatchListener): Promise<() => Promise<void>>;
+}
+
+export interface WatchListener {
+  // a successful program transaction confirmed
+  signature(signature: string): void;
+  // program accounts changed; a backfill will find out how
+  changed(): void;
+}
+
+export interface WatchState {
+  programId: string;
+  // newest signature handled by a backfill
+  cursor: string | null;
+  // recently handled signatures, live or backfilled, so neither handles
+  // one twice
+  seen: string[];
+}
+
+export type WatchStore = StateStore<WatchState>;
+
+export type WatchRecord =
+  | { type: "backfill"; from: string | null; transactions: number }
+  | { type: "error"; message: string };
+
+export interface WatchOptions {
+  programId: PublicKey;
+  // where a first run starts; defaults to the newest signature, so history
+  // before the first run isn't replayed
+  since?: string;
+}
+
+// handled signatures remembered for deduplication
+const MAX_SEEN = 1_000;
+
+export class Watcher {
+  private state: WatchState | null = null;
+  // every transaction is handled on this chain, one at a time
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly source: WatchSource,
+    private readonly store: WatchStore,
+    private readonly options: WatchOptions,
+    // receives each transaction's events; a throw leaves the transaction
+    // for the next backfill
+    private readonly sink: (events: VaultEscrowEvent[]) => Promise<void>,
+    private readonly report: (record: WatchRecord) => void
+  ) {}
+
+  // Loads the state, or starts a new one at `since` / the newest signature.
+  async init(): Promise<void> {
+    const programId = this.options.programId.toBase58();
+    const saved = this.store.load();
+    if (saved && saved.programId !== programId) {
+      throw new Error(
+        `Watch state belongs to program ${saved.programId}, not ${programId}; use a different state file`
+      );
+    }
+    this.state = saved ?? {
+      programId,
+      cursor: this.options.since ?? (await this.source.latestSignature()),
+      seen: [],
+    };
+    this.save();
+  }
+
+  // Handles every transaction after the cursor that wasn't handled live.
+  backfill(): Promise<void> {
+    return this.enqueue(async () => {
+      const state = this.requireState();
+      const from = state.cursor;
+      const signatures = await this.source.signaturesAfter(from);
+      let handled = 0;
+      for (const signature of signatures) {
+        if (!state.seen.includes(signature)) {
+          // not retrievable yet: stop here and pick it up next time
+          if (!(await this.handle(signature))) break;
+          handled += 1;
+          this.remember(signature);
+        }
+        state.cursor = signature;
+        this.save();
+      }
+      if (signatures.length > 0) {
+        this.report({ type: "backfill", from, transactions: handled });
+      }
+    });
+  }
+
+  // A signature from the logs subscription.
+  live(signature: string): Promise<void> {
+    return this.enqueue(async () => {
+      const state = this.requireState();
+      if (state.seen.includes(signature)) return;
+      if (!(await this.handle(signature))) return;
+      this.remember(signature);
+      this.save();
+    });
+  }
+
+  /**
+   * Backfills, subscribes and then backfills again on every account change
+   * and every `backfillIntervalMs`, until `signal` aborts. Errors are
+   * reported and retried on the next backfill.
+   */
+  async run(backfillIntervalMs: number, signal: AbortSignal): Promise<void> {
+    if (!this.state) await this.init();
+    let wake: () => void = () => undefined;
+    const unsubscribe = await this.source.subscribe({
+      signature: (signature) => {
+        this.live(signature).catch((e) => this.error(e));
+      },
+      changed: () => wake(),
+    });
+    try {
+      while (!signal.aborted) {
+        await this.backfill().catch((e) => this.error(e));
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(done, backfillIntervalMs);
+          signal.addEventListener("abort", done, { once: true });
+          wake = done;
+          function done() {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            resolve();
+          }
+        });
+      }
+      await this.queue;
+    } finally {
+      await unsubscribe();
+    }
+  }
+
+  cursor(): string | null {
+    return this.requireState().cursor;
+  }
+
+  // false if the transaction isn't available yet
+  private async handle(signature: string): Promise<boolean> {
+    const tx = await this.source.transaction(signature);
+    if (!tx) return false;
+    const events = eventsFromTransaction(signature, tx, this.options.programId);
+    if (events.length > 0) await this.sink(events);
+    return true;
+  }
+
+  private remember(signature: string) {
+    const state = this.requireState();
+    state.seen = [...state.seen, signature].slice(-MAX_SEEN);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    // a failed task doesn't stop the ones after it
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private error(e: unknown) {
+    this.report({
+      type: "error",
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+
+  private requireState(): WatchState {
+    if (!this.state) throw new Error("Watcher not initialised; call init()");
+    return this.state;
+  }
+
+  private save() {
+    this.store.save(this.requireState());
+  }
+}
@@ -0,0 +1,104 @@
+import { createHmac } from "crypto";
+
+/**
+ * Webhook delivery.
+ *
+ * POSTs a JSON body to a URL and retries with exponential backoff on
+ * network errors, timeouts, 408, 429 and 5xx; any other status is final.
+ * With a secret, each request carries
+ *
+ *   X-Vault-Escrow-Timestamp: <unix seconds>
+ *   X-Vault-Escrow-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * so a receiver can check the body came from us and reject stale replays.
+ * Retries re-sign with a fresh timestamp.
+ */
+
+export interface WebhookOptions {
+  secret?: string;
+  // tries per delivery, including the first
+  maxAttempts: number;
+  // wait before the first retry; doubles after each one
+  retryDelayMs: number;
+  timeoutMs: number;
+  // for tests
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface DeliveryResult {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  // last HTTP status, if there was a response
+  status?: number;
+  error?: string;
+}
+
+export const SIGNATURE_HEADER = "X-Vault-Escrow-Signature";
+export const TIMESTAMP_HEADER = "X-Vault-Escrow-Timestamp";
+
+export function signPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const mac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${mac}`;
+}
+
+function retryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Delivers `body` to `url`. Never throws: the result says whether it got
+ * through and, if not, why.
+ */
+export async function deliver(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  options: WebhookOptions
+): Promise<DeliveryResult> {
+  const doFetch = options.fetch ?? fetch;
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const now = options.now ?? Date.now;
+
+  let result: DeliveryResult = { url, ok: false, attempts: 0 };
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    if (attempt > 1) await sleep(options.retryDelayMs * 2 ** (attempt - 2));
+    const request: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...headers,
+    };
+    if (options.secret) {
+      const timestamp = Math.floor(now() / 1000);
+      request[TIMESTAMP_HEADER] = String(timestamp);
+      request[SIGNATURE_HEADER] = signPayload(options.secret, timestamp, body);
+    }
+    try {
+      const res = await doFetch(url, {
+        method: "POST",
+        headers: request,
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      result = { url, ok: res.ok, attempts: attempt, status: res.status };
+      if (res.ok || !retryable(res.status)) return result;
+    } catch (e) {
+      result = {
+        url,
+        ok: false,
+        attempts: attempt,
+        error: e instanceof Error ? e.message : String(e),
+      };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,262 @@
+import { utils } from "@coral-xyz/anchor";
+import {
+  AccountInfo,
+  GetProgramAccountsFilter,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+} from "@solana/spl-token";
+
+import {
+  ESCROW_ACCOUNT_SIZE,
+  ESCROW_DISCRIMINATOR,
+  EscrowAccount,
+  VAULT_ACCOUNT_SIZE,
+  VAULT_DISCRIMINATOR,
+  VaultAccount,
+} from "../scripts/lib/accounts";
+import { ProgramAccountsReader } from "../scripts/lib/indexer";
+import { AccountReader } from "../scripts/lib/provision";
+
+/**
+ * Hand-encoded accounts, transactions and an in-memory RPC for unit tests of
+ * the read-side modules, which don't need a bank.
+ */
+
+export function key(): PublicKey {
+  return Keypair.generate().publicKey;
+}
+
+export function encodeVault(v: VaultAccount): Buffer {
+  const data = Buffer.alloc(VAULT_ACCOUNT_SIZE);
+  VAULT_DISCRIMINATOR.copy(data, 0);
+  v.authority.toBuffer().copy(data, 8);
+  v.mint.toBuffer().copy(data, 40);
+  data.writeUInt8(v.bump, 72);
+  data.writeBigUInt64LE(v.committed, 73);
+  data.writeUInt8(v.migrating ? 1 : 0, 81);
+  return data;
+}
+
+export function encodeEscrow(e: EscrowAccount): Buffer {
+  const data = Buffer.alloc(ESCROW_ACCOUNT_SIZE);
+  ESCROW_DISCRIMINATOR.copy(data, 0);
+  e.vault.toBuffer().copy(data, 8);
+  e.buyer.toBuffer().copy(data, 40);
+  e.seller.toBuffer().copy(data, 72);
+  e.tokenMint.toBuffer().copy(data, 104);
+  data.writeBigUInt64LE(e.amountLocked, 136);
+  data.writeBigInt64LE(e.deadlineUnixTs, 144);
+  data.writeUInt8(e.released ? 1 : 0, 152);
+  data.writeUInt8(e.bump, 153);
+  data.writeUInt8(e.disputed ? 1 : 0, 154);
+  data.writeBigUInt64LE(e.escrowId, 155);
+  // Borsh from here on: options and the vec take only the bytes they use
+  let offset = 163;
+  if (e.arbiter) {
+    data.writeUInt8(1, offset);
+    e.arbiter.toBuffer().copy(data, offset + 1);
+    offset += 33;
+  } else {
+    offset += 1;
+  }
+  data.writeBigUInt64LE(e.amountReleased, offset);
+  data.writeUInt32LE(e.milestones.length, offset + 8);
+  offset += 12;
+  for (const m of e.milestones) {
+    data.writeBigUInt64LE(m.amount, offset);
+    offset += 8;
+    if (m.deadlineUnixTs === null) {
+      offset += 1;
+    } else {
+      data.writeUInt8(1, offset);
+      data.writeBigInt64LE(m.deadlineUnixTs, offset + 1);
+      offset += 9;
+    }
+    data.writeUInt8(m.released ? 1 : 0, offset);
+    offset += 1;
+  }
+  return data;
+}
+
+export function encodeMint(decimals: number): Buffer {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 0n,
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return data;
+}
+
+export function encodeTokenAccount(
+  mint: PublicKey,
+  owner: PublicKey,
+  amount: bigint
+): Buffer {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: AccountState.Initialized,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return data;
+}
+
+export interface FakeAccount {
+  pubkey: PublicKey;
+  data: Buffer;
+  // defaults to the program the fake RPC serves
+  owner?: PublicKey;
+  executable?: boolean;
+}
+
+/**
+ * Serves `accounts` through getMultipleAccountsInfo and getProgramAccounts,
+ * applying dataSize / memcmp filters the way the RPC does. `calls` records
+ * the filters of every getProgramAccounts request.
+ */
+export function fakeRpc(programId: PublicKey, accounts: FakeAccount[]) {
+  const calls: GetProgramAccountsFilter[][] = [];
+  const info = (a: FakeAccount): AccountInfo<Buffer> => ({
+    data: a.data,
+    owner: a.owner ?? programId,
+    lamports: 1_000_000,
+    executable: a.executable ?? false,
+  });
+  const matches = (data: Buffer, f: GetProgramAccountsFilter) => {
+    if ("dataSize" in f) return data.length === f.dataSize;
+    const bytes =
+      f.memcmp.encoding === "base64"
+        ? Buffer.from(f.memcmp.bytes, "base64")
+        : new PublicKey(f.memcmp.bytes).toBuffer();
+    const { offset } = f.memcmp;
+    return data.subarray(offset, offset + bytes.length).equals(bytes);
+  };
+
+  const reader = {
+    async getMultipleAccountsInfo(keys: PublicKey[]) {
+      return keys.map((k) => {
+        const found = accounts.find((a) => a.pubkey.equals(k));
+        return found ? info(found) : null;
+      });
+    },
+    async getProgramAccounts(
+      owner: PublicKey,
+      config: { filters: GetProgramAccountsFilter[] }
+    ) {
+      calls.push(config.filters);
+      return accounts
+        .filter((a) => (a.owner ?? programId).equals(owner))
+        .filter((a) => config.filters.every((f) => matches(a.data, f)))
+        .map((a) => ({ pubkey: a.pubkey, account: info(a) }));
+    },
+  } as unknown as AccountReader & ProgramAccountsReader;
+  return { reader, calls };
+}
+
+export interface FakeTokenBalance {
+  account: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey;
+  before: bigint;
+  after: bigint;
+}
+
+// CPIs a top-level instruction made, by its index.
+export type FakeInnerInstructions = Record<number, TransactionInstruction[]>;
+
+/**
+ * What getTransaction returns for `instructions` paid by `payer`, with the
+ * token balances the RPC would record and, given `inner`, the inner
+ * instructions; the accounts those use must be in the transaction.
+ */
+export function confirmedTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  balances: FakeTokenBalance[] = [],
+  {
+    slot = 42,
+    blockTime = 1_800_000_000,
+    err = null as unknown,
+    inner = undefined as FakeInnerInstructions | undefined,
+  } = {}
+): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: key().toBase58(),
+    instructions,
+  }).compileToV0Message();
+  const tokenBalances = (which: "before" | "after") =>
+    balances.map((b) => ({
+      accountIndex: message.staticAccountKeys.findIndex((k) =>
+        k.equals(b.account)
+      ),
+      mint: b.mint.toBase58(),
+      owner: b.owner.toBase58(),
+      uiTokenAmount: {
+        amount: b[which].toString(),
+        decimals: 6,
+        uiAmount: null,
+        uiAmountString: "",
+      },
+    }));
+  const indexOf = (k: PublicKey) =>
+    message.staticAccountKeys.findIndex((s) => s.equals(k));
+  const innerInstructions = inner
+    ? Object.entries(inner).map(([index, ixs]) => ({
+        index: Number(index),
+        instructions: ixs.map((ix) => ({
+          programIdIndex: indexOf(ix.programId),
+          accounts: ix.keys.map((k) => indexOf(k.pubkey)),
+          data: utils.bytes.bs58.encode(ix.data),
+        })),
+      }))
+    : null;
+  return {
+    slot,
+    blockTime,
+    transaction: {
+      message,
+      signatures: new VersionedTransaction(message).signatures.map(() => ""),
+    },
+    meta: {
+      err,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: tokenBalances("before"),
+      postTokenBalances: tokenBalances("after"),
+      innerInstructions,
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  } as unknown as VersionedTransactionResponse;
+}
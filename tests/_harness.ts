@@ -0,0 +1,326 @@
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Signer,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createInitializeMint2Instruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMintToInstruction,
+  getMintLen,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import * as fs from "fs";
+import {
+  BanksClient,
+  BanksTransactionResultWithMeta,
+  Clock,
+  ProgramTestContext,
+  start,
+  startAnchor,
+} from "solana-bankrun";
+
+import { VaultEscrowClient, deriveAta } from "../scripts/lib/client";
+import { resolveProfile } from "../scripts/lib/config";
+import {
+  VaultEscrowErrorCode,
+  parseTransactionError,
+} from "../scripts/lib/errors";
+import { TOKEN_METADATA_PROGRAM_ID } from "../scripts/lib/metadata";
+import { AccountReader } from "../scripts/lib/provision";
+
+/**
+ * In-process bank for the integration tests.
+ *
+ * `startAnchor` deploys target/deploy/vault_escrow.so at the localnet program
+ * ID from Anchor.toml, next to the SPL Token and ATA programs bankrun ships
+ * with. Build the program first (`anchor build`); without the .so the suites
+ * skip themselves.
+ */
+
+export const PROGRAM_SO = "target/deploy/vault_escrow.so";
+
+// Whether the on-chain suites can run. Without a build they skip locally,
+// but fail when CI is set, so a CI run that never built the program can't
+// pass with them all pending.
+export function programBuilt(): boolean {
+  if (fs.existsSync(PROGRAM_SO)) return true;
+  if (process.env.CI) {
+    throw new Error(`${PROGRAM_SO} is missing; run \`anchor build\` first`);
+  }
+  return false;
+}
+
+// Not shipped with bankrun. Dump it from any cluster with
+//   solana program dump -u m metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s \
+//     tests/fixtures/mpl_token_metadata.so
+export const METADATA_SO = "tests/fixtures/mpl_token_metadata.so";
+
+export function metadataProgramAvailable(): boolean {
+  return fs.existsSync(METADATA_SO);
+}
+
+export const LOCALNET_PROGRAM_ID = resolveProfile(
+  { cluster: "localnet" },
+  {}
+).programId;
+
+// Asserts a failed transaction decodes to the given typed error code.
+export function expectProgramError(
+  res: BanksTransactionResultWithMeta,
+  code: VaultEscrowErrorCode
+) {
+  const logs = res.meta?.logMessages ?? [];
+  expect(res.result, "transaction should have failed").to.not.equal(null);
+  const err = parseTransactionError(res.result, LOCALNET_PROGRAM_ID, logs);
+  expect(err?.code, logs.join("\n")).to.equal(code);
+}
+
+export class Harness {
+  readonly client = new VaultEscrowClient(LOCALNET_PROGRAM_ID);
+  private nonce = 0;
+
+  private constructor(readonly context: ProgramTestContext) {}
+
+  static async start(): Promise<Harness> {
+    return new Harness(await startAnchor(".", [], []));
+  }
+
+  // SPL programs plus Token Metadata from tests/fixtures.
+  static async startWithMetadata(): Promise<Harness> {
+    return new Harness(
+      await start(
+        [{ name: "mpl_token_metadata", programId: TOKEN_METADATA_PROGRAM_ID }],
+        []
+      )
+    );
+  }
+
+  // SPL programs only, for client-side logic that never invokes our program.
+  static async startWithoutProgram(): Promise<Harness> {
+    return new Harness(await start([], []));
+  }
+
+  get banks(): BanksClient {
+    return this.context.banksClient;
+  }
+
+  get payer(): Keypair {
+    return this.context.payer;
+  }
+
+  // Connection-shaped account lookups backed by the bank.
+  get reader(): AccountReader {
+    return {
+      getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+        (await Promise.all(keys.map((k) => this.banks.getAccount(k)))).map(
+          (a) => (a ? { ...a, data: Buffer.from(a.data) } : null)
+        ),
+    };
+  }
+
+  // Sends without throwing; callers inspect `.result` (null on success).
+  async send(
+    ixs: TransactionInstruction[],
+    signers: Signer[] = []
+  ): Promise<BanksTransactionResultWithMeta> {
+    // Bankrun rejects a byte-identical transaction as already processed, so
+    // make every one unique (needed for "release twice" style tests).
+    const unique = ComputeBudgetProgram.setComputeUnitLimit({
+      units: 400_000 + this.nonce++,
+    });
+    const tx = new Transaction().add(unique, ...ixs);
+    const latest = await this.banks.getLatestBlockhash();
+    tx.recentBlockhash = latest ? latest[0] : this.context.lastBlockhash;
+    tx.feePayer = this.payer.publicKey;
+    tx.sign(this.payer, ...signers);
+    return await this.banks.tryProcessTransaction(tx);
+  }
+
+  async sendOk(ixs: TransactionInstruction[], signers: Signer[] = []) {
+    const res = await this.send(ixs, signers);
+    expect(res.result, res.meta?.logMessages.join("\n")).to.equal(null);
+    return res;
+  }
+
+  async now(): Promise<bigint> {
+    return (await this.banks.getClock()).unixTimestamp;
+  }
+
+  // Moves the cluster clock so deadlines can be tested without waiting.
+  async setUnixTime(unixTimestamp: bigint) {
+    const c = await this.banks.getClock();
+    this.context.setClock(
+      new Clock(
+        c.slot,
+        c.epochStartTimestamp,
+        c.epoch,
+        c.leaderScheduleEpoch,
+        unixTimestamp
+      )
+    );
+  }
+
+  async fund(to: PublicKey, sol = 1) {
+    await this.sendOk([
+      SystemProgram.transfer({
+        fromPubkey: this.payer.publicKey,
+        toPubkey: to,
+        lamports: sol * LAMPORTS_PER_SOL,
+      }),
+    ]);
+  }
+
+  /**
+   * A mint with the payer as mint and freeze authority. `transferFee` makes
+   * it a Token-2022 mint with the TransferFeeConfig extension.
+   */
+  async createMint(
+    decimals = 6,
+    options: {
+      tokenProgram?: PublicKey;
+      transferFee?: { basisPoints: number; maxFee: bigint };
+    } = {}
+  ): Promise<PublicKey> {
+    const { transferFee } = options;
+    const tokenProgram =
+      options.tokenProgram ??
+      (transferFee ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID);
+    const mint = Keypair.generate();
+    const space = getMintLen(
+      transferFee ? [ExtensionType.TransferFeeConfig] : []
+    );
+    const rent = await this.banks.getRent();
+    const ixs = [
+      SystemProgram.createAccount({
+        fromPubkey: this.payer.publicKey,
+        newAccountPubkey: mint.publicKey,
+        lamports: Number(rent.minimumBalance(BigInt(space))),
+        space,
+        programId: tokenProgram,
+      }),
+    ];
+    // extensions are initialized before the mint itself
+    if (transferFee) {
+      ixs.push(
+        createInitializeTransferFeeConfigInstruction(
+          mint.publicKey,
+          this.payer.publicKey,
+          this.payer.publicKey,
+          transferFee.basisPoints,
+          transferFee.maxFee,
+          tokenProgram
+        )
+      );
+    }
+    ixs.push(
+      createInitializeMint2Instruction(
+        mint.publicKey,
+        decimals,
+        this.payer.publicKey,
+        this.payer.publicKey,
+        tokenProgram
+      )
+    );
+    await this.sendOk(ixs, [mint]);
+    return mint.publicKey;
+  }
+
+  // The token program that owns `mint`.
+  async tokenProgramOf(mint: PublicKey): Promise<PublicKey> {
+    const account = await this.banks.getAccount(mint);
+    if (!account) throw new Error(`mint ${mint.toBase58()} missing`);
+    return account.owner;
+  }
+
+  // Creates `owner`'s ATA if needed, then mints `amount` into it.
+  async mintTo(mint: PublicKey, owner: PublicKey, amount: bigint) {
+    const tokenProgram = await this.tokenProgramOf(mint);
+    const ata = deriveAta(mint, owner, tokenProgram);
+    const ixs: TransactionInstruction[] = [];
+    if (!(await this.banks.getAccount(ata))) {
+      ixs.push(
+        this.client.createTokenAccount({
+          payer: this.payer.publicKey,
+          owner,
+          mint,
+          tokenProgram,
+        })
+      );
+    }
+    ixs.push(
+      createMintToInstruction(
+        mint,
+        ata,
+        this.payer.publicKey,
+        amount,
+        [],
+        tokenProgram
+      )
+    );
+    await this.sendOk(ixs);
+    return ata;
+  }
+
+  async accountData(address: PublicKey): Promise<Buffer | null> {
+    const account = await this.banks.getAccount(address);
+    return account ? Buffer.from(account.data) : null;
+  }
+
+  async tokenBalance(address: PublicKey): Promise<bigint> {
+    const data = await this.accountData(address);
+    if (!data) throw new Error(`token account ${address.toBase58()} missing`);
+    // Token-2022 accounts carry extensions after the base layout
+    return AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE)).amount;
+  }
+
+  /**
+   * mint -> buyer ATA funded -> init_vault -> vault ATA -> lock_tokens.
+   * The payer is the buyer and vault authority. `mint` options go to
+   * createMint, e.g. for a Token-2022 mint with a transfer fee.
+   */
+  async setupVault(params: {
+    minted: bigint;
+    locked: bigint;
+    mint?: Parameters<Harness["createMint"]>[1];
+  }) {
+    const buyer = this.payer.publicKey;
+    const mint = await this.createMint(6, params.mint);
+    const tokenProgram = await this.tokenProgramOf(mint);
+    const buyerAta = await this.mintTo(mint, buyer, params.minted);
+    await this.sendOk([
+      this.client.initVault({ authority: buyer, mint }),
+      this.client.createVaultAta({
+        payer: buyer,
+        mint,
+        vaultAuthority: buyer,
+        tokenProgram,
+      }),
+    ]);
+    await this.sendOk([
+      this.client.lockTokens({
+        user: buyer,
+        mint,
+        amount: params.locked,
+        tokenProgram,
+      }),
+    ]);
+    return {
+      buyer,
+      buyerAta,
+      mint,
+      tokenProgram,
+      ...this.client.vaultAddresses(mint, buyer, tokenProgram),
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { expect } from "chai";
+
+import { U64_MAX, formatAmount, parseAmount } from "../scripts/lib/amount";
+
+describe("amount", () => {
+  const parse = (input: string, decimals = 6) =>
+    parseAmount(input, decimals, { symbol: "GGLD", what: "--amount" });
+
+  it("parses token amounts with the mint's decimals", () => {
+    expect(parse("0.05")).to.equal(50_000n);
+    expect(parse("1")).to.equal(1_000_000n);
+    expect(parse(".5")).to.equal(500_000n);
+    expect(parse("2.")).to.equal(2_000_000n);
+    expect(parse("7", 0)).to.equal(7n);
+  });
+
+  it("accepts thousands separators and the mint's symbol", () => {
+    expect(parse("1,250.5 GGLD")).to.equal(1_250_500_000n);
+    expect(parse("1,000,000ggld")).to.equal(1_000_000_000_000n);
+  });
+
+  it("accepts a symbol with digits in it", () => {
+    expect(parseAmount("5 USDC2", 6, { symbol: "USDC2" })).to.equal(5_000_000n);
+    expect(parseAmount("1 1inch", 0, { symbol: "1INCH" })).to.equal(1n);
+    // without a space the symbol's leading digit would read as the amount's
+    expect(() => parseAmount("11INCH", 0, { symbol: "1INCH" })).to.throw(
+      /unknown unit "INCH"/
+    );
+    expect(() => parse("5 USDC2")).to.throw(/unknown unit "USDC2"/);
+  });
+
+  it("takes base units with a base suffix", () => {
+    expect(parse("50000base")).to.equal(50_000n);
+    expect(parse("50000 base")).to.equal(50_000n);
+  });
+
+  it("rejects precision beyond the mint's decimals", () => {
+    expect(() => parse("0.0000001")).to.throw(/more than 6 decimal places/);
+    expect(() => parse("1.5", 0)).to.throw(/more than 0 decimal places/);
+    expect(() => parse("1.5base")).to.throw(/whole number/);
+  });
+
+  it("rejects malformed input and unknown units", () => {
+    for (const bad of ["", "abc", "1,25", "1.2.3", "-1", "1e6", "12,34.5"]) {
+      expect(() => parse(bad), bad).to.throw(/--amount/);
+    }
+    expect(() => parse("5 SOL")).to.throw(/unknown unit "SOL"/);
+  });
+
+  it("stays exact up to u64::MAX and rejects anything above", () => {
+    expect(parse("18446744073709.551615")).to.equal(U64_MAX);
+    expect(parse("18446744073709551615base")).to.equal(U64_MAX);
+    expect(() => parse("18446744073709.551616")).to.throw(/u64::MAX/);
+  });
+
+  it("rejects zero unless allowed", () => {
+    expect(() => parse("0")).to.throw(/greater than zero/);
+    expect(parseAmount("0", 6, { allowZero: true })).to.equal(0n);
+  });
+
+  it("formats base units back as tokens", () => {
+    expect(formatAmount(1_250_500_000n, 6)).to.equal("1250.5");
+    expect(formatAmount(1_000_000n, 6, "GGLD")).to.equal("1.0 GGLD");
+    expect(formatAmount(U64_MAX, 6)).to.equal("18446744073709.551615");
+    expect(formatAmount(42n, 0)).to.equal("42");
+  });
+});
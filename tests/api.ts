@@ -0,0 +1,496 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+} from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  createMint,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+
+import { EscrowAccount } from "../scripts/lib/accounts";
+import {
+  ActionMetadata,
+  ActionPostResponse,
+  ActionsConnection,
+} from "../scripts/lib/actions";
+import {
+  ApiContext,
+  ApiResponse,
+  createApiServer,
+  handleRequest,
+} from "../scripts/lib/api";
+import {
+  VAULT_ESCROW_PROGRAM_ID,
+  VaultEscrowClient,
+  deriveAta,
+  discriminator,
+} from "../scripts/lib/client";
+import {
+  FakeAccount,
+  encodeEscrow,
+  encodeMint,
+  encodeTokenAccount,
+  encodeVault,
+  fakeRpc,
+  key,
+} from "./_fixtures";
+
+const LOCAL_VALIDATOR = "http://127.0.0.1:8899";
+const PROGRAM_ID = key();
+const NOW = 1_800_000_000n;
+
+// Response bodies as handleRequest returns them, before JSON encoding.
+type ActionGetBody = ActionMetadata & { type: "action"; icon: string };
+
+interface ErrorBody {
+  message: string;
+}
+
+interface VaultBody {
+  vault: PublicKey;
+  balance: string;
+  committed: string;
+  free: string;
+  status: string;
+  unreleasedEscrows: unknown[];
+}
+
+interface EscrowBody {
+  state: string;
+  amount: string;
+  actions: Record<string, string>;
+}
+
+interface ListingBody {
+  escrows: { escrowId: bigint }[];
+}
+
+interface ActionsJson {
+  rules: { pathPattern: string; apiPath: string }[];
+}
+
+describe("api", () => {
+  const client = new VaultEscrowClient(PROGRAM_ID);
+  const mint = key();
+  const buyer = key();
+  const seller = key();
+  const { vault, vaultAta } = client.vaultAddresses(mint, buyer);
+
+  function escrow(overrides: Partial<EscrowAccount> = {}): EscrowAccount {
+    return {
+      vault,
+      buyer,
+      seller,
+      tokenMint: mint,
+      amountLocked: 40_000_000n,
+      deadlineUnixTs: NOW + 3600n,
+      released: false,
+      bump: 254,
+      disputed: false,
+      escrowId: 0n,
+      arbiter: null,
+      amountReleased: 0n,
+      milestones: [],
+      ...overrides,
+    };
+  }
+
+  function escrowAt(e: EscrowAccount): FakeAccount {
+    const pubkey = client.escrowAddresses({
+      ...e,
+      mint,
+      escrowId: e.escrowId,
+    }).escrow;
+    return { pubkey, data: encodeEscrow(e) };
+  }
+
+  // A mint with 6 decimals and, unless `vaultBalance` is null, the buyer's
+  // vault holding that much.
+  function context(
+    escrows: EscrowAccount[] = [],
+    vaultBalance: bigint | null = 100_000_000n
+  ): ApiContext {
+    const accounts: FakeAccount[] = [
+      { pubkey: mint, data: encodeMint(6), owner: TOKEN_PROGRAM_ID },
+      {
+        pubkey: deriveAta(mint, buyer),
+        data: encodeTokenAccount(mint, buyer, 5_000_000n),
+        owner: TOKEN_PROGRAM_ID,
+      },
+      ...escrows.map(escrowAt),
+    ];
+    if (vaultBalance !== null) {
+      const committed = escrows
+        .filter((e) => !e.released)
+        .reduce((sum, e) => sum + e.amountLocked, 0n);
+      accounts.push(
+        {
+          pubkey: vault,
+          data: encodeVault({
+            authority: buyer,
+            mint,
+            bump: 255,
+            committed,
+            migrating: false,
+          }),
+        },
+        {
+          pubkey: vaultAta,
+          data: encodeTokenAccount(mint, vault, vaultBalance),
+          owner: TOKEN_PROGRAM_ID,
+        }
+      );
+    }
+    const { reader } = fakeRpc(PROGRAM_ID, accounts);
+    const connection = Object.assign(reader, {
+      getLatestBlockhash: async () => ({
+        blockhash: key().toBase58(),
+        lastValidBlockHeight: 1_000,
+      }),
+      getRecentPrioritizationFees: async () => [],
+    }) as unknown as ActionsConnection;
+    return {
+      connection,
+      client,
+      mint,
+      tokenSymbol: "GGLD",
+      computeBudget: { priorityFee: 0 },
+      commitment: "confirmed",
+      now: async () => NOW,
+      blockchainId: "solana:test",
+    };
+  }
+
+  function get(ctx: ApiContext, url: string): Promise<ApiResponse> {
+    return handleRequest(ctx, { method: "GET", url, host: "localhost:8080" });
+  }
+
+  function post(
+    ctx: ApiContext,
+    url: string,
+    account: PublicKey
+  ): Promise<ApiResponse> {
+    return handleRequest(ctx, {
+      method: "POST",
+      url,
+      body: JSON.stringify({ account: account.toBase58() }),
+    });
+  }
+
+  // The instruction names of a POST response's transaction, checked to be
+  // unsigned and paid by `payer`.
+  function instructions(res: ApiResponse, payer: PublicKey): string[] {
+    expect(res.status, JSON.stringify(res.body)).to.equal(200);
+    const body = res.body as ActionPostResponse;
+    expect(body.type).to.equal("transaction");
+    const tx = Transaction.from(Buffer.from(body.transaction, "base64"));
+    expect(tx.feePayer?.equals(payer)).to.equal(true);
+    expect(tx.signatures.every((s) => s.signature === null)).to.equal(true);
+    const names = [
+      "init_vault",
+      "lock_tokens",
+      "init_escrow",
+      "release_to_seller",
+      "refund_buyer",
+    ];
+    return tx.instructions.map((ix) => {
+      if (!ix.programId.equals(PROGRAM_ID)) return ix.programId.toBase58();
+      return names.find((n) =>
+        ix.data.subarray(0, 8).equals(discriminator(n))
+      )!;
+    });
+  }
+
+  const ATA_PROGRAM = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+
+  it("describes the lock action with an amount input", async () => {
+    const res = await get(context(), "/api/actions/lock");
+    expect(res.status).to.equal(200);
+    const body = res.body as ActionGetBody;
+    expect(body.type).to.equal("action");
+    expect(body.icon).to.equal("http://localhost:8080/icon.svg");
+    expect(body.links!.actions[0].href).to.equal(
+      "/api/actions/lock?amount={amount}"
+    );
+    expect(body.links!.actions[0].parameters![0].name).to.equal("amount");
+  });
+
+  it("keeps the values a shared link already has", async () => {
+    const res = await get(
+      context(),
+      `/api/actions/escrow/create?seller=${seller.toBase58()}&amount=5`
+    );
+    const [button] = (res.body as ActionGetBody).links!.actions;
+    expect(button.href).to.equal(
+      `/api/actions/escrow/create?seller=${seller.toBase58()}&amount=5&deadline={deadline}`
+    );
+    expect(button.parameters!.map((p) => p.name)).to.deep.equal(["deadline"]);
+  });
+
+  it("creates the vault in a wallet's first lock", async () => {
+    const ctx = context([], null);
+    const res = await post(ctx, "/api/actions/lock?amount=2.5 GGLD", buyer);
+    expect(instructions(res, buyer)).to.deep.equal([
+      "init_vault",
+      ATA_PROGRAM,
+      "lock_tokens",
+    ]);
+    expect((res.body as ActionPostResponse).message).to.contain(
+      "Lock 2.5 into vault"
+    );
+
+    const again = await post(context(), "/api/actions/lock?amount=1", buyer);
+    expect(instructions(again, buyer)).to.deep.equal(["lock_tokens"]);
+  });
+
+  it("opens an escrow under the pair's next free ID", async () => {
+    const ctx = context([escrow()]);
+    const res = await post(
+      ctx,
+      `/api/actions/escrow/create?seller=${seller.toBase58()}&amount=10&deadline=%2B7d`,
+      buyer
+    );
+    expect(instructions(res, buyer)).to.deep.equal([
+      ATA_PROGRAM,
+      "init_escrow",
+    ]);
+    const tx = Transaction.from(
+      Buffer.from((res.body as ActionPostResponse).transaction, "base64")
+    );
+    const init = tx.instructions[1];
+    expect(init.data.readBigUInt64LE(8)).to.equal(1n);
+    expect(init.data.readBigUInt64LE(16)).to.equal(10_000_000n);
+    expect(init.data.readBigInt64LE(24)).to.equal(NOW + 7n * 86400n);
+  });
+
+  it("refuses an escrow the vault can't cover", async () => {
+    const res = await post(
+      context([escrow()]),
+      `/api/actions/escrow/create?seller=${seller.toBase58()}&amount=61&deadline=%2B1d`,
+      buyer
+    );
+    expect(res.status).to.equal(400);
+    expect((res.body as ErrorBody).message).to.contain(
+      "exceeds the vault's free"
+    );
+  });
+
+  it("reports missing and malformed input as a 400", async () => {
+    const ctx = context();
+    const missing = await post(ctx, "/api/actions/escrow/create", buyer);
+    expect(missing.status).to.equal(400);
+    expect((missing.body as ErrorBody).message).to.contain('"seller"');
+
+    const noAccount = await handleRequest(ctx, {
+      method: "POST",
+      url: "/api/actions/lock?amount=1",
+      body: "{}",
+    });
+    expect(noAccount.status).to.equal(400);
+    expect((await get(ctx, "/api/actions/nope")).status).to.equal(404);
+    expect((await get(ctx, "/api/escrows?state=lost")).status).to.equal(400);
+  });
+
+  it("answers 502 when the RPC fails and 500 for other faults", async () => {
+    const down = context();
+    down.connection.getMultipleAccountsInfo = async () => {
+      throw new Error("fetch failed");
+    };
+    const unreachable = await get(down, `/api/vault/${buyer.toBase58()}`);
+    expect(unreachable.status).to.equal(502);
+    expect((unreachable.body as ErrorBody).message).to.contain("fetch failed");
+
+    // the server's mint doesn't exist: nothing the wallet sent is at fault
+    const misconfigured = { ...context(), mint: key() };
+    const res = await post(misconfigured, "/api/actions/lock?amount=1", buyer);
+    expect(res.status).to.equal(500);
+  });
+
+  it("lets only the buyer release, before the deadline", async () => {
+    const e = escrow();
+    const ctx = context([e]);
+    const url = `/api/actions/escrow/${escrowAt(e).pubkey.toBase58()}/release`;
+
+    const wrong = await post(ctx, url, seller);
+    expect(wrong.status).to.equal(400);
+    expect((wrong.body as ErrorBody).message).to.contain(
+      "Only the escrow's buyer"
+    );
+
+    // the seller's ATA doesn't exist yet, so the buyer pays for it
+    expect(instructions(await post(ctx, url, buyer), buyer)).to.deep.equal([
+      ATA_PROGRAM,
+      "release_to_seller",
+    ]);
+
+    const late = escrow({ deadlineUnixTs: NOW - 1n });
+    const lateUrl = `/api/actions/escrow/${escrowAt(
+      late
+    ).pubkey.toBase58()}/release`;
+    const metadata = (await get(context([late]), lateUrl))
+      .body as ActionGetBody;
+    expect(metadata.disabled).to.equal(true);
+    expect(metadata.error?.message).to.contain("has passed");
+  });
+
+  it("refunds only expired escrows", async () => {
+    const open = escrow();
+    const openUrl = `/api/actions/escrow/${escrowAt(
+      open
+    ).pubkey.toBase58()}/refund`;
+    const refused = await post(context([open]), openUrl, buyer);
+    expect((refused.body as ErrorBody).message).to.contain("is open");
+
+    const expired = escrow({ deadlineUnixTs: NOW - 1n });
+    const url = `/api/actions/escrow/${escrowAt(
+      expired
+    ).pubkey.toBase58()}/refund`;
+    expect(
+      instructions(await post(context([expired]), url, buyer), buyer)
+    ).to.deep.equal(["refund_buyer"]);
+  });
+
+  it("serves vault and escrow state as JSON", async () => {
+    const e = escrow();
+    const ctx = context([e, escrow({ escrowId: 1n, released: true })]);
+
+    const vaultRes = (await get(ctx, `/api/vault/${buyer.toBase58()}`))
+      .body as VaultBody;
+    expect(vaultRes.vault.equals(vault)).to.equal(true);
+    expect(vaultRes).to.include({
+      balance: "100.0",
+      committed: "40.0",
+      free: "60.0",
+      status: "solvent",
+    });
+    expect(vaultRes.unreleasedEscrows).to.have.length(1);
+
+    const address = escrowAt(e).pubkey;
+    const escrowRes = (await get(ctx, `/api/escrow/${address.toBase58()}`))
+      .body as EscrowBody;
+    expect(escrowRes).to.include({ state: "open", amount: "40.0" });
+    expect(escrowRes.actions.release).to.equal(
+      `/api/actions/escrow/${address.toBase58()}/release`
+    );
+
+    const listing = (await get(ctx, "/api/escrows?state=released"))
+      .body as ListingBody;
+    expect(listing.escrows.map((x) => x.escrowId)).to.deep.equal([1n]);
+    expect((await get(ctx, `/api/escrow/${key().toBase58()}`)).status).to.equal(
+      404
+    );
+  });
+
+  it("answers over HTTP with the Actions and CORS headers", async () => {
+    const server = createApiServer(context());
+    server.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/actions.json`);
+      expect(res.status).to.equal(200);
+      expect(res.headers.get("access-control-allow-origin")).to.equal("*");
+      expect(res.headers.get("x-blockchain-ids")).to.equal("solana:test");
+      expect(res.headers.get("x-action-version")).to.equal("2.4");
+      const body = (await res.json()) as ActionsJson;
+      expect(body.rules[0].pathPattern).to.equal("/api/actions/**");
+
+      const preflight = await fetch(
+        `http://127.0.0.1:${port}/api/actions/lock`,
+        { method: "OPTIONS" }
+      );
+      expect(preflight.status).to.equal(204);
+    } finally {
+      server.close();
+    }
+  });
+
+  // Runs against `solana-test-validator` on the default port, if one is up
+  // with the program deployed (anchor localnet).
+  describe("against a local validator", () => {
+    const connection = new Connection(LOCAL_VALIDATOR, "confirmed");
+    const wallet = Keypair.generate();
+    let validatorMint: PublicKey;
+
+    before(async function () {
+      try {
+        await connection.getVersion();
+      } catch {
+        this.skip();
+      }
+      if (!(await connection.getAccountInfo(VAULT_ESCROW_PROGRAM_ID))) {
+        this.skip();
+      }
+      const signature = await connection.requestAirdrop(
+        wallet.publicKey,
+        LAMPORTS_PER_SOL
+      );
+      const latest = await connection.getLatestBlockhash();
+      await connection.confirmTransaction({ signature, ...latest });
+      validatorMint = await createMint(
+        connection,
+        wallet,
+        wallet.publicKey,
+        null,
+        6
+      );
+      const ata = await getOrCreateAssociatedTokenAccount(
+        connection,
+        wallet,
+        validatorMint,
+        wallet.publicKey
+      );
+      await mintTo(
+        connection,
+        wallet,
+        validatorMint,
+        ata.address,
+        wallet,
+        10_000_000n
+      );
+    });
+
+    it("builds a lock the wallet can sign and send", async () => {
+      const validatorClient = new VaultEscrowClient(VAULT_ESCROW_PROGRAM_ID);
+      const ctx: ApiContext = {
+        connection,
+        client: validatorClient,
+        mint: validatorMint,
+        computeBudget: { priorityFee: 0 },
+        commitment: "confirmed",
+        now: async () => BigInt(Math.floor(Date.now() / 1000)),
+        blockchainId: `solana:${(await connection.getGenesisHash()).slice(
+          0,
+          32
+        )}`,
+      };
+      const res = await post(
+        ctx,
+        "/api/actions/lock?amount=3",
+        wallet.publicKey
+      );
+      expect(res.status, JSON.stringify(res.body)).to.equal(200);
+
+      const tx = Transaction.from(
+        Buffer.from((res.body as ActionPostResponse).transaction, "base64")
+      );
+      tx.sign(wallet);
+      const signature = await connection.sendRawTransaction(tx.serialize());
+      await connection.confirmTransaction(signature, "confirmed");
+
+      const { vaultAta: ata } = validatorClient.vaultAddresses(
+        validatorMint,
+        wallet.publicKey
+      );
+      const balance = await connection.getTokenAccountBalance(ata);
+      expect(balance.value.amount).to.equal("3000000");
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { createTransferInstruction } from "@solana/spl-token";
+import {
+  ConfirmedSignatureInfo,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { expect } from "chai";
+
+import {
+  HistoryItem,
+  HistoryReader,
+  auditCsv,
+  auditEntries,
+  auditTotals,
+  fetchHistory,
+  identifyAccount,
+  mergeHistory,
+} from "../scripts/lib/audit";
+import {
+  VAULT_ESCROW_PROGRAM_ID,
+  discriminator,
+  encodeInitEscrowIx,
+  encodeLockTokensIx,
+  encodeReleaseMilestoneIx,
+  encodeReleaseToSellerIx,
+} from "../scripts/lib/client";
+import { FakeTokenBalance, confirmedTransaction, key } from "./_fixtures";
+
+const PROGRAM = VAULT_ESCROW_PROGRAM_ID;
+const MINT = key();
+const BUYER = key();
+const SELLER = key();
+const SUPPLIER = key();
+const VAULT = key();
+const VAULT_ATA = key();
+const BUYER_ATA = key();
+const SELLER_ATA = key();
+const SUPPLIER_ATA = key();
+const ESCROW = key();
+
+interface Sent {
+  signature: string;
+  tx: VersionedTransactionResponse;
+  err?: unknown;
+}
+
+// Answers getSignaturesForAddress (newest first, paged) from what each
+// address took part in, and getTransactions from every transaction sent.
+function fakeHistory(sent: Sent[]) {
+  const pages: PublicKey[] = [];
+  const reader = {
+    async getSignaturesForAddress(
+      address: PublicKey,
+      options: { before?: string; limit: number }
+    ): Promise<ConfirmedSignatureInfo[]> {
+      pages.push(address);
+      const all = sent
+        .filter((s) =>
+          s.tx.transaction.message.staticAccountKeys.some((k) =>
+            k.equals(address)
+          )
+        )
+        .reverse();
+      const start = options.before
+        ? all.findIndex((s) => s.signature === options.before) + 1
+        : 0;
+      return all.slice(start, start + options.limit).map((s) => ({
+        signature: s.signature,
+        slot: s.tx.slot,
+        err: s.err ?? null,
+        memo: null,
+        blockTime: s.tx.blockTime,
+      }));
+    },
+    async getTransactions(signatures: string[]) {
+      return signatures.map(
+        (sig) => sent.find((s) => s.signature === sig)?.tx ?? null
+      );
+    },
+  } as unknown as HistoryReader;
+  return { reader, pages };
+}
+
+let slot = 100;
+function sent(
+  signature: string,
+  instructions: TransactionInstruction[],
+  balances: Omit<FakeTokenBalance, "mint">[] = []
+): Sent {
+  slot += 1;
+  return {
+    signature,
+    tx: confirmedTransaction(
+      BUYER,
+      instructions,
+      balances.map((b) => ({ ...b, mint: MINT })),
+      { slot, blockTime: 1_800_000_000 + slot }
+    ),
+  };
+}
+
+const releaseAccounts = {
+  programId: PROGRAM,
+  buyer: BUYER,
+  seller: SELLER,
+  mint: MINT,
+  escrow: ESCROW,
+  vault: VAULT,
+  vaultAta: VAULT_ATA,
+  sellerAta: SELLER_ATA,
+};
+
+// A vault funded with 1,000, an escrow of 600 in two milestones paid out,
+// and 50 sent straight to the vault ATA by a supplier.
+const HISTORY = [
+  sent(
+    "lock",
+    [
+      encodeLockTokensIx({
+        programId: PROGRAM,
+        user: BUYER,
+        mint: MINT,
+        vault: VAULT,
+        vaultAta: VAULT_ATA,
+        userAta: BUYER_ATA,
+        amount: 1_000n,
+      }),
+    ],
+    [
+      { account: VAULT_ATA, owner: VAULT, before: 0n, after: 1_000n },
+      { account: BUYER_ATA, owner: BUYER, before: 5_000n, after: 4_000n },
+    ]
+  ),
+  sent("create", [
+    encodeInitEscrowIx({
+      programId: PROGRAM,
+      buyer: BUYER,
+      seller: SELLER,
+      mint: MINT,
+      vault: VAULT,
+      escrow: ESCROW,
+      escrowId: 2n,
+      amount: 600n,
+      deadlineUnixTs: 1_800_086_400n,
+      milestones: [{ amount: 400n }, { amount: 200n }],
+    }),
+  ]),
+  sent(
+    "milestone",
+    [encodeReleaseMilestoneIx({ ...releaseAccounts, index: 0 })],
+    [
+      { account: VAULT_ATA, owner: VAULT, before: 1_000n, after: 600n },
+      { account: SELLER_ATA, owner: SELLER, before: 0n, after: 400n },
+    ]
+  ),
+  sent(
+    "topup",
+    [createTransferInstruction(SUPPLIER_ATA, VAULT_ATA, SUPPLIER, 50n)],
+    [
+      { account: VAULT_ATA, owner: VAULT, before: 600n, after: 650n },
+      { account: SUPPLIER_ATA, owner: SUPPLIER, before: 80n, after: 30n },
+    ]
+  ),
+  sent(
+    "release",
+    [encodeReleaseToSellerIx(releaseAccounts)],
+    [
+      { account: VAULT_ATA, owner: VAULT, before: 650n, after: 450n },
+      { account: SELLER_ATA, owner: SELLER, before: 400n, after: 600n },
+    ]
+  ),
+];
+
+describe("audit", () => {
+  it("walks every page of an address's history, oldest first", async () => {
+    const many = Array.from({ length: 1_200 }, (_, i) =>
+      sent(`s${i}`, [
+        encodeReleaseMilestoneIx({ ...releaseAccounts, index: 0 }),
+      ])
+    );
+    many[7].err = { InstructionError: [0, 1] };
+    const { reader, pages } = fakeHistory(many);
+    const history = await fetchHistory(reader, [ESCROW], "confirmed");
+    expect(pages).to.have.length(2);
+    expect(history).to.have.length(1_199);
+    expect(history[0].signature).to.equal("s0");
+    expect(history[7].signature).to.equal("s8");
+    expect(history[1_198].signature).to.equal("s1199");
+  });
+
+  it("merges the vault's and its ATA's history without repeats", async () => {
+    const { reader } = fakeHistory(HISTORY);
+    const vault = await fetchHistory(reader, [VAULT], "confirmed");
+    const ata = await fetchHistory(reader, [VAULT_ATA], "confirmed");
+    expect(vault.map((h) => h.signature)).to.deep.equal([
+      "lock",
+      "create",
+      "milestone",
+      "release",
+    ]);
+    expect(mergeHistory(vault, ata).map((h) => h.signature)).to.deep.equal([
+      "lock",
+      "create",
+      "milestone",
+      "topup",
+      "release",
+    ]);
+  });
+
+  it("tells an escrow from a vault by the instructions naming it", () => {
+    const history: HistoryItem[] = HISTORY;
+    expect(identifyAccount(ESCROW, history, PROGRAM)).to.deep.equal({
+      kind: "escrow",
+      mint: MINT,
+      vault: VAULT,
+    });
+    expect(identifyAccount(VAULT, history, PROGRAM).kind).to.equal("vault");
+    expect(() => identifyAccount(key(), history, PROGRAM)).to.throw(
+      /No vault-escrow instruction names/
+    );
+  });
+
+  it("reads an escrow opened by the first build of the program", () => {
+    // init_escrow(amount, deadline_unix_ts): no escrow ID, arbiter or
+    // milestones yet
+    const args = Buffer.alloc(16);
+    args.writeBigUInt64LE(300n, 0);
+    args.writeBigInt64LE(1_800_086_400n, 8);
+    const current = encodeInitEscrowIx({
+      programId: PROGRAM,
+      buyer: BUYER,
+      seller: SELLER,
+      mint: MINT,
+      vault: VAULT,
+      escrow: ESCROW,
+      escrowId: 0n,
+      amount: 300n,
+      deadlineUnixTs: 1_800_086_400n,
+    });
+    const history = [
+      sent("baseline", [
+        new TransactionInstruction({
+          programId: PROGRAM,
+          keys: current.keys,
+          data: Buffer.concat([discriminator("init_escrow"), args]),
+        }),
+      ]),
+    ];
+
+    expect(identifyAccount(ESCROW, history, PROGRAM).kind).to.equal("escrow");
+    const [create] = auditEntries(
+      history,
+      { kind: "escrow", address: ESCROW },
+      PROGRAM
+    );
+    expect(create).to.deep.include({
+      instruction: "init_escrow",
+      amount: 300n,
+      args: {
+        escrowId: null,
+        deadlineUnixTs: 1_800_086_400n,
+        arbiter: null,
+        milestones: [],
+      },
+    });
+    expect(auditCsv([create], 2).trimEnd().split("\n")[1]).to.match(
+      /,deadlineUnixTs=1800086400 milestones=0$/
+    );
+  });
+
+  it("pairs an escrow's instructions with what they moved", () => {
+    const entries = auditEntries(
+      HISTORY,
+      { kind: "escrow", address: ESCROW },
+      PROGRAM
+    );
+    expect(entries.map((e) => e.instruction)).to.deep.equal([
+      "init_escrow",
+      "release_milestone",
+      "release_to_seller",
+    ]);
+    const [create, milestone, release] = entries;
+    expect(create).to.deep.include({ amount: 600n, vaultChange: 0n });
+    expect(create.signer?.equals(BUYER)).to.equal(true);
+    expect(milestone).to.deep.include({
+      vaultChange: -400n,
+      counterpartyChange: 400n,
+      args: { index: 0 },
+    });
+    expect(release.counterparty?.equals(SELLER)).to.equal(true);
+    expect(release.blockTime?.getTime()).to.equal(
+      (HISTORY[4].tx.blockTime as number) * 1000
+    );
+  });
+
+  it("includes transfers outside the program in a vault's trail", () => {
+    const entries = auditEntries(
+      HISTORY,
+      { kind: "vault", address: VAULT, vaultAta: VAULT_ATA },
+      PROGRAM
+    );
+    const topup = entries.find((e) => e.instruction === "transfer")!;
+    expect(topup.signature).to.equal("topup");
+    expect(topup.counterparty?.equals(SUPPLIER)).to.equal(true);
+    expect(topup).to.deep.include({
+      vaultChange: 50n,
+      counterpartyChange: -50n,
+    });
+
+    const net = entries.reduce((sum, e) => sum + e.vaultChange, 0n);
+    expect(net).to.equal(450n);
+    expect(
+      auditTotals(entries).map((t) => [t.instruction, t.count, t.vaultChange])
+    ).to.deep.equal([
+      ["lock_tokens", 1, 1_000n],
+      ["init_escrow", 1, 0n],
+      ["release_milestone", 1, -400n],
+      ["transfer", 1, 50n],
+      ["release_to_seller", 1, -200n],
+    ]);
+  });
+
+  it("exports entries as CSV in tokens", () => {
+    const entries = auditEntries(
+      HISTORY,
+      { kind: "escrow", address: ESCROW },
+      PROGRAM
+    );
+    const [header, create, milestone] = auditCsv(entries, 2)
+      .trimEnd()
+      .split("\n");
+    expect(header).to.equal(
+      "time,slot,signature,instruction,escrow,vault,signer,counterparty," +
+        "amount,vault_change,counterparty_change,fee_lamports,details"
+    );
+    const cells = create.split(",");
+    expect(cells[3]).to.equal("init_escrow");
+    expect(cells[8]).to.equal("6.0");
+    expect(cells[12]).to.equal(
+      "escrowId=2 deadlineUnixTs=1800086400 milestones=2"
+    );
+    expect(milestone.split(",").slice(9, 11)).to.deep.equal(["-4.0", "4.0"]);
+  });
+});
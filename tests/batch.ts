@@ -0,0 +1,303 @@
+import { AddressLookupTableProgram, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+
+import { EscrowAccount } from "../scripts/lib/accounts";
+import {
+  BatchProgress,
+  LOOKUP_TABLE_EXTEND_CHUNK,
+  assertSameBatch,
+  assignEscrowIds,
+  batchFinished,
+  fitsInTransaction,
+  localLookupTable,
+  lookupTableAddresses,
+  lookupTableSaves,
+  newProgress,
+  packInstructions,
+  parseBatchCsv,
+  refreshProgress,
+  validateRows,
+} from "../scripts/lib/batch";
+import {
+  VAULT_ESCROW_PROGRAM_ID,
+  VaultEscrowClient,
+} from "../scripts/lib/client";
+import { encodeEscrow, fakeRpc, key } from "./_fixtures";
+
+const NOW = 1_800_000_000n;
+const DAY = 86_400n;
+const client = new VaultEscrowClient(VAULT_ESCROW_PROGRAM_ID);
+const BUYER = key();
+const MINT = key();
+const BATCH = {
+  cluster: "localnet",
+  programId: VAULT_ESCROW_PROGRAM_ID,
+  buyer: BUYER,
+  mint: MINT,
+};
+
+// Each row's instructions, like the command builds them: the seller's ATA
+// with their first row, then the escrow.
+function rowGroups(sellers: PublicKey[]) {
+  const seen = new Set<string>();
+  return sellers.map((seller, i) => {
+    const ixs = [];
+    if (!seen.has(seller.toBase58())) {
+      seen.add(seller.toBase58());
+      ixs.push(
+        client.createTokenAccount({ payer: BUYER, owner: seller, mint: MINT })
+      );
+    }
+    ixs.push(
+      client.initEscrow({
+        buyer: BUYER,
+        seller,
+        mint: MINT,
+        escrowId: BigInt(i),
+        amount: 1_000n,
+        deadlineUnixTs: NOW + DAY,
+      })
+    );
+    return ixs;
+  });
+}
+
+function onChain(seller: PublicKey, escrowId: bigint, amount: bigint) {
+  const { vault, escrow } = client.escrowAddresses({
+    buyer: BUYER,
+    seller,
+    mint: MINT,
+    escrowId,
+  });
+  const account: EscrowAccount = {
+    vault,
+    buyer: BUYER,
+    seller,
+    tokenMint: MINT,
+    amountLocked: amount,
+    deadlineUnixTs: NOW + DAY,
+    released: false,
+    bump: 255,
+    disputed: false,
+    escrowId,
+    arbiter: null,
+    amountReleased: 0n,
+    milestones: [],
+  };
+  return { pubkey: escrow, data: encodeEscrow(account) };
+}
+
+describe("escrow batch", () => {
+  const sellerA = key();
+  const sellerB = key();
+
+  it("parses rows with a header, quotes and blank lines", () => {
+    const rows = parseBatchCsv(
+      `seller,amount,deadline\r\n${sellerA.toBase58()}, "1,250.5" ,+7d\n\n` +
+        `${sellerB.toBase58()},80base,1800086400\n`
+    );
+    expect(rows).to.deep.equal([
+      {
+        line: 2,
+        seller: sellerA.toBase58(),
+        amount: "1,250.5",
+        deadline: "+7d",
+      },
+      {
+        line: 4,
+        seller: sellerB.toBase58(),
+        amount: "80base",
+        deadline: "1800086400",
+      },
+    ]);
+  });
+
+  it("rejects rows with the wrong number of fields", () => {
+    expect(() => parseBatchCsv(`${sellerA.toBase58()},10`)).to.throw(
+      /line 1: expected 3 fields/
+    );
+    expect(() => parseBatchCsv("seller,amount,deadline\n")).to.throw(/no rows/);
+  });
+
+  it("reports every bad row, including running past the free balance", () => {
+    const rows = parseBatchCsv(
+      [
+        `${sellerA.toBase58()},1,+1d`,
+        `not-a-key,1,+1d`,
+        `${sellerB.toBase58()},1.5555555,+1d`,
+        `${sellerB.toBase58()},1,${NOW - 1n}`,
+        `${sellerA.toBase58()},2,+2d`,
+      ].join("\n")
+    );
+    const { valid, errors } = validateRows(rows, {
+      decimals: 6,
+      now: NOW,
+      free: 2_500_000n,
+    });
+    expect(valid.map((r) => r.line)).to.deep.equal([1]);
+    expect(errors).to.have.length(4);
+    expect(errors[0]).to.match(/^line 2: seller is not a valid public key/);
+    expect(errors[1]).to.match(/^line 3: /);
+    expect(errors[2]).to.match(/^line 4: deadline .* has already passed/);
+    expect(errors[3]).to.match(/^line 5: .*free balance 2500000/);
+    expect(valid[0].deadlineUnixTs).to.equal(NOW + DAY);
+  });
+
+  it("assigns each row the next free ID of its seller", async () => {
+    const rows = parseBatchCsv(
+      [
+        `${sellerA.toBase58()},1,+1d`,
+        `${sellerA.toBase58()},2,+1d`,
+        `${sellerB.toBase58()},3,+1d`,
+      ].join("\n")
+    );
+    const { valid } = validateRows(rows, { decimals: 0, now: NOW, free: null });
+    const progress = newProgress(BATCH, valid);
+    // sellerA already has escrows 0 and 2
+    const { reader } = fakeRpc(VAULT_ESCROW_PROGRAM_ID, [
+      onChain(sellerA, 0n, 5n),
+      onChain(sellerA, 2n, 5n),
+    ]);
+    await assignEscrowIds(reader, client, progress);
+    expect(progress.rows.map((r) => r.escrowId)).to.deep.equal(["1", "3", "0"]);
+    expect(progress.rows[0].escrow).to.equal(
+      client
+        .escrowAddresses({
+          buyer: BUYER,
+          seller: sellerA,
+          mint: MINT,
+          escrowId: 1n,
+        })
+        .escrow.toBase58()
+    );
+  });
+
+  it("resumes by checking which escrows exist", async () => {
+    const rows = parseBatchCsv(
+      [
+        `${sellerA.toBase58()},10,+1d`,
+        `${sellerA.toBase58()},20,+1d`,
+        `${sellerB.toBase58()},30,+1d`,
+      ].join("\n")
+    );
+    const { valid } = validateRows(rows, { decimals: 0, now: NOW, free: null });
+    const progress: BatchProgress = newProgress(BATCH, valid);
+    await assignEscrowIds(
+      fakeRpc(VAULT_ESCROW_PROGRAM_ID, []).reader,
+      client,
+      progress
+    );
+    for (const row of progress.rows) {
+      row.status = "sent";
+      row.lastValidBlockHeight = 100;
+    }
+
+    // row 1 landed; row 2's ID was taken by another escrow; row 3 never landed
+    const { reader } = fakeRpc(VAULT_ESCROW_PROGRAM_ID, [
+      onChain(sellerA, 0n, 10n),
+      onChain(sellerA, 1n, 999n),
+    ]);
+    await refreshProgress(reader, progress);
+    expect(progress.rows.map((r) => r.status)).to.deep.equal([
+      "created",
+      "pending",
+      "pending",
+    ]);
+    expect(progress.rows[1].escrowId).to.equal(null);
+    expect(progress.rows[2].escrowId).to.equal("0");
+    expect(progress.rows.every((r) => r.lastValidBlockHeight === undefined)).to
+      .be.true;
+
+    await assignEscrowIds(reader, client, progress);
+    expect(progress.rows[1].escrowId).to.equal("2");
+  });
+
+  it("is finished once every row landed or is past its deadline", () => {
+    const rows = parseBatchCsv(
+      [`${sellerA.toBase58()},10,+1d`, `${sellerB.toBase58()},20,+2d`].join(
+        "\n"
+      )
+    );
+    const { valid } = validateRows(rows, { decimals: 0, now: NOW, free: null });
+    const progress = newProgress(BATCH, valid);
+    progress.rows[0].status = "created";
+    progress.rows[1].status = "failed";
+    expect(batchFinished(progress, NOW)).to.equal(false);
+    expect(batchFinished(progress, NOW + 2n * DAY)).to.equal(true);
+    progress.rows[1].status = "created";
+    expect(batchFinished(progress, NOW)).to.equal(true);
+  });
+
+  it("refuses a progress file for another CSV or wallet", () => {
+    const rows = parseBatchCsv(`${sellerA.toBase58()},10,+1d`);
+    const { valid } = validateRows(rows, { decimals: 0, now: NOW, free: null });
+    const progress = newProgress(BATCH, valid);
+    expect(() => assertSameBatch(progress, rows, BATCH)).to.not.throw();
+    expect(() =>
+      assertSameBatch(
+        progress,
+        parseBatchCsv(`${sellerA.toBase58()},11,+1d`),
+        BATCH
+      )
+    ).to.throw(/CSV changed/);
+    expect(() =>
+      assertSameBatch(progress, rows, { ...BATCH, buyer: key() })
+    ).to.throw(/for buyer/);
+  });
+
+  it("packs rows in order into transactions that fit", () => {
+    const sellers = Array.from({ length: 12 }, () => key());
+    const groups = rowGroups(sellers);
+    const packs = packInstructions(BUYER, groups);
+    expect(packs.length).to.be.greaterThan(1);
+    expect(packs.flat()).to.deep.equal(groups.map((_, i) => i));
+    for (const pack of packs) {
+      expect(
+        fitsInTransaction(
+          BUYER,
+          pack.flatMap((i) => groups[i])
+        )
+      ).to.equal(true);
+    }
+  });
+
+  it("uses a lookup table only when it saves transactions", () => {
+    // ten suppliers, eight payments each
+    const suppliers = Array.from({ length: 10 }, () => key());
+    const groups = rowGroups(
+      Array.from({ length: 80 }, (_, i) => suppliers[i % 10])
+    );
+    const addresses = lookupTableAddresses(BUYER, groups);
+    // programs and the payer stay in the message
+    expect(addresses.some((a) => a.equals(BUYER))).to.equal(false);
+    expect(addresses.some((a) => a.equals(VAULT_ESCROW_PROGRAM_ID))).to.equal(
+      false
+    );
+
+    const table = localLookupTable(key(), addresses);
+    const without = packInstructions(BUYER, groups).length;
+    const withTable = packInstructions(BUYER, groups, [table]).length;
+    expect(withTable).to.be.lessThan(without);
+    expect(lookupTableSaves(BUYER, groups)).to.equal(true);
+    // a table for a handful of rows costs more than it saves, and so does
+    // one for rows that share no accounts
+    expect(lookupTableSaves(BUYER, groups.slice(0, 10))).to.equal(false);
+    const unique = rowGroups(Array.from({ length: 80 }, () => key()));
+    expect(lookupTableSaves(BUYER, unique)).to.equal(false);
+  });
+
+  it("creates the table and adds the first chunk in one transaction", () => {
+    const [create, table] = AddressLookupTableProgram.createLookupTable({
+      authority: BUYER,
+      payer: BUYER,
+      recentSlot: 1,
+    });
+    const extend = AddressLookupTableProgram.extendLookupTable({
+      lookupTable: table,
+      authority: BUYER,
+      payer: BUYER,
+      addresses: Array.from({ length: LOOKUP_TABLE_EXTEND_CHUNK }, () => key()),
+    });
+    expect(fitsInTransaction(BUYER, [create, extend])).to.equal(true);
+  });
+});
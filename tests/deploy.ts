@@ -0,0 +1,188 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { clusterForRpcUrl } from "../scripts/lib/config";
+import {
+  BPF_UPGRADEABLE_LOADER_ID,
+  WorkspacePaths,
+  checkUpgradeAuthority,
+  declaredProgramId,
+  fetchDeployedProgram,
+  workspaceProgramId,
+  workspaceProgramIds,
+} from "../scripts/lib/deploy";
+import { fakeRpc, key } from "./_fixtures";
+
+// The loader's Program account: tag 2, then the ProgramData address.
+function programAccount(programData: PublicKey): Buffer {
+  const data = Buffer.alloc(36);
+  data.writeUInt32LE(2, 0);
+  programData.toBuffer().copy(data, 4);
+  return data;
+}
+
+// ProgramData: tag 3, deploy slot, optional upgrade authority, then the ELF.
+function programDataAccount(slot: bigint, authority: PublicKey | null) {
+  const data = Buffer.alloc(45 + 16);
+  data.writeUInt32LE(3, 0);
+  data.writeBigUInt64LE(slot, 4);
+  if (authority) {
+    data[12] = 1;
+    authority.toBuffer().copy(data, 13);
+  }
+  return data;
+}
+
+describe("deploy", () => {
+  describe("workspace program ID", () => {
+    let dir: string;
+    let paths: WorkspacePaths;
+    const program = Keypair.generate();
+    const id = program.publicKey.toBase58();
+
+    function write(file: string, content: string) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-"));
+      paths = {
+        anchorToml: path.join(dir, "Anchor.toml"),
+        programSource: path.join(dir, "programs/vault-escrow/src/lib.rs"),
+        programKeypair: path.join(
+          dir,
+          "target/deploy/vault_escrow-keypair.json"
+        ),
+        deployments: path.join(dir, "deployments"),
+      };
+      write(
+        paths.anchorToml,
+        `[programs.localnet]\nvault_escrow = "${id}"\n\n[provider]\ncluster = "localnet"\n`
+      );
+      write(
+        paths.programSource,
+        `use anchor_lang::prelude::*;\n\ndeclare_id!("${id}");\n`
+      );
+      write(
+        paths.programKeypair,
+        JSON.stringify(Array.from(program.secretKey))
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("reads declare_id!", () => {
+      expect(declaredProgramId(`declare_id!( "${id}" );`)).to.equal(id);
+      expect(declaredProgramId("pub mod vault_escrow {}")).to.equal(null);
+    });
+
+    it("agrees when every source names the same program", () => {
+      write(
+        path.join(paths.deployments, "localnet.json"),
+        JSON.stringify({ cluster: "localnet", programId: id })
+      );
+      expect(
+        workspaceProgramIds("localnet", paths).map((s) => s.programId)
+      ).to.deep.equal([id, id, id, id]);
+      expect(workspaceProgramId("localnet", paths).toBase58()).to.equal(id);
+    });
+
+    it("lists every source when they disagree", () => {
+      const other = key().toBase58();
+      write(paths.programSource, `declare_id!("${other}");`);
+      expect(() => workspaceProgramId("localnet", paths)).to.throw(
+        new RegExp(`declare_id! in .*: ${other}`)
+      );
+    });
+
+    it("maps a provider endpoint to its cluster", () => {
+      expect(clusterForRpcUrl("http://localhost:8899")).to.equal("localnet");
+      expect(clusterForRpcUrl("https://api.devnet.solana.com")).to.equal(
+        "devnet"
+      );
+      const custom = "https://rpc.example.com/abc";
+      expect(clusterForRpcUrl(custom)).to.equal(custom);
+    });
+
+    it("needs an ID for the cluster", () => {
+      fs.rmSync(paths.programSource);
+      fs.rmSync(paths.programKeypair);
+      expect(() => workspaceProgramId("devnet", paths)).to.throw(
+        /No program ID for devnet/
+      );
+    });
+  });
+
+  describe("on-chain program", () => {
+    const programId = key();
+    const programData = key();
+    const authority = key();
+
+    function deployed(
+      authorityKey: PublicKey | null,
+      extra: { owner?: PublicKey; executable?: boolean } = {}
+    ) {
+      return fakeRpc(programId, [
+        {
+          pubkey: programId,
+          data: programAccount(programData),
+          owner: BPF_UPGRADEABLE_LOADER_ID,
+          executable: true,
+          ...extra,
+        },
+        {
+          pubkey: programData,
+          data: programDataAccount(1_234n, authorityKey),
+          owner: BPF_UPGRADEABLE_LOADER_ID,
+        },
+      ]).reader;
+    }
+
+    it("reads the ProgramData account and upgrade authority", async () => {
+      const program = await fetchDeployedProgram(
+        deployed(authority),
+        programId
+      );
+      expect(program.programData.equals(programData)).to.equal(true);
+      expect(program.slot).to.equal(1_234n);
+      expect(program.upgradeAuthority?.equals(authority)).to.equal(true);
+      expect(() => checkUpgradeAuthority(program, authority)).to.not.throw();
+      expect(() => checkUpgradeAuthority(program, null)).to.throw(
+        /expected none \(immutable\)/
+      );
+    });
+
+    it("accepts an immutable program only when expected", async () => {
+      const program = await fetchDeployedProgram(deployed(null), programId);
+      expect(program.upgradeAuthority).to.equal(null);
+      expect(() => checkUpgradeAuthority(program, null)).to.not.throw();
+      expect(() => checkUpgradeAuthority(program, authority)).to.throw(
+        /has upgrade authority none \(immutable\)/
+      );
+    });
+
+    it("refuses a missing program or another kind of account", async () => {
+      const empty = fakeRpc(programId, []).reader;
+      let error = await fetchDeployedProgram(empty, programId).catch((e) => e);
+      expect(error.message).to.match(/is not deployed/);
+
+      error = await fetchDeployedProgram(
+        deployed(authority, { owner: key() }),
+        programId
+      ).catch((e) => e);
+      expect(error.message).to.match(/not a program of the upgradeable/);
+
+      error = await fetchDeployedProgram(
+        deployed(authority, { executable: false }),
+        programId
+      ).catch((e) => e);
+      expect(error.message).to.match(/is not executable/);
+    });
+  });
+});
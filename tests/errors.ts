@@ -0,0 +1,139 @@
+import { Keypair, SendTransactionError } from "@solana/web3.js";
+import { expect } from "chai";
+
+import {
+  VaultEscrowError,
+  isVaultEscrowError,
+  parseTransactionError,
+  toVaultEscrowError,
+} from "../scripts/lib/errors";
+
+const PROGRAM_ID = Keypair.generate().publicKey;
+const ID = PROGRAM_ID.toBase58();
+
+describe("errors", () => {
+  it("maps an EscrowError raised by require! to its variant", () => {
+    const logs = [
+      `Program ${ID} invoke [1]`,
+      "Program log: Instruction: ReleaseToSeller",
+      "Program log: AnchorError thrown in programs/vault-escrow/src/lib.rs:64. Error Code: DeadlinePassed. Error Number: 6001. Error Message: Escrow deadline has already passed.",
+      `Program ${ID} consumed 6543 of 200000 compute units`,
+      `Program ${ID} failed: custom program error: 0x1771`,
+    ];
+    const err = parseTransactionError(
+      new Error("Error processing Instruction 0: custom program error: 0x1771"),
+      PROGRAM_ID,
+      logs
+    );
+    expect(err).to.be.instanceOf(VaultEscrowError);
+    expect(err!.code).to.equal("DeadlinePassed");
+    expect(err!.details.errorNumber).to.equal(6001);
+    expect(err!.details.program).to.equal("vault-escrow");
+    expect(err!.hint).to.match(/escrow refund/);
+  });
+
+  it("names the account behind an Anchor constraint failure", () => {
+    const logs = [
+      `Program ${ID} invoke [1]`,
+      "Program log: AnchorError caused by account: escrow. Error Code: ConstraintRaw. Error Number: 2003. Error Message: A raw constraint was violated.",
+      `Program ${ID} failed: custom program error: 0x7d3`,
+    ];
+    const err = parseTransactionError("failed", PROGRAM_ID, logs)!;
+    expect(err.code).to.equal("ConstraintRaw");
+    expect(err.details.account).to.equal("escrow");
+    expect(err.message).to.contain("escrow");
+  });
+
+  it("recognizes seeds and associated token constraint failures", () => {
+    const seeds = parseTransactionError("failed", PROGRAM_ID, [
+      "Program log: AnchorError caused by account: vault. Error Code: ConstraintSeeds. Error Number: 2006. Error Message: A seeds constraint was violated.",
+    ])!;
+    expect(seeds.code).to.equal("ConstraintSeeds");
+
+    const ata = parseTransactionError("failed", PROGRAM_ID, [
+      "Program log: AnchorError caused by account: seller_ata. Error Code: ConstraintTokenOwner. Error Number: 2015. Error Message: A token owner constraint was violated.",
+    ])!;
+    expect(ata.code).to.equal("ConstraintTokenOwner");
+  });
+
+  it("attributes custom error 0 to the System program as account already in use", () => {
+    const logs = [
+      `Program ${ID} invoke [1]`,
+      "Program 11111111111111111111111111111111 invoke [2]",
+      "Allocate: account Address { address: 9xQe, base: None } already in use",
+      "Program 11111111111111111111111111111111 failed: custom program error: 0x0",
+      `Program ${ID} failed: custom program error: 0x0`,
+    ];
+    const err = parseTransactionError("failed", PROGRAM_ID, logs)!;
+    expect(err.code).to.equal("AccountAlreadyInUse");
+    expect(err.details.program).to.equal("system");
+  });
+
+  it("attributes custom error 1 to the Token program as insufficient tokens", () => {
+    const logs = [
+      "Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA invoke [2]",
+      "Program log: Error: insufficient funds",
+      "Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA failed: custom program error: 0x1",
+    ];
+    const err = parseTransactionError("failed", PROGRAM_ID, logs)!;
+    expect(err.code).to.equal("TokenInsufficientFunds");
+    expect(err.details.program).to.equal("token");
+  });
+
+  it("reads Token-2022 failures with the SPL Token error numbering", () => {
+    const logs = [
+      "Program TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb invoke [2]",
+      "Program log: Error: insufficient funds",
+      "Program TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb failed: custom program error: 0x1",
+    ];
+    const err = parseTransactionError("failed", PROGRAM_ID, logs)!;
+    expect(err.code).to.equal("TokenInsufficientFunds");
+    expect(err.details.program).to.equal("token-2022");
+  });
+
+  it("reads logs off a web3.js SendTransactionError", () => {
+    const sendError = new SendTransactionError({
+      action: "send",
+      signature: "",
+      transactionMessage:
+        "Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1772",
+      logs: [
+        "Program log: AnchorError thrown in programs/vault-escrow/src/lib.rs:117. Error Code: TooEarly. Error Number: 6002. Error Message: Too early to refund buyer.",
+      ],
+    });
+    expect(toVaultEscrowError(sendError, PROGRAM_ID).code).to.equal("TooEarly");
+  });
+
+  it("falls back to the confirmation status when there are no logs", () => {
+    const err = parseTransactionError(
+      new Error(
+        'Transaction 5x failed ({"err":{"InstructionError":[0,{"Custom":6000}]}})'
+      ),
+      PROGRAM_ID
+    )!;
+    expect(err.code).to.equal("AlreadyReleased");
+  });
+
+  it("recognizes fee payer, program and blockhash problems", () => {
+    const code = (message: string) =>
+      parseTransactionError(new Error(message), PROGRAM_ID)?.code;
+    expect(
+      code(
+        "Simulation failed: Attempt to debit an account but found no record of a prior credit."
+      )
+    ).to.equal("InsufficientFundsForFee");
+    expect(code("Attempt to load a program that does not exist")).to.equal(
+      "ProgramNotFound"
+    );
+    expect(code("Blockhash not found")).to.equal("BlockhashExpired");
+  });
+
+  it("returns null for unrelated errors and wraps them as Unknown", () => {
+    expect(
+      parseTransactionError(new Error("ECONNREFUSED"), PROGRAM_ID)
+    ).to.equal(null);
+    const wrapped = toVaultEscrowError(new Error("ECONNREFUSED"), PROGRAM_ID);
+    expect(isVaultEscrowError(wrapped, "Unknown")).to.equal(true);
+    expect(wrapped.message).to.equal("ECONNREFUSED");
+  });
+});
@@ -0,0 +1,526 @@
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { createTransferCheckedInstruction } from "@solana/spl-token";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  VAULT_ESCROW_PROGRAM_ID,
+  encodeArbiterResolveIx,
+  encodeInitEscrowIx,
+  encodeLockTokensIx,
+  encodeRefundBuyerIx,
+  encodeReleaseMilestoneIx,
+  encodeReleaseToSellerIx,
+  encodeWithdrawIx,
+} from "../scripts/lib/client";
+import {
+  VaultEscrowEvent,
+  eventJson,
+  eventsFromTransaction,
+} from "../scripts/lib/events";
+import { fileStore } from "../scripts/lib/store";
+import { decodeInstruction } from "../scripts/lib/transactions";
+import {
+  WatchListener,
+  WatchRecord,
+  WatchSource,
+  WatchStore,
+  Watcher,
+} from "../scripts/lib/watcher";
+import { FakeInnerInstructions, confirmedTransaction, key } from "./_fixtures";
+
+const PROGRAM = VAULT_ESCROW_PROGRAM_ID;
+const MINT = key();
+const BUYER = key();
+const SELLER = key();
+const VAULT = key();
+const VAULT_ATA = key();
+const BUYER_ATA = key();
+const SELLER_ATA = key();
+const ESCROW = key();
+
+interface Balance {
+  account: PublicKey;
+  before: bigint;
+  after: bigint;
+}
+
+// confirmedTransaction paid by the buyer, with balances in MINT.
+function confirmed(
+  instructions: TransactionInstruction[],
+  balances: Balance[] = [],
+  err: unknown = null,
+  inner?: FakeInnerInstructions
+): VersionedTransactionResponse {
+  return confirmedTransaction(
+    BUYER,
+    instructions,
+    balances.map((b) => ({ ...b, mint: MINT, owner: BUYER })),
+    { err, inner }
+  );
+}
+
+// The program's CPI moving `amount` out of the vault ATA.
+const payout = (destination: PublicKey, amount: bigint) =>
+  createTransferCheckedInstruction(
+    VAULT_ATA,
+    MINT,
+    destination,
+    VAULT,
+    amount,
+    6
+  );
+
+const lock = (amount: bigint) =>
+  encodeLockTokensIx({
+    programId: PROGRAM,
+    user: BUYER,
+    mint: MINT,
+    vault: VAULT,
+    vaultAta: VAULT_ATA,
+    userAta: BUYER_ATA,
+    amount,
+  });
+
+const releaseAccounts = {
+  programId: PROGRAM,
+  buyer: BUYER,
+  seller: SELLER,
+  mint: MINT,
+  escrow: ESCROW,
+  vault: VAULT,
+  vaultAta: VAULT_ATA,
+  sellerAta: SELLER_ATA,
+};
+
+describe("events", () => {
+  it("decodes init_escrow arguments and names its accounts", () => {
+    const arbiter = key();
+    const ix = encodeInitEscrowIx({
+      programId: PROGRAM,
+      buyer: BUYER,
+      seller: SELLER,
+      mint: MINT,
+      vault: VAULT,
+      escrow: ESCROW,
+      escrowId: 3n,
+      amount: 1_000n,
+      deadlineUnixTs: 1_800_000_600n,
+      arbiter,
+      milestones: [
+        { amount: 400n, deadlineUnixTs: 1_800_000_300n },
+        { amount: 600n },
+      ],
+    });
+    const decoded = decodeInstruction(
+      ix.data,
+      ix.keys.map((k) => k.pubkey)
+    )!;
+    expect(decoded.name).to.equal("init_escrow");
+    expect(decoded.accounts.escrow.equals(ESCROW)).to.equal(true);
+    expect(decoded.accounts.seller.equals(SELLER)).to.equal(true);
+    expect(decoded.args).to.deep.equal({
+      escrowId: 3n,
+      amount: 1_000n,
+      deadlineUnixTs: 1_800_000_600n,
+      arbiter,
+      milestones: [
+        { amount: 400n, deadlineUnixTs: 1_800_000_300n },
+        { amount: 600n, deadlineUnixTs: null },
+      ],
+    });
+  });
+
+  it("ignores data that is none of the program's instructions", () => {
+    expect(decodeInstruction(Buffer.alloc(16), [])).to.equal(null);
+  });
+
+  it("reports the locked amount the vault received", () => {
+    // 1% transfer fee: the wallet sends 100, the vault gets 99
+    const tx = confirmed(
+      [ComputeBudgetProgram.setComputeUnitLimit({ units: 50_000 }), lock(100n)],
+      [{ account: VAULT_ATA, before: 500n, after: 599n }]
+    );
+    const [event] = eventsFromTransaction("sig", tx, PROGRAM);
+    expect(event).to.deep.include({
+      type: "TokensLocked",
+      id: "sig:1",
+      signature: "sig",
+      slot: 42,
+      amount: 99n,
+    });
+    expect(event.blockTime?.toISOString()).to.equal(
+      new Date(1_800_000_000_000).toISOString()
+    );
+    expect((event as { user: PublicKey }).user.equals(BUYER)).to.equal(true);
+  });
+
+  it("turns releases and refunds into Released and Refunded", () => {
+    const milestone = encodeReleaseMilestoneIx({
+      ...releaseAccounts,
+      index: 1,
+    });
+    const release = encodeReleaseToSellerIx(releaseAccounts);
+    const refund = encodeRefundBuyerIx({
+      programId: PROGRAM,
+      buyer: BUYER,
+      mint: MINT,
+      escrow: ESCROW,
+      vault: VAULT,
+      vaultAta: VAULT_ATA,
+      buyerAta: BUYER_ATA,
+    });
+    // 600 out of the vault, into the seller's or the buyer's ATA
+    const balances = (to: PublicKey) => [
+      { account: VAULT_ATA, before: 1_000n, after: 400n },
+      { account: to, before: 0n, after: 600n },
+    ];
+
+    const released = eventsFromTransaction(
+      "a",
+      confirmed([milestone], balances(SELLER_ATA)),
+      PROGRAM
+    );
+    expect(released).to.have.length(1);
+    expect(released[0]).to.deep.include({
+      type: "Released",
+      amount: 600n,
+      milestone: 2,
+    });
+    const [full] = eventsFromTransaction(
+      "b",
+      confirmed([release], balances(SELLER_ATA)),
+      PROGRAM
+    );
+    expect(full).to.deep.include({ type: "Released", milestone: null });
+    const [refunded] = eventsFromTransaction(
+      "c",
+      confirmed([refund], balances(BUYER_ATA)),
+      PROGRAM
+    );
+    expect(refunded).to.deep.include({ type: "Refunded", amount: 600n });
+    expect((refunded as { escrow: PublicKey }).escrow.equals(ESCROW)).to.equal(
+      true
+    );
+  });
+
+  it("reports each release's own transfer when one transaction has several", () => {
+    const first = encodeReleaseMilestoneIx({ ...releaseAccounts, index: 0 });
+    const second = encodeReleaseMilestoneIx({ ...releaseAccounts, index: 1 });
+    const tx = confirmed(
+      [first, second],
+      [
+        { account: VAULT_ATA, before: 1_000n, after: 0n },
+        { account: SELLER_ATA, before: 0n, after: 1_000n },
+      ],
+      null,
+      { 0: [payout(SELLER_ATA, 400n)], 1: [payout(SELLER_ATA, 600n)] }
+    );
+    const events = eventsFromTransaction("sig", tx, PROGRAM);
+    expect(
+      events.map((e) => [
+        e.id,
+        e.amount,
+        (e as { milestone: number }).milestone,
+      ])
+    ).to.deep.equal([
+      ["sig:0", 400n, 1],
+      ["sig:1", 600n, 2],
+    ]);
+  });
+
+  it("turns an arbiter's split into Released and Refunded", () => {
+    const arbiter = key();
+    const resolve = encodeArbiterResolveIx({
+      ...releaseAccounts,
+      arbiter,
+      buyerAta: BUYER_ATA,
+      sellerAmount: 700n,
+    });
+    const tx = confirmed(
+      [resolve],
+      [
+        { account: VAULT_ATA, before: 1_000n, after: 0n },
+        { account: SELLER_ATA, before: 0n, after: 700n },
+        { account: BUYER_ATA, before: 50n, after: 350n },
+      ],
+      null,
+      { 0: [payout(SELLER_ATA, 700n), payout(BUYER_ATA, 300n)] }
+    );
+    const [released, refunded, ...rest] = eventsFromTransaction(
+      "sig",
+      tx,
+      PROGRAM
+    );
+    expect(rest).to.deep.equal([]);
+    expect(released).to.deep.include({
+      type: "Released",
+      id: "sig:0",
+      amount: 700n,
+      milestone: null,
+    });
+    expect(refunded).to.deep.include({
+      type: "Refunded",
+      id: "sig:0:1",
+      amount: 300n,
+    });
+    for (const event of [released, refunded]) {
+      const { arbiter: by } = event as { arbiter: PublicKey };
+      expect(by.equals(arbiter)).to.equal(true);
+    }
+
+    // a ruling wholly for the seller, read from balances alone
+    const [only, ...none] = eventsFromTransaction(
+      "all",
+      confirmed(
+        [resolve],
+        [
+          { account: VAULT_ATA, before: 1_000n, after: 0n },
+          { account: SELLER_ATA, before: 0n, after: 1_000n },
+        ]
+      ),
+      PROGRAM
+    );
+    expect(none).to.deep.equal([]);
+    expect(only).to.deep.include({ type: "Released", amount: 1_000n });
+  });
+
+  it("turns a vault withdrawal into Withdrawn", () => {
+    const authorityAta = key();
+    const withdraw = encodeWithdrawIx({
+      programId: PROGRAM,
+      authority: BUYER,
+      mint: MINT,
+      vault: VAULT,
+      vaultAta: VAULT_ATA,
+      authorityAta,
+      amount: 250n,
+    });
+    const [event] = eventsFromTransaction(
+      "sig",
+      confirmed(
+        [withdraw],
+        [{ account: VAULT_ATA, before: 1_000n, after: 750n }]
+      ),
+      PROGRAM
+    );
+    expect(event).to.deep.include({ type: "Withdrawn", amount: 250n });
+    const { authority } = event as { authority: PublicKey };
+    expect(authority.equals(BUYER)).to.equal(true);
+  });
+
+  it("has no events for a failed transaction or another program", () => {
+    const failed = confirmed([lock(100n)], [], { InstructionError: [0, 1] });
+    expect(eventsFromTransaction("sig", failed, PROGRAM)).to.deep.equal([]);
+    expect(
+      eventsFromTransaction("sig", confirmed([lock(100n)]), key())
+    ).to.deep.equal([]);
+  });
+
+  it("serialises events with base58 keys and decimal amounts", () => {
+    const [event] = eventsFromTransaction(
+      "sig",
+      confirmed(
+        [lock(100n)],
+        [{ account: VAULT_ATA, before: 0n, after: 100n }]
+      ),
+      PROGRAM
+    );
+    const json = JSON.parse(eventJson(event));
+    expect(json).to.deep.include({
+      type: "TokensLocked",
+      amount: "100",
+      vault: VAULT.toBase58(),
+      mint: MINT.toBase58(),
+    });
+  });
+});
+
+// An in-memory program history; `transactions` holds what getTransaction
+// would return, null for one the RPC doesn't have yet.
+class FakeSource implements WatchSource {
+  signatures: string[] = [];
+  transactions = new Map<string, VersionedTransactionResponse | null>();
+  listener: WatchListener | null = null;
+
+  add(signature: string, amount: bigint, available = true) {
+    this.signatures.push(signature);
+    this.transactions.set(
+      signature,
+      available
+        ? confirmed(
+            [lock(amount)],
+            [{ account: VAULT_ATA, before: 0n, after: amount }]
+          )
+        : null
+    );
+  }
+
+  async latestSignature() {
+    return this.signatures[this.signatures.length - 1] ?? null;
+  }
+
+  async signaturesAfter(cursor: string | null) {
+    return this.signatures.slice(this.signatures.indexOf(cursor!) + 1);
+  }
+
+  async transaction(signature: string) {
+    return this.transactions.get(signature) ?? null;
+  }
+
+  async subscribe(listener: WatchListener) {
+    this.listener = listener;
+    return async () => {
+      this.listener = null;
+    };
+  }
+}
+
+function tempStore(): WatchStore {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "watch-"));
+  return fileStore(path.join(dir, "state.json"));
+}
+
+describe("watcher", () => {
+  let source: FakeSource;
+  let store: WatchStore;
+  let events: VaultEscrowEvent[];
+  let records: WatchRecord[];
+
+  function watcher(since?: string) {
+    return new Watcher(
+      source,
+      store,
+      { programId: PROGRAM, since },
+      async (batch) => {
+        events.push(...batch);
+      },
+      (r) => records.push(r)
+    );
+  }
+
+  beforeEach(() => {
+    source = new FakeSource();
+    store = tempStore();
+    events = [];
+    records = [];
+  });
+
+  it("starts at the newest transaction and backfills what follows", async () => {
+    source.add("old", 1n);
+    const w = watcher();
+    await w.init();
+    await w.backfill();
+    expect(events).to.deep.equal([]);
+
+    source.add("s1", 10n);
+    source.add("s2", 20n);
+    await w.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s1", "s2"]);
+    expect(w.cursor()).to.equal("s2");
+  });
+
+  it("replays from --since on a first run", async () => {
+    source.add("s1", 10n);
+    source.add("s2", 20n);
+    const w = watcher("s1");
+    await w.init();
+    await w.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s2"]);
+  });
+
+  it("resumes from the saved cursor after a restart", async () => {
+    source.add("s1", 10n);
+    const first = watcher();
+    await first.init();
+    source.add("s2", 20n);
+    source.add("s3", 30n);
+
+    const second = watcher();
+    await second.init();
+    await second.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s2", "s3"]);
+  });
+
+  it("does not emit a live transaction again when the backfill reaches it", async () => {
+    const w = watcher();
+    await w.init();
+    source.add("s1", 10n);
+    source.add("s2", 20n);
+    await w.live("s2");
+    await w.live("s2");
+    await w.backfill();
+    await w.live("s1");
+    expect(events.map((e) => e.signature)).to.deep.equal(["s2", "s1"]);
+    expect(w.cursor()).to.equal("s2");
+  });
+
+  it("stops the cursor before a transaction the RPC can't return yet", async () => {
+    const w = watcher();
+    await w.init();
+    source.add("s1", 10n);
+    source.add("s2", 20n, false);
+    source.add("s3", 30n);
+    await w.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s1"]);
+    expect(w.cursor()).to.equal("s1");
+
+    source.transactions.set(
+      "s2",
+      confirmed([lock(20n)], [{ account: VAULT_ATA, before: 0n, after: 20n }])
+    );
+    await w.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s1", "s2", "s3"]);
+  });
+
+  it("leaves a transaction whose delivery failed for the next backfill", async () => {
+    let fail = true;
+    const w = new Watcher(
+      source,
+      store,
+      { programId: PROGRAM },
+      async (batch) => {
+        if (fail) throw new Error("disk full");
+        events.push(...batch);
+      },
+      (r) => records.push(r)
+    );
+    await w.init();
+    source.add("s1", 10n);
+    await w.backfill().catch(() => undefined);
+    expect(w.cursor()).to.equal(null);
+    fail = false;
+    await w.backfill();
+    expect(events.map((e) => e.signature)).to.deep.equal(["s1"]);
+  });
+
+  it("backfills on account changes while running", async () => {
+    const w = watcher();
+    const controller = new AbortController();
+    const running = w.run(60_000, controller.signal);
+    while (!source.listener) await new Promise((r) => setImmediate(r));
+    source.add("s1", 10n);
+    source.listener.changed();
+    while (events.length === 0) await new Promise((r) => setImmediate(r));
+    controller.abort();
+    await running;
+    expect(events.map((e) => e.signature)).to.deep.equal(["s1"]);
+    expect(source.listener).to.equal(null);
+  });
+
+  it("refuses a state file written for another program", async () => {
+    store.save({ programId: key().toBase58(), cursor: null, seen: [] });
+    let error: Error | null = null;
+    await watcher()
+      .init()
+      .catch((e) => (error = e));
+    expect(error!.message).to.match(/belongs to program/);
+  });
+});
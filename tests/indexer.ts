@@ -0,0 +1,194 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+
+import { EscrowAccount, decodeEscrow } from "../scripts/lib/accounts";
+import {
+  escrowState,
+  listEscrows,
+  listLegacyEscrows,
+} from "../scripts/lib/indexer";
+import { encodeEscrow, fakeRpc, key } from "./_fixtures";
+
+const PROGRAM_ID = Keypair.generate().publicKey;
+const NOW = 1_800_000_000n;
+
+describe("indexer", () => {
+  const vault = key();
+  const buyer = key();
+  const mint = key();
+  const sellerA = key();
+  const sellerB = key();
+
+  function escrow(
+    seller: PublicKey,
+    deadlineUnixTs: bigint,
+    released = false
+  ): EscrowAccount {
+    return {
+      vault,
+      buyer,
+      seller,
+      tokenMint: mint,
+      amountLocked: 10n,
+      deadlineUnixTs,
+      released,
+      bump: 255,
+      disputed: false,
+      escrowId: 0n,
+      arbiter: null,
+      amountReleased: 0n,
+      milestones: [],
+    };
+  }
+
+  const open = escrow(sellerA, NOW + 60n);
+  const expired = escrow(sellerA, NOW - 60n);
+  const released = escrow(sellerB, NOW + 30n, true);
+  const accounts = [open, expired, released].map((e) => ({
+    pubkey: key(),
+    data: encodeEscrow(e),
+  }));
+  // a Vault-sized account must never show up
+  accounts.push({ pubkey: key(), data: Buffer.alloc(73) });
+
+  it("classifies escrows against cluster time", () => {
+    expect(escrowState(open, NOW)).to.equal("open");
+    expect(escrowState(escrow(sellerA, NOW), NOW)).to.equal("open");
+    expect(escrowState(expired, NOW)).to.equal("expired");
+    expect(escrowState(released, NOW - 1000n)).to.equal("released");
+  });
+
+  it("lists every escrow, soonest deadline first", async () => {
+    const { reader } = fakeRpc(PROGRAM_ID, accounts);
+    const all = await listEscrows(reader, PROGRAM_ID, {}, NOW);
+    expect(all.map((e) => e.state)).to.deep.equal([
+      "expired",
+      "released",
+      "open",
+    ]);
+    expect(all[0].address.equals(accounts[1].pubkey)).to.equal(true);
+  });
+
+  it("filters by seller on the RPC side", async () => {
+    const { reader, calls } = fakeRpc(PROGRAM_ID, accounts);
+    const found = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { seller: sellerB, buyer, vault, mint },
+      NOW
+    );
+    expect(found).to.have.length(1);
+    expect(found[0].account.seller.equals(sellerB)).to.equal(true);
+    // dataSize + discriminator + four pubkeys
+    expect(calls[0]).to.have.length(6);
+  });
+
+  it("narrows open and expired with the released flag and the clock", async () => {
+    const { reader, calls } = fakeRpc(PROGRAM_ID, accounts);
+    const outstanding = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { states: ["open", "expired"] },
+      NOW
+    );
+    expect(outstanding.map((e) => e.state)).to.deep.equal(["expired", "open"]);
+
+    const expiredOnly = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { seller: sellerA, states: ["expired"] },
+      NOW
+    );
+    expect(expiredOnly).to.have.length(1);
+    expect(expiredOnly[0].account.deadlineUnixTs).to.equal(NOW - 60n);
+    expect(calls[1]).to.deep.include({
+      memcmp: { offset: 152, encoding: "base64", bytes: "AA==" },
+    });
+  });
+
+  it("does not filter on released when asked for every state", async () => {
+    const { reader, calls } = fakeRpc(PROGRAM_ID, accounts);
+    const all = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { states: ["open", "expired", "released"] },
+      NOW
+    );
+    expect(all).to.have.length(3);
+    expect(calls[0]).to.have.length(2);
+  });
+
+  it("keeps disputed escrows apart from open and expired ones", async () => {
+    const disputed = { ...expired, disputed: true, arbiter: key() };
+    expect(escrowState(disputed, NOW)).to.equal("disputed");
+
+    const { reader, calls } = fakeRpc(PROGRAM_ID, [
+      ...accounts,
+      { pubkey: key(), data: encodeEscrow(disputed) },
+    ]);
+    const outstanding = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { states: ["open", "expired"] },
+      NOW
+    );
+    expect(outstanding.map((e) => e.state)).to.deep.equal(["expired", "open"]);
+    expect(calls[0]).to.deep.include({
+      memcmp: { offset: 154, encoding: "base64", bytes: "AA==" },
+    });
+
+    const found = await listEscrows(
+      reader,
+      PROGRAM_ID,
+      { states: ["disputed"] },
+      NOW
+    );
+    expect(found).to.have.length(1);
+    expect(found[0].account.arbiter?.equals(disputed.arbiter)).to.equal(true);
+  });
+
+  it("finds escrows from before escrow IDs in each older layout", async () => {
+    // this layout without escrow_id, cut to the size of each older build
+    const legacy = (e: EscrowAccount, size: number) => {
+      const data = encodeEscrow(e);
+      return Buffer.concat([
+        data.subarray(0, 155),
+        data.subarray(163),
+      ]).subarray(0, size);
+    };
+    const milestones = {
+      ...escrow(sellerB, NOW + 90n),
+      disputed: true,
+      arbiter: key(),
+      amountReleased: 4n,
+      milestones: [
+        { amount: 4n, deadlineUnixTs: null, released: true },
+        { amount: 6n, deadlineUnixTs: NOW, released: false },
+      ],
+    };
+    const old = [
+      { pubkey: key(), data: legacy(open, 154) },
+      { pubkey: key(), data: legacy({ ...expired, arbiter: key() }, 188) },
+      { pubkey: key(), data: legacy(milestones, 344) },
+    ];
+    const { reader } = fakeRpc(PROGRAM_ID, [...accounts, ...old]);
+
+    const found = await listLegacyEscrows(reader, PROGRAM_ID, { buyer });
+    expect(found.map((e) => e.address)).to.deep.equal(old.map((a) => a.pubkey));
+    expect(found[0].account).to.deep.include({
+      amountLocked: 10n,
+      disputed: false,
+      arbiter: null,
+      amountReleased: 0n,
+    });
+    expect(found[1].account.arbiter).to.not.equal(null);
+    const { escrowId, ...rest } = milestones;
+    expect(escrowId).to.equal(0n);
+    expect(found[2].account).to.deep.equal(rest);
+
+    expect(
+      await listLegacyEscrows(reader, PROGRAM_ID, { seller: sellerB })
+    ).to.have.length(1);
+    expect(() => decodeEscrow(old[0].data)).to.throw(/escrow migrate/);
+  });
+});
@@ -0,0 +1,348 @@
+import { PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { EscrowAccount, decodeEscrow } from "../scripts/lib/accounts";
+import { VaultEscrowError, parseTransactionError } from "../scripts/lib/errors";
+import { IndexedEscrow, escrowState } from "../scripts/lib/indexer";
+import {
+  Keeper,
+  KeeperChain,
+  KeeperEvent,
+  KeeperStore,
+} from "../scripts/lib/keeper";
+import { fileStore } from "../scripts/lib/store";
+import { Harness, programBuilt } from "./_harness";
+import { key } from "./_fixtures";
+
+const NOW = 1_800_000_000n;
+const MINUTE = 60n;
+const BUYER = key();
+
+// In-memory cluster: escrows disappear once refunded, like the real listing.
+class FakeChain implements KeeperChain {
+  time = NOW;
+  height = 100;
+  escrows: { address: PublicKey; account: EscrowAccount }[] = [];
+  // outcome of each send in order; "ok" when the queue is empty
+  outcomes: (string | Error)[] = [];
+  sent: PublicKey[] = [];
+
+  async now() {
+    return this.time;
+  }
+
+  async blockHeight() {
+    return this.height;
+  }
+
+  async unreleasedEscrows(now: bigint): Promise<IndexedEscrow[]> {
+    return this.escrows.map((e) => ({
+      ...e,
+      state: escrowState(e.account, now),
+    }));
+  }
+
+  async prepareRefund(escrow: IndexedEscrow) {
+    return {
+      lastValidBlockHeight: this.height + 150,
+      send: async () => {
+        this.sent.push(escrow.address);
+        const outcome = this.outcomes.shift() ?? "ok";
+        if (outcome instanceof Error) throw outcome;
+        this.escrows = this.escrows.filter(
+          (e) => !e.address.equals(escrow.address)
+        );
+        return `sig-${this.sent.length}`;
+      },
+    };
+  }
+
+  add(deadlineUnixTs: bigint): PublicKey {
+    const address = key();
+    this.escrows.push({
+      address,
+      account: {
+        vault: key(),
+        buyer: BUYER,
+        seller: key(),
+        tokenMint: key(),
+        amountLocked: 10n,
+        deadlineUnixTs,
+        released: false,
+        bump: 255,
+        disputed: false,
+        escrowId: 0n,
+        arbiter: null,
+        amountReleased: 0n,
+        milestones: [],
+      },
+    });
+    return address;
+  }
+}
+
+function tempStore(): { store: KeeperStore; file: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keeper-"));
+  const file = path.join(dir, "state.json");
+  return { store: fileStore(file), file };
+}
+
+describe("keeper", () => {
+  let chain: FakeChain;
+  let store: KeeperStore;
+  let events: KeeperEvent[];
+
+  function keeper(maxAttempts = 3) {
+    return new Keeper(
+      chain,
+      store,
+      {
+        buyer: BUYER,
+        warnBeforeSeconds: 30n * MINUTE,
+        maxAttempts,
+        retryAfterSeconds: 60n * MINUTE,
+      },
+      (e) => events.push(e)
+    );
+  }
+
+  const types = () => events.map((e) => e.type).filter((t) => t !== "tick");
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = tempStore().store;
+    events = [];
+  });
+
+  it("warns once inside the warning window, even across restarts", async () => {
+    chain.add(NOW + 10n * MINUTE);
+    chain.add(NOW + 2n * 60n * MINUTE);
+    await keeper().tick();
+    await keeper().tick();
+    expect(types()).to.deep.equal(["deadline-warning"]);
+  });
+
+  it("refunds an expired escrow once", async () => {
+    const escrow = chain.add(NOW - 1n);
+    const k = keeper();
+    await k.tick();
+    await k.tick();
+    expect(chain.sent).to.have.length(1);
+    expect(types()).to.deep.equal(["refund-sent"]);
+    expect(k.progress(escrow)!.outcome).to.equal("refunded");
+  });
+
+  it("does not refund exactly at the deadline", async () => {
+    chain.add(NOW);
+    await keeper().tick();
+    expect(chain.sent).to.have.length(0);
+  });
+
+  it("retries failures and gives up after max attempts", async () => {
+    chain.add(NOW - 1n);
+    chain.outcomes = [1, 2, 3].map(
+      () => new VaultEscrowError("BlockhashExpired", "expired")
+    );
+    const k = keeper(3);
+    for (let i = 0; i < 5; i++) await k.tick();
+    expect(chain.sent).to.have.length(3);
+    expect(types()).to.deep.equal([
+      "refund-failed",
+      "refund-failed",
+      "refund-failed",
+      "gave-up",
+    ]);
+  });
+
+  it("does not count a refund rejected as too early", async () => {
+    const escrow = chain.add(NOW - 1n);
+    chain.outcomes = [1, 2, 3].map(
+      () => new VaultEscrowError("TooEarly", "too early")
+    );
+    const k = keeper(2);
+    for (let i = 0; i < 4; i++) await k.tick();
+    expect(k.progress(escrow)!.outcome).to.equal("refunded");
+    expect(k.progress(escrow)!.attempts).to.equal(1);
+    expect(types()).to.deep.equal([
+      "refund-too-early",
+      "refund-too-early",
+      "refund-too-early",
+      "refund-sent",
+    ]);
+  });
+
+  it("tries a given-up escrow again after the retry delay", async () => {
+    const escrow = chain.add(NOW - 1n);
+    chain.outcomes = [new VaultEscrowError("BlockhashExpired", "expired")];
+    const k = keeper(1);
+    await k.tick();
+    chain.time += 30n * MINUTE;
+    await keeper(1).tick(); // restarted, still within the delay
+    expect(chain.sent).to.have.length(1);
+
+    chain.time += 30n * MINUTE;
+    const restarted = keeper(1);
+    await restarted.tick();
+    expect(chain.sent).to.have.length(2);
+    expect(restarted.progress(escrow)!.outcome).to.equal("refunded");
+    expect(types()).to.deep.equal([
+      "refund-failed",
+      "gave-up",
+      "retrying",
+      "refund-sent",
+    ]);
+  });
+
+  it("stops when the escrow was already released", async () => {
+    const escrow = chain.add(NOW - 1n);
+    chain.outcomes = [new VaultEscrowError("AlreadyReleased", "released")];
+    const k = keeper();
+    await k.tick();
+    expect(k.progress(escrow)!.outcome).to.equal("released");
+    expect(types()).to.deep.equal(["already-released"]);
+  });
+
+  it("waits out a refund that may still land before resubmitting", async () => {
+    chain.add(NOW - 1n);
+    // e.g. the connection dropped after the transaction went out
+    chain.outcomes = [new Error("socket hang up")];
+    await keeper().tick();
+
+    await keeper().tick(); // restarted, blockhash still valid
+    expect(chain.sent).to.have.length(1);
+
+    chain.height += 151;
+    await keeper().tick();
+    expect(chain.sent).to.have.length(2);
+    expect(types()).to.deep.equal([
+      "refund-failed",
+      "refund-in-flight",
+      "refund-sent",
+    ]);
+  });
+
+  it("refuses a state file written for another buyer", () => {
+    const { store: other, file } = tempStore();
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ buyer: key().toBase58(), escrows: {} })
+    );
+    expect(
+      () =>
+        new Keeper(
+          chain,
+          other,
+          {
+            buyer: BUYER,
+            warnBeforeSeconds: 0n,
+            maxAttempts: 1,
+            retryAfterSeconds: 0n,
+          },
+          () => undefined
+        )
+    ).to.throw(/belongs to buyer/);
+  });
+
+  describe("against the program", () => {
+    let h: Harness;
+
+    before(function () {
+      if (!programBuilt()) this.skip();
+    });
+
+    beforeEach(async () => {
+      h = await Harness.start();
+    });
+
+    // KeeperChain over the bank, for escrows the test knows about.
+    function bankChain(addresses: PublicKey[]): KeeperChain {
+      return {
+        now: () => h.now(),
+        blockHeight: async () => Number(await h.banks.getBlockHeight()),
+        async unreleasedEscrows(now) {
+          const escrows: IndexedEscrow[] = [];
+          for (const address of addresses) {
+            const account = decodeEscrow((await h.accountData(address))!);
+            if (account.released) continue;
+            escrows.push({
+              address,
+              account,
+              state: escrowState(account, now),
+            });
+          }
+          return escrows;
+        },
+        async prepareRefund({ account }) {
+          return {
+            lastValidBlockHeight: 0,
+            async send() {
+              const res = await h.send([
+                h.client.refundBuyer({
+                  buyer: account.buyer,
+                  seller: account.seller,
+                  mint: account.tokenMint,
+                }),
+              ]);
+              if (res.result) {
+                throw parseTransactionError(
+                  res.result,
+                  h.client.programId,
+                  res.meta?.logMessages
+                );
+              }
+              return "ok";
+            },
+          };
+        },
+      };
+    }
+
+    it("refunds the buyer once cluster time passes the deadline", async () => {
+      const setup = await h.setupVault({ minted: 1_000n, locked: 100n });
+      const seller = key();
+      const deadline = (await h.now()) + 3600n;
+      await h.sendOk([
+        h.client.createTokenAccount({
+          payer: setup.buyer,
+          owner: seller,
+          mint: setup.mint,
+        }),
+        h.client.initEscrow({
+          buyer: setup.buyer,
+          seller,
+          mint: setup.mint,
+          amount: 40n,
+          deadlineUnixTs: deadline,
+        }),
+      ]);
+      const { escrow } = h.client.escrowAddresses({
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+      });
+      const k = new Keeper(
+        bankChain([escrow]),
+        store,
+        {
+          buyer: setup.buyer,
+          warnBeforeSeconds: 0n,
+          maxAttempts: 3,
+          retryAfterSeconds: 0n,
+        },
+        (e) => events.push(e)
+      );
+
+      await k.tick();
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(100n);
+
+      await h.setUnixTime(deadline + 1n);
+      await k.tick();
+      expect(k.progress(escrow)!.outcome).to.equal("refunded");
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(60n);
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(940n);
+    });
+  });
+});
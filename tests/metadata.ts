@@ -0,0 +1,162 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import {
+  AuthorityType,
+  MintLayout,
+  createSetAuthorityInstruction,
+} from "@solana/spl-token";
+import { expect } from "chai";
+
+import {
+  TokenMetadataData,
+  decodeMetadata,
+  deriveMetadataPda,
+  encodeCreateMetadataIx,
+  encodeUpdateMetadataIx,
+} from "../scripts/lib/metadata";
+import { Harness, metadataProgramAvailable } from "./_harness";
+import { key } from "./_fixtures";
+
+const DATA: TokenMetadataData = {
+  name: "Goblin Gold",
+  symbol: "GGLD",
+  uri: "https://example.com/ggld.json",
+  sellerFeeBasisPoints: 0,
+  creators: null,
+};
+
+// A Metadata account as the program stores it: strings NUL-padded to their
+// maximum length, followed by fields the decoder doesn't read.
+function metadataAccount(updateAuthority: PublicKey, mint: PublicKey): Buffer {
+  const padded = (value: string, max: number) => {
+    const b = Buffer.alloc(4 + max);
+    b.writeUInt32LE(max);
+    b.write(value, 4, "utf8");
+    return b;
+  };
+  return Buffer.concat([
+    Buffer.from([4]),
+    updateAuthority.toBuffer(),
+    mint.toBuffer(),
+    padded(DATA.name, 32),
+    padded(DATA.symbol, 10),
+    padded(DATA.uri, 200),
+    Buffer.from([0, 0]), // seller fee
+    Buffer.from([0]), // creators: None
+    Buffer.from([0, 1]), // primary sale, mutable
+    Buffer.from([1, 254, 0, 0, 0]), // edition nonce, token standard, ...
+  ]);
+}
+
+describe("metadata", () => {
+  it("encodes CreateMetadataAccountV3 with the mint authority signing", () => {
+    const mint = key();
+    const payer = key();
+    const ix = encodeCreateMetadataIx({
+      mint,
+      mintAuthority: payer,
+      payer,
+      updateAuthority: payer,
+      data: DATA,
+      isMutable: true,
+    });
+    expect(ix.keys[0].pubkey.equals(deriveMetadataPda(mint)[0])).to.equal(true);
+    expect(ix.keys[2].isSigner).to.equal(true);
+
+    const data = ix.data;
+    expect(data[0]).to.equal(33);
+    expect(data.readUInt32LE(1)).to.equal(DATA.name.length);
+    expect(data.toString("utf8", 5, 5 + DATA.name.length)).to.equal(DATA.name);
+    // ... seller fee, creators None, collection None, uses None,
+    // is_mutable true, collection_details None
+    expect([...data.subarray(data.length - 7)]).to.deep.equal([
+      0, 0, 0, 0, 0, 1, 0,
+    ]);
+  });
+
+  it("encodes an update that only makes the metadata immutable", () => {
+    const ix = encodeUpdateMetadataIx({
+      mint: key(),
+      updateAuthority: key(),
+      isMutable: false,
+    });
+    expect([...ix.data]).to.deep.equal([15, 0, 0, 0, 1, 0]);
+    expect(ix.keys[1].isSigner).to.equal(true);
+  });
+
+  it("decodes a metadata account and strips the padding", () => {
+    const authority = key();
+    const mint = key();
+    const metadata = decodeMetadata(metadataAccount(authority, mint));
+    expect(metadata.updateAuthority.equals(authority)).to.equal(true);
+    expect(metadata.mint.equals(mint)).to.equal(true);
+    expect(metadata.data).to.deep.equal(DATA);
+    expect(metadata.isMutable).to.equal(true);
+  });
+
+  describe("against the metadata program", () => {
+    let h: Harness;
+
+    before(function () {
+      if (!metadataProgramAvailable()) this.skip();
+    });
+
+    beforeEach(async () => {
+      h = await Harness.startWithMetadata();
+    });
+
+    it("creates metadata next to a revoked mint authority and updates it once", async () => {
+      const mint = await h.createMint();
+      const payer = h.payer.publicKey;
+      const [address] = deriveMetadataPda(mint);
+
+      await h.sendOk([
+        encodeCreateMetadataIx({
+          mint,
+          mintAuthority: payer,
+          payer,
+          updateAuthority: payer,
+          data: DATA,
+          isMutable: true,
+        }),
+        createSetAuthorityInstruction(
+          mint,
+          payer,
+          AuthorityType.MintTokens,
+          null
+        ),
+      ]);
+      expect(
+        decodeMetadata((await h.accountData(address))!).data
+      ).to.deep.equal(DATA);
+      const mintState = MintLayout.decode((await h.accountData(mint))!);
+      expect(mintState.mintAuthorityOption).to.equal(0);
+
+      const renamed = { ...DATA, name: "Goblin Gold v2" };
+      await h.sendOk([
+        encodeUpdateMetadataIx({
+          mint,
+          updateAuthority: payer,
+          data: renamed,
+          isMutable: false,
+        }),
+      ]);
+      const updated = decodeMetadata((await h.accountData(address))!);
+      expect(updated.data.name).to.equal("Goblin Gold v2");
+      expect(updated.isMutable).to.equal(false);
+
+      const stranger = Keypair.generate();
+      await h.fund(stranger.publicKey);
+      const res = await h.send(
+        [
+          encodeUpdateMetadataIx({
+            mint,
+            updateAuthority: stranger.publicKey,
+            data: DATA,
+          }),
+        ],
+        [stranger]
+      );
+      expect(res.result).to.not.equal(null);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+
+import {
+  addSignature,
+  buildExportTransaction,
+  decodeTransaction,
+  durableNonceOf,
+  encodeTransaction,
+  fetchNonce,
+  missingSigners,
+  signerStatus,
+} from "../scripts/lib/offline";
+import { Harness } from "./_harness";
+
+describe("offline signing", () => {
+  let h: Harness;
+  // `treasury` plays the key that never leaves the air-gapped machine
+  const treasury = Keypair.generate();
+  const cosigner = Keypair.generate();
+  const recipient = Keypair.generate().publicKey;
+
+  before(async () => {
+    h = await Harness.startWithoutProgram();
+    await h.fund(treasury.publicKey, 2);
+    await h.fund(cosigner.publicKey, 2);
+  });
+
+  // A transaction both the treasury (fee payer) and the cosigner sign.
+  function transfers(): TransactionInstruction[] {
+    return [treasury, cosigner].map((from) =>
+      SystemProgram.transfer({
+        fromPubkey: from.publicKey,
+        toPubkey: recipient,
+        lamports: 1_000_000,
+      })
+    );
+  }
+
+  async function blockhash(): Promise<string> {
+    return (await h.banks.getLatestBlockhash())![0];
+  }
+
+  it("exports unsigned, collects signatures separately and lands", async () => {
+    const exported = encodeTransaction(
+      buildExportTransaction(
+        {
+          feePayer: treasury.publicKey,
+          signers: [],
+          blockhash: await blockhash(),
+        },
+        transfers()
+      )
+    );
+
+    // each signer works on its own decoded copy of the base64
+    const first = decodeTransaction(exported);
+    expect(missingSigners(first).map((k) => k.toBase58())).to.deep.equal([
+      treasury.publicKey.toBase58(),
+      cosigner.publicKey.toBase58(),
+    ]);
+    addSignature(first, cosigner);
+    const second = decodeTransaction(encodeTransaction(first));
+    addSignature(second, treasury);
+    expect(missingSigners(second)).to.deep.equal([]);
+
+    const before = (await h.banks.getBalance(recipient)) ?? 0n;
+    await h.banks.processTransaction(second);
+    expect(await h.banks.getBalance(recipient)).to.equal(before + 2_000_000n);
+  });
+
+  it("partially signs with the signers it is given that are required", async () => {
+    const stranger = Keypair.generate();
+    const tx = decodeTransaction(
+      encodeTransaction(
+        buildExportTransaction(
+          {
+            feePayer: treasury.publicKey,
+            signers: [cosigner, stranger],
+            blockhash: await blockhash(),
+          },
+          transfers()
+        )
+      )
+    );
+    expect(
+      signerStatus(tx).map((s) => [s.publicKey.toBase58(), s.signed])
+    ).to.deep.equal([
+      [treasury.publicKey.toBase58(), false],
+      [cosigner.publicKey.toBase58(), true],
+    ]);
+    expect(() => addSignature(tx, stranger)).to.throw(/not a required signer/);
+  });
+
+  it("uses a durable nonce in place of the blockhash", async () => {
+    const nonceAccount = Keypair.generate();
+    const rent = await h.banks.getRent();
+    await h.sendOk(
+      SystemProgram.createNonceAccount({
+        fromPubkey: h.payer.publicKey,
+        noncePubkey: nonceAccount.publicKey,
+        authorizedPubkey: treasury.publicKey,
+        lamports: Number(rent.minimumBalance(BigInt(NONCE_ACCOUNT_LENGTH))),
+      }).instructions,
+      [nonceAccount]
+    );
+    const nonce = await fetchNonce(h.reader, nonceAccount.publicKey);
+    expect(nonce.authority.equals(treasury.publicKey)).to.equal(true);
+
+    const tx = decodeTransaction(
+      encodeTransaction(
+        buildExportTransaction(
+          {
+            feePayer: treasury.publicKey,
+            signers: [cosigner],
+            nonce: {
+              account: nonceAccount.publicKey,
+              authority: treasury.publicKey,
+              value: nonce.value,
+            },
+          },
+          transfers()
+        )
+      )
+    );
+    const used = durableNonceOf(tx)!;
+    expect(used.account.equals(nonceAccount.publicKey)).to.equal(true);
+    expect(used.value).to.equal(nonce.value);
+    expect(tx.message.recentBlockhash).to.equal(nonce.value);
+
+    // a nonce only advances once the bank has moved past it
+    const { slot } = await h.banks.getClock();
+    h.context.warpToSlot(slot + 10n);
+    addSignature(tx, treasury);
+    await h.banks.processTransaction(tx);
+
+    const after = await fetchNonce(h.reader, nonceAccount.publicKey);
+    expect(after.value).to.not.equal(nonce.value);
+  });
+
+  it("finds no nonce in a blockhash transaction", async () => {
+    const tx = decodeTransaction(
+      encodeTransaction(
+        buildExportTransaction(
+          {
+            feePayer: treasury.publicKey,
+            signers: [],
+            blockhash: await blockhash(),
+          },
+          transfers()
+        )
+      )
+    );
+    expect(durableNonceOf(tx)).to.equal(null);
+  });
+
+  it("rejects input that is not a transaction", () => {
+    expect(() => decodeTransaction("bm90IGEgdHJhbnNhY3Rpb24=")).to.throw(
+      /Not a serialized transaction/
+    );
+  });
+});
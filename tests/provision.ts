@@ -0,0 +1,110 @@
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+
+import { planProvisioning } from "../scripts/lib/provision";
+import { Harness, programBuilt } from "./_harness";
+
+describe("provision", function () {
+  describe("planning", () => {
+    let h: Harness;
+
+    beforeEach(async () => {
+      h = await Harness.startWithoutProgram();
+    });
+
+    it("plans every account on a fresh mint", async () => {
+      const mint = await h.createMint();
+      const seller = Keypair.generate().publicKey;
+      const plan = await planProvisioning(h.reader, h.client, {
+        payer: h.payer.publicKey,
+        mint,
+        vaultAuthority: h.payer.publicKey,
+        buyer: h.payer.publicKey,
+        seller,
+      });
+      expect(plan.items.map((i) => i.name)).to.deep.equal([
+        "vault",
+        "vaultAta",
+        "buyerAta",
+        "sellerAta",
+      ]);
+      expect(plan.items.every((i) => !i.exists)).to.equal(true);
+      expect(plan.instructions).to.have.length(4);
+    });
+
+    it("skips token accounts that already exist", async () => {
+      const mint = await h.createMint();
+      const seller = Keypair.generate().publicKey;
+      await h.mintTo(mint, h.payer.publicKey, 1n);
+      await h.mintTo(mint, seller, 1n);
+      const plan = await planProvisioning(h.reader, h.client, {
+        payer: h.payer.publicKey,
+        mint,
+        vaultAuthority: h.payer.publicKey,
+        buyer: h.payer.publicKey,
+        seller,
+      });
+      expect(
+        plan.items.filter((i) => i.exists).map((i) => i.name)
+      ).to.deep.equal(["buyerAta", "sellerAta"]);
+      expect(plan.instructions).to.have.length(2);
+    });
+
+    it("refuses to create someone else's vault", async () => {
+      const mint = await h.createMint();
+      let err: unknown;
+      try {
+        await planProvisioning(h.reader, h.client, {
+          payer: h.payer.publicKey,
+          mint,
+          vaultAuthority: Keypair.generate().publicKey,
+        });
+      } catch (e) {
+        err = e;
+      }
+      expect(String(err)).to.match(/only its authority/);
+    });
+
+    it("tolerates a racing ATA creation", async () => {
+      const mint = await h.createMint();
+      const seller = Keypair.generate().publicKey;
+      const ix = () =>
+        h.client.createTokenAccount({
+          payer: h.payer.publicKey,
+          owner: seller,
+          mint,
+        });
+      await h.sendOk([ix()]);
+      await h.sendOk([ix()]);
+    });
+  });
+
+  describe("ensure", () => {
+    let h: Harness;
+
+    before(function () {
+      if (!programBuilt()) this.skip();
+    });
+
+    beforeEach(async () => {
+      h = await Harness.start();
+    });
+
+    it("creates everything once and then has nothing left to do", async () => {
+      const mint = await h.createMint();
+      const params = {
+        payer: h.payer.publicKey,
+        mint,
+        vaultAuthority: h.payer.publicKey,
+        buyer: h.payer.publicKey,
+        seller: Keypair.generate().publicKey,
+      };
+      const first = await planProvisioning(h.reader, h.client, params);
+      await h.sendOk(first.instructions);
+
+      const second = await planProvisioning(h.reader, h.client, params);
+      expect(second.items.every((i) => i.exists)).to.equal(true);
+      expect(second.instructions).to.have.length(0);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  ComputeBudgetInstruction,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  SignatureStatus,
+  SystemProgram,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+} from "@solana/web3.js";
+import { expect } from "chai";
+
+import { toVaultEscrowError } from "../scripts/lib/errors";
+import {
+  SenderConnection,
+  computeBudgetInstructions,
+  estimatePriorityFee,
+  sendUntilConfirmed,
+  signAndSend,
+} from "../scripts/lib/sender";
+import { key } from "./_fixtures";
+
+const LOCAL_VALIDATOR = "http://127.0.0.1:8899";
+
+/**
+ * A cluster that drops the first `dropped` broadcasts, lands the next one
+ * and then confirms it one poll later. Every status poll advances the block
+ * height by one.
+ */
+function fakeCluster(opts: {
+  dropped: number;
+  lastValidBlockHeight?: number;
+  err?: unknown;
+}) {
+  let height = 100;
+  let landed: SignatureStatus | null = null;
+  const sends: { skipPreflight?: boolean }[] = [];
+  const fees = [0, 10, 20, 30, 40, 50, 60, 70, 80];
+
+  const connection: SenderConnection = {
+    getLatestBlockhash: async () => ({
+      blockhash: key().toBase58(),
+      lastValidBlockHeight: opts.lastValidBlockHeight ?? height + 150,
+    }),
+    getBlockHeight: async () => height,
+    getRecentPrioritizationFees: async () =>
+      fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })),
+    sendRawTransaction: async (_raw, options) => {
+      sends.push({ skipPreflight: options?.skipPreflight });
+      if (sends.length > opts.dropped && !landed) {
+        landed = {
+          slot: height,
+          confirmations: 0,
+          err: (opts.err ?? null) as SignatureStatus["err"],
+          confirmationStatus: "processed",
+        };
+      }
+      return "sig";
+    },
+    getSignatureStatuses: (async () => {
+      height += 1;
+      const status = landed;
+      if (landed) landed = { ...landed, confirmationStatus: "confirmed" };
+      return { context: { slot: height }, value: [status] };
+    }) as SenderConnection["getSignatureStatuses"],
+  };
+  return { connection, sends, height: () => height };
+}
+
+describe("sender", () => {
+  const payer = Keypair.generate();
+  const options = {
+    commitment: "confirmed" as const,
+    rebroadcastIntervalMs: 0,
+  };
+
+  function transfer(): Transaction {
+    const tx = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: key(),
+        lamports: 1,
+      })
+    );
+    tx.feePayer = payer.publicKey;
+    return tx;
+  }
+
+  it("rebroadcasts the same transaction until it lands", async () => {
+    const cluster = fakeCluster({ dropped: 3 });
+    const signature = await signAndSend(
+      cluster.connection,
+      transfer(),
+      [payer],
+      options
+    );
+    expect(signature).to.equal("sig");
+    expect(cluster.sends).to.have.length(4);
+    // only the first send runs preflight
+    expect(cluster.sends.map((s) => s.skipPreflight)).to.deep.equal([
+      undefined,
+      true,
+      true,
+      true,
+    ]);
+  });
+
+  it("stops rebroadcasting once the transaction has landed", async () => {
+    const cluster = fakeCluster({ dropped: 0 });
+    await signAndSend(cluster.connection, transfer(), [payer], options);
+    expect(cluster.sends).to.have.length(1);
+  });
+
+  it("reports expiry only after the blockhash has passed", async () => {
+    const cluster = fakeCluster({
+      dropped: Infinity,
+      lastValidBlockHeight: 105,
+    });
+    let caught: unknown;
+    try {
+      await signAndSend(cluster.connection, transfer(), [payer], options);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).to.be.instanceOf(TransactionExpiredBlockheightExceededError);
+    expect(cluster.height()).to.be.greaterThan(105);
+    expect(toVaultEscrowError(caught, key()).code).to.equal("BlockhashExpired");
+  });
+
+  it("throws the error of a transaction that landed and failed", async () => {
+    const cluster = fakeCluster({
+      dropped: 1,
+      err: { InstructionError: [0, { Custom: 6000 }] },
+    });
+    let caught: unknown;
+    try {
+      await sendUntilConfirmed(
+        cluster.connection,
+        Buffer.alloc(0),
+        1_000,
+        options
+      );
+    } catch (e) {
+      caught = e;
+    }
+    expect(toVaultEscrowError(caught, key()).code).to.equal("AlreadyReleased");
+  });
+
+  it("estimates the priority fee from recent fees", async () => {
+    const cluster = fakeCluster({ dropped: 0 });
+    expect(await estimatePriorityFee(cluster.connection, [])).to.equal(60);
+  });
+
+  it("adds compute budget instructions only when configured", async () => {
+    const { connection } = fakeCluster({ dropped: 0 });
+    const ixs = transfer().instructions;
+    expect(
+      await computeBudgetInstructions(connection, { priorityFee: 0 }, ixs)
+    ).to.deep.equal([]);
+
+    const [limit, price] = await computeBudgetInstructions(
+      connection,
+      { unitLimit: 50_000, priorityFee: "auto" },
+      ixs
+    );
+    expect(
+      ComputeBudgetInstruction.decodeSetComputeUnitLimit(limit).units
+    ).to.equal(50_000);
+    expect(
+      ComputeBudgetInstruction.decodeSetComputeUnitPrice(price).microLamports
+    ).to.equal(60n);
+  });
+
+  // Runs against `solana-test-validator` on the default port, if one is up.
+  describe("against a local validator", () => {
+    const connection = new Connection(LOCAL_VALIDATOR, "confirmed");
+
+    before(async function () {
+      try {
+        await connection.getVersion();
+      } catch {
+        this.skip();
+      }
+      const signature = await connection.requestAirdrop(
+        payer.publicKey,
+        LAMPORTS_PER_SOL
+      );
+      const latest = await connection.getLatestBlockhash();
+      await connection.confirmTransaction({ signature, ...latest });
+    });
+
+    it("lands a transaction with a priority fee", async () => {
+      const recipient = key();
+      const tx = new Transaction().add(
+        ...(await computeBudgetInstructions(
+          connection,
+          { unitLimit: 10_000, priorityFee: "auto" },
+          []
+        )),
+        SystemProgram.transfer({
+          fromPubkey: payer.publicKey,
+          toPubkey: recipient,
+          lamports: LAMPORTS_PER_SOL / 100,
+        })
+      );
+      tx.feePayer = payer.publicKey;
+      await signAndSend(connection, tx, [payer], {
+        commitment: "confirmed",
+        rebroadcastIntervalMs: 500,
+      });
+      expect(await connection.getBalance(recipient)).to.equal(
+        LAMPORTS_PER_SOL / 100
+      );
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  AccountInfo,
+  PublicKey,
+  SimulateTransactionConfig,
+  SimulatedTransactionAccountInfo,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { expect } from "chai";
+
+import { EscrowAccount } from "../scripts/lib/accounts";
+import {
+  SimulationConnection,
+  simulate,
+  snapshotAccount,
+  writableAccounts,
+} from "../scripts/lib/simulate";
+import { encodeEscrow, encodeMint, encodeTokenAccount, key } from "./_fixtures";
+
+const PROGRAM_ID = key();
+
+describe("simulate", () => {
+  const payer = key();
+  const buyer = key();
+  const seller = key();
+  const mint = key();
+  const escrowAddress = key();
+  const sellerAta = key();
+  const programData = key();
+
+  const escrow: EscrowAccount = {
+    vault: key(),
+    buyer,
+    seller,
+    tokenMint: mint,
+    amountLocked: 500n,
+    deadlineUnixTs: 1_800_000_000n,
+    released: false,
+    bump: 254,
+    disputed: false,
+    escrowId: 0n,
+    arbiter: null,
+    amountReleased: 0n,
+    milestones: [],
+  };
+
+  function info(data: Buffer, owner: PublicKey): AccountInfo<Buffer> {
+    return { data, owner, lamports: 2_000_000, executable: false };
+  }
+
+  function simulated(a: AccountInfo<Buffer>): SimulatedTransactionAccountInfo {
+    return {
+      executable: a.executable,
+      owner: a.owner.toBase58(),
+      lamports: a.lamports,
+      data: [a.data.toString("base64"), "base64"],
+    };
+  }
+
+  // A release-shaped transaction: escrow and seller ATA writable.
+  function transaction(): VersionedTransaction {
+    const ix = new TransactionInstruction({
+      programId: PROGRAM_ID,
+      keys: [
+        { pubkey: escrowAddress, isSigner: false, isWritable: true },
+        { pubkey: sellerAta, isSigner: false, isWritable: true },
+        { pubkey: programData, isSigner: false, isWritable: false },
+      ],
+      data: Buffer.alloc(8),
+    });
+    return new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: SystemProgram.programId.toBase58(),
+        instructions: [ix],
+      }).compileToLegacyMessage()
+    );
+  }
+
+  function connection(
+    before: Map<string, AccountInfo<Buffer>>,
+    result: {
+      err: unknown;
+      logs: string[];
+      after: Map<string, AccountInfo<Buffer>>;
+    }
+  ): SimulationConnection {
+    return {
+      getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+        keys.map((k) => before.get(k.toBase58()) ?? null),
+      simulateTransaction: (async (
+        _tx: unknown,
+        config: SimulateTransactionConfig
+      ) => ({
+        context: { slot: 1 },
+        value: {
+          err: result.err,
+          logs: result.logs,
+          unitsConsumed: 12_345,
+          accounts: config.accounts!.addresses.map((a) => {
+            const after = result.after.get(a);
+            return after ? simulated(after) : null;
+          }),
+        },
+      })) as SimulationConnection["simulateTransaction"],
+    };
+  }
+
+  it("lists the writable accounts, fee payer first", () => {
+    expect(
+      writableAccounts(transaction()).map((k) => k.toBase58())
+    ).to.deep.equal([
+      payer.toBase58(),
+      escrowAddress.toBase58(),
+      sellerAta.toBase58(),
+    ]);
+  });
+
+  it("snapshots token accounts, escrows and everything else", () => {
+    const token = snapshotAccount(
+      sellerAta,
+      info(encodeTokenAccount(mint, seller, 42n), TOKEN_PROGRAM_ID),
+      PROGRAM_ID
+    );
+    expect(token.kind).to.equal("token");
+    if (token.kind === "token") {
+      expect(token.owner.equals(seller)).to.equal(true);
+      expect(token.amount).to.equal(42n);
+    }
+
+    const escrowSnapshot = snapshotAccount(
+      escrowAddress,
+      info(encodeEscrow(escrow), PROGRAM_ID),
+      PROGRAM_ID
+    );
+    expect(escrowSnapshot).to.deep.include({
+      kind: "escrow",
+      released: false,
+      amountLocked: 500n,
+    });
+
+    // a mint is owned by the token program but isn't a token account
+    expect(
+      snapshotAccount(mint, info(encodeMint(6), TOKEN_PROGRAM_ID), PROGRAM_ID)
+        .kind
+    ).to.equal("other");
+    expect(snapshotAccount(key(), null, PROGRAM_ID)).to.deep.equal({
+      kind: "missing",
+    });
+  });
+
+  it("reports balances and the released flag before and after", async () => {
+    const before = new Map([
+      [payer.toBase58(), info(Buffer.alloc(0), SystemProgram.programId)],
+      [escrowAddress.toBase58(), info(encodeEscrow(escrow), PROGRAM_ID)],
+      [
+        sellerAta.toBase58(),
+        info(encodeTokenAccount(mint, seller, 10n), TOKEN_PROGRAM_ID),
+      ],
+    ]);
+    const after = new Map(before);
+    after.set(
+      escrowAddress.toBase58(),
+      info(encodeEscrow({ ...escrow, released: true }), PROGRAM_ID)
+    );
+    after.set(
+      sellerAta.toBase58(),
+      info(encodeTokenAccount(mint, seller, 510n), TOKEN_PROGRAM_ID)
+    );
+
+    const report = await simulate(
+      connection(before, {
+        err: null,
+        logs: ["Program log: Instruction: ReleaseToSeller"],
+        after,
+      }),
+      transaction(),
+      PROGRAM_ID
+    );
+
+    expect(report.error).to.equal(null);
+    expect(report.unitsConsumed).to.equal(12_345);
+    expect(report.logs).to.have.length(1);
+    const [, escrowChange, ataChange] = report.accounts;
+    expect(escrowChange.before).to.deep.include({ released: false });
+    expect(escrowChange.after).to.deep.include({ released: true });
+    expect(ataChange.before).to.deep.include({ amount: 10n });
+    expect(ataChange.after).to.deep.include({ amount: 510n });
+  });
+
+  it("dry-runs a migration of an escrow from before escrow IDs", async () => {
+    // the first layout ended at the bump
+    const legacy = encodeEscrow(escrow).subarray(0, 154);
+    const before = new Map([
+      [escrowAddress.toBase58(), info(legacy, PROGRAM_ID)],
+    ]);
+    const report = await simulate(
+      connection(before, {
+        err: null,
+        logs: ["Program log: Instruction: MigrateEscrow"],
+        // migrate_escrow closes the old account
+        after: new Map(),
+      }),
+      transaction(),
+      PROGRAM_ID
+    );
+
+    expect(report.error).to.equal(null);
+    const escrowChange = report.accounts[1];
+    expect(escrowChange.before).to.deep.equal({
+      kind: "legacy",
+      lamports: 2_000_000,
+      size: 154,
+    });
+    expect(escrowChange.after).to.deep.equal({ kind: "missing" });
+  });
+
+  it("decodes the program error and leaves the accounts unchanged", async () => {
+    const before = new Map([
+      [escrowAddress.toBase58(), info(encodeEscrow(escrow), PROGRAM_ID)],
+    ]);
+    const report = await simulate(
+      connection(before, {
+        err: { InstructionError: [0, { Custom: 6001 }] },
+        logs: [
+          "Program log: Instruction: ReleaseToSeller",
+          "Program log: AnchorError thrown in programs/vault-escrow/src/lib.rs:64. Error Code: DeadlinePassed. Error Number: 6001. Error Message: Escrow deadline has already passed.",
+        ],
+        after: new Map(),
+      }),
+      transaction(),
+      PROGRAM_ID
+    );
+
+    expect(report.error?.code).to.equal("DeadlinePassed");
+    const escrowChange = report.accounts[1];
+    expect(escrowChange.after).to.deep.equal(escrowChange.before);
+  });
+});
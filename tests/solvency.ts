@@ -0,0 +1,197 @@
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { expect } from "chai";
+
+import { EscrowAccount } from "../scripts/lib/accounts";
+import { deriveAta } from "../scripts/lib/client";
+import { isVaultEscrowError } from "../scripts/lib/errors";
+import {
+  assertCanCommit,
+  assertCanWithdraw,
+  computeSolvency,
+  reconcileVault,
+} from "../scripts/lib/solvency";
+import {
+  encodeEscrow,
+  encodeMint,
+  encodeTokenAccount,
+  encodeVault,
+  FakeAccount,
+  fakeRpc,
+  key,
+} from "./_fixtures";
+
+const PROGRAM_ID = key();
+const NOW = 1_800_000_000n;
+
+describe("solvency", () => {
+  const authority = key();
+  const mint = key();
+  const vault = key();
+  const vaultAta = deriveAta(mint, vault);
+
+  function escrow(amountLocked: bigint, released = false): EscrowAccount {
+    return {
+      vault,
+      buyer: authority,
+      seller: key(),
+      tokenMint: mint,
+      amountLocked,
+      deadlineUnixTs: NOW + 60n,
+      released,
+      bump: 254,
+      disputed: false,
+      escrowId: 0n,
+      arbiter: null,
+      amountReleased: 0n,
+      milestones: [],
+    };
+  }
+
+  function rpc(
+    balance: bigint | null,
+    escrows: EscrowAccount[],
+    reserved = 0n,
+    migrating = false
+  ) {
+    const accounts: FakeAccount[] = [
+      {
+        pubkey: vault,
+        data: encodeVault({
+          authority,
+          mint,
+          bump: 255,
+          committed: reserved,
+          migrating,
+        }),
+      },
+      { pubkey: mint, data: encodeMint(6), owner: TOKEN_PROGRAM_ID },
+      ...escrows.map((e) => ({ pubkey: key(), data: encodeEscrow(e) })),
+      // an escrow against some other vault must not count
+      {
+        pubkey: key(),
+        data: encodeEscrow({ ...escrow(1_000n), vault: key() }),
+      },
+    ];
+    if (balance !== null) {
+      accounts.push({
+        pubkey: vaultAta,
+        data: encodeTokenAccount(mint, vault, balance),
+        owner: TOKEN_PROGRAM_ID,
+      });
+    }
+    return fakeRpc(PROGRAM_ID, accounts).reader;
+  }
+
+  it("reports the free balance of a solvent vault", async () => {
+    const solvency = await reconcileVault(
+      rpc(100n, [escrow(30n), escrow(20n), escrow(40n, true)]),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.mint.equals(mint)).to.equal(true);
+    expect(solvency.balance).to.equal(100n);
+    expect(solvency.committed).to.equal(50n);
+    expect(solvency.free).to.equal(50n);
+    expect(solvency.shortfall).to.equal(0n);
+    expect(solvency.overCommitted).to.equal(false);
+    expect(solvency.escrows).to.have.length(2);
+  });
+
+  it("flags escrows that exceed the vault balance", async () => {
+    const solvency = await reconcileVault(
+      rpc(40n, [escrow(30n), escrow(20n)]),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.overCommitted).to.equal(true);
+    expect(solvency.free).to.equal(0n);
+    expect(solvency.shortfall).to.equal(10n);
+  });
+
+  it("counts only the unreleased part of a milestone escrow", async () => {
+    const partlyPaid: EscrowAccount = {
+      ...escrow(50n),
+      amountReleased: 20n,
+      milestones: [
+        { amount: 20n, deadlineUnixTs: NOW + 30n, released: true },
+        { amount: 30n, deadlineUnixTs: null, released: false },
+      ],
+    };
+    const solvency = await reconcileVault(
+      rpc(100n, [partlyPaid]),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.committed).to.equal(30n);
+    expect(solvency.free).to.equal(70n);
+  });
+
+  it("treats a missing vault ATA as an empty one", async () => {
+    const solvency = await reconcileVault(
+      rpc(null, [escrow(5n)]),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.balance).to.equal(0n);
+    expect(solvency.shortfall).to.equal(5n);
+  });
+
+  it("rejects an address that is not a vault of this program", async () => {
+    let err: unknown;
+    try {
+      await reconcileVault(rpc(0n, []), PROGRAM_ID, key(), NOW);
+    } catch (e) {
+      err = e;
+    }
+    expect(String(err)).to.match(/does not exist/);
+  });
+
+  it("withdraws no further than the program's reserved amount", async () => {
+    const solvency = await reconcileVault(
+      rpc(100n, [escrow(80n)], 80n),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.reserved).to.equal(80n);
+    expect(solvency.withdrawable).to.equal(20n);
+    expect(() => assertCanWithdraw(solvency, 20n)).not.to.throw();
+    expect(() => assertCanWithdraw(solvency, 21n)).to.throw(
+      /withdrawable balance 20/
+    );
+  });
+
+  it("withdraws nothing while the vault is migrating", async () => {
+    const solvency = await reconcileVault(
+      rpc(100n, [], 0n, true),
+      PROGRAM_ID,
+      vault,
+      NOW
+    );
+    expect(solvency.migrating).to.equal(true);
+    expect(solvency.withdrawable).to.equal(0n);
+    let err: unknown;
+    try {
+      assertCanWithdraw(solvency, 0n);
+    } catch (e) {
+      err = e;
+    }
+    expect(isVaultEscrowError(err, "VaultMigrating")).to.equal(true);
+  });
+
+  it("refuses a new commitment above the free balance", () => {
+    const solvency = computeSolvency({ vault, vaultAta, mint }, 100n, []);
+    expect(() => assertCanCommit(solvency, 100n)).not.to.throw();
+    let err: unknown;
+    try {
+      assertCanCommit(solvency, 101n);
+    } catch (e) {
+      err = e;
+    }
+    expect(isVaultEscrowError(err, "VaultOvercommitted")).to.equal(true);
+  });
+});
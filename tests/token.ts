@@ -0,0 +1,92 @@
+import { Keypair } from "@solana/web3.js";
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { expect } from "chai";
+
+import { VaultEscrowClient, deriveAta } from "../scripts/lib/client";
+import {
+  MintInfo,
+  amountAfterFee,
+  assertSupportedMint,
+  fetchMintInfo,
+  transferFee,
+} from "../scripts/lib/token";
+import { encodeMint, fakeRpc, key } from "./_fixtures";
+import { Harness } from "./_harness";
+
+describe("token programs", () => {
+  describe("fetchMintInfo", () => {
+    let h: Harness;
+
+    before(async () => {
+      h = await Harness.startWithoutProgram();
+    });
+
+    it("detects an SPL Token mint", async () => {
+      const mint = await h.createMint(9);
+      const info = await fetchMintInfo(h.reader, mint);
+      expect(info.tokenProgram.equals(TOKEN_PROGRAM_ID)).to.equal(true);
+      expect(info.decimals).to.equal(9);
+      expect(info.extensions).to.deep.equal([]);
+      expect(info.transferFee).to.equal(null);
+      expect(transferFee(info, 1_000n, 0n)).to.equal(0n);
+    });
+
+    it("detects a Token-2022 mint and its transfer fee", async () => {
+      const mint = await h.createMint(6, {
+        transferFee: { basisPoints: 250, maxFee: 5_000n },
+      });
+      const info = await fetchMintInfo(h.reader, mint);
+      expect(info.tokenProgram.equals(TOKEN_2022_PROGRAM_ID)).to.equal(true);
+      expect(info.extensions).to.include(ExtensionType.TransferFeeConfig);
+      // 2.5% of 100_000, then capped at maxFee
+      expect(transferFee(info, 100_000n, 0n)).to.equal(2_500n);
+      expect(amountAfterFee(info, 100_000n, 0n)).to.equal(97_500n);
+      expect(transferFee(info, 1_000_000n, 0n)).to.equal(5_000n);
+      expect(() => assertSupportedMint(info)).not.to.throw();
+    });
+
+    it("rejects accounts that are not owned by a token program", async () => {
+      const mint = key();
+      const { reader } = fakeRpc(key(), [
+        { pubkey: mint, data: encodeMint(6) },
+      ]);
+      await fetchMintInfo(reader, mint).then(
+        () => expect.fail("should have thrown"),
+        (e) => expect(String(e)).to.match(/not a token program/)
+      );
+    });
+  });
+
+  it("refuses mints with a transfer hook", () => {
+    const info: MintInfo = {
+      address: key(),
+      tokenProgram: TOKEN_2022_PROGRAM_ID,
+      decimals: 6,
+      extensions: [ExtensionType.TransferHook],
+      transferFee: null,
+    };
+    expect(() => assertSupportedMint(info)).to.throw(/transfer hook/);
+  });
+
+  it("passes the mint's token program to ATAs and instructions", () => {
+    const client = new VaultEscrowClient(key());
+    const mint = key();
+    const user = Keypair.generate().publicKey;
+    const tokenProgram = TOKEN_2022_PROGRAM_ID;
+
+    const legacy = client.vaultAddresses(mint, user);
+    const t22 = client.vaultAddresses(mint, user, tokenProgram);
+    expect(t22.vault.equals(legacy.vault)).to.equal(true);
+    expect(t22.vaultAta.equals(legacy.vaultAta)).to.equal(false);
+
+    const ix = client.lockTokens({ user, mint, amount: 1n, tokenProgram });
+    expect(ix.keys[3].pubkey.equals(t22.vaultAta)).to.equal(true);
+    const userAta = deriveAta(mint, user, tokenProgram);
+    expect(ix.keys[4].pubkey.equals(userAta)).to.equal(true);
+    expect(ix.keys[5].pubkey.equals(tokenProgram)).to.equal(true);
+  });
+});
@@ -1,16 +1,665 @@
-import * as anchor from "@coral-xyz/anchor";
-import { Program } from "@coral-xyz/anchor";
-import { VaultEscrow } from "../target/types/vault_escrow";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { expect } from "chai";
 
-describe("vault-escrow", () => {
-  // Configure the client to use the local cluster.
-  anchor.setProvider(anchor.AnchorProvider.env());
+import { decodeEscrow, decodeVault } from "../scripts/lib/accounts";
+import {
+  MilestoneTerms,
+  deriveAta,
+  encodeReleaseToSellerIx,
+} from "../scripts/lib/client";
+import { Harness, expectProgramError, programBuilt } from "./_harness";
 
-  const program = anchor.workspace.vaultEscrow as Program<VaultEscrow>;
+const MINTED = 1_000_000_000n;
+const LOCKED = 100_000n;
+const ESCROWED = 50_000n;
+const HOUR = 3600n;
 
-  it("Is initialized!", async () => {
-    // Add your test here.
-    const tx = await program.methods.initialize().rpc();
-    console.log("Your transaction signature", tx);
+describe("vault-escrow", function () {
+  let h: Harness;
+  let setup: Awaited<ReturnType<Harness["setupVault"]>>;
+
+  before(function () {
+    if (!programBuilt()) this.skip();
+  });
+
+  beforeEach(async () => {
+    h = await Harness.start();
+    setup = await h.setupVault({ minted: MINTED, locked: LOCKED });
+  });
+
+  // init_escrow for a fresh seller, deadline one hour out; returns the
+  // seller (and its keypair), its ATA (created up front) and the escrow
+  // address.
+  async function openEscrow(
+    amount = ESCROWED,
+    arbiter: PublicKey | null = null,
+    milestones: MilestoneTerms[] = []
+  ) {
+    const sellerKeypair = Keypair.generate();
+    const seller = sellerKeypair.publicKey;
+    const deadline = (await h.now()) + HOUR;
+    await h.sendOk([
+      h.client.createTokenAccount({
+        payer: setup.buyer,
+        owner: seller,
+        mint: setup.mint,
+      }),
+      h.client.initEscrow({
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+        amount,
+        deadlineUnixTs: deadline,
+        arbiter,
+        milestones,
+      }),
+    ]);
+    const { escrow, sellerAta } = h.client.escrowAddresses({
+      buyer: setup.buyer,
+      seller,
+      mint: setup.mint,
+    });
+    return { seller, sellerKeypair, sellerAta, escrow, deadline };
+  }
+
+  function release(seller: PublicKey) {
+    return h.client.releaseToSeller({
+      buyer: setup.buyer,
+      seller,
+      mint: setup.mint,
+    });
+  }
+
+  function refund(seller: PublicKey) {
+    return h.client.refundBuyer({
+      buyer: setup.buyer,
+      seller,
+      mint: setup.mint,
+    });
+  }
+
+  describe("init_vault / lock_tokens", () => {
+    it("stores authority, mint and bump", async () => {
+      const vault = decodeVault((await h.accountData(setup.vault))!);
+      expect(vault.authority.equals(setup.buyer)).to.equal(true);
+      expect(vault.mint.equals(setup.mint)).to.equal(true);
+      expect(vault.bump).to.equal(setup.vaultBump);
+    });
+
+    it("moves locked tokens from the buyer ATA to the vault ATA", async () => {
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED);
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(MINTED - LOCKED);
+    });
+
+    it("rejects a second init_vault for the same mint and authority", async () => {
+      const res = await h.send([
+        h.client.initVault({ authority: setup.buyer, mint: setup.mint }),
+      ]);
+      expectProgramError(res, "AccountAlreadyInUse");
+    });
+
+    it("rejects locking from a token account of another mint", async () => {
+      const otherMint = await h.createMint();
+      const otherAta = await h.mintTo(otherMint, setup.buyer, 10n);
+      const ix = h.client.lockTokens({
+        user: setup.buyer,
+        mint: setup.mint,
+        amount: 1n,
+      });
+      ix.keys[4].pubkey = otherAta; // user_ata
+      expectProgramError(await h.send([ix]), "ConstraintRaw");
+    });
+  });
+
+  describe("init_escrow", () => {
+    it("records the escrow terms", async () => {
+      const { seller, escrow, deadline } = await openEscrow();
+      const account = decodeEscrow((await h.accountData(escrow))!);
+      expect(account.vault.equals(setup.vault)).to.equal(true);
+      expect(account.buyer.equals(setup.buyer)).to.equal(true);
+      expect(account.seller.equals(seller)).to.equal(true);
+      expect(account.tokenMint.equals(setup.mint)).to.equal(true);
+      expect(account.amountLocked).to.equal(ESCROWED);
+      expect(account.deadlineUnixTs).to.equal(deadline);
+      expect(account.released).to.equal(false);
+    });
+
+    it("does not move tokens", async () => {
+      await openEscrow();
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED);
+    });
+
+    it("keeps several escrows between the same buyer and seller apart", async () => {
+      const { seller, sellerAta, escrow } = await openEscrow();
+      const deadlineUnixTs = (await h.now()) + HOUR;
+      const second = { buyer: setup.buyer, seller, mint: setup.mint };
+      await h.sendOk([
+        h.client.initEscrow({
+          ...second,
+          escrowId: 1n,
+          amount: 7_000n,
+          deadlineUnixTs,
+        }),
+      ]);
+      const { escrow: secondEscrow } = h.client.escrowAddresses({
+        ...second,
+        escrowId: 1n,
+      });
+      expect(secondEscrow.equals(escrow)).to.equal(false);
+      expect(
+        decodeEscrow((await h.accountData(secondEscrow))!).escrowId
+      ).to.equal(1n);
+
+      // releasing one leaves the other open
+      await h.sendOk([h.client.releaseToSeller({ ...second, escrowId: 1n })]);
+      expect(await h.tokenBalance(sellerAta)).to.equal(7_000n);
+      expect(decodeEscrow((await h.accountData(escrow))!).released).to.equal(
+        false
+      );
+
+      // the same ID twice is the same address, which already exists
+      expect(
+        (
+          await h.send([
+            h.client.initEscrow({
+              ...second,
+              escrowId: 1n,
+              amount: 1n,
+              deadlineUnixTs,
+            }),
+          ])
+        ).result
+      ).to.not.equal(null);
+    });
+  });
+
+  describe("release_to_seller", () => {
+    it("pays the seller before the deadline and marks the escrow released", async () => {
+      const { seller, sellerAta, escrow } = await openEscrow();
+      await h.sendOk([release(seller)]);
+
+      expect(await h.tokenBalance(sellerAta)).to.equal(ESCROWED);
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED - ESCROWED);
+      expect(decodeEscrow((await h.accountData(escrow))!).released).to.equal(
+        true
+      );
+    });
+
+    it("still releases exactly at the deadline", async () => {
+      const { seller, deadline } = await openEscrow();
+      await h.setUnixTime(deadline);
+      await h.sendOk([release(seller)]);
+    });
+
+    it("fails with AlreadyReleased the second time", async () => {
+      const { seller } = await openEscrow();
+      await h.sendOk([release(seller)]);
+      expectProgramError(await h.send([release(seller)]), "AlreadyReleased");
+    });
+
+    it("fails with DeadlinePassed after the deadline", async () => {
+      const { seller, deadline } = await openEscrow();
+      await h.setUnixTime(deadline + 1n);
+      expectProgramError(await h.send([release(seller)]), "DeadlinePassed");
+    });
+
+    // NotBuyer sits behind `constraint = escrow.buyer == buyer.key()` on the
+    // accounts struct, which fires first, so a stranger gets ConstraintRaw.
+    it("rejects a signer that is not the buyer", async () => {
+      const { seller, escrow, sellerAta } = await openEscrow();
+      const stranger = Keypair.generate();
+      await h.fund(stranger.publicKey);
+      const ix = encodeReleaseToSellerIx({
+        programId: h.client.programId,
+        buyer: stranger.publicKey,
+        seller,
+        mint: setup.mint,
+        escrow,
+        vault: setup.vault,
+        vaultAta: setup.vaultAta,
+        sellerAta,
+      });
+      expectProgramError(await h.send([ix], [stranger]), "ConstraintRaw");
+    });
+
+    it("rejects a seller that does not match the escrow", async () => {
+      const { escrow } = await openEscrow();
+      const wrongSeller = Keypair.generate().publicKey;
+      await h.sendOk([
+        h.client.createTokenAccount({
+          payer: setup.buyer,
+          owner: wrongSeller,
+          mint: setup.mint,
+        }),
+      ]);
+      const ix = encodeReleaseToSellerIx({
+        programId: h.client.programId,
+        buyer: setup.buyer,
+        seller: wrongSeller,
+        mint: setup.mint,
+        escrow,
+        vault: setup.vault,
+        vaultAta: setup.vaultAta,
+        sellerAta: deriveAta(setup.mint, wrongSeller),
+      });
+      expectProgramError(await h.send([ix]), "ConstraintRaw");
+    });
+
+    it("rejects a mint that does not match the escrow", async () => {
+      const { seller, escrow, sellerAta } = await openEscrow();
+      const otherMint = await h.createMint();
+      const ix = encodeReleaseToSellerIx({
+        programId: h.client.programId,
+        buyer: setup.buyer,
+        seller,
+        mint: otherMint,
+        escrow,
+        vault: setup.vault,
+        vaultAta: setup.vaultAta,
+        sellerAta,
+      });
+      expectProgramError(await h.send([ix]), "ConstraintRaw");
+    });
+  });
+
+  describe("refund_buyer", () => {
+    it("fails with TooEarly before the deadline", async () => {
+      const { seller } = await openEscrow();
+      expectProgramError(await h.send([refund(seller)]), "TooEarly");
+    });
+
+    it("fails with TooEarly exactly at the deadline", async () => {
+      const { seller, deadline } = await openEscrow();
+      await h.setUnixTime(deadline);
+      expectProgramError(await h.send([refund(seller)]), "TooEarly");
+    });
+
+    it("returns the escrowed amount to the buyer after the deadline", async () => {
+      const { seller, escrow, deadline } = await openEscrow();
+      await h.setUnixTime(deadline + 1n);
+      await h.sendOk([refund(seller)]);
+
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(
+        MINTED - LOCKED + ESCROWED
+      );
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED - ESCROWED);
+      expect(decodeEscrow((await h.accountData(escrow))!).released).to.equal(
+        true
+      );
+    });
+
+    it("fails with AlreadyReleased once the escrow was paid out", async () => {
+      const { seller, deadline } = await openEscrow();
+      await h.sendOk([release(seller)]);
+      await h.setUnixTime(deadline + 1n);
+      expectProgramError(await h.send([refund(seller)]), "AlreadyReleased");
+    });
+
+    it("fails with AlreadyReleased on a second refund", async () => {
+      const { seller, deadline } = await openEscrow();
+      await h.setUnixTime(deadline + 1n);
+      await h.sendOk([refund(seller)]);
+      expectProgramError(await h.send([refund(seller)]), "AlreadyReleased");
+    });
+  });
+
+  describe("raise_dispute / arbiter_resolve", () => {
+    const arbiter = Keypair.generate();
+
+    function dispute(party: Keypair | null, seller: PublicKey) {
+      return h.client.raiseDispute({
+        party: party ? party.publicKey : setup.buyer,
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+      });
+    }
+
+    function resolve(seller: PublicKey, sellerAmount: bigint, by = arbiter) {
+      return h.client.arbiterResolve({
+        arbiter: by.publicKey,
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+        sellerAmount,
+      });
+    }
+
+    it("records the arbiter and starts undisputed", async () => {
+      const { escrow } = await openEscrow(ESCROWED, arbiter.publicKey);
+      const account = decodeEscrow((await h.accountData(escrow))!);
+      expect(account.arbiter?.equals(arbiter.publicKey)).to.equal(true);
+      expect(account.disputed).to.equal(false);
+    });
+
+    it("lets the seller dispute and freezes the deadline refund", async () => {
+      const { seller, sellerKeypair, escrow, deadline } = await openEscrow(
+        ESCROWED,
+        arbiter.publicKey
+      );
+      await h.sendOk([dispute(sellerKeypair, seller)], [sellerKeypair]);
+      expect(decodeEscrow((await h.accountData(escrow))!).disputed).to.equal(
+        true
+      );
+
+      await h.setUnixTime(deadline + 1n);
+      expectProgramError(await h.send([refund(seller)]), "Disputed");
+    });
+
+    it("rejects disputes without an arbiter, from strangers and twice", async () => {
+      const plain = await openEscrow();
+      expectProgramError(
+        await h.send([dispute(null, plain.seller)]),
+        "NoArbiter"
+      );
+
+      const { seller } = await openEscrow(ESCROWED, arbiter.publicKey);
+      const stranger = Keypair.generate();
+      expectProgramError(
+        await h.send([dispute(stranger, seller)], [stranger]),
+        "NotParty"
+      );
+
+      await h.sendOk([dispute(null, seller)]);
+      expectProgramError(
+        await h.send([dispute(null, seller)]),
+        "AlreadyDisputed"
+      );
+    });
+
+    it("splits amount_locked between seller and buyer", async () => {
+      const { seller, sellerAta, escrow } = await openEscrow(
+        ESCROWED,
+        arbiter.publicKey
+      );
+      await h.sendOk([dispute(null, seller)]);
+      await h.sendOk([resolve(seller, 30_000n)], [arbiter]);
+
+      expect(await h.tokenBalance(sellerAta)).to.equal(30_000n);
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(
+        MINTED - LOCKED + ESCROWED - 30_000n
+      );
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED - ESCROWED);
+      expect(decodeEscrow((await h.accountData(escrow))!).released).to.equal(
+        true
+      );
+      expectProgramError(
+        await h.send([resolve(seller, 0n)], [arbiter]),
+        "AlreadyReleased"
+      );
+    });
+
+    it("only resolves disputed escrows, by the arbiter, within the amount", async () => {
+      const { seller } = await openEscrow(ESCROWED, arbiter.publicKey);
+      expectProgramError(
+        await h.send([resolve(seller, 0n)], [arbiter]),
+        "NotDisputed"
+      );
+
+      await h.sendOk([dispute(null, seller)]);
+      const impostor = Keypair.generate();
+      expectProgramError(
+        await h.send([resolve(seller, 0n, impostor)], [impostor]),
+        "NotArbiter"
+      );
+      expectProgramError(
+        await h.send([resolve(seller, ESCROWED + 1n)], [arbiter]),
+        "SplitExceedsLocked"
+      );
+    });
+  });
+
+  describe("release_milestone", () => {
+    const FIRST = 20_000n;
+    const SECOND = ESCROWED - FIRST;
+
+    function releaseMilestone(seller: PublicKey, index: number) {
+      return h.client.releaseMilestone({
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+        index,
+      });
+    }
+
+    async function openMilestoneEscrow() {
+      const deadline = (await h.now()) + HOUR;
+      return openEscrow(ESCROWED, null, [
+        { amount: FIRST, deadlineUnixTs: deadline - HOUR / 2n },
+        { amount: SECOND },
+      ]);
+    }
+
+    it("pays one milestone at a time and tracks amount_released", async () => {
+      const { seller, sellerAta, escrow } = await openMilestoneEscrow();
+      await h.sendOk([releaseMilestone(seller, 0)]);
+
+      expect(await h.tokenBalance(sellerAta)).to.equal(FIRST);
+      let account = decodeEscrow((await h.accountData(escrow))!);
+      expect(account.amountReleased).to.equal(FIRST);
+      expect(account.milestones.map((m) => m.released)).to.deep.equal([
+        true,
+        false,
+      ]);
+      expect(account.released).to.equal(false);
+
+      await h.sendOk([releaseMilestone(seller, 1)]);
+      expect(await h.tokenBalance(sellerAta)).to.equal(ESCROWED);
+      account = decodeEscrow((await h.accountData(escrow))!);
+      expect(account.amountReleased).to.equal(ESCROWED);
+      expect(account.released).to.equal(true);
+    });
+
+    it("refunds only the unreleased remainder after the deadline", async () => {
+      const { seller, deadline } = await openMilestoneEscrow();
+      await h.sendOk([releaseMilestone(seller, 0)]);
+      await h.setUnixTime(deadline + 1n);
+      await h.sendOk([refund(seller)]);
+
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(
+        MINTED - LOCKED + SECOND
+      );
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED - ESCROWED);
+    });
+
+    it("releases the remainder with release_to_seller", async () => {
+      const { seller, sellerAta, escrow } = await openMilestoneEscrow();
+      await h.sendOk([releaseMilestone(seller, 0)]);
+      await h.sendOk([release(seller)]);
+
+      expect(await h.tokenBalance(sellerAta)).to.equal(ESCROWED);
+      const account = decodeEscrow((await h.accountData(escrow))!);
+      expect(account.milestones.every((m) => m.released)).to.equal(true);
+    });
+
+    it("enforces each milestone's deadline, index and single release", async () => {
+      const { seller, deadline } = await openMilestoneEscrow();
+      expectProgramError(
+        await h.send([releaseMilestone(seller, 2)]),
+        "MilestoneNotFound"
+      );
+      await h.sendOk([releaseMilestone(seller, 1)]);
+      expectProgramError(
+        await h.send([releaseMilestone(seller, 1)]),
+        "MilestoneAlreadyReleased"
+      );
+      await h.setUnixTime(deadline - HOUR / 2n + 1n);
+      expectProgramError(
+        await h.send([releaseMilestone(seller, 0)]),
+        "DeadlinePassed"
+      );
+    });
+
+    it("rejects milestones that don't add up to the amount", async () => {
+      const seller = Keypair.generate().publicKey;
+      const deadlineUnixTs = (await h.now()) + HOUR;
+      const init = (milestones: MilestoneTerms[]) =>
+        h.client.initEscrow({
+          buyer: setup.buyer,
+          seller,
+          mint: setup.mint,
+          amount: ESCROWED,
+          deadlineUnixTs,
+          milestones,
+        });
+      expectProgramError(
+        await h.send([init([{ amount: FIRST }])]),
+        "InvalidMilestones"
+      );
+      expectProgramError(
+        await h.send([
+          init([{ amount: ESCROWED, deadlineUnixTs: deadlineUnixTs + 1n }]),
+        ]),
+        "InvalidMilestones"
+      );
+    });
+  });
+
+  describe("withdraw / close_escrow / close_vault", () => {
+    function withdraw(amount: bigint) {
+      return h.client.withdraw({
+        authority: setup.buyer,
+        mint: setup.mint,
+        amount,
+      });
+    }
+
+    function closeEscrow(escrow: PublicKey) {
+      return h.client.closeEscrow({ buyer: setup.buyer, escrow });
+    }
+
+    function committed() {
+      return h
+        .accountData(setup.vault)
+        .then((data) => decodeVault(data!).committed);
+    }
+
+    it("reserves escrowed amounts and frees them on payout", async () => {
+      const { seller } = await openEscrow();
+      expect(await committed()).to.equal(ESCROWED);
+      await h.sendOk([release(seller)]);
+      expect(await committed()).to.equal(0n);
+    });
+
+    it("withdraws only what no unreleased escrow is owed", async () => {
+      await openEscrow();
+      expectProgramError(
+        await h.send([withdraw(LOCKED - ESCROWED + 1n)]),
+        "WithdrawExceedsFree"
+      );
+      await h.sendOk([withdraw(LOCKED - ESCROWED)]);
+      expect(await h.tokenBalance(setup.vaultAta)).to.equal(ESCROWED);
+      expect(await h.tokenBalance(setup.buyerAta)).to.equal(MINTED - ESCROWED);
+    });
+
+    it("rejects escrows against someone else's vault", async () => {
+      const stranger = Keypair.generate();
+      await h.fund(stranger.publicKey);
+      const ix = h.client.initEscrow({
+        buyer: stranger.publicKey,
+        seller: Keypair.generate().publicKey,
+        mint: setup.mint,
+        amount: 1n,
+        deadlineUnixTs: (await h.now()) + HOUR,
+        vaultAuthority: setup.buyer,
+      });
+      expectProgramError(await h.send([ix], [stranger]), "NotVaultAuthority");
+    });
+
+    it("closes released escrows only", async () => {
+      const { seller, escrow } = await openEscrow();
+      expectProgramError(await h.send([closeEscrow(escrow)]), "NotReleased");
+      await h.sendOk([release(seller)]);
+      await h.sendOk([closeEscrow(escrow)]);
+      expect(await h.accountData(escrow)).to.equal(null);
+    });
+
+    it("closes the vault once it is empty", async () => {
+      const { seller } = await openEscrow();
+      await h.sendOk([release(seller)]);
+      const close = h.client.closeVault({
+        authority: setup.buyer,
+        mint: setup.mint,
+      });
+      expectProgramError(await h.send([close]), "VaultNotEmpty");
+
+      await h.sendOk([withdraw(LOCKED - ESCROWED)]);
+      await h.sendOk([close]);
+      expect(await h.accountData(setup.vault)).to.equal(null);
+      expect(await h.accountData(setup.vaultAta)).to.equal(null);
+    });
+  });
+});
+
+describe("vault-escrow with a Token-2022 transfer-fee mint", function () {
+  const FEE_BPS = 100; // 1%
+  let h: Harness;
+  let setup: Awaited<ReturnType<Harness["setupVault"]>>;
+
+  before(function () {
+    if (!programBuilt()) this.skip();
+  });
+
+  beforeEach(async () => {
+    h = await Harness.start();
+    setup = await h.setupVault({
+      minted: MINTED,
+      locked: LOCKED,
+      mint: { transferFee: { basisPoints: FEE_BPS, maxFee: MINTED } },
+    });
+  });
+
+  const fee = (amount: bigint) => (amount * BigInt(FEE_BPS)) / 10_000n;
+
+  it("derives the vault ATA under Token-2022 and withholds the fee on lock", async () => {
+    expect(setup.tokenProgram.equals(TOKEN_2022_PROGRAM_ID)).to.equal(true);
+    expect(setup.vaultAta.equals(deriveAta(setup.mint, setup.vault))).to.equal(
+      false
+    );
+    expect(await h.tokenBalance(setup.vaultAta)).to.equal(LOCKED - fee(LOCKED));
+  });
+
+  it("releases amount_locked from the vault and pays the seller net of the fee", async () => {
+    const { tokenProgram } = setup;
+    const seller = Keypair.generate().publicKey;
+    const deadline = (await h.now()) + HOUR;
+    await h.sendOk([
+      h.client.createTokenAccount({
+        payer: setup.buyer,
+        owner: seller,
+        mint: setup.mint,
+        tokenProgram,
+      }),
+      h.client.initEscrow({
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+        amount: ESCROWED,
+        deadlineUnixTs: deadline,
+        tokenProgram,
+      }),
+    ]);
+    const vaultBefore = await h.tokenBalance(setup.vaultAta);
+
+    await h.sendOk([
+      h.client.releaseToSeller({
+        buyer: setup.buyer,
+        seller,
+        mint: setup.mint,
+        tokenProgram,
+      }),
+    ]);
+
+    const { sellerAta } = h.client.escrowAddresses({
+      buyer: setup.buyer,
+      seller,
+      mint: setup.mint,
+      tokenProgram,
+    });
+    expect(await h.tokenBalance(sellerAta)).to.equal(ESCROWED - fee(ESCROWED));
+    expect(await h.tokenBalance(setup.vaultAta)).to.equal(
+      vaultBefore - ESCROWED
+    );
   });
 });
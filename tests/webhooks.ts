@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import { createHmac } from "crypto";
+
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookOptions,
+  deliver,
+} from "../scripts/lib/webhooks";
+
+interface Request {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// A fetch that answers with `statuses` in turn (an Error is thrown).
+function fakeFetch(statuses: (number | Error)[]) {
+  const requests: Request[] = [];
+  const fetch = (async (url: string, init: RequestInit) => {
+    requests.push({
+      url,
+      headers: init.headers as Record<string, string>,
+      body: init.body as string,
+    });
+    const next = statuses.shift() ?? 200;
+    if (next instanceof Error) throw next;
+    return new Response(null, { status: next });
+  }) as unknown as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+describe("webhooks", () => {
+  const URL = "https://example.test/hook";
+  const BODY = '{"type":"Released","id":"sig:0"}';
+  let sleeps: number[];
+
+  function options(
+    fetch: typeof globalThis.fetch,
+    extra: Partial<WebhookOptions> = {}
+  ): WebhookOptions {
+    return {
+      maxAttempts: 4,
+      retryDelayMs: 100,
+      timeoutMs: 1_000,
+      fetch,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+      },
+      now: () => 1_800_000_000_000,
+      ...extra,
+    };
+  }
+
+  beforeEach(() => {
+    sleeps = [];
+  });
+
+  it("signs the timestamp and body with the secret", async () => {
+    const { fetch, requests } = fakeFetch([204]);
+    const result = await deliver(
+      URL,
+      BODY,
+      { "X-Vault-Escrow-Event": "Released" },
+      options(fetch, { secret: "s3cret" })
+    );
+    expect(result).to.deep.equal({
+      url: URL,
+      ok: true,
+      attempts: 1,
+      status: 204,
+    });
+    const { headers, body } = requests[0];
+    expect(body).to.equal(BODY);
+    expect(headers["X-Vault-Escrow-Event"]).to.equal("Released");
+    expect(headers[TIMESTAMP_HEADER]).to.equal("1800000000");
+    const expected = createHmac("sha256", "s3cret")
+      .update(`1800000000.${BODY}`)
+      .digest("hex");
+    expect(headers[SIGNATURE_HEADER]).to.equal(`sha256=${expected}`);
+  });
+
+  it("sends no signature without a secret", async () => {
+    const { fetch, requests } = fakeFetch([200]);
+    await deliver(URL, BODY, {}, options(fetch));
+    expect(requests[0].headers).to.not.have.property(SIGNATURE_HEADER);
+  });
+
+  it("retries server errors and network failures with backoff", async () => {
+    const { fetch, requests } = fakeFetch([503, new Error("ECONNRESET"), 200]);
+    const result = await deliver(URL, BODY, {}, options(fetch));
+    expect(result.ok).to.equal(true);
+    expect(result.attempts).to.equal(3);
+    expect(requests).to.have.length(3);
+    expect(sleeps).to.deep.equal([100, 200]);
+  });
+
+  it("gives up on a client error without retrying", async () => {
+    const { fetch, requests } = fakeFetch([400]);
+    const result = await deliver(URL, BODY, {}, options(fetch));
+    expect(result).to.deep.include({ ok: false, attempts: 1, status: 400 });
+    expect(requests).to.have.length(1);
+  });
+
+  it("reports the last failure once attempts run out", async () => {
+    const { fetch } = fakeFetch([500, 500, 429, new Error("timeout")]);
+    const result = await deliver(URL, BODY, {}, options(fetch));
+    expect(result).to.deep.equal({
+      url: URL,
+      ok: false,
+      attempts: 4,
+      error: "timeout",
+    });
+  });
+});